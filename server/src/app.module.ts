@@ -21,6 +21,7 @@ import { CustomLogger } from './modules/logger/logger.service';
 import { MixinModule } from './modules/mixin/mixin.module';
 import { AdminController } from './modules/admin/admin.controller';
 import { EventListenersModule } from './modules/mixin/listeners/events.module';
+import { AutoInvestModule } from './modules/autoInvest/autoInvest.module';
 
 import { Trade } from './common/entities/trade.entity';
 import { Transaction } from './common/entities/transaction.entity';
@@ -48,8 +49,17 @@ import { CampaignModule } from './modules/campaign/campaign.module';
 import { Web3Module } from './modules/web3/web3.module';
 import { StrategyInstance } from './common/entities/strategy-instances.entity';
 import { ArbitrageHistory } from './common/entities/arbitrage-order.entity';
+import { TriangularArbitrageHistory } from './common/entities/triangular-arbitrage-order.entity';
 import { MarketMakingHistory } from './common/entities/mm-order.entity';
 import { Contribution } from './common/entities/contribution.entity';
+import { BacktestResult } from './common/entities/backtest-result.entity';
+import { AlgoChildOrder, AlgoOrder } from './common/entities/algo-order.entity';
+import { AutoInvestPlan } from './common/entities/auto-invest-plan.entity';
+import { StrategyFill } from './common/entities/strategy-fill.entity';
+import { PnlSnapshot } from './common/entities/pnl-snapshot.entity';
+import { StrategyEvent } from './common/entities/strategy-event.entity';
+import { StrategyParameterVersion } from './common/entities/strategy-parameter-version.entity';
+import { StrategySchedule } from './common/entities/strategy-schedule.entity';
 import {
   RebalanceToken,
   RebalanceExchange,
@@ -82,6 +92,7 @@ dotenv.config();
       entities: [
         Trade,
         ArbitrageHistory,
+        TriangularArbitrageHistory,
         MarketMakingHistory,
         StrategyInstance,
         Performance,
@@ -103,6 +114,15 @@ dotenv.config();
         ArbitrageOrder,
         MarketMakingOrder,
         PaymentState,
+        BacktestResult,
+        AlgoOrder,
+        AlgoChildOrder,
+        AutoInvestPlan,
+        StrategyFill,
+        PnlSnapshot,
+        StrategyEvent,
+        StrategyParameterVersion,
+        StrategySchedule,
       ],
       synchronize: false,
       ssl: process.env.POSTGRES_SSL === 'true',
@@ -122,6 +142,7 @@ dotenv.config();
     AdminModule,
     CampaignModule,
     Web3Module,
+    AutoInvestModule,
   ],
   controllers: [AppController, AdminController],
   providers: [CustomLogger],
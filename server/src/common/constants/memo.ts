@@ -5,6 +5,7 @@ export const TARDING_TYPE_MAP: Record<string, string> = {
   AR: 'Arbitrage',
   LE: 'Leverage',
   PE: 'Perpetual',
+  AI: 'Auto Invest',
 };
 
 export const SPOT_ORDER_TYPE_MAP: Record<string, string> = {
@@ -36,3 +37,9 @@ export const MARKET_MAKING_MEMO_ACTION_MAP: Record<string, string> = {
   DE: 'deposit',
   WI: 'withdraw',
 };
+
+// Decode memo for payment related actions, pause, cancel and withdraw are done through the auto invest endpoints
+export const AUTO_INVEST_MEMO_ACTION_MAP: Record<string, string> = {
+  CR: 'create',
+  DE: 'deposit',
+};
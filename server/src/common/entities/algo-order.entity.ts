@@ -0,0 +1,107 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { AlgoOrderStatus, AlgoOrderType } from 'src/common/types/trade/algo';
+
+@Entity('algo_orders')
+export class AlgoOrder {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column({ nullable: true })
+  clientId: string;
+
+  @Column()
+  exchange: string;
+
+  @Column({ default: 'default' })
+  accountLabel: string; // Exchange account the child orders are placed on
+
+  @Column()
+  symbol: string;
+
+  @Column()
+  side: string; // 'buy' or 'sell'
+
+  @Column()
+  algorithm: AlgoOrderType;
+
+  @Column('float')
+  totalAmount: number;
+
+  @Column('float', { default: 0 })
+  filledAmount: number;
+
+  @Column('float', { nullable: true })
+  averagePrice: number;
+
+  @Column('float', { nullable: true })
+  limitPrice: number; // Worst price a child order may execute at
+
+  @Column()
+  startTime: Date;
+
+  @Column()
+  endTime: Date;
+
+  @Column()
+  sliceIntervalSeconds: number;
+
+  @Column('float', { nullable: true })
+  participationRate: number; // Share of the market volume (pov)
+
+  @Column('json', { nullable: true })
+  volumeProfile: number[]; // Relative volume of equal buckets of the window (vwap)
+
+  @Column({ nullable: true })
+  lastSliceAt: Date;
+
+  @Column()
+  status: AlgoOrderStatus;
+
+  @Column({ nullable: true })
+  error: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
+
+@Entity('algo_child_orders')
+export class AlgoChildOrder {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  parentId: string;
+
+  @Column()
+  orderId: string; // The order ID from the exchange
+
+  @Column()
+  type: string; // 'market' or 'limit'
+
+  @Column('float')
+  amount: number;
+
+  @Column('float', { default: 0 })
+  filled: number;
+
+  @Column('float', { nullable: true })
+  price: number; // Average fill price, or the limit price while unfilled
+
+  @Column()
+  status: string; // 'open', 'closed', 'canceled'
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
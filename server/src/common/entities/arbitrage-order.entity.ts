@@ -41,4 +41,13 @@ export class ArbitrageHistory {
 
   @Column({ nullable: true })
   strategy: string; // 'arbitrage', 'market-making', etc.
+
+  @Column({ nullable: true })
+  legOutcome: string; // 'completed', 'canceled', 'unwound', 'reposted', 'unhedged'
+
+  @Column('float', { nullable: true })
+  slippage: number; // Cost of the orders repairing an unbalanced trade, in the quote currency
+
+  @Column('float', { nullable: true })
+  unhedgedAmount: number; // Base amount left unbalanced, negative when more was sold
 }
@@ -0,0 +1,68 @@
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { AutoInvestPlanStatus } from 'src/common/types/autoInvest/autoInvest';
+
+@Entity('auto_invest_plans')
+export class AutoInvestPlan {
+  @PrimaryColumn()
+  id: string; // Trace id of the transfer that created the plan
+
+  @Column()
+  userId: string; // Mixin user funding the plan
+
+  @Column()
+  exchangeName: string;
+
+  @Column()
+  pair: string; // Memo pair, e.g. BTC/USDT-ERC20
+
+  @Column()
+  symbol: string; // Exchange symbol, e.g. BTC/USDT
+
+  @Column()
+  assetId: string; // Mixin asset bought
+
+  @Column()
+  fundingAssetId: string; // Mixin asset the plan is funded with
+
+  @Column('float')
+  amount: number; // Funding asset spent per purchase
+
+  @Column()
+  frequencyHours: number;
+
+  @Column('float', { default: 0 })
+  balance: number; // Funding asset not spent yet
+
+  @Column('float', { default: 0 })
+  position: number; // Bought asset not withdrawn yet
+
+  @Column('float', { default: 0 })
+  totalInvested: number;
+
+  @Column('float', { default: 0 })
+  totalBought: number;
+
+  @Column()
+  status: AutoInvestPlanStatus;
+
+  @Column()
+  nextRunAt: Date;
+
+  @Column({ nullable: true })
+  lastRunAt: Date;
+
+  @Column({ nullable: true })
+  error: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { BacktestReport } from 'src/common/types/backtest/backtest';
+
+@Entity('backtest_results')
+export class BacktestResult {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  userId: string;
+
+  @Column({ nullable: true })
+  clientId: string;
+
+  @Column()
+  strategyType: string; // "pureMarketMaking" or "arbitrage"
+
+  @Column('json')
+  parameters: Record<string, any>;
+
+  @Column('float')
+  pnl: number;
+
+  @Column('float')
+  maxDrawdown: number;
+
+  @Column('float')
+  totalFees: number;
+
+  @Column()
+  numberOfFills: number;
+
+  @Column('json')
+  report: BacktestReport;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
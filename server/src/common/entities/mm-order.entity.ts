@@ -29,6 +29,9 @@ export class MarketMakingHistory {
   @Column()
   orderId: string; // The order ID from the exchange
 
+  @Column({ nullable: true })
+  clientOrderId: string; // The client order ID the strategy placed the order with
+
   @Column({ nullable: true })
   executedAt: Date;
 
@@ -0,0 +1,39 @@
+import { Entity, Column, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+// PnL of a strategy on a pair marked to the reference price at a point in time, amounts are in the quote currency
+@Entity('pnl_snapshots')
+export class PnlSnapshot {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  strategyKey: string;
+
+  @Column()
+  pair: string;
+
+  @Column('float')
+  position: number;
+
+  @Column('float')
+  averageCost: number;
+
+  @Column('float')
+  referencePrice: number;
+
+  @Column('float')
+  realizedPnl: number;
+
+  @Column('float')
+  unrealizedPnl: number;
+
+  @Column('float')
+  fees: number;
+
+  @Column('float')
+  netPnl: number;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  timestamp: Date;
+}
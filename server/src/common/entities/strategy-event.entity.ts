@@ -0,0 +1,38 @@
+import {
+  Entity,
+  Column,
+  Index,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity('strategy_events')
+export class StrategyEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  strategyKey: string;
+
+  @Column()
+  type: string; // "transition", "parameters" or "error"
+
+  @Column({ nullable: true })
+  fromStatus: string;
+
+  @Column({ nullable: true })
+  toStatus: string;
+
+  @Column({ nullable: true })
+  reason: string;
+
+  @Column()
+  actor: string; // "user", "admin", "risk" or "system"
+
+  @Column('json', { nullable: true })
+  details: Record<string, any>;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Entity, Column, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+@Entity('strategy_fills')
+export class StrategyFill {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  strategyKey: string;
+
+  @Column()
+  exchangeName: string;
+
+  @Column()
+  pair: string;
+
+  @Column()
+  side: string; // 'buy' or 'sell'
+
+  @Column('float')
+  amount: number;
+
+  @Column('float')
+  price: number;
+
+  @Column('float', { default: 0 })
+  fee: number; // In the quote currency
+
+  @Column('float', { default: 0 })
+  realizedPnl: number; // Realized by this fill, before fees
+
+  @Column({ nullable: true })
+  orderId: string;
+
+  @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+  executedAt: Date;
+}
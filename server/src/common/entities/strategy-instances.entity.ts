@@ -28,8 +28,11 @@ export class StrategyInstance {
   @Column('json')
   parameters: Record<string, any>;
 
+  @Column({ default: 'default' })
+  accountLabel: string; // Label of the exchange account the strategy trades on
+
   @Column()
-  status: string; // "running", "stopped", etc.
+  status: string; // StrategyStatus: "created", "starting", "running", "pausing", "paused", "stopping", "stopped", "errored" or "interrupted" (running at shutdown, resumed on boot)
 
   @OneToMany(() => Contribution, (contribution) => contribution.strategy)
   contributions: Contribution[];
@@ -0,0 +1,29 @@
+import {
+  Entity,
+  Column,
+  Index,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+} from 'typeorm';
+
+@Entity('strategy_parameter_versions')
+export class StrategyParameterVersion {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column()
+  strategyKey: string;
+
+  @Column()
+  version: number; // Starts at 1 for the parameters the strategy was created with
+
+  @Column('json')
+  parameters: Record<string, any>;
+
+  @Column()
+  actor: string; // "user", "admin" or "system"
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,36 @@
+import {
+  Entity,
+  Column,
+  Index,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('strategy_schedules')
+export class StrategySchedule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column()
+  strategyKey: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  endAt: Date | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  cronWindow: string | null; // Minutes the strategy runs in, e.g. "* 9-17 * * 1-5" (UTC)
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
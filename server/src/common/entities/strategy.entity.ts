@@ -82,6 +82,42 @@ export class MarketMakingOrder {
   @Column()
   floorPrice?: string;
 
+  @Column({ nullable: true })
+  refreshMode?: 'replace' | 'diff';
+
+  @Column({ nullable: true })
+  priceTolerance?: string;
+
+  @Column({ nullable: true })
+  amountTolerance?: string;
+
+  @Column({ nullable: true })
+  hangingOrdersEnabled?: boolean;
+
+  @Column({ nullable: true })
+  hangingOrderTimeout?: string;
+
+  @Column({ nullable: true })
+  referenceExchangeName?: string;
+
+  @Column({ nullable: true })
+  referencePair?: string;
+
+  @Column('json', { nullable: true })
+  indexExchangeNames?: string[];
+
+  @Column({ nullable: true })
+  coingeckoId?: string;
+
+  @Column({ nullable: true })
+  coingeckoCurrency?: string;
+
+  @Column({ nullable: true })
+  maxPriceAge?: string;
+
+  @Column('json', { nullable: true })
+  fallbackPriceSourceTypes?: PriceSourceType[];
+
   @Column({ nullable: true })
   balanceA?: string;
 
@@ -38,6 +38,15 @@ export class Trade {
   @Column()
   orderId: string; // Unique identifier for the order
 
+  @Column({ nullable: true })
+  clientOrderId: string; // Client order id the order was placed with, identifies the strategy that placed it
+
+  @Column({ nullable: true })
+  exchange: string; // Exchange the order was placed on
+
+  @Column({ default: 'default' })
+  accountLabel: string; // Label of the exchange account the order was placed on
+
   @CreateDateColumn()
   createdAt: Date; // When the transaction was created
 
@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column } from 'typeorm';
+
+export type TriangularArbitrageLegRecord = {
+  symbol: string;
+  side: 'buy' | 'sell';
+  amount: number; // Base amount of the leg
+  expectedPrice: number;
+  price?: number;
+  orderId?: string;
+  status: 'filled' | 'failed' | 'skipped' | 'unwind';
+  error?: string;
+};
+
+@Entity()
+export class TriangularArbitrageHistory {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: string;
+
+  @Column({ nullable: true })
+  clientId: string;
+
+  @Column()
+  exchange: string;
+
+  @Column()
+  cycle: string; // e.g. 'USDT>BTC>ETH>USDT'
+
+  @Column('float')
+  startAmount: number;
+
+  @Column('float', { nullable: true })
+  endAmount: number;
+
+  @Column('float', { nullable: true })
+  expectedProfit: number;
+
+  @Column('float', { nullable: true })
+  profit: number;
+
+  @Column('json')
+  legs: TriangularArbitrageLegRecord[];
+
+  @Column({ nullable: true })
+  executedAt: Date;
+
+  @Column({ nullable: true })
+  status: string; // 'closed', 'failed', 'unwound', 'stuck'
+
+  @Column({ nullable: true })
+  strategy: string;
+}
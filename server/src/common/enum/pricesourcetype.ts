@@ -3,4 +3,8 @@ export enum PriceSourceType {
   BEST_ASK = 'best_ask',
   BEST_BID = 'best_bid',
   LAST_PRICE = 'last_price',
+  MICROPRICE = 'microprice',
+  EXTERNAL_EXCHANGE = 'external_exchange',
+  VOLUME_WEIGHTED_INDEX = 'volume_weighted_index',
+  COINGECKO = 'coingecko',
 }
@@ -1,5 +1,6 @@
 import {
   decodeArbitrageMemo,
+  decodeAutoInvestMemo,
   decodeMarketMakingMemo,
   decodeSpotMemo,
 } from './memo';
@@ -133,3 +134,26 @@ describe('decodeMarketMakingMemo', () => {
     expect(result).toBeNull();
   });
 });
+
+describe('decodeAutoInvestMemo', () => {
+  it('should decode a valid auto invest memo correctly', () => {
+    const decodedMemo =
+      'AI:CR:03:Z7GC:100:168:b0177350-ae29-43ec-a26e-d46f821e416e';
+    const result = decodeAutoInvestMemo(decodedMemo);
+    expect(result).toEqual({
+      tradingType: 'Auto Invest',
+      action: 'create',
+      exchangeName: 'mexc',
+      symbol: 'BTC/USDT-ERC20',
+      amount: '100',
+      frequencyHours: 168,
+      traceId: 'b0177350-ae29-43ec-a26e-d46f821e416e',
+    });
+  });
+
+  it('should return null for invalid memo format', () => {
+    expect(decodeAutoInvestMemo('')).toBeNull();
+    expect(decodeAutoInvestMemo('AI:CR:03:Z7GC:100')).toBeNull();
+    expect(decodeAutoInvestMemo('AI:CR:03:9999:100:24:trace')).toBeNull();
+  });
+});
@@ -3,10 +3,13 @@ import {
   SPOT_ORDER_TYPE_MAP,
   SPOT_EXCHANGE_MAP,
   ARBITRAGE_MEMO_ACTION_MAP,
+  AUTO_INVEST_MEMO_ACTION_MAP,
   MARKET_MAKING_MEMO_ACTION_MAP,
 } from 'src/common/constants/memo';
 import {
   ArbitrageMemoDetails,
+  AutoInvestMemoActionValueType,
+  AutoInvestMemoDetails,
   ExchangeIndexValue,
   MarketMakingMemoActionValueType,
   MarketMakingMemoDetails,
@@ -93,3 +96,39 @@ export const decodeMarketMakingMemo = (
     traceId,
   };
 };
+
+export const decodeAutoInvestMemo = (
+  decodedMemo: string,
+): AutoInvestMemoDetails => {
+  if (!decodedMemo) {
+    return null;
+  }
+  const parts = decodedMemo.split(':');
+  if (parts.length !== 7) {
+    return null;
+  }
+  const [
+    tradingType,
+    action,
+    exchangeIndex,
+    destId,
+    amount,
+    frequencyHours,
+    traceId,
+  ] = parts;
+  const symbol = getPairSymbolByKey(destId as PairsMapKey);
+  if (!symbol) {
+    return null;
+  }
+  return {
+    tradingType: TARDING_TYPE_MAP[tradingType] as TradingTypeValue,
+    action: AUTO_INVEST_MEMO_ACTION_MAP[
+      action
+    ] as AutoInvestMemoActionValueType,
+    exchangeName: SPOT_EXCHANGE_MAP[exchangeIndex] as ExchangeIndexValue,
+    symbol: symbol as PairsMapValue,
+    amount,
+    frequencyHours: Number(frequencyHours),
+    traceId,
+  };
+};
@@ -0,0 +1,52 @@
+import {
+  applyFillToInventory,
+  calculateUnrealizedPnl,
+  createInventory,
+  getInventoryAverageCost,
+  getInventoryPosition,
+  getQuoteFee,
+} from './pnl';
+
+describe('pnl inventory', () => {
+  it('closes the oldest lots first with FIFO', () => {
+    const inventory = createInventory('fifo', 'binance');
+    applyFillToInventory(inventory, 'buy', 1, 100);
+    applyFillToInventory(inventory, 'buy', 1, 120);
+
+    expect(applyFillToInventory(inventory, 'sell', 1.5, 130)).toBe(35);
+    expect(inventory.lots).toEqual([{ amount: 0.5, price: 120 }]);
+    expect(calculateUnrealizedPnl(inventory, 110)).toBe(-5);
+  });
+
+  it('closes against the average cost with the average method', () => {
+    const inventory = createInventory('average', 'binance');
+    applyFillToInventory(inventory, 'buy', 1, 100);
+    applyFillToInventory(inventory, 'buy', 1, 120);
+
+    expect(applyFillToInventory(inventory, 'sell', 1.5, 130)).toBe(30);
+    expect(getInventoryPosition(inventory)).toBe(0.5);
+    expect(getInventoryAverageCost(inventory)).toBe(110);
+  });
+
+  it('flips to a short position with the rest of a fill', () => {
+    const inventory = createInventory('fifo', 'binance');
+    applyFillToInventory(inventory, 'buy', 1, 100);
+
+    expect(applyFillToInventory(inventory, 'sell', 3, 90)).toBe(-10);
+    expect(inventory.lots).toEqual([{ amount: -2, price: 90 }]);
+    expect(applyFillToInventory(inventory, 'buy', 1, 80)).toBe(10);
+    expect(inventory.realizedPnl).toBe(0);
+    expect(calculateUnrealizedPnl(inventory, 100)).toBe(-10);
+  });
+
+  it('converts fees to the quote currency', () => {
+    expect(getQuoteFee({ cost: 0.2, currency: 'USDT' }, 'BTC/USDT', 100)).toBe(
+      0.2,
+    );
+    expect(getQuoteFee({ cost: 0.002, currency: 'BTC' }, 'BTC/USDT', 100)).toBe(
+      0.2,
+    );
+    expect(getQuoteFee({ cost: 1, currency: 'BNB' }, 'BTC/USDT', 100)).toBe(0);
+    expect(getQuoteFee(undefined, 'BTC/USDT', 100)).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  CostBasisMethod,
+  InventoryLot,
+  PnlInventory,
+} from 'src/common/types/performance/pnl';
+
+// Amounts below this are float dust left by partial closes
+const DUST = 1e-12;
+
+export const createInventory = (
+  method: CostBasisMethod,
+  exchangeName: string,
+): PnlInventory => ({
+  method,
+  lots: [],
+  realizedPnl: 0,
+  fees: 0,
+  exchangeName,
+});
+
+// Closes the oldest lots of the other side first and opens a lot with the rest, returns the PnL realized before fees
+export const applyFillToInventory = (
+  inventory: PnlInventory,
+  side: 'buy' | 'sell',
+  amount: number,
+  price: number,
+): number => {
+  const sign = side === 'buy' ? 1 : -1;
+  let remaining = amount;
+  let realizedPnl = 0;
+
+  while (
+    remaining > DUST &&
+    inventory.lots.length > 0 &&
+    Math.sign(inventory.lots[0].amount) === -sign
+  ) {
+    const lot = inventory.lots[0];
+    const closed = Math.min(remaining, Math.abs(lot.amount));
+    realizedPnl += closed * (price - lot.price) * Math.sign(lot.amount);
+    lot.amount += sign * closed;
+    remaining -= closed;
+    if (Math.abs(lot.amount) <= DUST) {
+      inventory.lots.shift();
+    }
+  }
+
+  if (remaining > DUST) {
+    const lot: InventoryLot = inventory.lots[0];
+    if (inventory.method === 'average' && lot) {
+      const position = lot.amount + sign * remaining;
+      lot.price =
+        (Math.abs(lot.amount) * lot.price + remaining * price) /
+        Math.abs(position);
+      lot.amount = position;
+    } else {
+      inventory.lots.push({ amount: sign * remaining, price });
+    }
+  }
+
+  inventory.realizedPnl += realizedPnl;
+  return realizedPnl;
+};
+
+export const getInventoryPosition = (inventory: PnlInventory): number => {
+  return inventory.lots.reduce((total, lot) => total + lot.amount, 0);
+};
+
+export const getInventoryAverageCost = (inventory: PnlInventory): number => {
+  const amount = inventory.lots.reduce(
+    (total, lot) => total + Math.abs(lot.amount),
+    0,
+  );
+  const cost = inventory.lots.reduce(
+    (total, lot) => total + Math.abs(lot.amount) * lot.price,
+    0,
+  );
+  return amount > 0 ? cost / amount : 0;
+};
+
+export const calculateUnrealizedPnl = (
+  inventory: PnlInventory,
+  referencePrice: number,
+): number => {
+  return inventory.lots.reduce(
+    (total, lot) => total + lot.amount * (referencePrice - lot.price),
+    0,
+  );
+};
+
+// Fee of a fill in the quote currency, fees paid in other currencies than the pair's aren't counted
+export const getQuoteFee = (
+  fee: { cost?: number; currency?: string } | undefined,
+  pair: string,
+  price: number,
+): number => {
+  if (!fee?.cost) {
+    return 0;
+  }
+  const [base, quote] = pair.split('/');
+  if (!fee.currency || fee.currency === quote) {
+    return fee.cost;
+  }
+  return fee.currency === base ? fee.cost * price : 0;
+};
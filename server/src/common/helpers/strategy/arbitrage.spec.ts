@@ -0,0 +1,166 @@
+import {
+  calculateArbitrageCostBreakdown,
+  calculateLegSlippage,
+  evaluateArbitrageRoutes,
+  findArbitrageOpportunityVWAP,
+  getArbitrageExchangeNames,
+  selectArbitrageRoute,
+  summarizeArbitrageLegs,
+} from './arbitrage';
+import { ArbitrageLeg } from 'src/common/types/strategy/strategy';
+
+const leg = (
+  side: 'buy' | 'sell',
+  filled: number,
+  averagePrice: number,
+  fee = 0,
+): ArbitrageLeg => ({
+  exchangeName: 'binance',
+  side,
+  amount: 1,
+  price: averagePrice,
+  filled,
+  averagePrice,
+  fee,
+  status: 'closed',
+});
+
+describe('arbitrage legs', () => {
+  it('only counts the matched amount towards the profit', () => {
+    expect(
+      summarizeArbitrageLegs([leg('buy', 1, 100, 0.5), leg('sell', 0.4, 110)]),
+    ).toEqual({
+      bought: 1,
+      sold: 0.4,
+      imbalance: 0.6,
+      buyPrice: 100,
+      sellPrice: 110,
+      profit: 3.5,
+    });
+  });
+
+  it('averages the prices of the legs and repair orders on each side', () => {
+    const summary = summarizeArbitrageLegs([
+      leg('buy', 1, 100),
+      leg('sell', 0.7, 110),
+      leg('sell', 0.3, 90),
+    ]);
+
+    expect(summary.imbalance).toBe(0);
+    expect(summary.sellPrice).toBeCloseTo(104);
+    expect(summary.profit).toBeCloseTo(4);
+  });
+
+  it('measures the slippage of a leg against its expected price', () => {
+    expect(calculateLegSlippage(leg('sell', 0.5, 98), 100)).toBe(1);
+    expect(calculateLegSlippage(leg('buy', 0.5, 98), 100)).toBe(-1);
+  });
+});
+
+describe('arbitrage costs', () => {
+  const orderBookA = { bids: [[99, 10]], asks: [[100, 10]] };
+  const orderBookB = { bids: [[101, 10]], asks: [[102, 10]] };
+
+  it('nets the gross profit of the fees and the amortized rebalance', () => {
+    expect(
+      calculateArbitrageCostBreakdown(100, 101, 2, 0.001, 0.002, {
+        baseWithdrawalFee: 0.01,
+        quoteWithdrawalFee: 1,
+        transferCostTrades: 4,
+      }),
+    ).toEqual({
+      buyPrice: 100,
+      sellPrice: 101,
+      amount: 2,
+      grossProfit: 2,
+      buyFee: 0.2,
+      sellFee: 0.404,
+      transferCost: 0.5,
+      netProfit: expect.closeTo(0.896),
+      netProfitability: expect.closeTo(0.00448),
+    });
+  });
+
+  it('only finds opportunities that stay profitable after the costs', () => {
+    expect(
+      findArbitrageOpportunityVWAP(orderBookA, orderBookB, 1, 0.009),
+    ).toMatchObject({ direction: 'AtoB', buyPrice: 100, sellPrice: 101 });
+    expect(
+      findArbitrageOpportunityVWAP(orderBookA, orderBookB, 1, 0.009, {
+        feeRateA: 0.001,
+        feeRateB: 0.001,
+      }),
+    ).toBeNull();
+  });
+
+  it('routes between the pair of venues with the highest net spread', () => {
+    const venues = [
+      { exchangeName: 'binance', orderBook: orderBookA, feeRate: 0.001 },
+      { exchangeName: 'mexc', orderBook: orderBookB, feeRate: 0.001 },
+      {
+        exchangeName: 'okx',
+        orderBook: { bids: [[103, 10]], asks: [[104, 10]] },
+        feeRate: 0.001,
+      },
+    ];
+    const routes = evaluateArbitrageRoutes(venues, 1);
+
+    expect(routes).toHaveLength(6);
+    expect(selectArbitrageRoute(routes, 0.01)).toMatchObject({
+      buyExchangeName: 'binance',
+      sellExchangeName: 'okx',
+      breakdown: { buyPrice: 100, sellPrice: 103 },
+    });
+  });
+
+  it('sizes a route to the balances of its venues', () => {
+    const [route] = evaluateArbitrageRoutes(
+      [
+        {
+          exchangeName: 'binance',
+          orderBook: orderBookA,
+          feeRate: 0,
+          quoteBalance: 50,
+        },
+        {
+          exchangeName: 'mexc',
+          orderBook: orderBookB,
+          feeRate: 0,
+          baseBalance: 0.8,
+        },
+      ],
+      1,
+    );
+
+    expect(route.breakdown.amount).toBe(0.5);
+    expect(
+      evaluateArbitrageRoutes(
+        [
+          { exchangeName: 'binance', orderBook: orderBookA, feeRate: 0 },
+          {
+            exchangeName: 'mexc',
+            orderBook: orderBookB,
+            feeRate: 0,
+            baseBalance: 0,
+          },
+        ],
+        1,
+      ).map(({ buyExchangeName }) => buyExchangeName),
+    ).toEqual(['mexc']);
+  });
+
+  it('falls back to exchange A and B without a list of exchanges', () => {
+    expect(
+      getArbitrageExchangeNames({
+        exchangeAName: 'binance',
+        exchangeBName: 'mexc',
+      }),
+    ).toEqual(['binance', 'mexc']);
+    expect(
+      getArbitrageExchangeNames({
+        exchangeNames: ['okx', 'binance', 'okx'],
+        exchangeAName: 'binance',
+      }),
+    ).toEqual(['okx', 'binance']);
+  });
+});
@@ -0,0 +1,261 @@
+import { OrderBookLevels } from './marketMaking';
+import {
+  ArbitrageCostBreakdown,
+  ArbitrageCosts,
+  ArbitrageLeg,
+  ArbitrageRoute,
+  ArbitrageTransferCosts,
+  ArbitrageVenue,
+} from 'src/common/types/strategy/strategy';
+
+export interface ArbitrageOpportunity {
+  // 'AtoB' buys on exchange A and sells on exchange B
+  direction: 'AtoB' | 'BtoA';
+  buyPrice: number;
+  sellPrice: number;
+  vwapA: number;
+  vwapB: number;
+  breakdown: ArbitrageCostBreakdown;
+}
+
+export const NO_ARBITRAGE_COSTS: ArbitrageCosts = { feeRateA: 0, feeRateB: 0 };
+
+export const calculateVWAPForAmount = (
+  orderBook: OrderBookLevels,
+  amountToTrade: number,
+  direction: 'buy' | 'sell',
+): number => {
+  let volumeAccumulated = 0;
+  let volumePriceProductSum = 0;
+  let orderList = [];
+
+  // Determine whether to use asks or bids based on the trade direction
+  if (direction === 'buy') {
+    // When buying, we look at the asks as we want to know the price we'll buy at
+    orderList = orderBook.asks;
+  } else if (direction === 'sell') {
+    // When selling, we look at the bids as we want to know the price we'll sell at
+    orderList = orderBook.bids;
+  }
+
+  for (const [price, volume] of orderList) {
+    const volumeToUse = Math.min(volume, amountToTrade - volumeAccumulated);
+    volumePriceProductSum += volumeToUse * price;
+    volumeAccumulated += volumeToUse;
+    if (volumeAccumulated >= amountToTrade) break;
+  }
+
+  return volumeAccumulated > 0 ? volumePriceProductSum / volumeAccumulated : 0;
+};
+
+// Nets the gross profit of buying at one price and selling at the other of the trading fees and the amortized rebalance
+export const calculateArbitrageCostBreakdown = (
+  buyPrice: number,
+  sellPrice: number,
+  amount: number,
+  buyFeeRate: number,
+  sellFeeRate: number,
+  transferCosts: ArbitrageTransferCosts = {},
+): ArbitrageCostBreakdown => {
+  const grossProfit = (sellPrice - buyPrice) * amount;
+  const buyFee = buyPrice * amount * buyFeeRate;
+  const sellFee = sellPrice * amount * sellFeeRate;
+  // One rebalance moves the base and the quote back, its withdrawal fees are spread over the trades between rebalances
+  const transferCost =
+    transferCosts.transferCostTrades > 0
+      ? ((transferCosts.baseWithdrawalFee || 0) * buyPrice +
+          (transferCosts.quoteWithdrawalFee || 0)) /
+        transferCosts.transferCostTrades
+      : 0;
+  const netProfit = grossProfit - buyFee - sellFee - transferCost;
+  return {
+    buyPrice,
+    sellPrice,
+    amount,
+    grossProfit,
+    buyFee,
+    sellFee,
+    transferCost,
+    netProfit,
+    netProfitability: buyPrice > 0 ? netProfit / (buyPrice * amount) : 0,
+  };
+};
+
+// Breaks down the costs of buying on every venue and selling on every other one, sized to what the balances allow
+export const evaluateArbitrageRoutes = (
+  venues: ArbitrageVenue[],
+  amountToTrade: number,
+  transferCosts: ArbitrageTransferCosts = {},
+): ArbitrageRoute[] => {
+  const routes: ArbitrageRoute[] = [];
+  for (const buyVenue of venues) {
+    for (const sellVenue of venues) {
+      if (buyVenue === sellVenue) {
+        continue;
+      }
+      let amount = Math.min(amountToTrade, sellVenue.baseBalance ?? Infinity);
+      let buyPrice = calculateVWAPForAmount(buyVenue.orderBook, amount, 'buy');
+      const buyCost = buyPrice * amount * (1 + buyVenue.feeRate);
+      if (buyVenue.quoteBalance != null && buyCost > buyVenue.quoteBalance) {
+        // The VWAP of a smaller amount is never higher, so the smaller buy stays affordable
+        amount = buyVenue.quoteBalance / (buyPrice * (1 + buyVenue.feeRate));
+        buyPrice = calculateVWAPForAmount(buyVenue.orderBook, amount, 'buy');
+      }
+      const sellPrice = calculateVWAPForAmount(
+        sellVenue.orderBook,
+        amount,
+        'sell',
+      );
+      if (!(amount > 0) || !(buyPrice > 0) || !(sellPrice > 0)) {
+        continue;
+      }
+      routes.push({
+        buyExchangeName: buyVenue.exchangeName,
+        sellExchangeName: sellVenue.exchangeName,
+        breakdown: calculateArbitrageCostBreakdown(
+          buyPrice,
+          sellPrice,
+          amount,
+          buyVenue.feeRate,
+          sellVenue.feeRate,
+          transferCosts,
+        ),
+      });
+    }
+  }
+  return routes;
+};
+
+// Returns the route with the highest net profitability that reaches the threshold, or null
+export const selectArbitrageRoute = (
+  routes: ArbitrageRoute[],
+  minProfitability: number,
+): ArbitrageRoute | null => {
+  return routes.reduce(
+    (best, route) =>
+      route.breakdown.netProfitability >= minProfitability &&
+      (!best ||
+        route.breakdown.netProfitability > best.breakdown.netProfitability)
+        ? route
+        : best,
+    null,
+  );
+};
+
+// Compares the VWAP of both books net of the costs and returns the direction to trade, or null
+export const findArbitrageOpportunityVWAP = (
+  orderBookA: OrderBookLevels,
+  orderBookB: OrderBookLevels,
+  amountToTrade: number,
+  minProfitability: number,
+  costs: ArbitrageCosts = NO_ARBITRAGE_COSTS,
+): ArbitrageOpportunity | null => {
+  const route = selectArbitrageRoute(
+    evaluateArbitrageRoutes(
+      [
+        { exchangeName: 'A', orderBook: orderBookA, feeRate: costs.feeRateA },
+        { exchangeName: 'B', orderBook: orderBookB, feeRate: costs.feeRateB },
+      ],
+      amountToTrade,
+      costs,
+    ),
+    minProfitability,
+  );
+  if (!route) {
+    return null;
+  }
+  const { buyPrice, sellPrice } = route.breakdown;
+  const direction = route.buyExchangeName === 'A' ? 'AtoB' : 'BtoA';
+  return {
+    direction,
+    buyPrice,
+    sellPrice,
+    vwapA: direction === 'AtoB' ? buyPrice : sellPrice,
+    vwapB: direction === 'AtoB' ? sellPrice : buyPrice,
+    breakdown: route.breakdown,
+  };
+};
+
+export const formatArbitrageRoute = (route: ArbitrageRoute): string => {
+  const {
+    buyPrice,
+    sellPrice,
+    amount,
+    grossProfit,
+    buyFee,
+    sellFee,
+    transferCost,
+    netProfit,
+    netProfitability,
+  } = route.breakdown;
+  return `buy ${amount} on ${route.buyExchangeName} at ${buyPrice}, sell on ${
+    route.sellExchangeName
+  } at ${sellPrice}, gross ${grossProfit}, buy fee ${buyFee}, sell fee ${sellFee}, transfer cost ${transferCost}, net ${netProfit} (${(
+    netProfitability * 100
+  ).toFixed(4)}%)`;
+};
+
+// Exchanges an arbitrage routes between, the list when given, otherwise exchange A and B
+export const getArbitrageExchangeNames = (params: {
+  exchangeNames?: string[];
+  exchangeAName?: string;
+  exchangeBName?: string;
+}): string[] => {
+  const exchangeNames = params.exchangeNames?.length
+    ? params.exchangeNames
+    : [params.exchangeAName, params.exchangeBName];
+  return Array.from(new Set(exchangeNames.filter(Boolean)));
+};
+
+export interface ArbitrageLegsSummary {
+  bought: number;
+  sold: number;
+  imbalance: number; // Base amount bought and not sold, negative when more was sold
+  buyPrice: number;
+  sellPrice: number;
+  profit: number;
+}
+
+// Sums the fills of the legs of an arbitrage, the profit only counts the matched amount
+export const summarizeArbitrageLegs = (
+  legs: ArbitrageLeg[],
+): ArbitrageLegsSummary => {
+  let bought = 0;
+  let buyCost = 0;
+  let sold = 0;
+  let sellProceeds = 0;
+  let fees = 0;
+  for (const leg of legs) {
+    if (leg.side === 'buy') {
+      bought += leg.filled;
+      buyCost += leg.filled * leg.averagePrice;
+    } else {
+      sold += leg.filled;
+      sellProceeds += leg.filled * leg.averagePrice;
+    }
+    fees += leg.fee;
+  }
+
+  // Ignore the float dust partial fills leave behind
+  const imbalance = Math.abs(bought - sold) < 1e-9 ? 0 : bought - sold;
+  const buyPrice = bought > 0 ? buyCost / bought : 0;
+  const sellPrice = sold > 0 ? sellProceeds / sold : 0;
+  return {
+    bought,
+    sold,
+    imbalance,
+    buyPrice,
+    sellPrice,
+    profit: Math.min(bought, sold) * (sellPrice - buyPrice) - fees,
+  };
+};
+
+// Cost of filling a leg away from the price it was expected at, in the quote currency
+export const calculateLegSlippage = (
+  leg: ArbitrageLeg,
+  expectedPrice: number,
+): number => {
+  return leg.side === 'buy'
+    ? (leg.averagePrice - expectedPrice) * leg.filled
+    : (expectedPrice - leg.averagePrice) * leg.filled;
+};
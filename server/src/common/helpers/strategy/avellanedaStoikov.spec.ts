@@ -0,0 +1,64 @@
+import {
+  calculateInventoryQuote,
+  calculateInventoryRatio,
+  calculateStrategyInventory,
+  calculateVolatility,
+} from './avellanedaStoikov';
+
+describe('avellanedaStoikov helpers', () => {
+  const baseParams = {
+    midPrice: 100,
+    targetInventoryRatio: 0.5,
+    orderAmount: 1,
+    riskAversion: 0.5,
+    orderBookDepth: 1.5,
+    volatility: 2,
+  };
+
+  it('measures volatility as the deviation of price changes', () => {
+    expect(calculateVolatility([100])).toBe(0);
+    expect(calculateVolatility([100, 101, 102, 103])).toBe(0);
+    expect(calculateVolatility([100, 102, 100, 102])).toBeCloseTo(1.8856, 4);
+  });
+
+  it('computes the inventory ratio by value', () => {
+    expect(calculateInventoryRatio(1, 100, 100)).toBe(0.5);
+    expect(calculateInventoryRatio(0, 0, 100)).toBe(0);
+  });
+
+  it('moves the allocated inventory by the fills of the strategy', () => {
+    expect(
+      calculateStrategyInventory({ baseBalance: 10, quoteBalance: 1000 }, [
+        { side: 'buy', amount: 2, price: 100, fee: 0.2 },
+        { side: 'sell', amount: 1, price: 110, fee: 0.11 },
+      ]),
+    ).toEqual({ baseBalance: 11, quoteBalance: 1000 - 200 - 0.2 + 110 - 0.11 });
+  });
+
+  it('quotes symmetrically around the mid price at the target inventory', () => {
+    const quote = calculateInventoryQuote({
+      ...baseParams,
+      baseBalance: 10,
+      quoteBalance: 1000,
+    });
+
+    expect(quote.inventoryDeviation).toBe(0);
+    expect(quote.reservationPrice).toBe(100);
+    expect(quote.askPrice - 100).toBeCloseTo(100 - quote.bidPrice);
+    expect(quote.optimalSpread).toBeCloseTo(
+      0.5 * 4 + (2 / 0.5) * Math.log(1 + 0.5 / 1.5),
+    );
+  });
+
+  it('skews quotes down when holding too much base', () => {
+    const quote = calculateInventoryQuote({
+      ...baseParams,
+      baseBalance: 14,
+      quoteBalance: 600,
+    });
+
+    expect(quote.inventoryDeviation).toBe(4);
+    expect(quote.reservationPrice).toBe(100 - 4 * 0.5 * 4);
+    expect(quote.askPrice).toBeLessThan(100 + quote.optimalSpread / 2);
+  });
+});
@@ -0,0 +1,107 @@
+export interface InventoryQuoteParams {
+  midPrice: number;
+  baseBalance: number;
+  quoteBalance: number;
+  targetInventoryRatio: number; // Share of the portfolio value to hold in base, 0 to 1
+  orderAmount: number;
+  riskAversion: number; // gamma
+  orderBookDepth: number; // kappa, order book liquidity factor
+  volatility: number; // Standard deviation of the mid price changes
+}
+
+export interface StrategyInventory {
+  baseBalance: number;
+  quoteBalance: number;
+}
+
+export interface InventoryQuote {
+  inventoryRatio: number;
+  inventoryDeviation: number; // q, in units of orderAmount
+  reservationPrice: number;
+  optimalSpread: number;
+  bidPrice: number;
+  askPrice: number;
+}
+
+// Standard deviation of consecutive price changes, in price units
+export const calculateVolatility = (prices: number[]): number => {
+  if (prices.length < 2) {
+    return 0;
+  }
+  const changes = prices.slice(1).map((price, i) => price - prices[i]);
+  const mean =
+    changes.reduce((sum, change) => sum + change, 0) / changes.length;
+  const variance =
+    changes.reduce((sum, change) => sum + (change - mean) ** 2, 0) /
+    changes.length;
+  return Math.sqrt(variance);
+};
+
+// Inventory allocated to a strategy moved by its own fills, fees are paid in quote
+export const calculateStrategyInventory = (
+  allocation: StrategyInventory,
+  fills: { side: string; amount: number; price: number; fee?: number }[],
+): StrategyInventory =>
+  fills.reduce(
+    ({ baseBalance, quoteBalance }, { side, amount, price, fee }) => {
+      const direction = side === 'buy' ? 1 : -1;
+      return {
+        baseBalance: baseBalance + direction * amount,
+        quoteBalance: quoteBalance - direction * amount * price - (fee || 0),
+      };
+    },
+    allocation,
+  );
+
+// Current share of the portfolio value held in base
+export const calculateInventoryRatio = (
+  baseBalance: number,
+  quoteBalance: number,
+  midPrice: number,
+): number => {
+  const baseValue = baseBalance * midPrice;
+  const totalValue = baseValue + quoteBalance;
+  return totalValue > 0 ? baseValue / totalValue : 0;
+};
+
+// Avellaneda–Stoikov quotes with an infinite horizon (T - t = 1):
+// r = s - q * gamma * sigma^2
+// delta = gamma * sigma^2 + (2 / gamma) * ln(1 + gamma / kappa)
+export const calculateInventoryQuote = (
+  params: InventoryQuoteParams,
+): InventoryQuote => {
+  const {
+    midPrice,
+    baseBalance,
+    quoteBalance,
+    targetInventoryRatio,
+    orderAmount,
+    riskAversion,
+    orderBookDepth,
+    volatility,
+  } = params;
+
+  const totalBase = baseBalance + quoteBalance / midPrice;
+  const targetBase = totalBase * targetInventoryRatio;
+  const inventoryDeviation = (baseBalance - targetBase) / orderAmount;
+  const variance = volatility ** 2;
+
+  const reservationPrice =
+    midPrice - inventoryDeviation * riskAversion * variance;
+  const optimalSpread =
+    riskAversion * variance +
+    (2 / riskAversion) * Math.log(1 + riskAversion / orderBookDepth);
+
+  return {
+    inventoryRatio: calculateInventoryRatio(
+      baseBalance,
+      quoteBalance,
+      midPrice,
+    ),
+    inventoryDeviation,
+    reservationPrice,
+    optimalSpread,
+    bidPrice: reservationPrice - optimalSpread / 2,
+    askPrice: reservationPrice + optimalSpread / 2,
+  };
+};
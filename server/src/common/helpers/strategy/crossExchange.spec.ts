@@ -0,0 +1,40 @@
+import { calculateHedgeQuotes, calculateHedgeSlippage } from './crossExchange';
+
+describe('crossExchange helpers', () => {
+  const hedgeOrderBook = {
+    bids: [
+      [100, 1],
+      [99, 1],
+    ],
+    asks: [
+      [101, 1],
+      [102, 1],
+    ],
+  };
+
+  it('prices maker quotes off the hedge VWAP plus the margin', () => {
+    const quotes = calculateHedgeQuotes(hedgeOrderBook, 2, 0.01);
+
+    expect(quotes.hedgeSellPrice).toBe(99.5);
+    expect(quotes.hedgeBuyPrice).toBe(101.5);
+    expect(quotes.bidPrice).toBeCloseTo(99.5 * 0.99);
+    expect(quotes.askPrice).toBeCloseTo(101.5 * 1.01);
+  });
+
+  it('skips a side without hedge liquidity', () => {
+    const quotes = calculateHedgeQuotes(
+      { bids: [], asks: hedgeOrderBook.asks },
+      1,
+      0.01,
+    );
+
+    expect(quotes.bidPrice).toBeNull();
+    expect(quotes.askPrice).toBeCloseTo(101 * 1.01);
+  });
+
+  it('reports positive slippage when the hedge filled worse', () => {
+    expect(calculateHedgeSlippage('sell', 100, 99)).toBeCloseTo(0.01);
+    expect(calculateHedgeSlippage('buy', 100, 101)).toBeCloseTo(0.01);
+    expect(calculateHedgeSlippage('buy', 100, 99)).toBeCloseTo(-0.01);
+  });
+});
@@ -0,0 +1,50 @@
+import { OrderBookLevels } from './marketMaking';
+import { calculateVWAPForAmount } from './arbitrage';
+
+export interface HedgeQuotes {
+  // Maker quotes, null when the hedge venue can't absorb the order amount
+  bidPrice: number | null;
+  askPrice: number | null;
+  // Expected taker prices on the hedge venue for a maker buy (hedge sell) and maker sell (hedge buy)
+  hedgeSellPrice: number;
+  hedgeBuyPrice: number;
+}
+
+// Prices maker quotes off the hedge venue's VWAP for the order amount, widened by the minimum profitability
+export const calculateHedgeQuotes = (
+  hedgeOrderBook: OrderBookLevels,
+  orderAmount: number,
+  minProfitability: number,
+): HedgeQuotes => {
+  const hedgeSellPrice = calculateVWAPForAmount(
+    hedgeOrderBook,
+    orderAmount,
+    'sell',
+  );
+  const hedgeBuyPrice = calculateVWAPForAmount(
+    hedgeOrderBook,
+    orderAmount,
+    'buy',
+  );
+  return {
+    bidPrice:
+      hedgeSellPrice > 0 ? hedgeSellPrice * (1 - minProfitability) : null,
+    askPrice: hedgeBuyPrice > 0 ? hedgeBuyPrice * (1 + minProfitability) : null,
+    hedgeSellPrice,
+    hedgeBuyPrice,
+  };
+};
+
+// Relative slippage of a hedge, positive when the fill was worse than expected
+export const calculateHedgeSlippage = (
+  hedgeSide: 'buy' | 'sell',
+  expectedPrice: number,
+  actualPrice: number,
+): number => {
+  if (!expectedPrice) {
+    return 0;
+  }
+  return hedgeSide === 'buy'
+    ? (actualPrice - expectedPrice) / expectedPrice
+    : (expectedPrice - actualPrice) / expectedPrice;
+};
@@ -0,0 +1,53 @@
+import {
+  calculateCounterOrder,
+  calculateGridLevels,
+  calculateInitialGridOrders,
+  checkGridExit,
+} from './grid';
+
+describe('grid', () => {
+  it('spaces levels arithmetically or geometrically', () => {
+    expect(calculateGridLevels(100, 200, 4, 'arithmetic')).toEqual([
+      100, 125, 150, 175, 200,
+    ]);
+    const geometric = calculateGridLevels(100, 400, 2, 'geometric');
+    expect(geometric[1]).toBeCloseTo(200);
+    expect(geometric[2]).toBeCloseTo(400);
+    expect(() => calculateGridLevels(200, 100, 4, 'arithmetic')).toThrow();
+  });
+
+  it('buys below and sells above the current price', () => {
+    const orders = calculateInitialGridOrders(
+      [100, 125, 150, 175, 200],
+      150,
+      1,
+    );
+
+    expect(orders.map((order) => `${order.side} ${order.layer}`)).toEqual([
+      'buy 0',
+      'buy 1',
+      'sell 3',
+      'sell 4',
+    ]);
+  });
+
+  it('places the opposite order one grid step away', () => {
+    const levels = [100, 125, 150];
+
+    expect(calculateCounterOrder(levels, 1, 'buy', 2)).toEqual({
+      layer: 2,
+      side: 'sell',
+      price: 150,
+      amount: 2,
+    });
+    expect(calculateCounterOrder(levels, 1, 'sell', 2).price).toBe(100);
+    expect(calculateCounterOrder(levels, 2, 'buy', 2)).toBeNull();
+  });
+
+  it('detects the stop-loss and take-profit outside the range', () => {
+    expect(checkGridExit(90, 95, 210)).toBe('stopLoss');
+    expect(checkGridExit(215, 95, 210)).toBe('takeProfit');
+    expect(checkGridExit(150, 95, 210)).toBeNull();
+    expect(checkGridExit(150)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import { LayerOrder } from './marketMaking';
+
+export type GridSpacing = 'arithmetic' | 'geometric';
+
+// Returns the gridCount + 1 price levels bounding the grids, from the lower to the upper price
+export const calculateGridLevels = (
+  lowerPrice: number,
+  upperPrice: number,
+  gridCount: number,
+  spacing: GridSpacing,
+): number[] => {
+  if (lowerPrice <= 0 || upperPrice <= lowerPrice || gridCount < 1) {
+    throw new Error(
+      `Invalid grid range ${lowerPrice}-${upperPrice} with ${gridCount} grids`,
+    );
+  }
+  const levels: number[] = [];
+  for (let i = 0; i <= gridCount; i++) {
+    levels.push(
+      spacing === 'geometric'
+        ? lowerPrice * Math.pow(upperPrice / lowerPrice, i / gridCount)
+        : lowerPrice + ((upperPrice - lowerPrice) * i) / gridCount,
+    );
+  }
+  return levels;
+};
+
+// Buys on every level below the current price and sells on every level above it, the layer is the level index
+export const calculateInitialGridOrders = (
+  levels: number[],
+  currentPrice: number,
+  amountPerGrid: number,
+): LayerOrder[] => {
+  const orders: LayerOrder[] = [];
+  levels.forEach((price, index) => {
+    if (price < currentPrice) {
+      orders.push({ layer: index, side: 'buy', price, amount: amountPerGrid });
+    } else if (price > currentPrice) {
+      orders.push({ layer: index, side: 'sell', price, amount: amountPerGrid });
+    }
+  });
+  return orders;
+};
+
+// A filled buy is sold one grid step up and a filled sell bought back one step down, null past the range
+export const calculateCounterOrder = (
+  levels: number[],
+  filledLevel: number,
+  filledSide: 'buy' | 'sell',
+  amount: number,
+): LayerOrder | null => {
+  const layer = filledSide === 'buy' ? filledLevel + 1 : filledLevel - 1;
+  if (layer < 0 || layer >= levels.length) {
+    return null;
+  }
+  return {
+    layer,
+    side: filledSide === 'buy' ? 'sell' : 'buy',
+    price: levels[layer],
+    amount,
+  };
+};
+
+export const checkGridExit = (
+  price: number,
+  stopLossPrice?: number,
+  takeProfitPrice?: number,
+): 'stopLoss' | 'takeProfit' | null => {
+  if (stopLossPrice && price <= stopLossPrice) {
+    return 'stopLoss';
+  }
+  if (takeProfitPrice && price >= takeProfitPrice) {
+    return 'takeProfit';
+  }
+  return null;
+};
@@ -0,0 +1,38 @@
+import { canTransitionStrategy, STRATEGY_TRANSITIONS } from './lifecycle';
+
+describe('strategy lifecycle', () => {
+  it('walks a strategy through its lifecycle', () => {
+    const path = [
+      'created',
+      'starting',
+      'running',
+      'pausing',
+      'paused',
+      'starting',
+      'running',
+      'stopping',
+      'stopped',
+    ] as const;
+
+    for (let i = 1; i < path.length; i++) {
+      expect(canTransitionStrategy(path[i - 1], path[i])).toBe(true);
+    }
+  });
+
+  it('rejects skipped steps and unknown statuses', () => {
+    expect(canTransitionStrategy('stopped', 'running')).toBe(false);
+    expect(canTransitionStrategy('paused', 'running')).toBe(false);
+    expect(canTransitionStrategy('running', 'stopped')).toBe(false);
+    expect(canTransitionStrategy('resuming', 'starting')).toBe(false);
+  });
+
+  it('can stop a strategy from any status', () => {
+    for (const status of Object.keys(STRATEGY_TRANSITIONS)) {
+      const reached = new Set([status]);
+      for (const from of reached) {
+        STRATEGY_TRANSITIONS[from].forEach((to) => reached.add(to));
+      }
+      expect(reached.has('stopped')).toBe(true);
+    }
+  });
+});
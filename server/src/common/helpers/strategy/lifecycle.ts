@@ -0,0 +1,25 @@
+import { StrategyStatus } from 'src/common/types/strategy/strategy';
+
+// Statuses a strategy can move to from each status
+export const STRATEGY_TRANSITIONS: Record<StrategyStatus, StrategyStatus[]> = {
+  created: ['starting', 'stopped'],
+  starting: ['running', 'stopping', 'errored'],
+  running: ['pausing', 'stopping', 'errored', 'interrupted'],
+  pausing: ['paused', 'errored'],
+  paused: ['starting', 'stopping'],
+  stopping: ['stopped', 'errored'],
+  stopped: ['starting'],
+  errored: ['starting', 'stopping'],
+  interrupted: ['starting', 'stopping'],
+};
+
+export const isStrategyStatus = (status: string): status is StrategyStatus => {
+  return Object.prototype.hasOwnProperty.call(STRATEGY_TRANSITIONS, status);
+};
+
+export const canTransitionStrategy = (
+  from: string,
+  to: StrategyStatus,
+): boolean => {
+  return isStrategyStatus(from) && STRATEGY_TRANSITIONS[from].includes(to);
+};
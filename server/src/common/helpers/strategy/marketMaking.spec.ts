@@ -0,0 +1,116 @@
+import {
+  calculateAdaptiveQuote,
+  calculateRealizedVolatility,
+  diffLayerOrders,
+  getMicroprice,
+  getVolumeWeightedPrice,
+  LayerOrder,
+} from './marketMaking';
+
+describe('diffLayerOrders', () => {
+  const desired: LayerOrder[] = [
+    { layer: 1, side: 'buy', price: 99, amount: 1 },
+    { layer: 1, side: 'sell', price: 101, amount: 1 },
+  ];
+
+  it('keeps orders within tolerance and replaces the drifted ones', () => {
+    const { keep, cancel, place } = diffLayerOrders(
+      desired,
+      [
+        { id: 'buy1', side: 'buy', price: 99.05, amount: 1 },
+        { id: 'sell1', side: 'sell', price: 102, amount: 1 },
+      ],
+      0.001,
+      0.05,
+    );
+
+    expect(keep.map((order) => order.id)).toEqual(['buy1']);
+    expect(cancel.map((order) => order.id)).toEqual(['sell1']);
+    expect(place).toEqual([desired[1]]);
+  });
+
+  it('replaces orders whose size drifted out of tolerance', () => {
+    const { keep, cancel, place } = diffLayerOrders(
+      desired,
+      [{ id: 'buy1', side: 'buy', price: 99, amount: 0.5 }],
+      0.001,
+      0.05,
+    );
+
+    expect(keep).toHaveLength(0);
+    expect(cancel.map((order) => order.id)).toEqual(['buy1']);
+    expect(place).toEqual(desired);
+  });
+
+  it('matches each resting order at most once', () => {
+    const { keep, cancel } = diffLayerOrders(
+      [desired[0]],
+      [
+        { id: 'buy1', side: 'buy', price: 99, amount: 1 },
+        { id: 'buy2', side: 'buy', price: 99, amount: 1 },
+      ],
+    );
+
+    expect(keep.map((order) => order.id)).toEqual(['buy1']);
+    expect(cancel.map((order) => order.id)).toEqual(['buy2']);
+  });
+});
+
+describe('reference prices', () => {
+  it('leans the microprice towards the thinner side of the book', () => {
+    expect(getMicroprice({ bids: [[99, 3]], asks: [[101, 1]] })).toBe(100.5);
+    expect(getMicroprice({ bids: [[99, 0]], asks: [[101, 0]] })).toBe(100);
+  });
+
+  it('weights the prices by their volume and skips the ones without any', () => {
+    expect(
+      getVolumeWeightedPrice([
+        { price: 100, volume: 3 },
+        { price: 104, volume: 1 },
+        { price: 200, volume: 0 },
+      ]),
+    ).toBe(101);
+    expect(getVolumeWeightedPrice([{ price: 100, volume: 0 }])).toBeUndefined();
+  });
+});
+
+describe('volatility adaptive quotes', () => {
+  it('measures the volatility on the log returns once there are two of them', () => {
+    expect(calculateRealizedVolatility([100, 101])).toBeUndefined();
+    expect(calculateRealizedVolatility([100, 100, 100])).toBe(0);
+    expect(calculateRealizedVolatility([100, 110, 100])).toBeCloseTo(
+      Math.log(1.1),
+    );
+  });
+
+  it('widens the spreads and shrinks the orders when the volatility spikes', () => {
+    expect(
+      calculateAdaptiveQuote({
+        bidSpread: 0.002,
+        askSpread: 0.004,
+        orderAmount: 10,
+        volatility: 0.004,
+        targetVolatility: 0.001,
+        maxSpread: 0.01,
+      }),
+    ).toEqual({
+      bidSpread: 0.008,
+      askSpread: 0.01,
+      orderAmount: 2.5,
+      volatilityRatio: 4,
+    });
+  });
+
+  it('tightens the spreads down to the minimum in calm markets', () => {
+    expect(
+      calculateAdaptiveQuote({
+        bidSpread: 0.002,
+        askSpread: 0.004,
+        orderAmount: 10,
+        volatility: 0.0001,
+        targetVolatility: 0.001,
+        minSpread: 0.0003,
+      }),
+    ).toMatchObject({ bidSpread: 0.0003, orderAmount: 10 });
+  });
+});
@@ -0,0 +1,237 @@
+import { PriceSourceType } from 'src/common/enum/pricesourcetype';
+
+export type OrderBookLevels = { bids: number[][]; asks: number[][] };
+
+export interface LayerOrder {
+  layer: number;
+  side: 'buy' | 'sell';
+  price: number;
+  amount: number;
+}
+
+export interface LayerOrderParams {
+  priceSource: number;
+  bidSpread: number;
+  askSpread: number;
+  baseOrderAmount: number;
+  numberOfLayers: number;
+  amountChangePerLayer: number;
+  amountChangeType: 'fixed' | 'percentage';
+  ceilingPrice?: number;
+  floorPrice?: number;
+}
+
+// Mid price weighted by the size on top of the book, it leans towards the side that is about to be taken
+export const getMicroprice = (orderBook: OrderBookLevels): number => {
+  const [bidPrice, bidAmount] = orderBook.bids[0];
+  const [askPrice, askAmount] = orderBook.asks[0];
+  if (!(bidAmount + askAmount > 0)) {
+    return (bidPrice + askPrice) / 2;
+  }
+  return (
+    (bidPrice * askAmount + askPrice * bidAmount) / (bidAmount + askAmount)
+  );
+};
+
+// Reads the reference price out of an order book, lastPrice is only used for LAST_PRICE
+export const getPriceFromOrderBook = (
+  orderBook: OrderBookLevels,
+  priceSourceType: PriceSourceType,
+  lastPrice?: number,
+): number => {
+  switch (priceSourceType) {
+    case PriceSourceType.MID_PRICE:
+      return (orderBook.bids[0][0] + orderBook.asks[0][0]) / 2;
+    case PriceSourceType.BEST_ASK:
+      return orderBook.asks[0][0];
+    case PriceSourceType.BEST_BID:
+      return orderBook.bids[0][0];
+    case PriceSourceType.LAST_PRICE:
+      return lastPrice;
+    case PriceSourceType.MICROPRICE:
+      return getMicroprice(orderBook);
+    default:
+      throw new Error(`Invalid price source type: ${priceSourceType}`);
+  }
+};
+
+// Average of the prices weighted by their volume, undefined when none of them has volume
+export const getVolumeWeightedPrice = (
+  prices: { price: number; volume: number }[],
+): number | undefined => {
+  let totalVolume = 0;
+  let weightedSum = 0;
+  for (const { price, volume } of prices) {
+    if (price > 0 && volume > 0) {
+      totalVolume += volume;
+      weightedSum += price * volume;
+    }
+  }
+  return totalVolume > 0 ? weightedSum / totalVolume : undefined;
+};
+
+// Standard deviation of the log returns between consecutive prices, undefined until there are two returns
+export const calculateRealizedVolatility = (
+  prices: number[],
+): number | undefined => {
+  const returns = prices
+    .slice(1)
+    .map((price, i) => Math.log(price / prices[i]))
+    .filter((value) => Number.isFinite(value));
+  if (returns.length < 2) {
+    return undefined;
+  }
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+    returns.length;
+  return Math.sqrt(variance);
+};
+
+export interface AdaptiveQuoteParams {
+  bidSpread: number;
+  askSpread: number;
+  orderAmount: number;
+  volatility: number;
+  targetVolatility: number; // Volatility the configured spreads are meant for
+  minSpread?: number;
+  maxSpread?: number;
+  minOrderSizeRatio?: number; // Share of the order amount kept however volatile the market gets
+}
+
+export interface AdaptiveQuote {
+  bidSpread: number;
+  askSpread: number;
+  orderAmount: number;
+  volatilityRatio: number;
+}
+
+// Scales the spreads with the volatility within their bounds, and shrinks the orders when the volatility is above target
+export const calculateAdaptiveQuote = (
+  params: AdaptiveQuoteParams,
+): AdaptiveQuote => {
+  const {
+    bidSpread,
+    askSpread,
+    orderAmount,
+    volatility,
+    targetVolatility,
+    minSpread = 0,
+    maxSpread = Infinity,
+    minOrderSizeRatio = 0.25,
+  } = params;
+  const volatilityRatio = volatility / targetVolatility;
+  const scaleSpread = (spread: number) =>
+    Math.min(Math.max(spread * volatilityRatio, minSpread), maxSpread);
+  const sizeRatio =
+    volatilityRatio > 1 ? Math.max(1 / volatilityRatio, minOrderSizeRatio) : 1;
+
+  return {
+    bidSpread: scaleSpread(bidSpread),
+    askSpread: scaleSpread(askSpread),
+    orderAmount: orderAmount * sizeRatio,
+    volatilityRatio,
+  };
+};
+
+export const isBuyAllowed = (priceSource: number, ceilingPrice?: number) =>
+  ceilingPrice === undefined || priceSource <= ceilingPrice;
+
+export const isSellAllowed = (priceSource: number, floorPrice?: number) =>
+  floorPrice === undefined || priceSource >= floorPrice;
+
+// Builds the buy/sell ladder of a pure market making refresh, layer by layer
+export const calculateLayerOrders = (
+  params: LayerOrderParams,
+): LayerOrder[] => {
+  const {
+    priceSource,
+    bidSpread,
+    askSpread,
+    baseOrderAmount,
+    numberOfLayers,
+    amountChangePerLayer,
+    amountChangeType,
+    ceilingPrice,
+    floorPrice,
+  } = params;
+  const orders: LayerOrder[] = [];
+  let currentOrderAmount = baseOrderAmount;
+
+  for (let layer = 1; layer <= numberOfLayers; layer++) {
+    if (layer > 1) {
+      if (amountChangeType === 'fixed') {
+        currentOrderAmount += amountChangePerLayer;
+      } else if (amountChangeType === 'percentage') {
+        currentOrderAmount += currentOrderAmount * (amountChangePerLayer / 100);
+      }
+    }
+
+    const layerBidSpreadPercentage = bidSpread * layer;
+    const layerAskSpreadPercentage = askSpread * layer;
+
+    if (isBuyAllowed(priceSource, ceilingPrice)) {
+      orders.push({
+        layer,
+        side: 'buy',
+        price: priceSource * (1 - layerBidSpreadPercentage),
+        amount: currentOrderAmount,
+      });
+    }
+    if (isSellAllowed(priceSource, floorPrice)) {
+      orders.push({
+        layer,
+        side: 'sell',
+        price: priceSource * (1 + layerAskSpreadPercentage),
+        amount: currentOrderAmount,
+      });
+    }
+  }
+
+  return orders;
+};
+
+export interface ExistingLayerOrder {
+  id: string;
+  side: 'buy' | 'sell';
+  price: number;
+  amount: number;
+}
+
+export interface LayerOrderDiff {
+  keep: ExistingLayerOrder[];
+  cancel: ExistingLayerOrder[];
+  place: LayerOrder[];
+}
+
+const isWithinTolerance = (actual: number, target: number, tolerance = 0) =>
+  Math.abs(actual - target) <= Math.abs(target) * tolerance;
+
+// Matches the desired ladder against the resting orders, keeping every order whose price and size are
+// still within tolerance, so only the layers that drifted are canceled and replaced
+export const diffLayerOrders = (
+  desiredOrders: LayerOrder[],
+  existingOrders: ExistingLayerOrder[],
+  priceTolerance = 0,
+  amountTolerance = 0,
+): LayerOrderDiff => {
+  const unmatched = [...existingOrders];
+  const keep: ExistingLayerOrder[] = [];
+  const place: LayerOrder[] = [];
+
+  for (const desired of desiredOrders) {
+    const index = unmatched.findIndex(
+      (existing) =>
+        existing.side === desired.side &&
+        isWithinTolerance(existing.price, desired.price, priceTolerance) &&
+        isWithinTolerance(existing.amount, desired.amount, amountTolerance),
+    );
+    if (index === -1) {
+      place.push(desired);
+    } else {
+      keep.push(...unmatched.splice(index, 1));
+    }
+  }
+
+  return { keep, cancel: unmatched, place };
+};
@@ -0,0 +1,49 @@
+import { validateStrategyParameters } from './parameters';
+import {
+  ArbitrageStrategyDto,
+  PureMarketMakingStrategyDto,
+} from 'src/modules/strategy/strategy.dto';
+
+describe('strategy parameters', () => {
+  it('accepts changes matching the properties of the DTO', () => {
+    expect(
+      validateStrategyParameters(PureMarketMakingStrategyDto, {
+        bidSpread: 0.2,
+        numberOfLayers: 3,
+        amountChangeType: 'fixed',
+      }),
+    ).toEqual([]);
+  });
+
+  it('rejects unknown, fixed and mistyped parameters', () => {
+    expect(
+      validateStrategyParameters(
+        PureMarketMakingStrategyDto,
+        { spread: 0.2, pair: 'ETH/USDT', orderAmount: 'all', bidSpread: null },
+        ['pair'],
+      ),
+    ).toEqual([
+      'spread is not a parameter of the strategy',
+      'pair can only be changed by restarting the strategy',
+      'orderAmount has an invalid value "all"',
+      'bidSpread is required',
+    ]);
+  });
+
+  it('checks enum parameters against their values and lets optional ones be cleared', () => {
+    expect(
+      validateStrategyParameters(ArbitrageStrategyDto, {
+        legPolicy: 'hold',
+        legTimeoutSeconds: null,
+      }),
+    ).toEqual(['legPolicy has an invalid value "hold"']);
+    expect(
+      validateStrategyParameters(PureMarketMakingStrategyDto, {
+        priceSourceType: 'microprice',
+        fallbackPriceSourceTypes: ['external_exchange', 'oracle'],
+      }),
+    ).toEqual([
+      'fallbackPriceSourceTypes has an invalid value ["external_exchange","oracle"]',
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { Type } from '@nestjs/common';
+import { DECORATORS } from '@nestjs/swagger/dist/constants';
+
+const getPropertyNames = (dto: Type<unknown>): string[] =>
+  (
+    Reflect.getMetadata(DECORATORS.API_MODEL_PROPERTIES_ARRAY, dto.prototype) ||
+    []
+  ).map((property: string) => property.slice(1));
+
+const isOfType = (value: any, type: any): boolean => {
+  switch (type) {
+    case Number:
+      return typeof value === 'number' && Number.isFinite(value);
+    case String:
+      return typeof value === 'string';
+    case Boolean:
+      return typeof value === 'boolean';
+    case Array:
+      return Array.isArray(value);
+    default:
+      // Nested DTOs and records
+      return typeof value === 'object' && !Array.isArray(value);
+  }
+};
+
+// Enum values are checked item by item in arrays
+const isValidValue = (value: any, type: any, values?: any[]): boolean => {
+  if (!values) {
+    return isOfType(value, type);
+  }
+  return type === Array
+    ? Array.isArray(value) && value.every((item) => values.includes(item))
+    : values.includes(value);
+};
+
+// Checks parameter changes against the properties documented on a strategy DTO, returns the problems found
+export const validateStrategyParameters = (
+  dto: Type<unknown>,
+  changes: Record<string, any>,
+  fixedParameters: string[] = [],
+): string[] => {
+  const properties = getPropertyNames(dto);
+  const errors: string[] = [];
+
+  for (const [name, value] of Object.entries(changes)) {
+    if (!properties.includes(name)) {
+      errors.push(`${name} is not a parameter of the strategy`);
+      continue;
+    }
+    if (fixedParameters.includes(name)) {
+      errors.push(`${name} can only be changed by restarting the strategy`);
+      continue;
+    }
+
+    const {
+      type,
+      isArray,
+      required,
+      enum: enumValues,
+      items,
+    } = Reflect.getMetadata(
+      DECORATORS.API_MODEL_PROPERTIES,
+      dto.prototype,
+      name,
+    );
+    // The values of enum arrays are documented on their items
+    const values = enumValues ?? items?.enum;
+    if (value === null || value === undefined) {
+      if (required !== false) {
+        errors.push(`${name} is required`);
+      }
+    } else if (!isValidValue(value, isArray ? Array : type, values)) {
+      errors.push(`${name} has an invalid value ${JSON.stringify(value)}`);
+    }
+  }
+  return errors;
+};
+
+const getJsonSchemaType = (type: any): Record<string, any> => {
+  switch (type) {
+    case Number:
+      return { type: 'number' };
+    case String:
+      return { type: 'string' };
+    case Boolean:
+      return { type: 'boolean' };
+    case Array:
+      return { type: 'array' };
+    default:
+      if (typeof type === 'string') {
+        return { type };
+      }
+      return typeof type === 'function' && getPropertyNames(type).length
+        ? getParameterJsonSchema(type)
+        : { type: 'object' };
+  }
+};
+
+// JSON schema of the properties documented on a strategy DTO
+export const getParameterJsonSchema = (
+  dto: Type<unknown>,
+): Record<string, any> => {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const name of getPropertyNames(dto)) {
+    const {
+      type,
+      isArray,
+      required: isRequired,
+      enum: enumValues,
+      items,
+      description,
+      example,
+      default: defaultValue,
+    } = Reflect.getMetadata(
+      DECORATORS.API_MODEL_PROPERTIES,
+      dto.prototype,
+      name,
+    );
+    const values = enumValues ?? items?.enum;
+    const itemSchema = values ? { enum: values } : getJsonSchemaType(type);
+    properties[name] = {
+      ...(isArray ? { type: 'array', items: itemSchema } : itemSchema),
+      ...(description !== undefined && { description }),
+      ...(example !== undefined && { example }),
+      ...(defaultValue !== undefined && { default: defaultValue }),
+    };
+    if (isRequired !== false) {
+      required.push(name);
+    }
+  }
+  return { type: 'object', properties, required };
+};
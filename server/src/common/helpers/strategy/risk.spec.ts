@@ -0,0 +1,75 @@
+import {
+  applyFillToPosition,
+  checkLossRiskLimits,
+  checkOrderRiskLimits,
+  mergeRiskLimits,
+} from './risk';
+import { RiskPosition } from 'src/common/types/strategy/strategy';
+
+describe('risk', () => {
+  it('overrides the global limits with the strategy ones', () => {
+    expect(
+      mergeRiskLimits(
+        { maxDailyLoss: 100, maxOrdersPerMinute: 60 },
+        { maxDailyLoss: 50, maxDrawdown: undefined },
+      ),
+    ).toEqual({ maxDailyLoss: 50, maxOrdersPerMinute: 60 });
+  });
+
+  it('realizes profit on the part of a fill that closes the position', () => {
+    const position: RiskPosition = { amount: 0, averagePrice: 0 };
+
+    expect(applyFillToPosition(position, 'buy', 1, 100)).toBe(0);
+    expect(applyFillToPosition(position, 'buy', 1, 200)).toBe(0);
+    expect(position).toEqual({ amount: 2, averagePrice: 150 });
+
+    // Sells 2 of the long at 150 average and opens a short of 1
+    expect(applyFillToPosition(position, 'sell', 3, 120)).toBe(-60);
+    expect(position).toEqual({ amount: -1, averagePrice: 120 });
+    expect(applyFillToPosition(position, 'buy', 1, 100)).toBe(20);
+    expect(position).toEqual({ amount: 0, averagePrice: 0 });
+  });
+
+  it('blocks orders past the limits unless they reduce the position', () => {
+    const limits = {
+      maxPositionPerAsset: 1,
+      maxOpenNotional: 1000,
+      maxOrdersPerMinute: 2,
+    };
+    const buy = { side: 'buy' as const, amount: 0.5, notional: 50 };
+
+    expect(checkOrderRiskLimits(limits, buy, 0.8, 0, 0)).toMatchObject({
+      limit: 'maxPositionPerAsset',
+      value: 1.3,
+    });
+    expect(checkOrderRiskLimits(limits, buy, 0, 980, 0)).toMatchObject({
+      limit: 'maxOpenNotional',
+    });
+    expect(checkOrderRiskLimits(limits, buy, 0, 0, 2)).toMatchObject({
+      limit: 'maxOrdersPerMinute',
+    });
+    expect(checkOrderRiskLimits(limits, buy, 0, 0, 1)).toBeNull();
+    expect(
+      checkOrderRiskLimits(
+        limits,
+        { side: 'sell', amount: 1, notional: 0 },
+        1.5,
+        5000,
+        10,
+      ),
+    ).toBeNull();
+  });
+
+  it('detects the daily loss and the drawdown from the peak', () => {
+    const limits = { maxDailyLoss: 100, maxDrawdown: 150 };
+
+    expect(checkLossRiskLimits(limits, -50, 0, -100)?.limit).toBe(
+      'maxDailyLoss',
+    );
+    expect(checkLossRiskLimits(limits, 100, 250, -20)?.limit).toBe(
+      'maxDrawdown',
+    );
+    expect(checkLossRiskLimits(limits, 100, 200, -20)).toBeNull();
+    expect(checkLossRiskLimits({}, -1000, 0, -1000)).toBeNull();
+  });
+});
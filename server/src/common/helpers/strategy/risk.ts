@@ -0,0 +1,128 @@
+import {
+  RiskBreach,
+  RiskLimits,
+  RiskPosition,
+} from 'src/common/types/strategy/strategy';
+
+// Per-strategy limits override the global ones, unset ones fall back to them
+export const mergeRiskLimits = (
+  globalLimits: RiskLimits,
+  strategyLimits: RiskLimits = {},
+): RiskLimits => {
+  const limits = { ...globalLimits };
+  for (const [name, value] of Object.entries(strategyLimits)) {
+    if (value !== undefined && value !== null) {
+      limits[name] = Number(value);
+    }
+  }
+  return limits;
+};
+
+// Adds a fill to a position at its average price and returns the profit realized by the part that closes it
+export const applyFillToPosition = (
+  position: RiskPosition,
+  side: 'buy' | 'sell',
+  amount: number,
+  price: number,
+): number => {
+  const signedAmount = side === 'buy' ? amount : -amount;
+  if (
+    position.amount === 0 ||
+    Math.sign(position.amount) === Math.sign(signedAmount)
+  ) {
+    const size = Math.abs(position.amount);
+    position.averagePrice =
+      (size * position.averagePrice + amount * price) / (size + amount);
+    position.amount += signedAmount;
+    return 0;
+  }
+
+  const closedAmount = Math.min(amount, Math.abs(position.amount));
+  const realizedPnl =
+    (price - position.averagePrice) * closedAmount * Math.sign(position.amount);
+  position.amount += signedAmount;
+  if (amount > closedAmount) {
+    // The fill flipped the position, the remainder opened at the fill price
+    position.averagePrice = price;
+  } else if (position.amount === 0) {
+    position.averagePrice = 0;
+  }
+  return realizedPnl;
+};
+
+// Orders that shrink the position are never blocked, so hedges, unwinds and exits still go through
+export const checkOrderRiskLimits = (
+  limits: RiskLimits,
+  order: {
+    side: 'buy' | 'sell';
+    amount: number;
+    notional: number; // Value the order adds to the open orders, 0 for market orders
+  },
+  positionAmount: number,
+  openNotional: number,
+  ordersInLastMinute: number,
+): RiskBreach | null => {
+  const newPositionAmount =
+    positionAmount + (order.side === 'buy' ? order.amount : -order.amount);
+  if (Math.abs(newPositionAmount) < Math.abs(positionAmount)) {
+    return null;
+  }
+
+  if (
+    limits.maxOrdersPerMinute &&
+    ordersInLastMinute >= limits.maxOrdersPerMinute
+  ) {
+    return {
+      limit: 'maxOrdersPerMinute',
+      value: ordersInLastMinute + 1,
+      threshold: limits.maxOrdersPerMinute,
+    };
+  }
+  if (
+    limits.maxPositionPerAsset &&
+    Math.abs(newPositionAmount) > limits.maxPositionPerAsset
+  ) {
+    return {
+      limit: 'maxPositionPerAsset',
+      value: Math.abs(newPositionAmount),
+      threshold: limits.maxPositionPerAsset,
+    };
+  }
+  if (
+    limits.maxOpenNotional &&
+    openNotional + order.notional > limits.maxOpenNotional
+  ) {
+    return {
+      limit: 'maxOpenNotional',
+      value: openNotional + order.notional,
+      threshold: limits.maxOpenNotional,
+    };
+  }
+  return null;
+};
+
+export const checkLossRiskLimits = (
+  limits: RiskLimits,
+  realizedPnl: number,
+  peakPnl: number,
+  dailyPnl: number,
+): RiskBreach | null => {
+  if (limits.maxDailyLoss && -dailyPnl >= limits.maxDailyLoss) {
+    return {
+      limit: 'maxDailyLoss',
+      value: -dailyPnl,
+      threshold: limits.maxDailyLoss,
+    };
+  }
+  if (limits.maxDrawdown && peakPnl - realizedPnl >= limits.maxDrawdown) {
+    return {
+      limit: 'maxDrawdown',
+      value: peakPnl - realizedPnl,
+      threshold: limits.maxDrawdown,
+    };
+  }
+  return null;
+};
+
+export const formatRiskBreach = (breach: RiskBreach): string =>
+  `${breach.limit} breached, ${breach.value} against a limit of ${breach.threshold}`;
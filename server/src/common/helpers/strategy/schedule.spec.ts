@@ -0,0 +1,52 @@
+import {
+  isValidCronWindow,
+  isWithinStrategySchedule,
+  matchesCronWindow,
+} from './schedule';
+
+describe('strategy schedule', () => {
+  // A Wednesday
+  const date = new Date('2024-12-04T10:30:00Z');
+
+  it('matches the minutes of a cron window in UTC', () => {
+    expect(matchesCronWindow('* 9-17 * * 1-5', date)).toBe(true);
+    expect(matchesCronWindow('*/15 * * * *', date)).toBe(true);
+    expect(matchesCronWindow('0,45 * * * *', date)).toBe(false);
+    expect(matchesCronWindow('* 9-17 * * 0,6', date)).toBe(false);
+    expect(matchesCronWindow('* * 1 * 3', date)).toBe(true);
+    expect(matchesCronWindow('* * * * 7', new Date('2024-12-08T10:30Z'))).toBe(
+      true,
+    );
+  });
+
+  it('rejects invalid cron windows', () => {
+    expect(isValidCronWindow('* 9-17 * * 1-5')).toBe(true);
+    expect(isValidCronWindow('* 9-24 * * *')).toBe(false);
+    expect(isValidCronWindow('* * * *')).toBe(false);
+    expect(isValidCronWindow('*/0 * * * *')).toBe(false);
+    expect(isValidCronWindow('mon * * * *')).toBe(false);
+  });
+
+  it('keeps a strategy within its start, end and cron window', () => {
+    const schedule = {
+      startAt: new Date('2024-12-01T00:00:00Z'),
+      endAt: new Date('2024-12-31T00:00:00Z'),
+      cronWindow: '* 9-17 * * *',
+    };
+
+    expect(isWithinStrategySchedule(schedule, date)).toBe(true);
+    expect(
+      isWithinStrategySchedule(schedule, new Date('2024-12-04T18:00:00Z')),
+    ).toBe(false);
+    expect(
+      isWithinStrategySchedule(schedule, new Date('2024-12-31T10:00:00Z')),
+    ).toBe(false);
+    expect(
+      isWithinStrategySchedule(
+        { startAt: new Date('2025-01-01T00:00:00Z') },
+        date,
+      ),
+    ).toBe(false);
+    expect(isWithinStrategySchedule({}, date)).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { StrategyScheduleWindow } from 'src/common/types/strategy/strategy';
+
+// Minute, hour, day of month, month and day of week, Sunday being 0 or 7
+const CRON_FIELD_RANGES = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Values of a cron field such as "*", "*/15", "9-17" or "1,3,5", null when it's invalid
+const parseCronField = (
+  field: string,
+  min: number,
+  max: number,
+): Set<number> | null => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      return null;
+    }
+    const [, range, from, to, step] = match;
+    const start = range === '*' ? min : Number(from);
+    const end = range === '*' ? max : to !== undefined ? Number(to) : start;
+    const increment = step !== undefined ? Number(step) : 1;
+    if (start < min || end > max || start > end || increment < 1) {
+      return null;
+    }
+    for (let value = start; value <= end; value += increment) {
+      values.add(value);
+    }
+  }
+  return values;
+};
+
+const parseCronWindow = (cronWindow: string): Set<number>[] | null => {
+  const fields = cronWindow.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELD_RANGES.length) {
+    return null;
+  }
+  const values = fields.map((field, i) =>
+    parseCronField(field, CRON_FIELD_RANGES[i][0], CRON_FIELD_RANGES[i][1]),
+  );
+  return values.includes(null) ? null : values;
+};
+
+export const isValidCronWindow = (cronWindow: string): boolean => {
+  return parseCronWindow(cronWindow) !== null;
+};
+
+// Whether the minute of a date matches a five field cron expression, in UTC
+export const matchesCronWindow = (cronWindow: string, date: Date): boolean => {
+  const fields = parseCronWindow(cronWindow);
+  if (!fields) {
+    throw new Error(`Invalid cron window ${cronWindow}`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields;
+  const dayOfWeek = date.getUTCDay();
+  const dayOfMonthMatches = daysOfMonth.has(date.getUTCDate());
+  const dayOfWeekMatches =
+    daysOfWeek.has(dayOfWeek) || (dayOfWeek === 0 && daysOfWeek.has(7));
+  // Like cron, a day matches either day field when both are restricted
+  const dayMatches =
+    daysOfMonth.size < 31 && daysOfWeek.size < 8
+      ? dayOfMonthMatches || dayOfWeekMatches
+      : dayOfMonthMatches && dayOfWeekMatches;
+
+  return (
+    minutes.has(date.getUTCMinutes()) &&
+    hours.has(date.getUTCHours()) &&
+    months.has(date.getUTCMonth() + 1) &&
+    dayMatches
+  );
+};
+
+export const isWithinStrategySchedule = (
+  schedule: StrategyScheduleWindow,
+  date: Date,
+): boolean => {
+  if (schedule.startAt && date < new Date(schedule.startAt)) {
+    return false;
+  }
+  if (schedule.endAt && date >= new Date(schedule.endAt)) {
+    return false;
+  }
+  return !schedule.cronWindow || matchesCronWindow(schedule.cronWindow, date);
+};
@@ -0,0 +1,82 @@
+import {
+  convertThroughOrderBook,
+  evaluateTriangularCycle,
+  findTriangularCycles,
+  formatTriangularCycle,
+  TriangularMarket,
+} from './triangularArbitrage';
+
+describe('triangularArbitrage', () => {
+  const markets: TriangularMarket[] = [
+    { symbol: 'BTC/USDT', base: 'BTC', quote: 'USDT' },
+    { symbol: 'ETH/USDT', base: 'ETH', quote: 'USDT' },
+    { symbol: 'ETH/BTC', base: 'ETH', quote: 'BTC' },
+    { symbol: 'XRP/USDT', base: 'XRP', quote: 'USDT', active: false },
+    { symbol: 'XRP/BTC', base: 'XRP', quote: 'BTC' },
+  ];
+
+  it('discovers both directions of every cycle through active markets', () => {
+    const cycles = findTriangularCycles(markets, 'USDT');
+
+    expect(cycles.map(formatTriangularCycle).sort()).toEqual([
+      'USDT>BTC>ETH>USDT',
+      'USDT>ETH>BTC>USDT',
+    ]);
+    const cycle = cycles.find(
+      (c) => formatTriangularCycle(c) === 'USDT>BTC>ETH>USDT',
+    );
+    expect(cycle.legs.map((leg) => `${leg.side} ${leg.symbol}`)).toEqual([
+      'buy BTC/USDT',
+      'buy ETH/BTC',
+      'sell ETH/USDT',
+    ]);
+  });
+
+  it('limits cycles to the configured currencies', () => {
+    expect(findTriangularCycles(markets, 'USDT', ['BTC'])).toHaveLength(0);
+  });
+
+  it('walks the book with VWAP and rejects inputs the book cannot absorb', () => {
+    const orderBook = {
+      bids: [
+        [99, 1],
+        [98, 1],
+      ],
+      asks: [
+        [101, 1],
+        [102, 1],
+      ],
+    };
+
+    const buy = convertThroughOrderBook(orderBook, 'buy', 152);
+    expect(buy.outputAmount).toBeCloseTo(1.5);
+    expect(buy.vwap).toBeCloseTo(152 / 1.5);
+    expect(convertThroughOrderBook(orderBook, 'sell', 1.5).outputAmount).toBe(
+      148,
+    );
+    expect(convertThroughOrderBook(orderBook, 'sell', 3)).toBeNull();
+  });
+
+  it('evaluates the cycle profitability net of fees', () => {
+    const [cycle] = findTriangularCycles(markets, 'USDT').filter(
+      (c) => formatTriangularCycle(c) === 'USDT>BTC>ETH>USDT',
+    );
+    const orderBooks = {
+      'BTC/USDT': { bids: [[49990, 10]], asks: [[50000, 10]] },
+      'ETH/BTC': { bids: [[0.0499, 100]], asks: [[0.05, 100]] },
+      'ETH/USDT': { bids: [[2600, 100]], asks: [[2610, 100]] },
+    };
+
+    const gross = evaluateTriangularCycle(cycle, orderBooks, 1000);
+    expect(gross.endAmount).toBeCloseTo(1040);
+    expect(gross.profitability).toBeCloseTo(0.04);
+
+    const net = evaluateTriangularCycle(cycle, orderBooks, 1000, {
+      'BTC/USDT': 0.001,
+      'ETH/BTC': 0.001,
+      'ETH/USDT': 0.001,
+    });
+    expect(net.endAmount).toBeCloseTo(1040 * 0.999 ** 3);
+    expect(evaluateTriangularCycle(cycle, {}, 1000)).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import { OrderBookLevels } from './marketMaking';
+
+export interface TriangularMarket {
+  symbol: string;
+  base: string;
+  quote: string;
+  active?: boolean;
+  spot?: boolean;
+}
+
+export interface TriangularLeg {
+  symbol: string;
+  side: 'buy' | 'sell';
+  from: string;
+  to: string;
+}
+
+export interface TriangularCycle {
+  currencies: string[]; // e.g. ['USDT', 'BTC', 'ETH'], the cycle returns to the first one
+  legs: TriangularLeg[];
+}
+
+export interface TriangularLegEvaluation {
+  leg: TriangularLeg;
+  inputAmount: number;
+  outputAmount: number;
+  baseAmount: number; // Amount of the order on the leg's market, in base
+  vwap: number;
+}
+
+export interface TriangularCycleEvaluation {
+  cycle: TriangularCycle;
+  legs: TriangularLegEvaluation[];
+  startAmount: number;
+  endAmount: number;
+  profit: number;
+  profitability: number;
+}
+
+export const formatTriangularCycle = (cycle: TriangularCycle) =>
+  [...cycle.currencies, cycle.currencies[0]].join('>');
+
+// Returns the leg converting `from` into `to` on a market, or null if the market doesn't link them
+export const getConversionLeg = (
+  market: TriangularMarket,
+  from: string,
+  to: string,
+): TriangularLeg | null => {
+  if (market.quote === from && market.base === to) {
+    return { symbol: market.symbol, side: 'buy', from, to };
+  }
+  if (market.base === from && market.quote === to) {
+    return { symbol: market.symbol, side: 'sell', from, to };
+  }
+  return null;
+};
+
+// Discovers every start -> A -> B -> start cycle in the loaded markets, optionally limited to a set of currencies
+export const findTriangularCycles = (
+  markets: TriangularMarket[],
+  startCurrency: string,
+  currencies?: string[],
+): TriangularCycle[] => {
+  const tradable = markets.filter(
+    (market) =>
+      market.active !== false &&
+      market.spot !== false &&
+      (!currencies ||
+        ((market.base === startCurrency || currencies.includes(market.base)) &&
+          (market.quote === startCurrency ||
+            currencies.includes(market.quote)))),
+  );
+  const marketsByPair = new Map<string, TriangularMarket>();
+  for (const market of tradable) {
+    marketsByPair.set(`${market.base}|${market.quote}`, market);
+  }
+  const findMarket = (a: string, b: string) =>
+    marketsByPair.get(`${a}|${b}`) || marketsByPair.get(`${b}|${a}`);
+
+  const cycles: TriangularCycle[] = [];
+  for (const firstMarket of tradable) {
+    const firstCurrency =
+      firstMarket.quote === startCurrency
+        ? firstMarket.base
+        : firstMarket.base === startCurrency
+        ? firstMarket.quote
+        : null;
+    if (!firstCurrency) continue;
+
+    for (const secondMarket of tradable) {
+      if (secondMarket === firstMarket) continue;
+      const secondLeg =
+        getConversionLeg(secondMarket, firstCurrency, secondMarket.base) ||
+        getConversionLeg(secondMarket, firstCurrency, secondMarket.quote);
+      if (!secondLeg || secondLeg.to === startCurrency) continue;
+
+      const thirdMarket = findMarket(secondLeg.to, startCurrency);
+      if (!thirdMarket) continue;
+
+      cycles.push({
+        currencies: [startCurrency, firstCurrency, secondLeg.to],
+        legs: [
+          getConversionLeg(firstMarket, startCurrency, firstCurrency),
+          secondLeg,
+          getConversionLeg(thirdMarket, secondLeg.to, startCurrency),
+        ],
+      });
+    }
+  }
+  return cycles;
+};
+
+// Walks the book to convert an input amount (quote when buying, base when selling); null if liquidity runs out
+export const convertThroughOrderBook = (
+  orderBook: OrderBookLevels,
+  side: 'buy' | 'sell',
+  inputAmount: number,
+): { outputAmount: number; baseAmount: number; vwap: number } | null => {
+  let remaining = inputAmount;
+  let baseAmount = 0;
+  let quoteAmount = 0;
+  const levels = side === 'buy' ? orderBook.asks : orderBook.bids;
+
+  for (const [price, volume] of levels) {
+    if (remaining <= 0) break;
+    const fillVolume =
+      side === 'buy'
+        ? Math.min(volume, remaining / price)
+        : Math.min(volume, remaining);
+    baseAmount += fillVolume;
+    quoteAmount += fillVolume * price;
+    remaining -= side === 'buy' ? fillVolume * price : fillVolume;
+  }
+
+  if (remaining > inputAmount * 1e-9 || baseAmount === 0) {
+    return null;
+  }
+  return {
+    outputAmount: side === 'buy' ? baseAmount : quoteAmount,
+    baseAmount,
+    vwap: quoteAmount / baseAmount,
+  };
+};
+
+// Simulates a cycle with VWAP fills over the given order books, charging each market's taker fee rate
+export const evaluateTriangularCycle = (
+  cycle: TriangularCycle,
+  orderBooks: Record<string, OrderBookLevels>,
+  startAmount: number,
+  feeRates: Record<string, number> = {},
+): TriangularCycleEvaluation | null => {
+  const legs: TriangularLegEvaluation[] = [];
+  let amount = startAmount;
+
+  for (const leg of cycle.legs) {
+    const orderBook = orderBooks[leg.symbol];
+    if (!orderBook) {
+      return null;
+    }
+    const conversion = convertThroughOrderBook(orderBook, leg.side, amount);
+    if (!conversion) {
+      return null;
+    }
+    const outputAmount =
+      conversion.outputAmount * (1 - (feeRates[leg.symbol] || 0));
+    legs.push({
+      leg,
+      inputAmount: amount,
+      outputAmount,
+      baseAmount: conversion.baseAmount,
+      vwap: conversion.vwap,
+    });
+    amount = outputAmount;
+  }
+
+  const profit = amount - startAmount;
+  return {
+    cycle,
+    legs,
+    startAmount,
+    endAmount: amount,
+    profit,
+    profitability: profit / startAmount,
+  };
+};
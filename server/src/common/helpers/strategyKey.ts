@@ -1,11 +1,7 @@
+import { createHash } from 'crypto';
+
 export interface StrategyKey {
-  type:
-    | 'arbitrage'
-    | 'pureMarketMaking'
-    | 'volume'
-    | 'alpaca-arbitrage'
-    | 'alpaca-futures-arbitrage'
-    | 'alpaca-options-arbitrage';
+  type: string; // A strategy type registered in the StrategyRegistryService
   user_id: string;
   client_id: string;
 }
@@ -13,3 +9,22 @@ export interface StrategyKey {
 export const createStrategyKey = (key: StrategyKey) => {
   return `${key.user_id}-${key.client_id}-${key.type}`;
 };
+
+// Exchanges take short alphanumeric client order ids (32 characters on OKX), so the strategy key is hashed into a prefix
+export const getClientOrderIdPrefix = (strategyKey: string) => {
+  return `hm${createHash('sha256')
+    .update(strategyKey)
+    .digest('hex')
+    .slice(0, 14)}`;
+};
+
+export const createClientOrderId = (strategyKey: string, sequence: number) => {
+  return `${getClientOrderIdPrefix(strategyKey)}${sequence.toString(36)}`;
+};
+
+export const isStrategyClientOrderId = (
+  strategyKey: string,
+  clientOrderId?: string,
+) => {
+  return !!clientOrderId?.startsWith(getClientOrderIdPrefix(strategyKey));
+};
@@ -0,0 +1,45 @@
+import {
+  calculatePovSliceAmount,
+  calculateProfileFraction,
+  calculateScheduledFraction,
+  calculateScheduledSliceAmount,
+  isPriceWithinLimit,
+} from './executionAlgo';
+
+describe('executionAlgo', () => {
+  it('schedules TWAP linearly over the window, including the next slice', () => {
+    expect(calculateScheduledFraction('twap', 0, 1000, 0, 100)).toBeCloseTo(
+      0.1,
+    );
+    expect(calculateScheduledFraction('twap', 0, 1000, 950, 100)).toBe(1);
+  });
+
+  it('schedules VWAP along the volume profile', () => {
+    const profile = [3, 1];
+
+    expect(calculateProfileFraction(profile, 0.25)).toBeCloseTo(0.375);
+    expect(calculateProfileFraction(profile, 0.5)).toBeCloseTo(0.75);
+    expect(
+      calculateScheduledFraction('vwap', 0, 1000, 400, 100, profile),
+    ).toBeCloseTo(0.75);
+    expect(calculateProfileFraction([], 0.4)).toBeCloseTo(0.4);
+  });
+
+  it('slices what is behind schedule, capped by the remaining amount', () => {
+    expect(calculateScheduledSliceAmount(10, 0.5, 3)).toBe(2);
+    expect(calculateScheduledSliceAmount(10, 0.2, 3)).toBe(0);
+    expect(calculateScheduledSliceAmount(10, 1, 9.5)).toBe(0.5);
+  });
+
+  it('participates in a share of the market volume', () => {
+    expect(calculatePovSliceAmount(100, 0.1, 50)).toBe(10);
+    expect(calculatePovSliceAmount(100, 0.1, 4)).toBe(4);
+  });
+
+  it('checks prices against the limit of each side', () => {
+    expect(isPriceWithinLimit('buy', 99, 100)).toBe(true);
+    expect(isPriceWithinLimit('buy', 101, 100)).toBe(false);
+    expect(isPriceWithinLimit('sell', 99, 100)).toBe(false);
+    expect(isPriceWithinLimit('sell', 101)).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { AlgoOrderType } from 'src/common/types/trade/algo';
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Share of a volume profile traded by a point of the window, interpolating inside the current bucket
+export const calculateProfileFraction = (
+  volumeProfile: number[],
+  timeFraction: number,
+): number => {
+  const totalVolume = volumeProfile.reduce((sum, volume) => sum + volume, 0);
+  if (!volumeProfile.length || totalVolume <= 0) {
+    return clamp(timeFraction);
+  }
+  const position = clamp(timeFraction) * volumeProfile.length;
+  const fullBuckets = Math.floor(position);
+  let volume = volumeProfile
+    .slice(0, fullBuckets)
+    .reduce((sum, bucketVolume) => sum + bucketVolume, 0);
+  if (fullBuckets < volumeProfile.length) {
+    volume += volumeProfile[fullBuckets] * (position - fullBuckets);
+  }
+  return volume / totalVolume;
+};
+
+// Share of the parent order TWAP and VWAP aim to have executed once the slice starting now is done
+export const calculateScheduledFraction = (
+  algorithm: AlgoOrderType,
+  startTime: number,
+  endTime: number,
+  now: number,
+  sliceIntervalMs: number,
+  volumeProfile?: number[],
+): number => {
+  const timeFraction = clamp(
+    (now + sliceIntervalMs - startTime) / (endTime - startTime),
+  );
+  return algorithm === 'vwap' && volumeProfile?.length
+    ? calculateProfileFraction(volumeProfile, timeFraction)
+    : timeFraction;
+};
+
+// Amount of the next TWAP/VWAP child order, what is behind schedule net of what is already working
+export const calculateScheduledSliceAmount = (
+  totalAmount: number,
+  scheduledFraction: number,
+  executedAmount: number,
+): number =>
+  Math.max(
+    0,
+    Math.min(
+      totalAmount - executedAmount,
+      totalAmount * scheduledFraction - executedAmount,
+    ),
+  );
+
+// Amount of the next percentage-of-volume child order, a share of the market volume traded since the last slice
+export const calculatePovSliceAmount = (
+  marketVolume: number,
+  participationRate: number,
+  remainingAmount: number,
+): number =>
+  Math.max(0, Math.min(remainingAmount, marketVolume * participationRate));
+
+export const isPriceWithinLimit = (
+  side: 'buy' | 'sell',
+  price: number,
+  limitPrice?: number,
+): boolean => {
+  if (!limitPrice) {
+    return true;
+  }
+  return side === 'buy' ? price <= limitPrice : price >= limitPrice;
+};
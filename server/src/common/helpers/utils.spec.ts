@@ -2,6 +2,7 @@ import { PAIRS_MAP } from 'src/common/constants/pairs';
 import { PairsMapKey } from 'src/common/types/pairs/pairs';
 import {
   generateRandomSequence,
+  getExchangeSymbol,
   getPairSymbolByKey,
 } from 'src/common/helpers/utils';
 
@@ -28,3 +29,11 @@ describe('getPairSymbolByKey', () => {
     expect(getPairSymbolByKey('WTF')).toBe('');
   });
 });
+
+describe('getExchangeSymbol', () => {
+  it('drops the chain of the assets', () => {
+    expect(getExchangeSymbol('BTC/USDT-ERC20')).toBe('BTC/USDT');
+    expect(getExchangeSymbol('ETH/USDT-TRC20')).toBe('ETH/USDT');
+    expect(getExchangeSymbol('BTC/USDT')).toBe('BTC/USDT');
+  });
+});
@@ -50,6 +50,14 @@ export const getAssetIDBySymbol = (value: PairsMapValue) => {
   };
 };
 
+// Mixin asset symbols carry the chain of the asset (USDT-ERC20), exchanges trade the currency without it
+export const getExchangeSymbol = (value: PairsMapValue): string => {
+  return value
+    .split('/')
+    .map((symbol) => symbol.split('-')[0])
+    .join('/');
+};
+
 export const getSymbolByAssetID = (
   asset_id: SymbolAssetIdMapValue,
 ): SymbolAssetIdMapKey => {
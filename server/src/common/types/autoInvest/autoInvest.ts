@@ -0,0 +1,6 @@
+// An unfunded plan is active again as soon as a deposit covers its next purchase
+export type AutoInvestPlanStatus =
+  | 'active'
+  | 'paused'
+  | 'unfunded'
+  | 'canceled';
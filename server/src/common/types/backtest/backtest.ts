@@ -0,0 +1,53 @@
+export type BacktestStrategyType = 'pureMarketMaking' | 'arbitrage';
+
+export interface BacktestTrade {
+  price: number;
+  amount: number;
+  side?: 'buy' | 'sell';
+}
+
+export interface BacktestOrderBook {
+  bids: number[][];
+  asks: number[][];
+}
+
+// One recorded point in time, keyed by exchange name
+export interface BacktestSnapshot {
+  timestamp: number;
+  orderBooks: Record<string, BacktestOrderBook>;
+  trades?: Record<string, BacktestTrade[]>;
+}
+
+export interface BacktestFill {
+  timestamp: number;
+  exchange: string;
+  side: 'buy' | 'sell';
+  price: number;
+  amount: number;
+  fee: number;
+  liquidity: 'maker' | 'taker';
+}
+
+export interface BacktestInventoryPoint {
+  timestamp: number;
+  baseBalance: number;
+  quoteBalance: number;
+  markPrice: number;
+  equity: number;
+}
+
+export interface BacktestReport {
+  strategyType: BacktestStrategyType;
+  startTime: number;
+  endTime: number;
+  initialEquity: number;
+  finalEquity: number;
+  pnl: number;
+  pnlPercentage: number;
+  totalFees: number;
+  totalVolume: number;
+  numberOfFills: number;
+  maxDrawdown: number;
+  fills: BacktestFill[];
+  inventoryPath: BacktestInventoryPoint[];
+}
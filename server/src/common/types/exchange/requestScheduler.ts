@@ -0,0 +1,22 @@
+// Queued requests of a higher class are sent first: cancels, then placements, then fetches
+export type RequestPriority = 'cancel' | 'place' | 'fetch';
+
+export interface ScheduleRequestOptions {
+  priority?: RequestPriority; // By default derived from the method
+  weight?: number; // Tokens the request takes, by default derived from the method
+  rateLimit?: number; // Milliseconds per token, only used when the bucket is created
+}
+
+export interface RequestBucketMetrics {
+  exchangeName: string;
+  accountLabel: string;
+  capacity: number;
+  tokens: number;
+  queued: Record<RequestPriority, number>;
+  sent: number;
+  failed: number;
+  rateLimited: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  backoffUntil?: Date;
+}
@@ -0,0 +1,8 @@
+import * as ccxt from 'ccxt';
+
+export interface OrderBookSnapshot {
+  orderBook: ccxt.OrderBook;
+  timestamp: number;
+}
+
+export type OrderBookListener = (orderBook: ccxt.OrderBook) => void;
@@ -1,5 +1,6 @@
 import {
   ARBITRAGE_MEMO_ACTION_MAP,
+  AUTO_INVEST_MEMO_ACTION_MAP,
   MARKET_MAKING_MEMO_ACTION_MAP,
   SPOT_EXCHANGE_MAP,
   SPOT_ORDER_TYPE_MAP,
@@ -21,6 +22,10 @@ export type MarketMakingMemoActionType =
 export type MarketMakingMemoActionValueType =
   (typeof MARKET_MAKING_MEMO_ACTION_MAP)[keyof typeof MARKET_MAKING_MEMO_ACTION_MAP];
 
+export type AutoInvestMemoActionType = keyof typeof AUTO_INVEST_MEMO_ACTION_MAP;
+export type AutoInvestMemoActionValueType =
+  (typeof AUTO_INVEST_MEMO_ACTION_MAP)[keyof typeof AUTO_INVEST_MEMO_ACTION_MAP];
+
 export type TradingTypeValue =
   (typeof TARDING_TYPE_MAP)[keyof typeof TARDING_TYPE_MAP];
 export type SpotOrderTypeValue =
@@ -53,3 +58,13 @@ export interface MarketMakingMemoDetails {
   symbol: PairsMapValue;
   traceId: string;
 }
+
+export interface AutoInvestMemoDetails {
+  tradingType: TradingTypeValue;
+  action: AutoInvestMemoActionValueType;
+  exchangeName: ExchangeIndexValue;
+  symbol: PairsMapValue;
+  amount: string; // Amount of the funding asset invested every period
+  frequencyHours: number;
+  traceId: string; // Identifies the plan, a deposit reuses the trace id of the plan it funds
+}
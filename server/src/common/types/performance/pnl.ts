@@ -0,0 +1,38 @@
+export type CostBasisMethod = 'fifo' | 'average';
+
+export type InventoryLot = {
+  amount: number; // Signed base amount, negative when short
+  price: number;
+};
+
+export type PnlInventory = {
+  method: CostBasisMethod;
+  lots: InventoryLot[]; // Oldest first, all on the same side, a single one with the average method
+  realizedPnl: number; // Before fees
+  fees: number; // In the quote currency
+  exchangeName: string; // Exchange of the last fill, the position is marked to its price
+};
+
+export type StrategyFillInput = {
+  strategyKey: string;
+  exchangeName: string;
+  pair: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  price: number;
+  fee?: number; // In the quote currency
+  orderId?: string;
+  executedAt?: Date;
+};
+
+// Amounts are in the quote currency of the pair
+export type PnlPosition = {
+  pair: string;
+  position: number;
+  averageCost: number;
+  referencePrice: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  fees: number;
+  netPnl: number; // Realized and unrealized, net of fees
+};
@@ -0,0 +1,274 @@
+import { Type } from '@nestjs/common';
+import { PriceSourceType } from 'src/common/enum/pricesourcetype';
+
+export type StrategyMarket = {
+  exchangeName: string;
+  pair: string;
+};
+
+// A strategy type, the core starts, stops and looks up the markets of strategies through the plugin of their type
+export type StrategyPlugin = {
+  type: string;
+  description: string;
+  parameters: Type<unknown>; // DTO the parameters are documented and validated with
+  fixedParameters: string[]; // Parameters only read when the strategy starts
+  start: (parameters: Record<string, any>) => Promise<void>;
+  // One iteration of the loop of a strategy, strategies that don't run on an interval have none
+  tick?: (
+    strategyKey: string,
+    parameters: Record<string, any>,
+  ) => Promise<void>;
+  // Releases what the strategy keeps besides the loop and state of the core
+  stop?: (strategyKey: string) => Promise<void>;
+  getMarkets: (
+    strategyKey: string,
+    parameters: Record<string, any>,
+  ) => StrategyMarket[];
+  // How the open orders are reconciled with the exchanges before an interrupted strategy is resumed: the orders recorded
+  // open in the order history are closed when gone, the active orders are tracked again when still open
+  reconcilesOrderHistory?: boolean;
+  reconcilesActiveOrders?: boolean;
+};
+
+export type StrategyTypeDescription = {
+  type: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema
+};
+
+// Interrupted strategies were running when the service shut down and are resumed on the next boot
+export type StrategyStatus =
+  | 'created'
+  | 'starting'
+  | 'running'
+  | 'pausing'
+  | 'paused'
+  | 'stopping'
+  | 'stopped'
+  | 'errored'
+  | 'interrupted';
+
+export type StrategyEventType = 'transition' | 'parameters' | 'error';
+
+export type StrategyEventContext = {
+  reason?: string;
+  actor?: string; // Who caused the event: 'user', 'admin', 'risk', 'scheduler' or 'system'
+};
+
+// A strategy runs between startAt and endAt, and only in the minutes its cron window matches (UTC)
+export type StrategyScheduleWindow = {
+  startAt?: Date | null;
+  endAt?: Date | null;
+  cronWindow?: string | null;
+};
+
+export type ResumedStrategy = {
+  strategyKey: string;
+  strategyType: string;
+  openOrdersFound: number;
+  ordersReconciled: number;
+};
+
+export type StrategyResumeReport = {
+  startedAt: Date;
+  finishedAt: Date;
+  resumed: ResumedStrategy[];
+  failed: { strategyKey: string; error: string }[];
+};
+
+export type MarketMakingRefreshSettings = {
+  refreshMode?: 'replace' | 'diff';
+  priceTolerance?: number;
+  amountTolerance?: number;
+  hangingOrdersEnabled?: boolean;
+  hangingOrderTimeout?: number;
+};
+
+export type MarketMakingVolatilitySettings = {
+  volatilityAdaptive?: boolean;
+  volatilitySource?: 'orderBook' | 'ohlcv';
+  volatilityWindow?: number; // Number of returns the volatility is measured over
+  volatilityTimeframe?: string; // Candle timeframe of the ohlcv source
+  targetVolatility?: number;
+  minSpread?: number;
+  maxSpread?: number;
+  minOrderSizeRatio?: number;
+};
+
+export type PriceSourceSettings = {
+  referenceExchangeName?: string; // Exchange of the external_exchange source
+  referencePair?: string; // Pair on the reference exchanges, the strategy's pair by default
+  indexExchangeNames?: string[]; // Exchanges of the volume_weighted_index source
+  coingeckoId?: string;
+  coingeckoCurrency?: string;
+  maxPriceAge?: number; // Milliseconds after which a price is stale
+  fallbackPriceSourceTypes?: PriceSourceType[]; // Tried in order when a price source fails or is stale
+};
+
+export type CrossExchangeMakerOrder = {
+  orderId: string;
+  side: 'buy' | 'sell';
+  price: number;
+  amount: number;
+  expectedHedgePrice: number;
+  hedgedAmount: number;
+};
+
+export type CrossExchangeHedgeState = {
+  makerOrders: CrossExchangeMakerOrder[];
+  unhedgedAmount: number; // Signed base amount, positive when long on the maker venue
+  hedgeCount: number;
+  totalSlippage: number;
+};
+
+export type GridOrder = {
+  orderId: string;
+  level: number; // Index of the price level the order rests on
+  side: 'buy' | 'sell';
+  price: number;
+  amount: number;
+  // Set on counter orders, the fill they close a round trip for
+  entryLevel?: number;
+  entryPrice?: number;
+};
+
+export type GridProfit = {
+  lowerPrice: number;
+  upperPrice: number;
+  roundTrips: number;
+  realizedProfit: number;
+};
+
+export type GridState = {
+  levels: number[];
+  openOrders: GridOrder[];
+  gridProfits: GridProfit[]; // One per grid, between levels[i] and levels[i + 1]
+  realizedProfit: number;
+  baseInventory: number; // Net base amount bought by the grid
+  exitReason?: 'stopLoss' | 'takeProfit';
+};
+
+// Limits are in the quote currency of the strategy's markets unless noted otherwise, unset limits aren't enforced
+export type RiskLimits = {
+  maxPositionPerAsset?: number; // Net base amount held of any asset, long or short
+  maxOpenNotional?: number; // Value of the open orders
+  maxDailyLoss?: number; // Realized loss since 00:00 UTC
+  maxDrawdown?: number; // Drop of the realized profit from its peak
+  maxOrdersPerMinute?: number;
+};
+
+export type RiskBreach = {
+  limit: keyof RiskLimits;
+  value: number;
+  threshold: number;
+};
+
+export type RiskOrder = {
+  type: 'market' | 'limit';
+  exchangeName: string;
+  accountLabel?: string; // The default account when unset
+  symbol: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  price?: number; // Limit price, or the expected price of a market order
+};
+
+export type RiskPosition = {
+  amount: number; // Signed base amount, negative when short
+  averagePrice: number;
+};
+
+export type RiskTrackedOrder = {
+  exchangeName: string;
+  accountLabel?: string;
+  orderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  price: number;
+  filled: number;
+  fee: number; // Fee of the fills applied so far, in the quote currency
+};
+
+export type StrategyRiskState = {
+  limits: RiskLimits;
+  positions: Record<string, RiskPosition>; // By base asset
+  openOrders: RiskTrackedOrder[];
+  orderTimestamps: number[];
+  realizedPnl: number;
+  peakPnl: number;
+  dailyPnl: number;
+  day: string; // UTC day the daily profit is counted for, YYYY-MM-DD
+  lastSyncAt: number;
+};
+
+// What an arbitrage does with the leg that filled more when the other leg fails or times out
+export type ArbitrageLegPolicy = 'marketClose' | 'repost' | 'alert';
+
+export type ArbitrageLegSettings = {
+  legTimeoutSeconds?: number;
+  legPolicy?: ArbitrageLegPolicy;
+  repostSlippage?: number; // Relative price concession of a reposted leg
+};
+
+export type ArbitrageLeg = {
+  exchangeName: string;
+  orderId?: string;
+  side: 'buy' | 'sell';
+  amount: number;
+  price: number; // Limit price, or the expected price of a market order
+  filled: number;
+  averagePrice: number;
+  fee: number;
+  status: 'open' | 'closed' | 'canceled' | 'failed';
+};
+
+export type ArbitrageLegOutcome =
+  | 'completed' // Both legs filled
+  | 'canceled' // The legs filled the same amount, possibly nothing, the rest was canceled
+  | 'unwound' // The excess of the leg that filled more was closed at market
+  | 'reposted' // The missing amount of the lagging leg was filled by a reposted order
+  | 'unhedged'; // The excess is still held, an alert was sent
+
+export type ExchangeFeeRates = {
+  maker: number;
+  taker: number;
+};
+
+export type ArbitrageTransferCosts = {
+  baseWithdrawalFee?: number; // In the base asset
+  quoteWithdrawalFee?: number; // In the quote asset
+  transferCostTrades?: number; // Trades a rebalance is amortized over, unset to ignore transfer costs
+};
+
+export type ArbitrageCosts = ArbitrageTransferCosts & {
+  feeRateA: number; // Trading fee rate of the orders on exchange A
+  feeRateB: number;
+};
+
+// Amounts are in the quote currency
+export type ArbitrageCostBreakdown = {
+  buyPrice: number;
+  sellPrice: number;
+  amount: number; // Base amount, capped by the balances of the venues
+  grossProfit: number;
+  buyFee: number;
+  sellFee: number;
+  transferCost: number;
+  netProfit: number;
+  netProfitability: number; // Net profit relative to the cost of the buy
+};
+
+export type ArbitrageVenue = {
+  exchangeName: string;
+  orderBook: { bids: number[][]; asks: number[][] };
+  feeRate: number;
+  baseBalance?: number; // Free balances, unset ones don't limit the amount
+  quoteBalance?: number;
+};
+
+export type ArbitrageRoute = {
+  buyExchangeName: string;
+  sellExchangeName: string;
+  breakdown: ArbitrageCostBreakdown;
+};
@@ -0,0 +1,17 @@
+export type AlgoOrderType = 'twap' | 'vwap' | 'pov';
+
+export type AlgoOrderStatus =
+  | 'running'
+  | 'completed'
+  | 'canceled'
+  | 'expired'
+  | 'failed';
+
+export type AlgoOrderProgress = {
+  filledAmount: number;
+  remainingAmount: number;
+  averagePrice: number;
+  progress: number; // Filled share of the parent order, 0 to 1
+  scheduledProgress: number; // Share the algorithm aimed to have filled by now, 0 to 1
+  childOrders: number;
+};
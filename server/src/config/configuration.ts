@@ -53,6 +53,16 @@ export default () => ({
   strategy: {
     run: process.env.RUN_STARTEGY_FOR_MIXIN_ORDERS || 'false',
   },
+  risk: {
+    max_position_per_asset: +process.env.RISK_MAX_POSITION_PER_ASSET || 0,
+    max_open_notional: +process.env.RISK_MAX_OPEN_NOTIONAL || 0,
+    max_daily_loss: +process.env.RISK_MAX_DAILY_LOSS || 0,
+    max_drawdown: +process.env.RISK_MAX_DRAWDOWN || 0,
+    max_orders_per_minute: +process.env.RISK_MAX_ORDERS_PER_MINUTE || 0,
+  },
+  pnl: {
+    cost_basis: process.env.PNL_COST_BASIS || 'fifo',
+  },
   constants: {
     mixin_api_base_url:
       process.env.MIXIN_API_BASE_URL || 'https://api.mixin.one',
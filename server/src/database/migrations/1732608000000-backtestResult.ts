@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class BacktestResult1732608000000 implements MigrationInterface {
+  name = 'BacktestResult1732608000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "backtest_results" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "userId" character varying NOT NULL,
+                "clientId" character varying,
+                "strategyType" character varying NOT NULL,
+                "parameters" json NOT NULL,
+                "pnl" double precision NOT NULL,
+                "maxDrawdown" double precision NOT NULL,
+                "totalFees" double precision NOT NULL,
+                "numberOfFills" integer NOT NULL,
+                "report" json NOT NULL,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_5f0e4b1c0d3f6a2b7e9c8d1a4b2" PRIMARY KEY ("id")
+            )
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP TABLE "backtest_results"
+        `);
+  }
+}
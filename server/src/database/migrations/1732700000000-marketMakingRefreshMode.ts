@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MarketMakingRefreshMode1732700000000
+  implements MigrationInterface
+{
+  name = 'MarketMakingRefreshMode1732700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "refreshMode" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "priceTolerance" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "amountTolerance" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "hangingOrdersEnabled" boolean
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "hangingOrderTimeout" character varying
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "hangingOrderTimeout"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "hangingOrdersEnabled"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "amountTolerance"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "priceTolerance"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "refreshMode"
+        `);
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class TriangularArbitrageHistory1732800000000
+  implements MigrationInterface
+{
+  name = 'TriangularArbitrageHistory1732800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "triangular_arbitrage_history" (
+                "id" SERIAL NOT NULL,
+                "userId" character varying NOT NULL,
+                "clientId" character varying,
+                "exchange" character varying NOT NULL,
+                "cycle" character varying NOT NULL,
+                "startAmount" double precision NOT NULL,
+                "endAmount" double precision,
+                "expectedProfit" double precision,
+                "profit" double precision,
+                "legs" json NOT NULL,
+                "executedAt" TIMESTAMP,
+                "status" character varying,
+                "strategy" character varying,
+                CONSTRAINT "PK_8c3d1f6e2a9b4c7d5e0f1a2b3c4" PRIMARY KEY ("id")
+            )
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP TABLE "triangular_arbitrage_history"
+        `);
+  }
+}
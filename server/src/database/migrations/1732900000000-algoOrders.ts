@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AlgoOrders1732900000000 implements MigrationInterface {
+  name = 'AlgoOrders1732900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "algo_orders" (
+                "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+                "userId" character varying NOT NULL,
+                "clientId" character varying,
+                "exchange" character varying NOT NULL,
+                "symbol" character varying NOT NULL,
+                "side" character varying NOT NULL,
+                "algorithm" character varying NOT NULL,
+                "totalAmount" double precision NOT NULL,
+                "filledAmount" double precision NOT NULL DEFAULT '0',
+                "averagePrice" double precision,
+                "limitPrice" double precision,
+                "startTime" TIMESTAMP NOT NULL,
+                "endTime" TIMESTAMP NOT NULL,
+                "sliceIntervalSeconds" integer NOT NULL,
+                "participationRate" double precision,
+                "volumeProfile" json,
+                "lastSliceAt" TIMESTAMP,
+                "status" character varying NOT NULL,
+                "error" character varying,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_3b7e1d9a6c2f4e8b0a5d7c1f9e3" PRIMARY KEY ("id")
+            )
+        `);
+    await queryRunner.query(`
+            CREATE TABLE "algo_child_orders" (
+                "id" SERIAL NOT NULL,
+                "parentId" character varying NOT NULL,
+                "orderId" character varying NOT NULL,
+                "type" character varying NOT NULL,
+                "amount" double precision NOT NULL,
+                "filled" double precision NOT NULL DEFAULT '0',
+                "price" double precision,
+                "status" character varying NOT NULL,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_9d4a2c7e1b8f3d6a0c5e2b7f4a1" PRIMARY KEY ("id")
+            )
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP TABLE "algo_child_orders"
+        `);
+    await queryRunner.query(`
+            DROP TABLE "algo_orders"
+        `);
+  }
+}
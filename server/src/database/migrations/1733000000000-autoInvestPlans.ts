@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AutoInvestPlans1733000000000 implements MigrationInterface {
+  name = 'AutoInvestPlans1733000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "auto_invest_plans" (
+                "id" character varying NOT NULL,
+                "userId" character varying NOT NULL,
+                "exchangeName" character varying NOT NULL,
+                "pair" character varying NOT NULL,
+                "symbol" character varying NOT NULL,
+                "assetId" character varying NOT NULL,
+                "fundingAssetId" character varying NOT NULL,
+                "amount" double precision NOT NULL,
+                "frequencyHours" integer NOT NULL,
+                "balance" double precision NOT NULL DEFAULT '0',
+                "position" double precision NOT NULL DEFAULT '0',
+                "totalInvested" double precision NOT NULL DEFAULT '0',
+                "totalBought" double precision NOT NULL DEFAULT '0',
+                "status" character varying NOT NULL,
+                "nextRunAt" TIMESTAMP NOT NULL,
+                "lastRunAt" TIMESTAMP,
+                "error" character varying,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_5e8c1a4f7b2d9e3c6a0f4b8d2e7" PRIMARY KEY ("id")
+            )
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP TABLE "auto_invest_plans"
+        `);
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ArbitrageLegOutcome1733100000000 implements MigrationInterface {
+  name = 'ArbitrageLegOutcome1733100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "arbitrage_history"
+            ADD "legOutcome" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "arbitrage_history"
+            ADD "slippage" double precision
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "arbitrage_history"
+            ADD "unhedgedAmount" double precision
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "arbitrage_history" DROP COLUMN "unhedgedAmount"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "arbitrage_history" DROP COLUMN "slippage"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "arbitrage_history" DROP COLUMN "legOutcome"
+        `);
+  }
+}
@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class StrategyPnlLedger1733200000000 implements MigrationInterface {
+  name = 'StrategyPnlLedger1733200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "strategy_fills" (
+                "id" SERIAL NOT NULL,
+                "strategyKey" character varying NOT NULL,
+                "exchangeName" character varying NOT NULL,
+                "pair" character varying NOT NULL,
+                "side" character varying NOT NULL,
+                "amount" double precision NOT NULL,
+                "price" double precision NOT NULL,
+                "fee" double precision NOT NULL DEFAULT '0',
+                "realizedPnl" double precision NOT NULL DEFAULT '0',
+                "orderId" character varying,
+                "executedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_3b7e9d1f5a2c8e4b6d0a9f7c1e3" PRIMARY KEY ("id")
+            )
+        `);
+    await queryRunner.query(`
+            CREATE INDEX "IDX_8f2a6c4e1b9d7f3a5c0e2b4d6a" ON "strategy_fills" ("strategyKey")
+        `);
+    await queryRunner.query(`
+            CREATE TABLE "pnl_snapshots" (
+                "id" SERIAL NOT NULL,
+                "strategyKey" character varying NOT NULL,
+                "pair" character varying NOT NULL,
+                "position" double precision NOT NULL,
+                "averageCost" double precision NOT NULL,
+                "referencePrice" double precision NOT NULL,
+                "realizedPnl" double precision NOT NULL,
+                "unrealizedPnl" double precision NOT NULL,
+                "fees" double precision NOT NULL,
+                "netPnl" double precision NOT NULL,
+                "timestamp" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_6d1f3b8a0e5c7a9d2f4b6e8c0a1" PRIMARY KEY ("id")
+            )
+        `);
+    await queryRunner.query(`
+            CREATE INDEX "IDX_c5e7a9b1d3f0e2c4a6b8d0f2e4" ON "pnl_snapshots" ("strategyKey")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP INDEX "public"."IDX_c5e7a9b1d3f0e2c4a6b8d0f2e4"
+        `);
+    await queryRunner.query(`
+            DROP TABLE "pnl_snapshots"
+        `);
+    await queryRunner.query(`
+            DROP INDEX "public"."IDX_8f2a6c4e1b9d7f3a5c0e2b4d6a"
+        `);
+    await queryRunner.query(`
+            DROP TABLE "strategy_fills"
+        `);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class StrategyEvents1733300000000 implements MigrationInterface {
+  name = 'StrategyEvents1733300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "strategy_events" (
+                "id" SERIAL NOT NULL,
+                "strategyKey" character varying NOT NULL,
+                "type" character varying NOT NULL,
+                "fromStatus" character varying,
+                "toStatus" character varying,
+                "reason" character varying,
+                "actor" character varying NOT NULL,
+                "details" json,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_9a4c2e6b8d0f1a3c5e7b9d2f4a6" PRIMARY KEY ("id")
+            )
+        `);
+    await queryRunner.query(`
+            CREATE INDEX "IDX_2e4a6c8b0d1f3e5a7c9b2d4f6e" ON "strategy_events" ("strategyKey")
+        `);
+    // Claims of strategies being resumed are retried on the next boot
+    await queryRunner.query(`
+            UPDATE "strategy_instances" SET "status" = 'interrupted' WHERE "status" = 'resuming'
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP INDEX "public"."IDX_2e4a6c8b0d1f3e5a7c9b2d4f6e"
+        `);
+    await queryRunner.query(`
+            DROP TABLE "strategy_events"
+        `);
+  }
+}
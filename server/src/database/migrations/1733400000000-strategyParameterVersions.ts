@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class StrategyParameterVersions1733400000000
+  implements MigrationInterface
+{
+  name = 'StrategyParameterVersions1733400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "strategy_parameter_versions" (
+                "id" SERIAL NOT NULL,
+                "strategyKey" character varying NOT NULL,
+                "version" integer NOT NULL,
+                "parameters" json NOT NULL,
+                "actor" character varying NOT NULL,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_5b7d9f1a3c6e8b0d2f4a6c8e1b3" PRIMARY KEY ("id")
+            )
+        `);
+    await queryRunner.query(`
+            CREATE INDEX "IDX_7c9e1a3b5d8f0a2c4e6b8d1f3a" ON "strategy_parameter_versions" ("strategyKey")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP INDEX "public"."IDX_7c9e1a3b5d8f0a2c4e6b8d1f3a"
+        `);
+    await queryRunner.query(`
+            DROP TABLE "strategy_parameter_versions"
+        `);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class StrategySchedules1733500000000 implements MigrationInterface {
+  name = 'StrategySchedules1733500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            CREATE TABLE "strategy_schedules" (
+                "id" SERIAL NOT NULL,
+                "strategyKey" character varying NOT NULL,
+                "startAt" TIMESTAMP,
+                "endAt" TIMESTAMP,
+                "cronWindow" character varying,
+                "enabled" boolean NOT NULL DEFAULT true,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_3e8a1c5f7b9d2e4a6c8f0b1d3e5" PRIMARY KEY ("id")
+            )
+        `);
+    await queryRunner.query(`
+            CREATE UNIQUE INDEX "IDX_9a2c4e6f8b1d3a5c7e9f0b2d4a" ON "strategy_schedules" ("strategyKey")
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            DROP INDEX "public"."IDX_9a2c4e6f8b1d3a5c7e9f0b2d4a"
+        `);
+    await queryRunner.query(`
+            DROP TABLE "strategy_schedules"
+        `);
+  }
+}
@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class MarketMakingPriceSources1733600000000
+  implements MigrationInterface
+{
+  name = 'MarketMakingPriceSources1733600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "referenceExchangeName" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "referencePair" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "indexExchangeNames" json
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "coingeckoId" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "coingeckoCurrency" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "maxPriceAge" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order"
+            ADD "fallbackPriceSourceTypes" json
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "fallbackPriceSourceTypes"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "maxPriceAge"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "coingeckoCurrency"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "coingeckoId"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "indexExchangeNames"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "referencePair"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_order" DROP COLUMN "referenceExchangeName"
+        `);
+  }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class StrategyClientOrderIds1733700000000 implements MigrationInterface {
+  name = 'StrategyClientOrderIds1733700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "trade"
+            ADD "clientOrderId" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "market_making_history"
+            ADD "clientOrderId" character varying
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "market_making_history" DROP COLUMN "clientOrderId"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "trade" DROP COLUMN "clientOrderId"
+        `);
+  }
+}
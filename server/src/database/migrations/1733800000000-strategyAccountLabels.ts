@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class StrategyAccountLabels1733800000000 implements MigrationInterface {
+  name = 'StrategyAccountLabels1733800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "strategy_instances"
+            ADD "accountLabel" character varying NOT NULL DEFAULT 'default'
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "strategy_instances" DROP COLUMN "accountLabel"
+        `);
+  }
+}
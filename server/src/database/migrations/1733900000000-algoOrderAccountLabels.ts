@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AlgoOrderAccountLabels1733900000000 implements MigrationInterface {
+  name = 'AlgoOrderAccountLabels1733900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "algo_orders"
+            ADD "accountLabel" character varying NOT NULL DEFAULT 'default'
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "algo_orders" DROP COLUMN "accountLabel"
+        `);
+  }
+}
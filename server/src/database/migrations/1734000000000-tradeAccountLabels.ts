@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class TradeAccountLabels1734000000000 implements MigrationInterface {
+  name = 'TradeAccountLabels1734000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "trade"
+            ADD "exchange" character varying
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "trade"
+            ADD "accountLabel" character varying NOT NULL DEFAULT 'default'
+        `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+            ALTER TABLE "trade" DROP COLUMN "accountLabel"
+        `);
+    await queryRunner.query(`
+            ALTER TABLE "trade" DROP COLUMN "exchange"
+        `);
+  }
+}
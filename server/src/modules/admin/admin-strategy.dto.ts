@@ -9,10 +9,19 @@ import { IsUUID, IsDecimal } from 'class-validator';
 // Unified DTO for starting strategies that handles all types
 export class StartStrategyDto {
   @ApiProperty({
-    description: 'Type of strategy to start',
+    description:
+      'Type of strategy to start, one of the types listed at /strategy/types or marketMaking for pureMarketMaking',
     example: 'arbitrage',
   })
-  strategyType: 'arbitrage' | 'marketMaking' | 'volume';
+  strategyType: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Parameters of the strategy, following the schema of its type at /strategy/types',
+    type: 'object',
+    additionalProperties: true,
+  })
+  parameters?: Record<string, any>;
 
   @ApiPropertyOptional({
     description: 'Parameters for arbitrage strategy (required for arbitrage)',
@@ -44,6 +53,13 @@ export class StartStrategyDto {
     example: 5,
   })
   maxOpenOrders?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Label of the exchange account the strategy trades on, overriding the one of its parameters. Read-only accounts are refused',
+    example: 'account2',
+  })
+  accountLabel?: string;
 }
 
 // Stop Strategy DTO for stopping a strategy
@@ -61,10 +77,46 @@ export class StopStrategyDto {
   clientId: string;
 
   @ApiProperty({
-    description: 'Type of strategy to stop',
+    description:
+      'Type of strategy to stop, one of the types listed at /strategy/types or marketMaking for pureMarketMaking',
     example: 'arbitrage',
   })
-  strategyType: 'arbitrage' | 'marketMaking' | 'volume';
+  strategyType: string;
+}
+
+// Schedule DTO for running a strategy only within a window
+export class StrategyScheduleDto {
+  @ApiProperty({
+    description: 'Key of the scheduled strategy',
+    example: '123-456-pureMarketMaking',
+  })
+  strategyKey: string;
+
+  @ApiPropertyOptional({
+    description: 'The strategy does not run before this time',
+    example: '2024-12-01T00:00:00Z',
+  })
+  startAt?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'The strategy does not run from this time on',
+    example: '2024-12-31T00:00:00Z',
+  })
+  endAt?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Cron expression of the minutes the strategy runs in, in UTC (minute hour day-of-month month day-of-week)',
+    example: '* 9-17 * * 1-5',
+  })
+  cronWindow?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Whether the schedule is enforced',
+    example: true,
+    default: true,
+  })
+  enabled?: boolean;
 }
 
 export class GetDepositAddressDto {
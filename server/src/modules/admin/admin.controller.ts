@@ -2,6 +2,9 @@ import {
   Controller,
   Get,
   Post,
+  Put,
+  Delete,
+  Param,
   Body,
   UseGuards,
   BadRequestException,
@@ -16,6 +19,7 @@ import {
   // JoinStrategyDto,
   StartStrategyDto,
   StopStrategyDto,
+  StrategyScheduleDto,
 } from './admin-strategy.dto';
 import {
   ApiBearerAuth,
@@ -236,10 +240,52 @@ export class AdminController {
     return 'This is config data';
   }
 
-  //TODO: Implement returning strategies to be dispalyed.
   @Get('strategies')
-  async getRunningStrategies() {
-    return this.adminService.getRunningStrategies();
+  @ApiOperation({
+    summary: 'Get all strategies with their status and whether they run',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Strategies with their lifecycle status and whether their loop runs in this service.',
+  })
+  async getStrategies() {
+    return this.adminService.getStrategies();
+  }
+
+  @Get('strategy/schedules')
+  @ApiOperation({ summary: 'Get the schedules of the strategies' })
+  @ApiResponse({
+    status: 200,
+    description: 'Schedules of the strategies.',
+  })
+  async getStrategySchedules() {
+    return this.adminService.getStrategySchedules();
+  }
+
+  @Put('strategy/schedule')
+  @ApiOperation({
+    summary: 'Create or replace the schedule of a strategy',
+    description:
+      'The strategy is started within its window and stopped, with its orders cancelled, outside of it.',
+  })
+  @ApiBody({
+    description: 'Window the strategy runs in',
+    type: StrategyScheduleDto,
+  })
+  @ApiResponse({ status: 200, description: 'The saved schedule' })
+  @ApiResponse({ status: 400, description: 'Invalid schedule' })
+  @ApiResponse({ status: 404, description: 'Strategy not found' })
+  async setStrategySchedule(@Body() scheduleDto: StrategyScheduleDto) {
+    return this.adminService.setStrategySchedule(scheduleDto);
+  }
+
+  @Delete('strategy/schedule/:strategyKey')
+  @ApiOperation({ summary: 'Delete the schedule of a strategy' })
+  @ApiResponse({ status: 200, description: 'The schedule was deleted' })
+  @ApiResponse({ status: 404, description: 'The strategy has no schedule' })
+  async deleteStrategySchedule(@Param('strategyKey') strategyKey: string) {
+    return this.adminService.deleteStrategySchedule(strategyKey);
   }
 
   // @Get('strategy/performance/:strategyKey')
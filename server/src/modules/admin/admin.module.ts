@@ -2,36 +2,72 @@ import { Module } from '@nestjs/common';
 import { AdminService } from './admin.service';
 import { AdminController } from './admin.controller';
 import { StrategyService } from '../strategy/strategy.service';
+import { RiskService } from '../strategy/risk.service';
+import { FeeService } from '../strategy/fee.service';
+import { PriceSourceService } from '../strategy/price-source.service';
+import { StrategyLifecycleService } from '../strategy/lifecycle.service';
+import { StrategyRegistryService } from '../strategy/registry.service';
+import { AlpacaStratService } from '../strategy/alpacastrat.service';
+import { BigoneService } from '../mixin/rebalance/bigone/bigone.service';
+import { ConfigService } from '@nestjs/config';
 import { PerformanceService } from '../performance/performance.service';
+import { PnlService } from '../performance/pnl.service';
 import { TradeService } from '../trade/trade.service';
 import { ExchangeInitService } from '../exchangeInit/exchangeInit.service';
+import { ExchangeInitModule } from '../exchangeInit/exchangeInit.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { MarketMakingHistory } from 'src/common/entities/mm-order.entity';
 import { ArbitrageHistory } from 'src/common/entities/arbitrage-order.entity';
+import { TriangularArbitrageHistory } from 'src/common/entities/triangular-arbitrage-order.entity';
 import { TradeModule } from '../trade/trade.module';
 import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
 import { Contribution } from 'src/common/entities/contribution.entity';
 import { Web3Module } from '../web3/web3.module';
+import { MarketdataModule } from '../marketdata/marketdata.module';
+import { CoingeckoModule } from '../coingecko/coingecko.module';
 import { MixinUser } from 'src/common/entities/mixin-user.entity';
+import { StrategyFill } from 'src/common/entities/strategy-fill.entity';
+import { PnlSnapshot } from 'src/common/entities/pnl-snapshot.entity';
+import { StrategyEvent } from 'src/common/entities/strategy-event.entity';
+import { StrategyParameterVersion } from 'src/common/entities/strategy-parameter-version.entity';
+import { StrategySchedule } from 'src/common/entities/strategy-schedule.entity';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([
       MarketMakingHistory,
       ArbitrageHistory,
+      TriangularArbitrageHistory,
       StrategyInstance,
       MixinUser,
       Contribution,
       Performance,
+      StrategyFill,
+      PnlSnapshot,
+      StrategyEvent,
+      StrategyParameterVersion,
+      StrategySchedule,
     ]),
     TradeModule,
     Web3Module,
+    MarketdataModule,
+    CoingeckoModule,
+    ExchangeInitModule,
   ],
   controllers: [AdminController],
   providers: [
     AdminService,
     StrategyService,
+    RiskService,
+    FeeService,
+    PriceSourceService,
+    StrategyLifecycleService,
+    StrategyRegistryService,
+    AlpacaStratService,
+    BigoneService,
+    ConfigService,
     PerformanceService,
+    PnlService,
     TradeService,
     ExchangeInitService,
   ],
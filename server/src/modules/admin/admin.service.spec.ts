@@ -14,6 +14,7 @@ import { Web3Service } from '../web3/web3.service';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Contribution } from 'src/common/entities/contribution.entity';
 import { MixinUser } from 'src/common/entities/mixin-user.entity';
+import { StrategySchedule } from 'src/common/entities/strategy-schedule.entity';
 
 describe('AdminService', () => {
   let service: AdminService;
@@ -30,6 +31,14 @@ describe('AdminService', () => {
     findOne: jest.fn(),
   };
 
+  const mockStrategyScheduleRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((schedule) => schedule),
+    save: jest.fn(async (schedule) => schedule),
+    delete: jest.fn(),
+  };
+
   const mockExchangeInitService = {
     getDepositAddress: jest.fn(),
     getExchange: jest.fn(),
@@ -43,9 +52,7 @@ describe('AdminService', () => {
         {
           provide: StrategyService,
           useValue: {
-            startArbitrageStrategyForUser: jest.fn(),
-            executePureMarketMakingStrategy: jest.fn(),
-            executeVolumeStrategy: jest.fn(),
+            startStrategy: jest.fn(),
             stopStrategyForUser: jest.fn(),
             getStrategyInstanceKey: jest
               .fn()
@@ -72,6 +79,10 @@ describe('AdminService', () => {
           provide: getRepositoryToken(MixinUser),
           useValue: mockMixinUserRepository,
         },
+        {
+          provide: getRepositoryToken(StrategySchedule),
+          useValue: mockStrategyScheduleRepository,
+        },
         {
           provide: ExchangeInitService,
           useValue: mockExchangeInitService,
@@ -105,12 +116,9 @@ describe('AdminService', () => {
 
       await service.startStrategy(startStrategyDto);
 
-      expect(
-        strategyService.startArbitrageStrategyForUser,
-      ).toHaveBeenCalledWith(
+      expect(strategyService.startStrategy).toHaveBeenCalledWith(
+        'arbitrage',
         startStrategyDto.arbitrageParams,
-        startStrategyDto.checkIntervalSeconds,
-        startStrategyDto.maxOpenOrders,
       );
     });
 
@@ -135,9 +143,10 @@ describe('AdminService', () => {
 
       await service.startStrategy(startStrategyDto);
 
-      expect(
-        strategyService.executePureMarketMakingStrategy,
-      ).toHaveBeenCalledWith(startStrategyDto.marketMakingParams);
+      expect(strategyService.startStrategy).toHaveBeenCalledWith(
+        'pureMarketMaking',
+        startStrategyDto.marketMakingParams,
+      );
     });
 
     it('should start a volume strategy', async () => {
@@ -157,18 +166,48 @@ describe('AdminService', () => {
 
       await service.startStrategy(startStrategyDto);
 
-      expect(strategyService.executeVolumeStrategy).toHaveBeenCalledWith(
-        startStrategyDto.volumeParams.exchangeName,
-        startStrategyDto.volumeParams.symbol,
-        startStrategyDto.volumeParams.incrementPercentage,
-        startStrategyDto.volumeParams.intervalTime,
-        startStrategyDto.volumeParams.tradeAmount,
-        startStrategyDto.volumeParams.numTrades,
-        startStrategyDto.volumeParams.userId,
-        startStrategyDto.volumeParams.clientId,
+      expect(strategyService.startStrategy).toHaveBeenCalledWith(
+        'volume',
+        startStrategyDto.volumeParams,
       );
     });
 
+    it('should start a strategy of any type with its parameters', async () => {
+      const parameters = {
+        userId: 'user123',
+        clientId: 'client123',
+        exchangeName: 'binance',
+        pair: 'BTC/USDT',
+      };
+
+      await service.startStrategy({ strategyType: 'grid', parameters });
+
+      expect(strategyService.startStrategy).toHaveBeenCalledWith(
+        'grid',
+        parameters,
+      );
+    });
+
+    it('should start a strategy on the account of its label', async () => {
+      const parameters = {
+        userId: 'user123',
+        clientId: 'client123',
+        exchangeName: 'binance',
+        pair: 'BTC/USDT',
+      };
+
+      await service.startStrategy({
+        strategyType: 'grid',
+        parameters,
+        accountLabel: 'account2',
+      });
+
+      expect(strategyService.startStrategy).toHaveBeenCalledWith('grid', {
+        ...parameters,
+        accountLabel: 'account2',
+      });
+    });
+
     it('should throw BadRequestException for invalid strategy parameters', async () => {
       const startStrategyDto: StartStrategyDto = {
         strategyType: 'arbitrage', // No arbitrageParams provided
@@ -194,6 +233,7 @@ describe('AdminService', () => {
         stopStrategyDto.userId,
         stopStrategyDto.clientId,
         stopStrategyDto.strategyType,
+        { actor: 'admin' },
       );
     });
   });
@@ -379,4 +419,41 @@ describe('AdminService', () => {
       expect(result).toBe('USDT');
     });
   });
+
+  describe('setStrategySchedule', () => {
+    it('should save the schedule of a strategy', async () => {
+      mockStrategyScheduleRepository.findOne.mockResolvedValue(undefined);
+
+      const schedule = await service.setStrategySchedule({
+        strategyKey: '123-456-pureMarketMaking',
+        endAt: '2024-12-31T00:00:00Z',
+        cronWindow: '* 9-17 * * 1-5',
+      });
+
+      expect(schedule).toEqual({
+        strategyKey: '123-456-pureMarketMaking',
+        startAt: null,
+        endAt: new Date('2024-12-31T00:00:00Z'),
+        cronWindow: '* 9-17 * * 1-5',
+        enabled: true,
+      });
+    });
+
+    it('should reject an invalid window', async () => {
+      await expect(
+        service.setStrategySchedule({
+          strategyKey: '123-456-pureMarketMaking',
+          startAt: '2024-12-31T00:00:00Z',
+          endAt: '2024-12-01T00:00:00Z',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.setStrategySchedule({
+          strategyKey: '123-456-pureMarketMaking',
+          cronWindow: '* 9-25 * * *',
+        }),
+      ).rejects.toThrow('Invalid cron window * 9-25 * * *');
+      expect(mockStrategyScheduleRepository.save).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,10 +1,15 @@
-import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { StrategyService } from '../strategy/strategy.service';
 import { PerformanceService } from '../performance/performance.service';
 import {
   GetDepositAddressDto,
   StartStrategyDto,
   StopStrategyDto,
+  StrategyScheduleDto,
 } from './admin-strategy.dto';
 import { ExchangeInitService } from '../exchangeInit/exchangeInit.service';
 import {
@@ -15,6 +20,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Contribution } from 'src/common/entities/contribution.entity';
 import { Repository } from 'typeorm';
 import { MixinUser } from 'src/common/entities/mixin-user.entity';
+import { StrategySchedule } from 'src/common/entities/strategy-schedule.entity';
+import { isValidCronWindow } from 'src/common/helpers/strategy/schedule';
 import { Web3Service } from '../web3/web3.service';
 import { ethers } from 'ethers';
 
@@ -29,46 +36,56 @@ export class AdminService {
     private contributionRepository: Repository<Contribution>,
     @InjectRepository(MixinUser)
     private mixinuserrepository: Repository<MixinUser>,
+    @InjectRepository(StrategySchedule)
+    private strategyScheduleRepository: Repository<StrategySchedule>,
   ) {}
 
   async startStrategy(startStrategyDto: StartStrategyDto) {
-    const { strategyType, arbitrageParams, marketMakingParams, volumeParams } =
-      startStrategyDto;
-
-    if (strategyType === 'arbitrage' && arbitrageParams) {
-      return this.strategyService.startArbitrageStrategyForUser(
-        arbitrageParams, // Only pass arbitrage parameters
-        startStrategyDto.checkIntervalSeconds,
-        startStrategyDto.maxOpenOrders,
-      );
-    } else if (strategyType === 'marketMaking' && marketMakingParams) {
-      return this.strategyService.executePureMarketMakingStrategy(
-        marketMakingParams, // Only pass market making parameters
-      );
-    } else if (strategyType === 'volume' && volumeParams) {
-      return this.strategyService.executeVolumeStrategy(
-        volumeParams.exchangeName,
-        volumeParams.symbol,
-        volumeParams.incrementPercentage,
-        volumeParams.intervalTime,
-        volumeParams.tradeAmount,
-        volumeParams.numTrades,
-        volumeParams.userId,
-        volumeParams.clientId,
-      );
-    } else {
+    const {
+      arbitrageParams,
+      marketMakingParams,
+      volumeParams,
+      checkIntervalSeconds,
+      maxOpenOrders,
+      accountLabel,
+    } = startStrategyDto;
+    const strategyType = this.getStrategyType(startStrategyDto.strategyType);
+
+    // The parameters of arbitrage, market making and volume strategies can also be given in their own field
+    const parameters =
+      startStrategyDto.parameters ||
+      {
+        arbitrage: arbitrageParams && {
+          ...arbitrageParams,
+          ...(checkIntervalSeconds !== undefined && { checkIntervalSeconds }),
+          ...(maxOpenOrders !== undefined && { maxOpenOrders }),
+        },
+        pureMarketMaking: marketMakingParams,
+        volume: volumeParams,
+      }[strategyType];
+    if (!parameters) {
       throw new BadRequestException('Invalid strategy parameters');
     }
+    return this.strategyService.startStrategy(
+      strategyType,
+      accountLabel ? { ...parameters, accountLabel } : parameters,
+    );
   }
 
   async stopStrategy(stopStrategyDto: StopStrategyDto) {
-    const { strategyType, userId, clientId } = stopStrategyDto;
+    const { userId, clientId } = stopStrategyDto;
     return this.strategyService.stopStrategyForUser(
       userId,
       clientId,
-      strategyType,
+      this.getStrategyType(stopStrategyDto.strategyType),
+      { actor: 'admin' },
     );
   }
+
+  // Market making is the type pure market making strategies were started with from the admin API
+  private getStrategyType(strategyType: string): string {
+    return strategyType === 'marketMaking' ? 'pureMarketMaking' : strategyType;
+  }
   async getDepositAddress(getDepositAddressDto: GetDepositAddressDto) {
     const { exchangeName, tokenSymbol, network, accountLabel } =
       getDepositAddressDto;
@@ -229,8 +246,59 @@ export class AdminService {
     }
   }
 
-  async getRunningStrategies() {
-    return this.strategyService.getRunningStrategies();
+  async getStrategies() {
+    return this.strategyService.getStrategyRuntimeStates();
+  }
+
+  async getStrategySchedules() {
+    return await this.strategyScheduleRepository.find({
+      order: { strategyKey: 'ASC' },
+    });
+  }
+
+  async setStrategySchedule(scheduleDto: StrategyScheduleDto) {
+    const { strategyKey, cronWindow, enabled } = scheduleDto;
+    if (!(await this.strategyService.getStrategyInstanceKey(strategyKey))) {
+      throw new NotFoundException(`Strategy ${strategyKey} not found.`);
+    }
+
+    const startAt = scheduleDto.startAt ? new Date(scheduleDto.startAt) : null;
+    const endAt = scheduleDto.endAt ? new Date(scheduleDto.endAt) : null;
+    if (
+      (startAt && isNaN(startAt.getTime())) ||
+      (endAt && isNaN(endAt.getTime()))
+    ) {
+      throw new BadRequestException('Invalid start or end time');
+    }
+    if (startAt && endAt && startAt >= endAt) {
+      throw new BadRequestException(
+        'The end time must be after the start time',
+      );
+    }
+    if (cronWindow && !isValidCronWindow(cronWindow)) {
+      throw new BadRequestException(`Invalid cron window ${cronWindow}`);
+    }
+
+    const schedule =
+      (await this.strategyScheduleRepository.findOne({
+        where: { strategyKey },
+      })) || this.strategyScheduleRepository.create({ strategyKey });
+    return await this.strategyScheduleRepository.save({
+      ...schedule,
+      startAt,
+      endAt,
+      cronWindow: cronWindow || null,
+      enabled: enabled ?? true,
+    });
+  }
+
+  async deleteStrategySchedule(strategyKey: string) {
+    const { affected } = await this.strategyScheduleRepository.delete({
+      strategyKey,
+    });
+    if (!affected) {
+      throw new NotFoundException(`Strategy ${strategyKey} has no schedule.`);
+    }
   }
 
   //   async getStrategyPerformance(strategyKey: string) {
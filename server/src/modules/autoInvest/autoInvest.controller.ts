@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { AutoInvestService } from './autoInvest.service';
+import { WithdrawAutoInvestDto } from './autoInvest.dto';
+import { AutoInvestPlan } from 'src/common/entities/auto-invest-plan.entity';
+
+@ApiTags('auto_invest')
+@Controller('auto_invest')
+export class AutoInvestController {
+  constructor(private readonly autoInvestService: AutoInvestService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the auto invest plans of a user' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Auto invest plans, latest first.',
+    type: [AutoInvestPlan],
+  })
+  async getPlansByUser(@Query('userId') userId: string) {
+    return this.autoInvestService.getPlansByUser(userId);
+  }
+
+  @Post('/:id/pause')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause the purchases of an auto invest plan' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Plan paused.' })
+  @ApiResponse({ status: 404, description: 'Plan not found.' })
+  async pausePlan(@Param('id') id: string, @Query('userId') userId: string) {
+    return this.autoInvestService.pausePlan(userId, id);
+  }
+
+  @Post('/:id/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume the purchases of a paused plan' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Plan resumed.' })
+  @ApiResponse({ status: 404, description: 'Plan not found.' })
+  async resumePlan(@Param('id') id: string, @Query('userId') userId: string) {
+    return this.autoInvestService.resumePlan(userId, id);
+  }
+
+  @Post('/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel an auto invest plan and refund its unspent balance',
+  })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Plan canceled.' })
+  @ApiResponse({ status: 404, description: 'Plan not found.' })
+  async cancelPlan(@Param('id') id: string, @Query('userId') userId: string) {
+    return this.autoInvestService.cancelPlan(userId, id);
+  }
+
+  @Post('/:id/withdraw')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Withdraw the asset bought by a plan to Mixin' })
+  @ApiResponse({ status: 200, description: 'Bought asset sent.' })
+  @ApiResponse({ status: 400, description: 'Amount exceeds the position.' })
+  @ApiResponse({ status: 404, description: 'Plan not found.' })
+  async withdrawPosition(
+    @Param('id') id: string,
+    @Body() withdrawAutoInvestDto: WithdrawAutoInvestDto,
+  ) {
+    return this.autoInvestService.withdrawPosition(
+      withdrawAutoInvestDto.userId,
+      id,
+      withdrawAutoInvestDto.amount,
+    );
+  }
+}
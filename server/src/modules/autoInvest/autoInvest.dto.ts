@@ -0,0 +1,11 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class WithdrawAutoInvestDto {
+  @ApiProperty({ description: 'Mixin user ID owning the plan' })
+  userId: string;
+
+  @ApiPropertyOptional({
+    description: 'Amount of the bought asset to withdraw, all of it if omitted',
+  })
+  amount?: number;
+}
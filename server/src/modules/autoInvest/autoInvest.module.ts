@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AutoInvestService } from './autoInvest.service';
+import { AutoInvestController } from './autoInvest.controller';
+import { TradeModule } from '../trade/trade.module';
+import { ExchangeInitModule } from '../exchangeInit/exchangeInit.module';
+import { SnapshotsModule } from '../mixin/snapshots/snapshots.module';
+import { AutoInvestPlan } from 'src/common/entities/auto-invest-plan.entity';
+
+@Module({
+  imports: [
+    TradeModule,
+    ExchangeInitModule,
+    SnapshotsModule,
+    TypeOrmModule.forFeature([AutoInvestPlan]),
+  ],
+  controllers: [AutoInvestController],
+  providers: [AutoInvestService, ConfigService],
+  exports: [AutoInvestService],
+})
+export class AutoInvestModule {}
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { AutoInvestService } from './autoInvest.service';
+import { TradeService } from 'src/modules/trade/trade.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { SnapshotsService } from 'src/modules/mixin/snapshots/snapshots.service';
+import { AutoInvestPlan } from 'src/common/entities/auto-invest-plan.entity';
+
+describe('AutoInvestService', () => {
+  let service: AutoInvestService;
+  let plan: AutoInvestPlan;
+  let tradeService: any;
+  let snapshotsService: any;
+  let autoInvestPlanRepository: any;
+
+  beforeEach(async () => {
+    plan = {
+      id: 'plan1',
+      userId: 'user1',
+      exchangeName: 'mexc',
+      pair: 'BTC/USDT-ERC20',
+      symbol: 'BTC/USDT',
+      assetId: 'btc',
+      fundingAssetId: 'usdt',
+      amount: 100,
+      frequencyHours: 24,
+      balance: 150,
+      position: 0,
+      totalInvested: 0,
+      totalBought: 0,
+      status: 'active',
+      nextRunAt: new Date(Date.now() - 1000),
+    } as AutoInvestPlan;
+    tradeService = {
+      executeMarketTrade: jest
+        .fn()
+        .mockResolvedValue({ id: 'order1', filled: 0.002, cost: 99 }),
+    };
+    snapshotsService = {
+      sendMixinTx: jest.fn().mockResolvedValue([{}]),
+    };
+    // Applies updates to the plan when their conditions match it
+    const matches = (conditions: any) =>
+      typeof conditions === 'string' ||
+      Object.entries(conditions).every(([key, condition]) => {
+        if (!(condition instanceof FindOperator)) {
+          return plan[key] === condition;
+        }
+        return condition.type === 'lessThan'
+          ? plan[key] < condition.value
+          : plan[key] >= condition.value;
+      });
+    autoInvestPlanRepository = {
+      findOne: jest.fn().mockImplementation(async () => ({ ...plan })),
+      update: jest.fn().mockImplementation(async (conditions, changes) => {
+        if (matches(conditions)) {
+          Object.assign(plan, changes);
+        }
+      }),
+      increment: jest.fn().mockImplementation(async (_, key, value) => {
+        plan[key] += value;
+      }),
+      decrement: jest.fn().mockImplementation(async (_, key, value) => {
+        plan[key] -= value;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AutoInvestService,
+        { provide: TradeService, useValue: tradeService },
+        { provide: SnapshotsService, useValue: snapshotsService },
+        {
+          provide: ExchangeInitService,
+          useValue: {
+            getExchange: jest.fn().mockReturnValue({
+              fetchTicker: jest.fn().mockResolvedValue({ ask: 50000 }),
+            }),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('true') },
+        },
+        {
+          provide: getRepositoryToken(AutoInvestPlan),
+          useValue: autoInvestPlanRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AutoInvestService>(AutoInvestService);
+  });
+
+  it('should buy the plan amount at market and add it to the position', async () => {
+    await service.executePlan('plan1');
+
+    expect(tradeService.executeMarketTrade).toHaveBeenCalledWith(
+      expect.objectContaining({
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        amount: 0.002,
+        clientId: 'plan1',
+      }),
+    );
+    expect(plan.balance).toBe(51);
+    expect(plan.position).toBe(0.002);
+    expect(plan.totalInvested).toBe(99);
+    // 51 left doesn't cover the next purchase of 100
+    expect(plan.status).toBe('unfunded');
+    expect(plan.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reactivate an unfunded plan once a deposit covers a purchase', async () => {
+    plan.status = 'unfunded';
+    plan.balance = 30;
+
+    await service.fundPlan('plan1', 50);
+    expect(plan.status).toBe('unfunded');
+
+    await service.fundPlan('plan1', 50);
+    expect(plan.balance).toBe(130);
+    expect(plan.status).toBe('active');
+  });
+
+  it('should refund the unspent balance of a canceled plan', async () => {
+    await service.cancelPlan('user1', 'plan1');
+
+    expect(snapshotsService.sendMixinTx).toHaveBeenCalledWith(
+      'user1',
+      'usdt',
+      '150',
+    );
+    expect(plan.status).toBe('canceled');
+    expect(plan.balance).toBe(0);
+    await expect(service.cancelPlan('user1', 'plan1')).rejects.toThrow(
+      BadRequestException,
+    );
+
+    await service.executePlan('plan1');
+    expect(tradeService.executeMarketTrade).not.toHaveBeenCalled();
+  });
+
+  it('should only withdraw what the plan has bought', async () => {
+    plan.position = 0.5;
+
+    await expect(service.withdrawPosition('user1', 'plan1', 1)).rejects.toThrow(
+      BadRequestException,
+    );
+    await service.withdrawPosition('user1', 'plan1', 0.2);
+
+    expect(snapshotsService.sendMixinTx).toHaveBeenCalledWith(
+      'user1',
+      'btc',
+      '0.2',
+    );
+    expect(plan.position).toBeCloseTo(0.3);
+    await expect(service.withdrawPosition('user2', 'plan1')).rejects.toThrow(
+      'not found',
+    );
+  });
+});
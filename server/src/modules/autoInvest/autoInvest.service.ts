@@ -0,0 +1,354 @@
+/**
+ * AutoInvestService
+ *
+ * This service manages auto invest plans, recurring market buys of an asset funded through Mixin transfers.
+ * Plans are created and topped up by the auto invest listener, a scheduler buys for every plan that is due.
+ *
+ * Dependencies:
+ * - TradeService: Service for placing the market buys.
+ * - ExchangeInitService: Service for the exchange instances the price is read from.
+ * - SnapshotsService: Service for sending the unspent funds and the bought asset back to the user on Mixin.
+ * - ConfigService: Provides the strategy.run flag the scheduler is enabled by.
+ * - Repository<AutoInvestPlan>: Injected repository for managing AutoInvestPlan entities.
+ *
+ * Methods:
+ *
+ * - createPlan(plan: Partial<AutoInvestPlan>): Persists a new plan, the first purchase is due immediately.
+ *
+ * - fundPlan(id: string, amount: number): Adds a deposit to the balance of a plan and reactivates it if it ran out of funds.
+ *
+ * - findPlan(id: string): Returns a plan, null if it doesn't exist.
+ *
+ * - getPlan(id: string): Returns a plan, throws NotFoundException if it doesn't exist.
+ *
+ * - getPlansByUser(userId: string): Returns the plans of a user.
+ *
+ * - pausePlan(userId: string, id: string): Stops the purchases of a plan until it is resumed.
+ *
+ * - resumePlan(userId: string, id: string): Resumes the purchases of a paused plan.
+ *
+ * - cancelPlan(userId: string, id: string): Stops a plan for good and refunds its unspent balance, retries the refund of a canceled plan.
+ *
+ * - withdrawPosition(userId: string, id: string, amount?: number): Sends the bought asset, or part of it, to the user.
+ *
+ * - executePlan(id: string): Buys the amount of a plan at market and adds it to the position.
+ *
+ * - runDuePlans(): Scheduled task executing the active plans that are due every 60 seconds.
+ *
+ * Notes:
+ * - The amount of a plan is in the funding asset, the market buy is sized from the best ask.
+ * - A plan whose balance doesn't cover the next purchase is unfunded until the next deposit.
+ * - A failed purchase is retried on the next run, the error is kept on the plan.
+ * - Deposits only change the balance atomically, everything else a plan goes through runs under a per-plan lock.
+ * - The user endpoints take the user id of the request like the other user endpoints, a plan only answers to its owner
+ *   and refunds and withdrawals only ever go to the owner of the plan.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  LessThan,
+  LessThanOrEqual,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { AutoInvestPlan } from 'src/common/entities/auto-invest-plan.entity';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { TradeService } from 'src/modules/trade/trade.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { SnapshotsService } from 'src/modules/mixin/snapshots/snapshots.service';
+
+@Injectable()
+export class AutoInvestService {
+  private readonly logger = new CustomLogger(AutoInvestService.name);
+  private lockedPlans = new Set<string>(); // Plans with a purchase, withdrawal or status change in flight
+
+  constructor(
+    private configService: ConfigService,
+    private tradeService: TradeService,
+    private exchangeInitService: ExchangeInitService,
+    private snapshotsService: SnapshotsService,
+    @InjectRepository(AutoInvestPlan)
+    private autoInvestPlanRepository: Repository<AutoInvestPlan>,
+  ) {}
+
+  async createPlan(plan: Partial<AutoInvestPlan>): Promise<AutoInvestPlan> {
+    if (!(plan.amount > 0) || !(plan.frequencyHours > 0)) {
+      throw new BadRequestException(
+        'The amount and frequency of an auto invest plan must be positive.',
+      );
+    }
+    const status = plan.balance >= plan.amount ? 'active' : 'unfunded';
+    return await this.autoInvestPlanRepository.save(
+      this.autoInvestPlanRepository.create({
+        ...plan,
+        status,
+        nextRunAt: new Date(),
+      }),
+    );
+  }
+
+  async fundPlan(id: string, amount: number): Promise<AutoInvestPlan> {
+    const plan = await this.getPlan(id);
+    if (plan.status === 'canceled') {
+      throw new BadRequestException(`Auto invest plan ${id} is canceled.`);
+    }
+    // Deposits may land while a purchase is in flight, so the balance is only changed atomically
+    await this.autoInvestPlanRepository.increment({ id }, 'balance', amount);
+    await this.autoInvestPlanRepository.update(
+      {
+        id,
+        status: 'unfunded',
+        balance: MoreThanOrEqual(plan.amount),
+      },
+      { status: 'active' },
+    );
+    return await this.getPlan(id);
+  }
+
+  async findPlan(id: string): Promise<AutoInvestPlan | null> {
+    return await this.autoInvestPlanRepository.findOne({ where: { id } });
+  }
+
+  async getPlan(id: string): Promise<AutoInvestPlan> {
+    const plan = await this.findPlan(id);
+    if (!plan) {
+      throw new NotFoundException(`Auto invest plan ${id} not found.`);
+    }
+    return plan;
+  }
+
+  async getPlansByUser(userId: string): Promise<AutoInvestPlan[]> {
+    return await this.autoInvestPlanRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async pausePlan(userId: string, id: string): Promise<AutoInvestPlan> {
+    await this.getUserPlan(userId, id);
+    return await this.withPlanLock(id, async () => {
+      const plan = await this.getPlan(id);
+      if (plan.status !== 'active' && plan.status !== 'unfunded') {
+        throw new BadRequestException(
+          `Auto invest plan ${id} is ${plan.status}, it can't be paused.`,
+        );
+      }
+      await this.autoInvestPlanRepository.update(id, { status: 'paused' });
+      return { ...plan, status: 'paused' };
+    });
+  }
+
+  async resumePlan(userId: string, id: string): Promise<AutoInvestPlan> {
+    await this.getUserPlan(userId, id);
+    return await this.withPlanLock(id, async () => {
+      const plan = await this.getPlan(id);
+      if (plan.status !== 'paused') {
+        throw new BadRequestException(`Auto invest plan ${id} is not paused.`);
+      }
+      const now = new Date();
+      const changes: Partial<AutoInvestPlan> = {
+        status: plan.balance >= plan.amount ? 'active' : 'unfunded',
+        nextRunAt: plan.nextRunAt < now ? now : plan.nextRunAt,
+      };
+      await this.autoInvestPlanRepository.update(id, changes);
+      return { ...plan, ...changes };
+    });
+  }
+
+  async cancelPlan(userId: string, id: string): Promise<AutoInvestPlan> {
+    await this.getUserPlan(userId, id);
+    return await this.withPlanLock(id, async () => {
+      const plan = await this.getPlan(id);
+      // A canceled plan can be canceled again to retry refunding what is left on it
+      if (plan.status === 'canceled' && !(plan.balance > 0)) {
+        throw new BadRequestException(`Auto invest plan ${id} is canceled.`);
+      }
+      await this.autoInvestPlanRepository.update(id, { status: 'canceled' });
+      plan.status = 'canceled';
+
+      // Read the balance once no deposit can be added to it anymore
+      const { balance } = await this.getPlan(id);
+      if (balance > 0) {
+        const result = await this.snapshotsService.sendMixinTx(
+          plan.userId,
+          plan.fundingAssetId,
+          balance.toString(),
+        );
+        if (result) {
+          await this.autoInvestPlanRepository.decrement(
+            { id },
+            'balance',
+            balance,
+          );
+          plan.balance = 0;
+        } else {
+          // Keep the balance on the plan so the refund can be retried
+          plan.error = `Failed to refund ${balance} of the unspent balance`;
+          await this.autoInvestPlanRepository.update(id, {
+            error: plan.error,
+          });
+          this.logger.error(`Auto invest plan ${id}: ${plan.error}`);
+        }
+      }
+      return plan;
+    });
+  }
+
+  async withdrawPosition(
+    userId: string,
+    id: string,
+    amount?: number,
+  ): Promise<AutoInvestPlan> {
+    await this.getUserPlan(userId, id);
+    return await this.withPlanLock(id, async () => {
+      const plan = await this.getPlan(id);
+      const withdrawAmount = amount ?? plan.position;
+      if (!(withdrawAmount > 0) || withdrawAmount > plan.position) {
+        throw new BadRequestException(
+          `Can't withdraw ${withdrawAmount} from a position of ${plan.position}.`,
+        );
+      }
+
+      const result = await this.snapshotsService.sendMixinTx(
+        plan.userId,
+        plan.assetId,
+        withdrawAmount.toString(),
+      );
+      if (!result) {
+        throw new BadRequestException(
+          `Failed to withdraw ${withdrawAmount} from auto invest plan ${id}.`,
+        );
+      }
+      await this.autoInvestPlanRepository.decrement(
+        { id },
+        'position',
+        withdrawAmount,
+      );
+      plan.position -= withdrawAmount;
+      this.logger.log(
+        `Withdrew ${withdrawAmount} ${plan.symbol} from auto invest plan ${id}`,
+      );
+      return plan;
+    });
+  }
+
+  async executePlan(id: string): Promise<void> {
+    if (this.lockedPlans.has(id)) {
+      return;
+    }
+    await this.withPlanLock(id, async () => {
+      const plan = await this.getPlan(id);
+      if (plan.status !== 'active') {
+        return;
+      }
+      if (plan.balance < plan.amount) {
+        await this.autoInvestPlanRepository.update(id, { status: 'unfunded' });
+        return;
+      }
+
+      try {
+        const exchange = this.exchangeInitService.getExchange(
+          plan.exchangeName,
+        );
+        const ticker = await exchange.fetchTicker(plan.symbol);
+        if (!ticker.ask) {
+          throw new Error(`No ask price for ${plan.symbol}`);
+        }
+        const order = await this.tradeService.executeMarketTrade({
+          userId: plan.userId,
+          clientId: plan.id,
+          exchange: plan.exchangeName,
+          symbol: plan.symbol,
+          side: 'buy',
+          amount: plan.amount / ticker.ask,
+        });
+
+        // Market orders are not always reported filled right away, fall back to the order size at the ask
+        const bought = order.filled || plan.amount / ticker.ask;
+        const spent = order.cost || bought * (order.average || ticker.ask);
+        const now = new Date();
+        await this.autoInvestPlanRepository.decrement(
+          { id },
+          'balance',
+          Math.min(spent, plan.balance),
+        );
+        await this.autoInvestPlanRepository.increment(
+          { id },
+          'position',
+          bought,
+        );
+        await this.autoInvestPlanRepository.update(id, {
+          totalInvested: plan.totalInvested + spent,
+          totalBought: plan.totalBought + bought,
+          lastRunAt: now,
+          nextRunAt: new Date(
+            now.getTime() + plan.frequencyHours * 60 * 60 * 1000,
+          ),
+          error: null,
+        });
+        await this.autoInvestPlanRepository.update(
+          { id, status: 'active', balance: LessThan(plan.amount) },
+          { status: 'unfunded' },
+        );
+        this.logger.log(
+          `Auto invest plan ${id} bought ${bought} ${plan.symbol} for ${spent}`,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Auto invest plan ${id} purchase failed: ${error.message}`,
+        );
+        await this.autoInvestPlanRepository.update(id, {
+          error: error.message,
+        });
+      }
+    });
+  }
+
+  @Cron('*/60 * * * * *') // 60s
+  async runDuePlans() {
+    const enabled = this.configService.get<string>('strategy.run');
+    if (enabled === 'false') {
+      return;
+    }
+
+    const duePlans = await this.autoInvestPlanRepository.find({
+      where: { status: 'active', nextRunAt: LessThanOrEqual(new Date()) },
+    });
+    for (const plan of duePlans) {
+      await this.executePlan(plan.id);
+    }
+  }
+
+  private async getUserPlan(
+    userId: string,
+    id: string,
+  ): Promise<AutoInvestPlan> {
+    const plan = await this.getPlan(id);
+    if (plan.userId !== userId) {
+      throw new NotFoundException(`Auto invest plan ${id} not found.`);
+    }
+    return plan;
+  }
+
+  // Purchases, withdrawals and status changes of a plan don't overlap, deposits only touch the balance atomically
+  private async withPlanLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    if (this.lockedPlans.has(id)) {
+      throw new BadRequestException(
+        `Auto invest plan ${id} is busy, please try again.`,
+      );
+    }
+    this.lockedPlans.add(id);
+    try {
+      return await fn();
+    } finally {
+      this.lockedPlans.delete(id);
+    }
+  }
+}
@@ -1,8 +1,9 @@
 import { Module } from '@nestjs/common';
 import { ExchangeInitService } from './exchangeInit.service';
+import { RequestSchedulerService } from './requestScheduler.service';
 
 @Module({
-  providers: [ExchangeInitService],
-  exports: [ExchangeInitService],
+  providers: [ExchangeInitService, RequestSchedulerService],
+  exports: [ExchangeInitService, RequestSchedulerService],
 })
 export class ExchangeInitModule {}
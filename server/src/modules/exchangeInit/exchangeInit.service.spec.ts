@@ -1,12 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ExchangeInitService } from './exchangeInit.service';
+import { RequestSchedulerService } from './requestScheduler.service';
 
 describe('ExchangeinitService', () => {
   let service: ExchangeInitService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ExchangeInitService],
+      providers: [ExchangeInitService, RequestSchedulerService],
     }).compile();
 
     service = module.get<ExchangeInitService>(ExchangeInitService);
@@ -5,6 +5,15 @@ import {
   Scope,
 } from '@nestjs/common';
 import { CustomLogger } from 'src/modules/logger/logger.service';
+import {
+  PAPER_ACCOUNT_LABEL,
+  PaperExchange,
+  parsePaperBalances,
+} from 'src/modules/exchangeInit/paperExchange';
+import { RequestSchedulerService } from 'src/modules/exchangeInit/requestScheduler.service';
+
+// Accounts under this label only hold read-only API keys
+export const READ_ONLY_ACCOUNT_LABEL = 'read-only';
 
 @Injectable({ scope: Scope.DEFAULT })
 export class ExchangeInitService {
@@ -12,8 +21,10 @@ export class ExchangeInitService {
   private exchanges = new Map<string, Map<string, ccxt.Exchange>>();
   private defaultAccounts = new Map<string, ccxt.Exchange>();
 
-  constructor() {
-    this.initializeExchanges()
+  private readonly initialization: Promise<void>;
+
+  constructor(private requestScheduler: RequestSchedulerService) {
+    this.initialization = this.initializeExchanges()
       .then(() => {
         this.logger.log('Exchanges initialized successfully.');
         this.startKeepAlive();
@@ -26,6 +37,11 @@ export class ExchangeInitService {
       );
   }
 
+  // Resolves once every configured account has been initialized (or skipped)
+  async waitForInitialization(): Promise<void> {
+    await this.initialization;
+  }
+
   private async initializeExchanges() {
     const exchangeConfigs = [
       {
@@ -303,6 +319,11 @@ export class ExchangeInitService {
       },
     ];
 
+    const paperExchangeNames = (process.env.PAPER_TRADING_EXCHANGES || '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+
     await Promise.all(
       exchangeConfigs.map(async (config) => {
         const exchangeMap = new Map<string, ccxt.Exchange>();
@@ -316,10 +337,14 @@ export class ExchangeInitService {
                 return;
               }
 
-              const exchange = new config.class({
-                apiKey: account.apiKey,
-                secret: account.secret,
-              });
+              const exchange = this.requestScheduler.wrap(
+                config.name,
+                account.label,
+                new config.class({
+                  apiKey: account.apiKey,
+                  secret: account.secret,
+                }),
+              );
 
               // Load markets
               await exchange.loadMarkets();
@@ -356,11 +381,49 @@ export class ExchangeInitService {
           }),
         );
 
+        if (paperExchangeNames.includes(config.name)) {
+          await this.initializePaperAccount(config, exchangeMap);
+        }
+
         this.exchanges.set(config.name, exchangeMap);
       }),
     );
   }
 
+  // Paper accounts trade against virtual balances using public market data of the exchange
+  private async initializePaperAccount(
+    config: { name: string; class: any },
+    exchangeMap: Map<string, ccxt.Exchange>,
+  ) {
+    try {
+      // Only the market data requests of the paper account reach the exchange
+      const marketDataExchange = this.requestScheduler.wrap(
+        config.name,
+        PAPER_ACCOUNT_LABEL,
+        new config.class(),
+      );
+      const exchange = new PaperExchange(config.name, marketDataExchange, {
+        balances: parsePaperBalances(process.env.PAPER_TRADING_BALANCES),
+        makerFee: process.env.PAPER_TRADING_FEE
+          ? Number(process.env.PAPER_TRADING_FEE)
+          : undefined,
+        takerFee: process.env.PAPER_TRADING_FEE
+          ? Number(process.env.PAPER_TRADING_FEE)
+          : undefined,
+      });
+      await exchange.loadMarkets();
+      // Never stands in for the default account, callers without a label trade live
+      exchangeMap.set(PAPER_ACCOUNT_LABEL, exchange);
+      this.logger.log(
+        `${config.name} ${PAPER_ACCOUNT_LABEL} initialized successfully.`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to initialize ${config.name} ${PAPER_ACCOUNT_LABEL}: ${error.message}`,
+      );
+    }
+  }
+
   private startKeepAlive() {
     const intervalMs = 5 * 60 * 1000; // 5 minutes
 
@@ -0,0 +1,142 @@
+import * as ccxt from 'ccxt';
+import { PaperExchange, parsePaperBalances } from './paperExchange';
+
+describe('PaperExchange', () => {
+  let exchange: PaperExchange;
+
+  beforeEach(() => {
+    exchange = new PaperExchange('binance', undefined, {
+      balances: { USDT: 10000, BTC: 1 },
+      makerFee: 0,
+      takerFee: 0,
+    });
+    exchange.setOrderBook('BTC/USDT', {
+      bids: [
+        [99, 1],
+        [98, 2],
+      ],
+      asks: [
+        [101, 1],
+        [102, 2],
+      ],
+    });
+  });
+
+  it('parses balances from env format', () => {
+    expect(parsePaperBalances('usdt:100, BTC:0.5')).toEqual({
+      USDT: 100,
+      BTC: 0.5,
+    });
+  });
+
+  it('fills a market buy by walking the book', async () => {
+    const order = await exchange.createOrder('BTC/USDT', 'market', 'buy', 2);
+
+    expect(order.status).toBe('closed');
+    expect(order.filled).toBe(2);
+    expect(order.average).toBe(101.5);
+
+    const balance = await exchange.fetchBalance();
+    expect(balance.total['BTC']).toBe(3);
+    expect(balance.total['USDT']).toBe(10000 - 203);
+    expect(balance.used['USDT']).toBe(0);
+  });
+
+  it('rests a limit order and fills it when the book crosses', async () => {
+    const order = await exchange.createOrder(
+      'BTC/USDT',
+      'limit',
+      'sell',
+      0.5,
+      105,
+    );
+    expect(order.status).toBe('open');
+    expect((await exchange.fetchBalance()).used['BTC']).toBe(0.5);
+    expect(await exchange.fetchOpenOrders('BTC/USDT')).toHaveLength(1);
+
+    exchange.setOrderBook('BTC/USDT', { bids: [[106, 1]], asks: [[107, 1]] });
+
+    const filled = await exchange.fetchOrder(order.id);
+    expect(filled.status).toBe('closed');
+    expect(filled.average).toBe(105);
+    const balance = await exchange.fetchBalance();
+    expect(balance.total['BTC']).toBe(0.5);
+    expect(balance.total['USDT']).toBe(10000 + 52.5);
+  });
+
+  it('fills resting orders only against the liquidity left on the book', async () => {
+    const first = await exchange.createOrder(
+      'BTC/USDT',
+      'limit',
+      'sell',
+      0.4,
+      105,
+    );
+    const second = await exchange.createOrder(
+      'BTC/USDT',
+      'limit',
+      'sell',
+      0.4,
+      105,
+    );
+
+    exchange.setOrderBook('BTC/USDT', {
+      bids: [[106, 0.6]],
+      asks: [[107, 1]],
+    });
+
+    expect((await exchange.fetchOrder(first.id)).status).toBe('closed');
+    const partial = await exchange.fetchOrder(second.id);
+    expect(partial.status).toBe('open');
+    expect(partial.filled).toBeCloseTo(0.2);
+
+    // A taker order finds the bids gone too
+    await expect(
+      exchange.createOrder('BTC/USDT', 'market', 'sell', 0.1),
+    ).rejects.toThrow('binance paper: empty order book');
+  });
+
+  it('stops matching finished orders and keeps only the latest of them', async () => {
+    const canceled = await exchange.createOrder(
+      'BTC/USDT',
+      'limit',
+      'buy',
+      0.001,
+      90,
+    );
+    await exchange.cancelOrder(canceled.id);
+    for (let i = 0; i < 1000; i++) {
+      await exchange.createOrder('BTC/USDT', 'market', 'buy', 0.0001);
+      exchange.setOrderBook('BTC/USDT', { bids: [[99, 1]], asks: [[101, 1]] });
+    }
+
+    expect(await exchange.fetchOpenOrders()).toHaveLength(0);
+    await expect(exchange.fetchOrder(canceled.id)).rejects.toBeInstanceOf(
+      ccxt.OrderNotFound,
+    );
+  });
+
+  it('releases reserved funds on cancel', async () => {
+    const order = await exchange.createOrder('BTC/USDT', 'limit', 'buy', 1, 90);
+    expect((await exchange.fetchBalance()).used['USDT']).toBe(90);
+
+    const canceled = await exchange.cancelOrder(order.id, 'BTC/USDT');
+
+    expect(canceled.status).toBe('canceled');
+    const balance = await exchange.fetchBalance();
+    expect(balance.used['USDT']).toBe(0);
+    expect(balance.free['USDT']).toBe(10000);
+  });
+
+  it('rejects orders exceeding the virtual balance', async () => {
+    await expect(
+      exchange.createOrder('BTC/USDT', 'limit', 'sell', 5, 100),
+    ).rejects.toBeInstanceOf(ccxt.InsufficientFunds);
+  });
+
+  it('throws OrderNotFound for unknown orders', async () => {
+    await expect(exchange.fetchOrder('missing')).rejects.toBeInstanceOf(
+      ccxt.OrderNotFound,
+    );
+  });
+});
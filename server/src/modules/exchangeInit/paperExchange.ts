@@ -0,0 +1,453 @@
+/**
+ * PaperExchange
+ *
+ * A simulated exchange that implements the subset of the ccxt Exchange API used by the server
+ * (createOrder, cancelOrder, fetchOrder, fetchOpenOrders, fetchBalance, watchOrderBook, fetchOrderBook
+ * and fetchTicker). Orders are matched in memory against the latest order book of the market data
+ * source and settled against virtual balances, so strategies and trades can run without a real account.
+ *
+ * Matching rules:
+ * - Orders that cross the book are filled immediately against the book levels (taker fee).
+ * - Resting limit orders are filled at their own price when a later order book crosses them (maker fee).
+ * - Fills take the liquidity they used off the cached book until the next order book replaces it, so two orders
+ *   can't fill against the same level.
+ * - Fees are charged in the quote currency.
+ * - Closed and canceled orders can still be fetched, only the latest MAX_CLOSED_PAPER_ORDERS of them are kept.
+ *
+ * Paper accounts are only built by ExchangeInitService from the PAPER_TRADING_* settings, the spot flow
+ * fetches them from there so both share the same balances and open orders of an exchange.
+ */
+
+import * as ccxt from 'ccxt';
+import { randomUUID } from 'crypto';
+import { OrderBookLevels } from 'src/common/helpers/strategy/marketMaking';
+
+export const PAPER_ACCOUNT_LABEL = 'paper';
+
+const DEFAULT_PAPER_FEE_RATE = 0.001;
+const AMOUNT_EPSILON = 1e-12;
+const MAX_CLOSED_PAPER_ORDERS = 1000;
+
+export interface PaperExchangeOptions {
+  balances?: Record<string, number>;
+  makerFee?: number;
+  takerFee?: number;
+}
+
+// Parses "USDT:10000,BTC:1" as used by the PAPER_TRADING_BALANCES env variable
+export const parsePaperBalances = (value?: string): Record<string, number> => {
+  const balances: Record<string, number> = {};
+  if (!value) {
+    return balances;
+  }
+  for (const entry of value.split(',')) {
+    const [currency, amount] = entry.split(':').map((part) => part.trim());
+    if (currency && !isNaN(Number(amount))) {
+      balances[currency.toUpperCase()] = Number(amount);
+    }
+  }
+  return balances;
+};
+
+export class PaperExchange extends ccxt.Exchange {
+  private readonly paperBalances = new Map<
+    string,
+    { free: number; used: number }
+  >();
+  private readonly openPaperOrders = new Map<string, ccxt.Order>();
+  private readonly closedPaperOrders = new Map<string, ccxt.Order>(); // Oldest first
+  private readonly paperOrderBooks = new Map<string, OrderBookLevels>();
+  private readonly makerFee: number;
+  private readonly takerFee: number;
+
+  constructor(
+    exchangeName: string,
+    private readonly marketDataExchange?: ccxt.Exchange,
+    options: PaperExchangeOptions = {},
+  ) {
+    super();
+    this.id = exchangeName;
+    this.name = `${exchangeName} (paper)`;
+    this.has = {
+      ...this.has,
+      createOrder: true,
+      cancelOrder: true,
+      fetchOrder: true,
+      fetchOpenOrders: true,
+      fetchBalance: true,
+      fetchOrderBook: true,
+      watchOrderBook: true,
+      fetchTicker: true,
+    };
+    this.makerFee = options.makerFee ?? DEFAULT_PAPER_FEE_RATE;
+    this.takerFee = options.takerFee ?? DEFAULT_PAPER_FEE_RATE;
+    for (const [currency, amount] of Object.entries(options.balances || {})) {
+      this.paperBalances.set(currency, { free: amount, used: 0 });
+    }
+  }
+
+  async loadMarkets(reload?: boolean, params = {}) {
+    if (!this.marketDataExchange) {
+      return this.markets || {};
+    }
+    this.markets = await this.marketDataExchange.loadMarkets(reload, params);
+    return this.markets;
+  }
+
+  amountToPrecision(symbol: string, amount: any) {
+    return this.marketDataExchange?.markets?.[symbol]
+      ? this.marketDataExchange.amountToPrecision(symbol, amount)
+      : String(amount);
+  }
+
+  priceToPrecision(symbol: string, price: any): string {
+    return this.marketDataExchange?.markets?.[symbol]
+      ? this.marketDataExchange.priceToPrecision(symbol, price)
+      : String(price);
+  }
+
+  // Feeds an order book into the matching engine, used by market data updates and offline runs
+  setOrderBook(symbol: string, orderBook: OrderBookLevels) {
+    // Copied, fills take liquidity off the levels and the source book may be shared
+    this.paperOrderBooks.set(symbol, {
+      bids: orderBook.bids.map(([price, amount]) => [price, amount]),
+      asks: orderBook.asks.map(([price, amount]) => [price, amount]),
+    });
+    this.matchRestingOrders(symbol);
+  }
+
+  async fetchOrderBook(
+    symbol: string,
+    limit?: number,
+    params = {},
+  ): Promise<ccxt.OrderBook> {
+    if (!this.marketDataExchange) {
+      const { bids, asks } = this.getCachedOrderBook(symbol);
+      const timestamp = Date.now();
+      return {
+        bids: bids.map(([price, amount]) => [price, amount]),
+        asks: asks.map(([price, amount]) => [price, amount]),
+        symbol,
+        timestamp,
+        datetime: new Date(timestamp).toISOString(),
+        nonce: undefined,
+      } as ccxt.OrderBook;
+    }
+    const orderBook = await this.marketDataExchange.fetchOrderBook(
+      symbol,
+      limit,
+      params,
+    );
+    this.setOrderBook(symbol, orderBook);
+    return orderBook;
+  }
+
+  async watchOrderBook(
+    symbol: string,
+    limit?: number,
+    params = {},
+  ): Promise<ccxt.OrderBook> {
+    if (this.marketDataExchange?.has['watchOrderBook']) {
+      const orderBook = await this.marketDataExchange.watchOrderBook(
+        symbol,
+        limit,
+        params,
+      );
+      this.setOrderBook(symbol, orderBook);
+      return orderBook;
+    }
+    // Without a stream, poll at a slow pace so watch loops don't spin
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    return await this.fetchOrderBook(symbol, limit, params);
+  }
+
+  async fetchTicker(symbol: string, params = {}): Promise<ccxt.Ticker> {
+    if (this.marketDataExchange) {
+      return await this.marketDataExchange.fetchTicker(symbol, params);
+    }
+    const orderBook = this.getCachedOrderBook(symbol);
+    const bid = orderBook.bids[0]?.[0];
+    const ask = orderBook.asks[0]?.[0];
+    const timestamp = Date.now();
+    return {
+      symbol,
+      info: {},
+      timestamp,
+      datetime: new Date(timestamp).toISOString(),
+      bid,
+      ask,
+      last: (bid + ask) / 2,
+      close: (bid + ask) / 2,
+    } as ccxt.Ticker;
+  }
+
+  async fetchBalance(): Promise<ccxt.Balances> {
+    const balances = { info: {} } as ccxt.Balances;
+    const totals = {
+      free: {} as Record<string, number>,
+      used: {} as Record<string, number>,
+      total: {} as Record<string, number>,
+    };
+    for (const [currency, { free, used }] of this.paperBalances) {
+      balances[currency] = { free, used, total: free + used };
+      totals.free[currency] = free;
+      totals.used[currency] = used;
+      totals.total[currency] = free + used;
+    }
+    return Object.assign(balances, totals);
+  }
+
+  async createOrder(
+    symbol: string,
+    type: 'limit' | 'market' | string,
+    side: 'buy' | 'sell' | string,
+    amount: number,
+    price?: number,
+    params: Record<string, any> = {},
+  ): Promise<ccxt.Order> {
+    if (!(amount > 0)) {
+      throw new ccxt.InvalidOrder(`${this.id} paper: invalid amount ${amount}`);
+    }
+    if (type === 'limit' && !(price > 0)) {
+      throw new ccxt.InvalidOrder(`${this.id} paper: invalid price ${price}`);
+    }
+    if (!this.paperOrderBooks.has(symbol) && this.marketDataExchange) {
+      await this.fetchOrderBook(symbol);
+    }
+    const orderBook = this.getCachedOrderBook(symbol);
+
+    const { base, quote } = this.splitSymbol(symbol);
+    const reservePrice =
+      type === 'limit' ? price : this.estimateMarketPrice(orderBook, side);
+    if (side === 'buy') {
+      this.reserve(quote, amount * reservePrice * (1 + this.takerFee));
+    } else {
+      this.reserve(base, amount);
+    }
+
+    const timestamp = Date.now();
+    const order: ccxt.Order = {
+      id: randomUUID(),
+      clientOrderId: params.clientOrderId,
+      datetime: new Date(timestamp).toISOString(),
+      timestamp,
+      lastTradeTimestamp: undefined,
+      status: 'open',
+      symbol,
+      type,
+      side,
+      price: type === 'limit' ? price : undefined,
+      average: undefined,
+      amount,
+      filled: 0,
+      remaining: amount,
+      cost: 0,
+      trades: [],
+      fee: { cost: 0, currency: quote },
+      info: { reserved: side === 'buy' ? amount * reservePrice : amount },
+    };
+    this.openPaperOrders.set(order.id, order);
+
+    // Take liquidity from the book, then rest (limit) or drop the remainder (market)
+    this.takeLiquidity(order, orderBook);
+    if (order.remaining > AMOUNT_EPSILON && type !== 'limit') {
+      this.closeOrder(order, 'canceled');
+    }
+    return { ...order };
+  }
+
+  async cancelOrder(id: string, symbol?: string) {
+    const order = this.getOrder(id, symbol);
+    if (order.status === 'open') {
+      this.closeOrder(order, 'canceled');
+    }
+    return { ...order };
+  }
+
+  async fetchOrder(id: string, symbol?: string): Promise<ccxt.Order> {
+    return { ...this.getOrder(id, symbol) };
+  }
+
+  async fetchOpenOrders(symbol?: string): Promise<ccxt.Order[]> {
+    return Array.from(this.openPaperOrders.values())
+      .filter((order) => !symbol || order.symbol === symbol)
+      .map((order) => ({ ...order }));
+  }
+
+  private getCachedOrderBook(symbol: string): OrderBookLevels {
+    const orderBook = this.paperOrderBooks.get(symbol);
+    if (!orderBook) {
+      throw new ccxt.ExchangeError(
+        `${this.id} paper: no order book available for ${symbol}`,
+      );
+    }
+    return orderBook;
+  }
+
+  private getOrder(id: string, symbol?: string): ccxt.Order {
+    const order =
+      this.openPaperOrders.get(id) || this.closedPaperOrders.get(id);
+    if (!order || (symbol && order.symbol !== symbol)) {
+      throw new ccxt.OrderNotFound(`${this.id} paper: order ${id} not found`);
+    }
+    return order;
+  }
+
+  private splitSymbol(symbol: string) {
+    const [base, quote] = symbol.split('/');
+    return { base, quote: quote.split(':')[0] };
+  }
+
+  private getBalance(currency: string) {
+    if (!this.paperBalances.has(currency)) {
+      this.paperBalances.set(currency, { free: 0, used: 0 });
+    }
+    return this.paperBalances.get(currency);
+  }
+
+  private reserve(currency: string, amount: number) {
+    const balance = this.getBalance(currency);
+    if (balance.free + AMOUNT_EPSILON < amount) {
+      throw new ccxt.InsufficientFunds(
+        `${this.id} paper: insufficient ${currency} balance, ${balance.free} available, ${amount} required`,
+      );
+    }
+    balance.free -= amount;
+    balance.used += amount;
+  }
+
+  private release(currency: string, amount: number) {
+    const balance = this.getBalance(currency);
+    const released = Math.min(amount, balance.used);
+    balance.used -= released;
+    balance.free += released;
+  }
+
+  private estimateMarketPrice(orderBook: OrderBookLevels, side: string) {
+    const levels = side === 'buy' ? orderBook.asks : orderBook.bids;
+    if (levels.length === 0) {
+      throw new ccxt.ExchangeError(`${this.id} paper: empty order book`);
+    }
+    // Reserve against the worst level so a market buy can't overdraw
+    return side === 'buy' ? levels[levels.length - 1][0] : levels[0][0];
+  }
+
+  private takeLiquidity(order: ccxt.Order, orderBook: OrderBookLevels) {
+    const levels = order.side === 'buy' ? orderBook.asks : orderBook.bids;
+    while (order.remaining > AMOUNT_EPSILON && levels.length > 0) {
+      const [levelPrice, levelAmount] = levels[0];
+      if (order.type === 'limit' && !this.crosses(order, levelPrice)) break;
+      const amount = Math.min(order.remaining, levelAmount);
+      this.fill(order, amount, levelPrice, this.takerFee);
+      this.consumeLevels(levels, amount);
+    }
+  }
+
+  private matchRestingOrders(symbol: string) {
+    const orderBook = this.paperOrderBooks.get(symbol);
+    for (const order of Array.from(this.openPaperOrders.values())) {
+      if (order.symbol !== symbol) continue;
+      const levels = order.side === 'buy' ? orderBook.asks : orderBook.bids;
+      const crossedAmount = levels
+        .filter(([levelPrice]) => this.crosses(order, levelPrice))
+        .reduce((sum, [, levelAmount]) => sum + levelAmount, 0);
+      if (crossedAmount > AMOUNT_EPSILON) {
+        const amount = Math.min(order.remaining, crossedAmount);
+        this.fill(order, amount, order.price, this.makerFee);
+        this.consumeLevels(levels, amount);
+      }
+    }
+  }
+
+  private crosses(order: ccxt.Order, levelPrice: number) {
+    return order.side === 'buy'
+      ? levelPrice <= order.price
+      : levelPrice >= order.price;
+  }
+
+  // Takes an amount off a side of the book, best level first
+  private consumeLevels(levels: number[][], amount: number) {
+    let remaining = amount;
+    while (levels.length > 0) {
+      const taken = Math.min(remaining, levels[0][1]);
+      levels[0][1] -= taken;
+      remaining -= taken;
+      if (levels[0][1] > AMOUNT_EPSILON) break;
+      levels.shift();
+    }
+  }
+
+  private fill(
+    order: ccxt.Order,
+    amount: number,
+    price: number,
+    feeRate: number,
+  ) {
+    const { base, quote } = this.splitSymbol(order.symbol);
+    const cost = amount * price;
+    const fee = cost * feeRate;
+
+    if (order.side === 'buy') {
+      // Release the reservation at the order's reserve price, then settle at the fill price
+      const reservedPerUnit = order.info.reserved / order.amount;
+      this.release(quote, reservedPerUnit * amount * (1 + this.takerFee));
+      this.getBalance(quote).free -= cost + fee;
+      this.getBalance(base).free += amount;
+    } else {
+      this.release(base, amount);
+      this.getBalance(base).free -= amount;
+      this.getBalance(quote).free += cost - fee;
+    }
+
+    order.filled += amount;
+    order.remaining = Math.max(order.amount - order.filled, 0);
+    order.cost += cost;
+    order.average = order.cost / order.filled;
+    order.fee.cost += fee;
+    order.lastTradeTimestamp = Date.now();
+    order.trades.push({
+      info: {},
+      id: randomUUID(),
+      order: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type,
+      price,
+      amount,
+      cost,
+      fee: { cost: fee, currency: quote },
+      takerOrMaker: feeRate === this.makerFee ? 'maker' : 'taker',
+      timestamp: order.lastTradeTimestamp,
+      datetime: new Date(order.lastTradeTimestamp).toISOString(),
+    });
+    if (order.remaining <= AMOUNT_EPSILON) {
+      order.remaining = 0;
+      order.status = 'closed';
+      this.archiveOrder(order);
+    }
+  }
+
+  private closeOrder(order: ccxt.Order, status: 'canceled' | 'closed') {
+    const { base, quote } = this.splitSymbol(order.symbol);
+    if (order.side === 'buy') {
+      const reservedPerUnit = order.info.reserved / order.amount;
+      this.release(
+        quote,
+        reservedPerUnit * order.remaining * (1 + this.takerFee),
+      );
+    } else {
+      this.release(base, order.remaining);
+    }
+    order.status = status;
+    this.archiveOrder(order);
+  }
+
+  // Moves a finished order out of the ones matched against the book, evicting the oldest finished ones
+  private archiveOrder(order: ccxt.Order) {
+    this.openPaperOrders.delete(order.id);
+    this.closedPaperOrders.set(order.id, order);
+    if (this.closedPaperOrders.size > MAX_CLOSED_PAPER_ORDERS) {
+      this.closedPaperOrders.delete(this.closedPaperOrders.keys().next().value);
+    }
+  }
+}
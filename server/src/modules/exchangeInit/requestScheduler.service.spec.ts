@@ -0,0 +1,228 @@
+import * as ccxt from 'ccxt';
+import { AxiosError, AxiosResponse } from 'axios';
+import {
+  isRateLimitError,
+  RequestSchedulerService,
+} from './requestScheduler.service';
+
+describe('RequestSchedulerService', () => {
+  let scheduler: RequestSchedulerService;
+  let sent: string[];
+
+  // Request that records when it is sent
+  const request =
+    (method: string, result: unknown = method) =>
+    () => {
+      sent.push(method);
+      return Promise.resolve(result);
+    };
+  const getMetrics = (accountLabel = 'default') =>
+    scheduler
+      .getMetrics()
+      .find((metrics) => metrics.accountLabel === accountLabel);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    scheduler = new RequestSchedulerService();
+    sent = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends queued cancels before placements and placements before fetches', async () => {
+    // A token a second
+    const options = { rateLimit: 1000 };
+    const requests = [
+      scheduler.schedule(
+        'binance',
+        'default',
+        'fetchTicker',
+        request('fetchTicker'),
+        options,
+      ),
+      scheduler.schedule(
+        'binance',
+        'default',
+        'fetchOrderBook',
+        request('fetchOrderBook'),
+        options,
+      ),
+      scheduler.schedule(
+        'binance',
+        'default',
+        'createOrder',
+        request('createOrder'),
+        options,
+      ),
+      scheduler.schedule(
+        'binance',
+        'default',
+        'cancelOrder',
+        request('cancelOrder'),
+        options,
+      ),
+    ];
+
+    expect(sent).toEqual(['fetchTicker']);
+    expect(getMetrics().queued).toEqual({ cancel: 1, place: 1, fetch: 1 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sent).toEqual(['fetchTicker', 'cancelOrder']);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(sent).toEqual([
+      'fetchTicker',
+      'cancelOrder',
+      'createOrder',
+      'fetchOrderBook',
+    ]);
+    await expect(Promise.all(requests)).resolves.toEqual([
+      'fetchTicker',
+      'fetchOrderBook',
+      'createOrder',
+      'cancelOrder',
+    ]);
+    expect(getMetrics()).toMatchObject({
+      sent: 4,
+      queued: { cancel: 0, place: 0, fetch: 0 },
+      maxWaitMs: 3000,
+      averageWaitMs: 1500,
+    });
+  });
+
+  it('waits for the tokens of heavier requests', async () => {
+    // Ten tokens a second, loadMarkets takes all of them
+    const options = { rateLimit: 100 };
+    scheduler.schedule(
+      'okx',
+      'default',
+      'loadMarkets',
+      request('loadMarkets'),
+      options,
+    );
+    const balance = scheduler.schedule(
+      'okx',
+      'default',
+      'fetchBalance',
+      request('fetchBalance'),
+      options,
+    );
+    expect(sent).toEqual(['loadMarkets']);
+
+    await jest.advanceTimersByTimeAsync(199);
+    expect(sent).toEqual(['loadMarkets']);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sent).toEqual(['loadMarkets', 'fetchBalance']);
+    await expect(balance).resolves.toBe('fetchBalance');
+  });
+
+  it('backs off and retries when the exchange rate limits the account', async () => {
+    const fetchBalance = jest
+      .fn()
+      .mockRejectedValueOnce(new ccxt.RateLimitExceeded('Too many requests'))
+      .mockResolvedValue({ total: {} });
+    const warnSpy = jest.spyOn(scheduler['logger'], 'warn');
+
+    const balance = scheduler.schedule(
+      'mexc',
+      'default',
+      'fetchBalance',
+      fetchBalance,
+    );
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(fetchBalance).toHaveBeenCalledTimes(1);
+    expect(getMetrics()).toMatchObject({
+      rateLimited: 1,
+      queued: { fetch: 1 },
+      backoffUntil: expect.any(Date),
+    });
+    expect(warnSpy).toHaveBeenCalledWith(
+      'Rate limited by mexc on default during fetchBalance, pausing requests for 1000ms.',
+    );
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fetchBalance).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(balance).resolves.toEqual({ total: {} });
+    expect(getMetrics()).toMatchObject({ sent: 1, failed: 0 });
+  });
+
+  it('fails a request the exchange keeps rate limiting, doubling the pause every time', async () => {
+    const cancelOrder = jest
+      .fn()
+      .mockRejectedValue(new ccxt.DDoSProtection('Slow down'));
+    const result = scheduler
+      .schedule('bitfinex', 'default', 'cancelOrder', cancelOrder)
+      .catch((error) => error);
+
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+    expect(await result).toBeInstanceOf(ccxt.DDoSProtection);
+    expect(cancelOrder).toHaveBeenCalledTimes(4);
+    expect(getMetrics()).toMatchObject({ rateLimited: 4, failed: 1 });
+    expect(getMetrics().backoffUntil.getTime() - Date.now()).toBe(8000);
+  });
+
+  it('tells rate limit errors of ccxt and of the REST clients apart from others', () => {
+    expect(
+      isRateLimitError(new ccxt.RateLimitExceeded('Too many requests')),
+    ).toBe(true);
+    expect(isRateLimitError(new ccxt.DDoSProtection('Slow down'))).toBe(true);
+    expect(
+      isRateLimitError(
+        new AxiosError('Too many requests', '429', undefined, undefined, {
+          status: 429,
+        } as AxiosResponse),
+      ),
+    ).toBe(true);
+    expect(isRateLimitError({ response: { status: 429 } })).toBe(false);
+    expect(
+      isRateLimitError(new ccxt.InsufficientFunds('Not enough USDT')),
+    ).toBe(false);
+  });
+
+  it('fails other errors right away', async () => {
+    const error = new ccxt.InsufficientFunds('Not enough USDT');
+    await expect(
+      scheduler.schedule(
+        'binance',
+        'default',
+        'createOrder',
+        jest.fn().mockRejectedValue(error),
+      ),
+    ).rejects.toBe(error);
+    expect(getMetrics()).toMatchObject({ failed: 1, rateLimited: 0 });
+  });
+
+  it('schedules the unified API of a wrapped exchange on its account', async () => {
+    const exchange = {
+      id: 'binance',
+      rateLimit: 50,
+      has: { fetchBalance: true, watchOrderBook: true },
+      fetchBalance: jest.fn(function () {
+        return Promise.resolve(this.id);
+      }),
+      watchOrderBook: jest.fn().mockResolvedValue({ bids: [], asks: [] }),
+      amountToPrecision: jest.fn().mockReturnValue('1.00'),
+    };
+    const wrapped = scheduler.wrap(
+      'binance',
+      'read-only',
+      exchange as unknown as ccxt.Exchange,
+    );
+
+    await expect(wrapped.fetchBalance()).resolves.toBe('binance');
+    await wrapped.watchOrderBook('BTC/USDT');
+    expect(wrapped.amountToPrecision('BTC/USDT', 1)).toBe('1.00');
+
+    expect(scheduler.wrap('binance', 'read-only', wrapped)).toBe(wrapped);
+    expect(getMetrics('read-only')).toMatchObject({
+      exchangeName: 'binance',
+      capacity: 20,
+      sent: 1,
+    });
+    expect(exchange.watchOrderBook).toHaveBeenCalledWith('BTC/USDT');
+  });
+});
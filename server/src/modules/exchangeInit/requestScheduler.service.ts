@@ -0,0 +1,341 @@
+/**
+ * RequestSchedulerService
+ *
+ * This service throttles the requests the server sends to the exchanges. The strategies, the order updater, the health
+ * checks and the rebalance all share the rate limits of the exchange accounts they use, so instead of every loop calling
+ * the exchange on its own the requests are queued per (exchange, account) and sent as the token bucket of the account
+ * allows.
+ *
+ * Dependencies:
+ * - CustomLogger: Custom logging service for logging errors and information.
+ * - ccxt: The rate limits of the exchanges and the errors they are exceeded with.
+ *
+ * Methods:
+ *
+ * - wrap(exchangeName: string, accountLabel: string, exchange: T): Returns the exchange with the calls of its unified API scheduled
+ *   on the bucket of the account. Wrapping an exchange twice returns it as it is.
+ *
+ * - schedule(exchangeName: string, accountLabel: string, method: string, request: () => Promise<T>, options?: ScheduleRequestOptions):
+ *   Queues a request on the bucket of the account and resolves with its result once it was sent.
+ *
+ * - getMetrics(): Returns the queue lengths, the request counts, the waiting times and the backoff of every bucket.
+ *
+ * Notes:
+ * - A bucket refills at the rate limit ccxt declares for the exchange and holds a second of requests. Heavier endpoints
+ *   like loadMarkets or fetchTickers take more than one token.
+ * - Queued cancels are sent before placements and placements before fetches, requests of a class keep their order.
+ * - A rate limit error pauses the bucket, twice as long on every one in a row up to a minute, and the request is queued
+ *   again in front of its class up to three times.
+ * - Websocket streams (watch*) aren't scheduled, they hold a connection instead of sending requests.
+ */
+
+import * as ccxt from 'ccxt';
+import axios from 'axios';
+import { Injectable } from '@nestjs/common';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import {
+  RequestBucketMetrics,
+  RequestPriority,
+  ScheduleRequestOptions,
+} from 'src/common/types/exchange/requestScheduler';
+
+interface ScheduledRequest {
+  method: string;
+  priority: RequestPriority;
+  weight: number;
+  queuedAt: number;
+  retries: number;
+  send: () => Promise<unknown>;
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface RequestBucket {
+  exchangeName: string;
+  accountLabel: string;
+  capacity: number;
+  tokensPerMs: number;
+  tokens: number;
+  refilledAt: number;
+  queues: Record<RequestPriority, ScheduledRequest[]>;
+  timer?: NodeJS.Timeout;
+  backoffMs: number;
+  backoffUntil: number;
+  sent: number;
+  failed: number;
+  rateLimited: number;
+  waits: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+export const REQUEST_PRIORITIES: RequestPriority[] = [
+  'cancel',
+  'place',
+  'fetch',
+];
+
+// Tokens of the endpoints heavier than a single request
+const REQUEST_WEIGHTS: Record<string, number> = {
+  loadMarkets: 10,
+  fetchMarkets: 10,
+  fetchCurrencies: 10,
+  fetchTickers: 5,
+  fetchMyTrades: 5,
+  fetchOrders: 5,
+  fetchClosedOrders: 5,
+  fetchOpenOrders: 3,
+  fetchBalance: 2,
+  fetchOrderBook: 2,
+  fetchOHLCV: 2,
+};
+
+export const getRequestPriority = (method: string): RequestPriority => {
+  if (method.startsWith('cancel')) {
+    return 'cancel';
+  }
+  if (/^(create|edit|withdraw|transfer)/.test(method)) {
+    return 'place';
+  }
+  return 'fetch';
+};
+
+// ccxt raises its own errors, the REST clients scheduled directly (BigOne) raise axios ones
+export const isRateLimitError = (error: unknown): boolean =>
+  error instanceof ccxt.DDoSProtection ||
+  error instanceof ccxt.RateLimitExceeded ||
+  (axios.isAxiosError(error) && error.response?.status === 429);
+
+@Injectable()
+export class RequestSchedulerService {
+  private readonly logger = new CustomLogger(RequestSchedulerService.name);
+  private readonly defaultRateLimit = 100; // ms per token when the exchange declares none
+  private readonly minBackoffMs = 1000;
+  private readonly maxBackoffMs = 60 * 1000;
+  private readonly maxRetries = 3;
+  private buckets = new Map<string, RequestBucket>(); // Buckets by exchange and account
+  private wrapped = new WeakSet<object>();
+
+  wrap<T extends ccxt.Exchange>(
+    exchangeName: string,
+    accountLabel: string,
+    exchange: T,
+  ): T {
+    if (this.wrapped.has(exchange)) {
+      return exchange;
+    }
+    const proxy = new Proxy(exchange, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (
+          typeof property !== 'string' ||
+          typeof value !== 'function' ||
+          !this.isScheduledMethod(target, property)
+        ) {
+          return value;
+        }
+        // The method runs on the exchange itself, the requests it makes internally are part of its weight
+        return (...args: unknown[]) =>
+          this.schedule(
+            exchangeName,
+            accountLabel,
+            property,
+            () => value.apply(target, args),
+            { rateLimit: target.rateLimit },
+          );
+      },
+    });
+    this.wrapped.add(proxy);
+    return proxy;
+  }
+
+  schedule<T>(
+    exchangeName: string,
+    accountLabel: string,
+    method: string,
+    request: () => Promise<T>,
+    options: ScheduleRequestOptions = {},
+  ): Promise<T> {
+    const bucket = this.getBucket(
+      exchangeName,
+      accountLabel,
+      options.rateLimit,
+    );
+    const priority = options.priority ?? getRequestPriority(method);
+    const weight = Math.min(
+      options.weight ?? REQUEST_WEIGHTS[method] ?? 1,
+      bucket.capacity,
+    );
+
+    return new Promise<T>((resolve, reject) => {
+      bucket.queues[priority].push({
+        method,
+        priority,
+        weight,
+        queuedAt: Date.now(),
+        retries: 0,
+        send: request,
+        resolve,
+        reject,
+      });
+      this.drain(bucket);
+    });
+  }
+
+  getMetrics(): RequestBucketMetrics[] {
+    const now = Date.now();
+    return Array.from(this.buckets.values()).map((bucket) => {
+      this.refill(bucket, now);
+      return {
+        exchangeName: bucket.exchangeName,
+        accountLabel: bucket.accountLabel,
+        capacity: bucket.capacity,
+        tokens: bucket.tokens,
+        queued: {
+          cancel: bucket.queues.cancel.length,
+          place: bucket.queues.place.length,
+          fetch: bucket.queues.fetch.length,
+        },
+        sent: bucket.sent,
+        failed: bucket.failed,
+        rateLimited: bucket.rateLimited,
+        averageWaitMs: bucket.waits ? bucket.totalWaitMs / bucket.waits : 0,
+        maxWaitMs: bucket.maxWaitMs,
+        backoffUntil:
+          bucket.backoffUntil > now ? new Date(bucket.backoffUntil) : undefined,
+      };
+    });
+  }
+
+  private isScheduledMethod(exchange: ccxt.Exchange, method: string) {
+    if (method === 'loadMarkets') {
+      return true;
+    }
+    return (
+      !!exchange.has &&
+      method in exchange.has &&
+      !/^(watch|unWatch)/.test(method)
+    );
+  }
+
+  private getBucket(
+    exchangeName: string,
+    accountLabel: string,
+    rateLimit?: number,
+  ): RequestBucket {
+    const bucketKey = `${exchangeName}:${accountLabel}`;
+    let bucket = this.buckets.get(bucketKey);
+    if (!bucket) {
+      const msPerToken = rateLimit > 0 ? rateLimit : this.defaultRateLimit;
+      const capacity = Math.max(1, Math.floor(1000 / msPerToken));
+      bucket = {
+        exchangeName,
+        accountLabel,
+        capacity,
+        tokensPerMs: 1 / msPerToken,
+        tokens: capacity,
+        refilledAt: Date.now(),
+        queues: { cancel: [], place: [], fetch: [] },
+        backoffMs: 0,
+        backoffUntil: 0,
+        sent: 0,
+        failed: 0,
+        rateLimited: 0,
+        waits: 0,
+        totalWaitMs: 0,
+        maxWaitMs: 0,
+      };
+      this.buckets.set(bucketKey, bucket);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: RequestBucket, now: number) {
+    bucket.tokens = Math.min(
+      bucket.capacity,
+      bucket.tokens + (now - bucket.refilledAt) * bucket.tokensPerMs,
+    );
+    bucket.refilledAt = now;
+  }
+
+  private getNextRequest(bucket: RequestBucket): ScheduledRequest | undefined {
+    for (const priority of REQUEST_PRIORITIES) {
+      if (bucket.queues[priority].length) {
+        return bucket.queues[priority][0];
+      }
+    }
+    return undefined;
+  }
+
+  // Sends the queued requests the bucket has tokens for, and waits for the tokens of the next one
+  private drain(bucket: RequestBucket) {
+    if (bucket.timer) {
+      return;
+    }
+    let request = this.getNextRequest(bucket);
+    while (request) {
+      const now = Date.now();
+      this.refill(bucket, now);
+      const delay =
+        bucket.backoffUntil > now
+          ? bucket.backoffUntil - now
+          : Math.ceil((request.weight - bucket.tokens) / bucket.tokensPerMs);
+      if (delay > 0) {
+        bucket.timer = setTimeout(() => {
+          bucket.timer = undefined;
+          this.drain(bucket);
+        }, delay);
+        return;
+      }
+      bucket.queues[request.priority].shift();
+      bucket.tokens -= request.weight;
+      this.send(bucket, request, now);
+      request = this.getNextRequest(bucket);
+    }
+  }
+
+  private async send(
+    bucket: RequestBucket,
+    request: ScheduledRequest,
+    now: number,
+  ) {
+    const waitMs = now - request.queuedAt;
+    bucket.waits++;
+    bucket.totalWaitMs += waitMs;
+    bucket.maxWaitMs = Math.max(bucket.maxWaitMs, waitMs);
+
+    try {
+      const result = await request.send();
+      bucket.sent++;
+      bucket.backoffMs = 0;
+      request.resolve(result);
+    } catch (error) {
+      if (!isRateLimitError(error)) {
+        bucket.failed++;
+        request.reject(error);
+        return;
+      }
+
+      bucket.rateLimited++;
+      bucket.backoffMs = Math.min(
+        Math.max(bucket.backoffMs * 2, this.minBackoffMs),
+        this.maxBackoffMs,
+      );
+      bucket.backoffUntil = Date.now() + bucket.backoffMs;
+      bucket.tokens = 0;
+      this.logger.warn(
+        `Rate limited by ${bucket.exchangeName} on ${bucket.accountLabel} during ${request.method}, pausing requests for ${bucket.backoffMs}ms.`,
+      );
+
+      if (request.retries >= this.maxRetries) {
+        bucket.failed++;
+        request.reject(error);
+        return;
+      }
+      request.retries++;
+      request.queuedAt = Date.now();
+      bucket.queues[request.priority].unshift(request);
+      this.drain(bucket);
+    }
+  }
+}
@@ -42,4 +42,16 @@ export class HealthController {
   async getDbHealth() {
     return await this.healthService.checkDbHealth();
   }
+
+  @Get('exchange-requests')
+  @ApiOperation({ summary: 'Get the request queues of the exchange accounts' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Queued requests by priority, request counts, waiting times and backoff of every exchange account',
+  })
+  @UseGuards(JwtAuthGuard)
+  async getExchangeRequestMetrics() {
+    return this.healthService.getExchangeRequestMetrics();
+  }
 }
@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { HealthService } from './health.service';
 import { HealthController } from './health.controller';
+import { ExchangeInitModule } from '../exchangeInit/exchangeInit.module';
 
 @Module({
+  imports: [ExchangeInitModule],
   controllers: [HealthController],
   providers: [HealthService],
   exports: [HealthService],
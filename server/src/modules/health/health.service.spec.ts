@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { HealthService } from './health.service';
 import { CustomLogger } from '../logger/logger.service';
 import { getEntityManagerToken } from '@nestjs/typeorm';
+import { RequestSchedulerService } from '../exchangeInit/requestScheduler.service';
 
 const mockEntityManager = {
   // Mock methods as needed, for example:
@@ -18,6 +19,7 @@ describe('HealthService', () => {
       providers: [
         HealthService,
         CustomLogger,
+        RequestSchedulerService,
         {
           provide: getEntityManagerToken(), // This is how you get the correct token for EntityManager
           useValue: mockEntityManager, // Use the mock you defined above
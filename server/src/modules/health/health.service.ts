@@ -9,16 +9,18 @@
  * Dependencies:
  * - EntityManager: TypeORM's EntityManager for database operations.
  * - CustomLogger: Custom logging service for recording errors and log information.
+ * - RequestSchedulerService: Throttles the health check requests on the default accounts and reports the request queues.
  * - ccxt: Cryptocurrency exchange trading library.
  *
  * Methods:
- * - constructor: Initializes the service with the injected EntityManager and sets up exchanges.
+ * - constructor: Initializes the service with the injected EntityManager and RequestSchedulerService and sets up exchanges.
  * - initializeExchange(): Initializes the cryptocurrency exchanges with API keys and secrets.
  * - checkApiKeys(): Validates the presence of required API keys and secrets in environment variables.
  * - ping(): Returns a simple 'pong' response to verify service availability.
  * - checkDbHealth(): Checks the health of various database tables by counting the number of records.
  * - getAllHealth(): Checks the health of all configured exchanges by fetching their balances.
  * - getExchangeHealth(exchangeName: string): Checks the health of a specific exchange by name.
+ * - getExchangeRequestMetrics(): Returns the queues, request counts, waiting times and backoff of the exchange accounts.
  *
  * Error Handling:
  * - Throws InternalServerErrorException for missing or invalid API keys.
@@ -40,6 +42,8 @@ import * as ccxt from 'ccxt';
 import { CustomLogger } from '../logger/logger.service';
 import { InjectEntityManager } from '@nestjs/typeorm';
 import { EntityManager } from 'typeorm';
+import { RequestSchedulerService } from '../exchangeInit/requestScheduler.service';
+import { RequestBucketMetrics } from 'src/common/types/exchange/requestScheduler';
 
 type HEALTH_STATE = 'alive' | 'dead';
 
@@ -48,34 +52,49 @@ export class HealthService {
   private exchanges = new Map<string, ccxt.Exchange>();
   private readonly logger = new CustomLogger(HealthService.name);
 
-  constructor(@InjectEntityManager() private entityManager: EntityManager) {
+  constructor(
+    @InjectEntityManager() private entityManager: EntityManager,
+    private requestScheduler: RequestSchedulerService,
+  ) {
     // Enable this with api keys in .env
     // this.checkApiKeys()
     this.initializeExchange();
   }
 
   private initializeExchange() {
-    // Initialize exchanges
+    // Initialize exchanges, on the buckets of the default accounts they share the keys of
     this.exchanges.set(
       'bitfinex',
-      new ccxt.bitfinex({
-        apiKey: process.env.BITFINEX_API_KEY,
-        secret: process.env.BITFINEX_SECRET,
-      }),
+      this.requestScheduler.wrap(
+        'bitfinex',
+        'default',
+        new ccxt.bitfinex({
+          apiKey: process.env.BITFINEX_API_KEY,
+          secret: process.env.BITFINEX_SECRET,
+        }),
+      ),
     );
     this.exchanges.set(
       'mexc',
-      new ccxt.mexc({
-        apiKey: process.env.MEXC_API_KEY,
-        secret: process.env.MEXC_SECRET,
-      }),
+      this.requestScheduler.wrap(
+        'mexc',
+        'default',
+        new ccxt.mexc({
+          apiKey: process.env.MEXC_API_KEY,
+          secret: process.env.MEXC_SECRET,
+        }),
+      ),
     );
     this.exchanges.set(
       'binance',
-      new ccxt.binance({
-        apiKey: process.env.BINANCE_API_KEY,
-        secret: process.env.BINANCE_SECRET,
-      }),
+      this.requestScheduler.wrap(
+        'binance',
+        'default',
+        new ccxt.binance({
+          apiKey: process.env.BINANCE_API_KEY,
+          secret: process.env.BINANCE_SECRET,
+        }),
+      ),
     );
   }
 
@@ -178,4 +197,8 @@ export class HealthService {
     }
     return { statusCode: 200, message: 'alive' as HEALTH_STATE };
   }
+
+  getExchangeRequestMetrics(): RequestBucketMetrics[] {
+    return this.requestScheduler.getMetrics();
+  }
 }
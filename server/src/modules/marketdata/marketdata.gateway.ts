@@ -11,6 +11,7 @@ import {
 } from '@nestjs/websockets';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { MarketdataService, marketDataType } from './marketdata.service';
+import { OrderBookHubService } from './orderbook-hub.service';
 import {
   createCompositeKey,
   decodeCompositeKey,
@@ -30,8 +31,12 @@ export class MarketDataGateway
 
   private clientSubscriptions = new Map<string, Set<string>>();
   private clients = new Map<string, Socket>();
+  private readonly orderBookDepth = 14; // Levels sent to the clients on each side of an order book
 
-  constructor(private marketDataService: MarketdataService) {}
+  constructor(
+    private marketDataService: MarketdataService,
+    private orderBookHub: OrderBookHubService,
+  ) {}
 
   afterInit() {
     // Any initialization logic if needed
@@ -146,13 +151,6 @@ export class MarketDataGateway
     try {
       if (!this.marketDataService.isSubscribed(type, exchange, symbol)) {
         switch (type) {
-          case 'orderbook':
-            await this.marketDataService.watchOrderBook(
-              exchange,
-              symbol,
-              callback,
-            );
-            break;
           case 'ticker':
             await this.marketDataService.watchTicker(
               exchange,
@@ -182,29 +180,42 @@ export class MarketDataGateway
       this.logger.error(`Client ID not found for the connected socket`);
       return;
     }
-    this.subscribeToMarketData(
+    const compositeKey = createCompositeKey(
       'orderbook',
       data.exchange,
       data.symbol,
-      clientId,
-      client,
-      (orderBookData) => {
-        this.broadcastToSubscribedClients(
-          createCompositeKey('orderbook', data.exchange, data.symbol),
-          {
-            exchange: data.exchange,
-            symbol: data.symbol,
-            bids: orderBookData.bids.map(([price, amount]) => ({
-              price,
-              amount,
-            })),
-            asks: orderBookData.asks
-              .map(([price, amount]) => ({ price, amount }))
-              .reverse(),
-          },
-        );
-      },
     );
+    if (!this.clientSubscriptions.has(clientId)) {
+      this.clientSubscriptions.set(clientId, new Set());
+    }
+    this.clientSubscriptions.get(clientId).add(compositeKey);
+
+    // Every client subscribes to the shared stream of the order book itself
+    try {
+      this.orderBookHub.subscribe(
+        data.exchange,
+        data.symbol,
+        clientId,
+        (orderBookData) => {
+          client.emit('orderBookData', {
+            data: {
+              exchange: data.exchange,
+              symbol: data.symbol,
+              bids: orderBookData.bids
+                .slice(0, this.orderBookDepth)
+                .map(([price, amount]) => ({ price, amount })),
+              asks: orderBookData.asks
+                .slice(0, this.orderBookDepth)
+                .map(([price, amount]) => ({ price, amount }))
+                .reverse(),
+            },
+          });
+        },
+      );
+    } catch (error) {
+      this.logger.error(`Error in subscribing to orderbook: ${error.message}`);
+      client.emit('error', 'Failed to subscribe to orderbook');
+    }
   }
 
   @SubscribeMessage('subscribeOHLCV')
@@ -333,9 +344,6 @@ export class MarketDataGateway
         const subscribedClient = this.getClientById(clientId);
         if (subscribedClient) {
           switch (type) {
-            case 'orderbook':
-              subscribedClient.emit('orderBookData', { data });
-              break;
             case 'OHLCV':
               subscribedClient.emit('OHLCVData', { data });
               break;
@@ -389,9 +397,13 @@ export class MarketDataGateway
     this.logger.log(`Unsubscribe: ${subscriptionKey}`);
     this.clientSubscriptions.get(clientId)?.delete(subscriptionKey);
 
+    // The hub counts the subscribers of an order book itself
+    if (type === 'orderbook') {
+      this.orderBookHub.unsubscribe(exchange, symbol, clientId);
+      return;
+    }
     if (!this.isSymbolSubscribedByAnyClient(subscriptionKey)) {
       switch (type) {
-        case 'orderbook':
         case 'ticker':
           this.marketDataService.unsubscribeData(type, exchange, symbol);
           break;
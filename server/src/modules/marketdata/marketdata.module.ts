@@ -2,13 +2,19 @@ import { Module } from '@nestjs/common';
 import { MarketdataService } from './marketdata.service';
 import { MarketDataController } from './marketdata.controller';
 import { MarketDataGateway } from './marketdata.gateway';
+import { OrderBookHubService } from './orderbook-hub.service';
 import { CacheModule } from '@nestjs/cache-manager';
 import { ExchangeInitModule } from '../exchangeInit/exchangeInit.module';
 
 @Module({
   imports: [CacheModule.register(), ExchangeInitModule],
   controllers: [MarketDataController],
-  providers: [MarketDataGateway, MarketdataService],
-  exports: [MarketDataGateway, MarketdataService, CacheModule],
+  providers: [MarketDataGateway, MarketdataService, OrderBookHubService],
+  exports: [
+    MarketDataGateway,
+    MarketdataService,
+    OrderBookHubService,
+    CacheModule,
+  ],
 })
 export class MarketdataModule {}
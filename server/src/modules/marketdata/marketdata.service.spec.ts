@@ -32,6 +32,7 @@ jest.mock('ccxt', () => ({
     gateio: jest.fn(() => ({})),
     lbank: jest.fn(() => ({})),
   },
+  Exchange: class {},
 }));
 
 const mockExchangeInitService = () => ({
@@ -28,9 +28,6 @@
  * - getSupportedPairs(): Fetches supported trading pairs, utilizing caching to reduce API calls.
  * - _getSupportedPairs(): Internal method to fetch supported trading pairs directly from exchanges.
  *
- * - watchOrderBook(exchangeName: string, symbol: string, onData: (data: any) => void, limit?: number):
- *   Subscribes to order book updates for a specified symbol from a given exchange.
- *
  * - watchOHLCV(exchangeName: string, symbol: string, onData: (data: any) => void, timeFrame?: string, since?: number, limit?: number):
  *   Subscribes to OHLCV data updates for a specified symbol from a given exchange.
  *
@@ -43,8 +40,6 @@
  * - isSubscribed(type: marketDataType, exchangeName: string, symbol?: string, symbols?: string[], timeFrame?: string):
  *   Checks if a subscription is active for the given parameters.
  *
- * - unsubscribeOrderBook(exchangeName: string, symbol: string): Unsubscribes from order book updates for a specified symbol.
- *
  * - getTickerPrice(exchangeName: string, symbol: string): Fetches the latest ticker price for a specified symbol from a given exchange.
  *
  * - getMultipleTickerPrices(exchangeNames: string[], symbols: string[]): Fetches ticker prices for multiple symbols across multiple exchanges.
@@ -58,6 +53,7 @@
  * - The service uses activeSubscriptions to manage active data subscriptions.
  * - Error handling is implemented to log and manage errors during API interactions.
  * - The service ensures efficient handling of market data updates through subscription management and caching.
+ * - Order books are streamed by the OrderBookHubService, which shares a stream between all of its consumers.
  */
 
 import * as ccxt from 'ccxt';
@@ -196,39 +192,6 @@ export class MarketdataService {
     return flattenedResults;
   }
 
-  async watchOrderBook(
-    exchangeName: string,
-    symbol: string,
-    onData: (data: any) => void,
-    limit = 14,
-  ): Promise<void> {
-    const exchange = this.ExchangeInitService.getExchange(exchangeName);
-    if (!exchange || !exchange.has.watchOrderBook) {
-      throw new Error(
-        `Exchange ${exchangeName} does not support watchOrderBook or is not configured.`,
-      );
-    }
-
-    const subscriptionKey = `orderbook:${exchangeName}:${symbol}`;
-    this.activeSubscriptions.set(subscriptionKey, true);
-
-    if (exchangeName === 'bitfinex') {
-      limit = 25;
-    }
-
-    while (this.activeSubscriptions.get(subscriptionKey)) {
-      try {
-        const orderBook = await exchange.watchOrderBook(symbol, limit);
-        onData(orderBook);
-      } catch (error) {
-        this.logger.error(
-          `Error watching order book for ${symbol} on ${exchangeName}: ${error.message}`,
-        );
-        await new Promise((resolve) => setTimeout(resolve, 1000)); // Reconnect after a delay
-      }
-    }
-  }
-
   async watchOHLCV(
     exchangeName: string,
     symbol: string,
@@ -338,11 +301,6 @@ export class MarketdataService {
     return this.activeSubscriptions.has(subscriptionKey);
   }
 
-  unsubscribeOrderBook(exchangeName: string, symbol: string): void {
-    const subscriptionKey = `${exchangeName}:${symbol}`;
-    this.activeSubscriptions.delete(subscriptionKey);
-  }
-
   public async getTickerPrice(
     exchangeName: string,
     symbol: string,
@@ -0,0 +1,167 @@
+import { OrderBookHubService } from './orderbook-hub.service';
+import { ExchangeInitService } from '../exchangeInit/exchangeInit.service';
+
+describe('OrderBookHubService', () => {
+  let hub: OrderBookHubService;
+  let exchanges: Record<string, any>;
+
+  // Exchange whose order book updates are pushed by the test
+  const createExchange = (watchOrderBook = true, unWatchOrderBook = false) => {
+    const updates: ((orderBook: any) => void)[] = [];
+    return {
+      updates,
+      has: { watchOrderBook, unWatchOrderBook },
+      watchOrderBook: jest.fn(
+        () => new Promise((resolve) => updates.push(resolve)),
+      ),
+      unWatchOrderBook: jest.fn().mockResolvedValue(undefined),
+    };
+  };
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    exchanges = {
+      binance: createExchange(),
+      bitfinex: createExchange(),
+      bigone: createExchange(false),
+      'binance:account2': createExchange(),
+      'binance:paper': createExchange(),
+    };
+    hub = new OrderBookHubService({
+      getExchange: (exchangeName: string, accountLabel: string) =>
+        exchanges[
+          accountLabel === 'default'
+            ? exchangeName
+            : `${exchangeName}:${accountLabel}`
+        ],
+    } as unknown as ExchangeInitService);
+  });
+
+  it('shares one stream of an order book between its subscribers', async () => {
+    const orderBook = { bids: [[99, 1]], asks: [[100, 1]] };
+    const strategyListener = jest.fn();
+    const clientListener = jest.fn();
+
+    hub.subscribe('binance', 'BTC/USDT', '1-client1-arbitrage');
+    hub.subscribe('binance', 'BTC/USDT', '1-client1-grid', strategyListener);
+    hub.subscribe('binance', 'BTC/USDT', 'client', clientListener);
+    exchanges.binance.updates.shift()(orderBook);
+    await flush();
+
+    expect(exchanges.binance.watchOrderBook).toHaveBeenCalledTimes(2);
+    expect(exchanges.binance.watchOrderBook).toHaveBeenCalledWith(
+      'BTC/USDT',
+      undefined,
+    );
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT')).toBe(3);
+    expect(hub.getSnapshot('binance', 'BTC/USDT')).toMatchObject({
+      orderBook,
+    });
+    expect(strategyListener).toHaveBeenCalledWith(orderBook);
+    expect(clientListener).toHaveBeenCalledWith(orderBook);
+
+    // A late subscriber gets the latest order book right away
+    const lateListener = jest.fn();
+    hub.subscribe('binance', 'BTC/USDT', 'late', lateListener);
+    expect(lateListener).toHaveBeenCalledWith(orderBook);
+  });
+
+  it('closes the stream of an order book when its last subscriber leaves', async () => {
+    const listener = jest.fn();
+    hub.subscribe('binance', 'BTC/USDT', '1-client1-arbitrage', listener);
+    hub.subscribe('binance', 'BTC/USDT', 'client');
+    exchanges.binance.updates.shift()({ bids: [], asks: [] });
+    await flush();
+
+    hub.unsubscribe('binance', 'BTC/USDT', 'client');
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT')).toBe(1);
+    expect(hub.getSnapshot('binance', 'BTC/USDT')).toBeDefined();
+
+    hub.unsubscribe('binance', 'BTC/USDT', '1-client1-arbitrage');
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT')).toBe(0);
+    expect(hub.getSnapshot('binance', 'BTC/USDT')).toBeUndefined();
+
+    // The update the closed stream was waiting for isn't passed on
+    exchanges.binance.updates.shift()({ bids: [[1, 1]], asks: [] });
+    await flush();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(exchanges.binance.watchOrderBook).toHaveBeenCalledTimes(2);
+    // ccxt of this exchange has no unWatchOrderBook
+    expect(exchanges.binance.unWatchOrderBook).not.toHaveBeenCalled();
+  });
+
+  it('releases the websocket subscription of a closed stream where the exchange supports it', () => {
+    exchanges.okx = createExchange(true, true);
+    hub.subscribe('okx', 'BTC/USDT', 'client');
+    hub.subscribe('okx', 'ETH/USDT', 'client');
+
+    hub.unsubscribe('okx', 'BTC/USDT', 'client');
+
+    expect(exchanges.okx.unWatchOrderBook).toHaveBeenCalledTimes(1);
+    expect(exchanges.okx.unWatchOrderBook).toHaveBeenCalledWith('BTC/USDT');
+  });
+
+  it('releases every order book of a subscriber at once', () => {
+    hub.subscribe('binance', 'BTC/USDT', '1-client1-triangularArbitrage');
+    hub.subscribe('binance', 'ETH/BTC', '1-client1-triangularArbitrage');
+    hub.subscribe('bitfinex', 'BTC/USDT', '1-client1-triangularArbitrage');
+    hub.subscribe('binance', 'ETH/BTC', 'client');
+
+    hub.unsubscribeAll('1-client1-triangularArbitrage');
+
+    expect(exchanges.bitfinex.watchOrderBook).toHaveBeenCalledWith(
+      'BTC/USDT',
+      25,
+    );
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT')).toBe(0);
+    expect(hub.getSubscriberCount('bitfinex', 'BTC/USDT')).toBe(0);
+    expect(hub.getSubscriberCount('binance', 'ETH/BTC')).toBe(1);
+  });
+
+  it('rejects exchanges without an order book stream', () => {
+    expect(() => hub.subscribe('bigone', 'BTC/USDT', 'client')).toThrow(
+      'Exchange bigone does not support watchOrderBook.',
+    );
+    expect(hub.getSubscriberCount('bigone', 'BTC/USDT')).toBe(0);
+  });
+
+  it('shares one stream of an order book between the live accounts', async () => {
+    const orderBook = { bids: [[99, 1]], asks: [[100, 1]] };
+    hub.subscribe(
+      'binance',
+      'BTC/USDT',
+      '1-client1-grid',
+      undefined,
+      'account2',
+    );
+    hub.subscribe('binance', 'BTC/USDT', 'client');
+    exchanges['binance:account2'].updates.shift()(orderBook);
+    await flush();
+
+    expect(exchanges.binance.watchOrderBook).not.toHaveBeenCalled();
+    expect(hub.getSnapshot('binance', 'BTC/USDT')).toMatchObject({ orderBook });
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT', 'account2')).toBe(2);
+
+    hub.unsubscribeAll('1-client1-grid');
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT')).toBe(1);
+  });
+
+  it('keeps the order books of the paper account on streams of their own', async () => {
+    const orderBook = { bids: [[99, 1]], asks: [[100, 1]] };
+    hub.subscribe('binance', 'BTC/USDT', 'client');
+    hub.subscribe('binance', 'BTC/USDT', '1-client1-grid', undefined, 'paper');
+    exchanges['binance:paper'].updates.shift()(orderBook);
+    await flush();
+
+    expect(exchanges['binance:paper'].watchOrderBook).toHaveBeenCalledTimes(2);
+    expect(hub.getSnapshot('binance', 'BTC/USDT', 'paper')).toMatchObject({
+      orderBook,
+    });
+    expect(hub.getSnapshot('binance', 'BTC/USDT')).toBeUndefined();
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT')).toBe(1);
+
+    hub.unsubscribeAll('1-client1-grid');
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT', 'paper')).toBe(0);
+    expect(hub.getSubscriberCount('binance', 'BTC/USDT')).toBe(1);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * OrderBookHubService
+ *
+ * This service shares the order book streams of the exchanges between their consumers. The strategies and the market
+ * data gateway subscribe to an (exchange, symbol) pair instead of watching the order book themselves, the hub runs a
+ * single stream per pair, keeps its latest snapshot and passes every update on to the subscribers.
+ *
+ * Dependencies:
+ * - ExchangeInitService: Service providing the exchange instances the order books are watched on.
+ * - CustomLogger: Custom logging service for logging errors and information.
+ *
+ * Methods:
+ *
+ * - subscribe(exchangeName: string, symbol: string, subscriberId: string, onUpdate?: OrderBookListener, accountLabel?: string): Subscribes
+ *   to the order book of a pair, opening its stream for the first subscriber. The listener is called with every update.
+ *
+ * - unsubscribe(exchangeName: string, symbol: string, subscriberId: string, accountLabel?: string): Unsubscribes from the order book of
+ *   a pair, closing its stream when the last subscriber leaves.
+ *
+ * - unsubscribeAll(subscriberId: string): Unsubscribes a subscriber from every order book it subscribed to.
+ *
+ * - getSnapshot(exchangeName: string, symbol: string, accountLabel?: string): Returns the latest order book of a pair and when it
+ *   was received, undefined until the stream of the pair received one.
+ *
+ * - getSubscriberCount(exchangeName: string, symbol: string, accountLabel?: string): Returns the number of subscribers of the order
+ *   book of a pair.
+ *
+ * Notes:
+ * - Subscribing twice with the same subscriber id only counts once, the last listener replaces the previous one.
+ * - A closed stream stops after the update it is waiting for, its snapshot is dropped right away so stale data isn't served.
+ *   Its websocket subscription is released through unWatchOrderBook on the exchanges that support it.
+ * - The order book is public, the live accounts of an exchange share one stream, watched on the account of the subscriber
+ *   that opened it. A paper account matches its resting orders against the order books it watches, so it has streams of
+ *   its own.
+ */
+
+import * as ccxt from 'ccxt';
+import { Injectable } from '@nestjs/common';
+import { CustomLogger } from '../logger/logger.service';
+import { ExchangeInitService } from '../exchangeInit/exchangeInit.service';
+import { PAPER_ACCOUNT_LABEL } from '../exchangeInit/paperExchange';
+import {
+  OrderBookListener,
+  OrderBookSnapshot,
+} from 'src/common/types/marketdata/marketdata';
+
+// unWatchOrderBook is only implemented by the exchanges of newer ccxt versions
+type UnwatchableExchange = ccxt.Exchange & {
+  unWatchOrderBook(symbol: string): Promise<unknown>;
+};
+
+interface OrderBookStream {
+  exchangeName: string;
+  accountLabel: string;
+  symbol: string;
+  exchange: ccxt.Exchange;
+  subscribers: Map<string, OrderBookListener | undefined>;
+  snapshot?: OrderBookSnapshot;
+}
+
+@Injectable()
+export class OrderBookHubService {
+  private readonly logger = new CustomLogger(OrderBookHubService.name);
+  private readonly retryDelayMs = 2000;
+  private streams = new Map<string, OrderBookStream>(); // Open streams by exchange and symbol, and by account for paper
+
+  constructor(private exchangeInitService: ExchangeInitService) {}
+
+  subscribe(
+    exchangeName: string,
+    symbol: string,
+    subscriberId: string,
+    onUpdate?: OrderBookListener,
+    accountLabel = 'default',
+  ) {
+    const streamKey = this.getStreamKey(exchangeName, symbol, accountLabel);
+    let stream = this.streams.get(streamKey);
+    if (!stream) {
+      const exchange = this.exchangeInitService.getExchange(
+        exchangeName,
+        accountLabel,
+      );
+      if (!exchange.has.watchOrderBook) {
+        throw new Error(
+          `Exchange ${exchangeName} does not support watchOrderBook.`,
+        );
+      }
+      stream = {
+        exchangeName,
+        accountLabel,
+        symbol,
+        exchange,
+        subscribers: new Map(),
+      };
+      this.streams.set(streamKey, stream);
+      this.runStream(streamKey, stream);
+    }
+    stream.subscribers.set(subscriberId, onUpdate);
+    if (onUpdate && stream.snapshot) {
+      onUpdate(stream.snapshot.orderBook);
+    }
+  }
+
+  unsubscribe(
+    exchangeName: string,
+    symbol: string,
+    subscriberId: string,
+    accountLabel = 'default',
+  ) {
+    const streamKey = this.getStreamKey(exchangeName, symbol, accountLabel);
+    const stream = this.streams.get(streamKey);
+    if (!stream?.subscribers.delete(subscriberId)) {
+      return;
+    }
+    if (!stream.subscribers.size) {
+      this.streams.delete(streamKey);
+      this.logger.log(
+        `Closing the order book stream of ${symbol} on ${exchangeName}.`,
+      );
+      this.releaseStream(stream);
+    }
+  }
+
+  unsubscribeAll(subscriberId: string) {
+    for (const stream of Array.from(this.streams.values())) {
+      if (stream.subscribers.has(subscriberId)) {
+        this.unsubscribe(
+          stream.exchangeName,
+          stream.symbol,
+          subscriberId,
+          stream.accountLabel,
+        );
+      }
+    }
+  }
+
+  getSnapshot(
+    exchangeName: string,
+    symbol: string,
+    accountLabel = 'default',
+  ): OrderBookSnapshot | undefined {
+    return this.streams.get(
+      this.getStreamKey(exchangeName, symbol, accountLabel),
+    )?.snapshot;
+  }
+
+  getSubscriberCount(
+    exchangeName: string,
+    symbol: string,
+    accountLabel = 'default',
+  ): number {
+    return (
+      this.streams.get(this.getStreamKey(exchangeName, symbol, accountLabel))
+        ?.subscribers.size ?? 0
+    );
+  }
+
+  private getStreamKey(
+    exchangeName: string,
+    symbol: string,
+    accountLabel: string,
+  ): string {
+    return accountLabel === PAPER_ACCOUNT_LABEL
+      ? `${exchangeName}:${accountLabel}:${symbol}`
+      : `${exchangeName}:${symbol}`;
+  }
+
+  // Releases the websocket subscription of a closed stream where the exchange supports it
+  private async releaseStream(stream: OrderBookStream) {
+    const { exchange, exchangeName, symbol } = stream;
+    if (!exchange.has['unWatchOrderBook']) {
+      return;
+    }
+    try {
+      await (exchange as UnwatchableExchange).unWatchOrderBook(symbol);
+    } catch (error) {
+      this.logger.error(
+        `Error releasing the order book stream of ${symbol} on ${exchangeName}: ${error.message}`,
+      );
+    }
+  }
+
+  private async runStream(streamKey: string, stream: OrderBookStream) {
+    const { exchange, exchangeName, symbol } = stream;
+    // Bitfinex only streams order books of 1, 25, 100 or 250 levels
+    const limit = exchangeName === 'bitfinex' ? 25 : undefined;
+    this.logger.log(
+      `Opening the order book stream of ${symbol} on ${exchangeName}.`,
+    );
+
+    // The stream runs until it is closed, a new stream of the pair replaces it
+    while (this.streams.get(streamKey) === stream) {
+      try {
+        const orderBook = await exchange.watchOrderBook(symbol, limit);
+        if (this.streams.get(streamKey) !== stream) {
+          break;
+        }
+        stream.snapshot = { orderBook, timestamp: Date.now() };
+        for (const [subscriberId, onUpdate] of stream.subscribers) {
+          try {
+            onUpdate?.(orderBook);
+          } catch (error) {
+            this.logger.error(
+              `Error in the order book listener of ${subscriberId} for ${symbol} on ${exchangeName}: ${error.message}`,
+            );
+          }
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error watching order book for ${symbol} on ${exchangeName}: ${error.message}`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs)); // Reconnect after a delay
+      }
+    }
+  }
+}
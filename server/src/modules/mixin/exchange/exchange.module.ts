@@ -11,6 +11,7 @@ import {
 } from 'src/common/entities/mixin-release.entity';
 import { ExchangeController } from './exchange.controller';
 import { ExchangeUserController } from './exchange-client.controller';
+import { ExchangeInitModule } from 'src/modules/exchangeInit/exchangeInit.module';
 
 @Module({
   imports: [
@@ -20,6 +21,7 @@ import { ExchangeUserController } from './exchange-client.controller';
       MixinReleaseToken,
       MixinReleaseHistory,
     ]),
+    ExchangeInitModule,
   ],
   providers: [ExchangeService, ExchangeRepository],
   exports: [ExchangeService, ExchangeRepository],
@@ -3,10 +3,13 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ExchangeService } from './exchange.service';
 import { ExchangeRepository } from './exchange.repository';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { RequestSchedulerService } from 'src/modules/exchangeInit/requestScheduler.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
 
 jest.mock('ccxt', () => ({
   __esModule: true,
   default: jest.fn(),
+  Exchange: class {},
   okx: jest.fn().mockImplementation(() => ({
     has: {
       fetchDepositAddress: true,
@@ -38,6 +41,14 @@ describe('ExchangeService', () => {
         ExchangeService,
         { provide: ExchangeRepository, useFactory: mockExchangeRepository },
         { provide: EventEmitter2, useFactory: mockEventEmitter2 },
+        RequestSchedulerService,
+        {
+          provide: ExchangeInitService,
+          useValue: {
+            waitForInitialization: jest.fn(),
+            getExchange: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
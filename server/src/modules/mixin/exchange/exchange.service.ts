@@ -12,15 +12,19 @@
  * - Cron: NestJS schedule module for defining cron jobs.
  * - EventEmitter2: Event emitter for managing custom events.
  * - CustomLogger: Custom logging service for recording errors and log information.
+ * - RequestSchedulerService: Throttles the requests of the API keys on their exchange accounts.
+ * - ExchangeInitService: Holds the paper accounts of the exchanges.
  * - ExchangeRepository: Repository for interacting with exchange-related data in the database.
  * - Utils: Helper functions such as getRFC3339Timestamp and getSymbolByAssetID.
  * - Constants: Includes mappings like STATE_TEXT_MAP and types such as SpotOrderStatus.
  *
  * Methods:
  *
- * - constructor: Initializes the service with the injected ExchangeRepository and EventEmitter2, and loads API keys.
+ * - constructor: Initializes the service with the injected ExchangeRepository, EventEmitter2, RequestSchedulerService and ExchangeInitService, and loads API keys.
  *
- * - loadAPIKeys(): Loads API keys from the repository and initializes exchange instances.
+ * - loadAPIKeys(): Loads API keys from the repository and initializes exchange instances once the exchange accounts are initialized.
+ *
+ * - createExchangeInstance(exchange: string, apiKey: string, apiSecret: string): Creates a ccxt instance scheduled on the account of the API key, or returns the paper account of ExchangeInitService when the API key is 'paper'.
  *
  * - readAllAPIKeys(): Retrieves all API keys from the repository.
  *
@@ -84,9 +88,11 @@
  * - The service manages API keys and exchange instances, ensuring secure and efficient interactions with exchanges.
  * - Error handling is implemented to log and manage errors during API interactions.
  * - Scheduled tasks are used to periodically update the status of placed orders.
+ * - The instances of an API key share its request bucket, the account is labelled by a hash of the key so the key itself isn't exposed in the metrics.
  */
 
 import * as ccxt from 'ccxt';
+import { createHash } from 'crypto';
 import BigNumber from 'bignumber.js';
 import { Cron } from '@nestjs/schedule';
 import { Injectable } from '@nestjs/common';
@@ -109,10 +115,13 @@ import {
   MixinReleaseToken,
 } from 'src/common/types/exchange/mixinRelease';
 import { CustomLogger } from 'src/modules/logger/logger.service';
+import { RequestSchedulerService } from 'src/modules/exchangeInit/requestScheduler.service';
 import { SpotOrder } from 'src/common/entities/spot-order.entity';
 import { APIKeysConfig } from 'src/common/entities/api-keys.entity';
 import { ExchangeDepositDto, ExchangeWithdrawalDto } from './exchange.dto';
 import { AggregatedBalances } from 'src/common/types/rebalance/map';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { PAPER_ACCOUNT_LABEL } from 'src/modules/exchangeInit/paperExchange';
 
 @Injectable()
 export class ExchangeService {
@@ -122,11 +131,41 @@ export class ExchangeService {
   constructor(
     private exchangeRepository: ExchangeRepository,
     private eventEmitter: EventEmitter2,
+    private requestScheduler: RequestSchedulerService,
+    private exchangeInitService: ExchangeInitService,
   ) {
     this.loadAPIKeys();
   }
 
+  private createExchangeInstance(
+    exchange: string,
+    apiKey: string,
+    apiSecret: string,
+  ) {
+    // API keys configured as 'paper' trade against the simulated account of the exchange
+    if (apiKey === PAPER_ACCOUNT_LABEL) {
+      return this.exchangeInitService.getExchange(
+        exchange,
+        PAPER_ACCOUNT_LABEL,
+      );
+    }
+    const accountLabel = `api-key-${createHash('sha256')
+      .update(apiKey)
+      .digest('hex')
+      .slice(0, 8)}`;
+    return this.requestScheduler.wrap(
+      exchange,
+      accountLabel,
+      new ccxt[exchange]({
+        apiKey,
+        secret: apiSecret,
+      }),
+    );
+  }
+
   private async loadAPIKeys() {
+    // The paper accounts the API keys may point at are built on initialization
+    await this.exchangeInitService.waitForInitialization();
     const apiKeys = await this.exchangeRepository.readAllAPIKeys();
     if (!apiKeys?.length) {
       this.logger.error('No API Keys loaded');
@@ -139,10 +178,11 @@ export class ExchangeService {
       const apiSecret = key.api_secret;
 
       if (!this.exchangeInstances[keyId]) {
-        this.exchangeInstances[keyId] = new ccxt[exchangeName]({
+        this.exchangeInstances[keyId] = this.createExchangeInstance(
+          exchangeName,
           apiKey,
-          secret: apiSecret,
-        });
+          apiSecret,
+        );
       }
     }
   }
@@ -218,10 +258,7 @@ export class ExchangeService {
     apiKey: string,
     apiSecret: string,
   ): Promise<any> {
-    const e = new ccxt[exchange]({
-      apiKey,
-      secret: apiSecret,
-    });
+    const e = this.createExchangeInstance(exchange, apiKey, apiSecret);
 
     try {
       const b = await e.fetchBalance();
@@ -249,10 +286,7 @@ export class ExchangeService {
     apiSecret: string,
     symbol: string,
   ): Promise<any> {
-    const e = new ccxt[exchange]({
-      apiKey,
-      secret: apiSecret,
-    });
+    const e = this.createExchangeInstance(exchange, apiKey, apiSecret);
 
     try {
       const b = await e.fetchBalance({ currency: symbol });
@@ -290,10 +324,7 @@ export class ExchangeService {
     symbol: string;
     network: string;
   }) {
-    const e = new ccxt[exchange]({
-      apiKey,
-      secret: apiSecret,
-    });
+    const e = this.createExchangeInstance(exchange, apiKey, apiSecret);
     if (!e.has['fetchDepositAddress']) {
       this.logger.error(`${exchange} doesn't support fetchDepositAddress()`);
       return;
@@ -385,10 +416,7 @@ export class ExchangeService {
     tag: string;
     amount: string;
   }) {
-    const e = new ccxt[exchange]({
-      apiKey,
-      secret: apiSecret,
-    });
+    const e = this.createExchangeInstance(exchange, apiKey, apiSecret);
 
     if (!e.has['withdraw']) {
       this.logger.error(`${exchange} does not support withdrawals.`);
@@ -631,10 +659,7 @@ export class ExchangeService {
     amount: string,
     limit_price?: string,
   ) {
-    const e = new ccxt[exchange]({
-      apiKey,
-      secret: apiSecret,
-    });
+    const e = this.createExchangeInstance(exchange, apiKey, apiSecret);
 
     if (limit && buy) {
       await e.createLimitBuyOrder(symbol, amount, limit_price);
@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AutoInvestListener } from './auto_invest.listener';
+import { SnapshotsService } from 'src/modules/mixin/snapshots/snapshots.service';
+import { AutoInvestService } from 'src/modules/autoInvest/autoInvest.service';
+import { SafeSnapshot } from '@mixin.dev/mixin-node-sdk';
+import { AutoInvestMemoDetails } from 'src/common/types/memo/memo';
+
+jest.mock('src/modules/mixin/snapshots/snapshots.service');
+jest.mock('src/modules/autoInvest/autoInvest.service');
+
+describe('AutoInvestListener', () => {
+  let listener: AutoInvestListener;
+  let snapshotsService: SnapshotsService;
+  let autoInvestService: AutoInvestService;
+
+  const mockDetails: AutoInvestMemoDetails = {
+    tradingType: 'Auto Invest',
+    action: 'create',
+    exchangeName: 'mexc',
+    symbol: 'BTC/USDT-ERC20',
+    amount: '50',
+    frequencyHours: 24,
+    traceId: '1043e42c-dd12-4260-a443-d1896b64eae4',
+  };
+
+  const mockSnapshot = (asset_id: string): SafeSnapshot => ({
+    asset_id,
+    amount: '200',
+    snapshot_id: 'e82afdfb-6239-4530-8a45-d86294750da6',
+    opponent_id: '9f771b3d-15c0-42e1-ae05-bcdc1c5c54f3',
+    type: 'transaction',
+    created_at: '2024-04-09T15:34:37Z',
+    trace_id: '1043e42c-dd12-4260-a443-d1896b64eae4',
+    user_id: '1a02b381-2323-4814-b572-1e24ebcbe922',
+    memo: 'xxx',
+    transaction_hash: 'tx',
+    confirmations: null,
+    opening_balance: null,
+    closing_balance: null,
+    deposit: null,
+    withdrawal: null,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AutoInvestListener, SnapshotsService, AutoInvestService],
+    }).compile();
+
+    listener = module.get<AutoInvestListener>(AutoInvestListener);
+    snapshotsService = module.get<SnapshotsService>(SnapshotsService);
+    autoInvestService = module.get<AutoInvestService>(AutoInvestService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should create a plan funded with the quote asset', async () => {
+    const snapshot = mockSnapshot('4d8c508b-91c5-375b-92b0-ee702ed2dac5'); // USDT-ERC20
+    autoInvestService.findPlan = jest.fn().mockResolvedValue(null);
+
+    await listener.handleAutoInvestCreate(mockDetails, snapshot);
+
+    expect(autoInvestService.createPlan).toHaveBeenCalledWith(
+      expect.objectContaining({
+        id: mockDetails.traceId,
+        userId: snapshot.opponent_id,
+        symbol: 'BTC/USDT',
+        assetId: 'c6d0c728-2624-429b-8e0d-d9d19b6592fa',
+        amount: 50,
+        frequencyHours: 24,
+        balance: 200,
+      }),
+    );
+  });
+
+  it('should add a deposit to the balance of an existing plan', async () => {
+    const snapshot = mockSnapshot('4d8c508b-91c5-375b-92b0-ee702ed2dac5');
+    autoInvestService.findPlan = jest.fn().mockResolvedValue({
+      id: mockDetails.traceId,
+      fundingAssetId: snapshot.asset_id,
+    });
+
+    await listener.handleAutoInvestCreate(
+      { ...mockDetails, action: 'deposit' },
+      snapshot,
+    );
+
+    expect(autoInvestService.fundPlan).toHaveBeenCalledWith(
+      mockDetails.traceId,
+      200,
+    );
+    expect(autoInvestService.createPlan).not.toHaveBeenCalled();
+  });
+
+  it('should refund a transfer of another asset than the quote asset', async () => {
+    const snapshot = mockSnapshot('c6d0c728-2624-429b-8e0d-d9d19b6592fa'); // BTC
+
+    await listener.handleAutoInvestCreate(mockDetails, snapshot);
+
+    expect(snapshotsService.refund).toHaveBeenCalledWith(snapshot);
+    expect(autoInvestService.createPlan).not.toHaveBeenCalled();
+  });
+});
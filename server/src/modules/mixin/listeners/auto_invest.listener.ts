@@ -0,0 +1,99 @@
+/**
+ * AutoInvestListener
+ *
+ * This listener service handles the Mixin transfers funding auto invest plans. It processes the 'auto_invest.create' event,
+ * validates the transferred asset and creates the plan or adds the transfer to its balance.
+ *
+ * Dependencies:
+ * - SnapshotsService: Service for interacting with Mixin snapshots.
+ * - AutoInvestService: Service for managing auto invest plans.
+ * - Helper functions: Utilities for managing asset IDs.
+ *
+ * Events:
+ * - 'auto_invest.create': Event triggered by a transfer with an auto invest memo.
+ *
+ * Methods:
+ *
+ * - constructor: Initializes the service with the injected SnapshotsService and AutoInvestService.
+ *
+ * - handleAutoInvestCreate(details: AutoInvestMemoDetails, snapshot: SafeSnapshot): Handles the 'auto_invest.create' event.
+ *   Creates the plan identified by the trace id of the memo, or funds it when it already exists.
+ *
+ * Notes:
+ * - Plans are funded with the quote asset of the pair and buy its base asset. The pair is traded on the exchange without
+ *   the chain of its assets.
+ * - Transfers that can't fund a plan are refunded.
+ */
+
+import { SafeSnapshot } from '@mixin.dev/mixin-node-sdk';
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  getAssetIDBySymbol,
+  getExchangeSymbol,
+} from 'src/common/helpers/utils';
+import { AutoInvestMemoDetails } from 'src/common/types/memo/memo';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { SnapshotsService } from 'src/modules/mixin/snapshots/snapshots.service';
+import { AutoInvestService } from 'src/modules/autoInvest/autoInvest.service';
+
+@Injectable()
+export class AutoInvestListener {
+  private readonly logger = new CustomLogger(AutoInvestListener.name);
+
+  constructor(
+    private readonly snapshotService: SnapshotsService,
+    private readonly autoInvestService: AutoInvestService,
+  ) {}
+
+  @OnEvent('auto_invest.create')
+  async handleAutoInvestCreate(
+    details: AutoInvestMemoDetails,
+    snapshot: SafeSnapshot,
+  ) {
+    if (!details || !snapshot) {
+      this.logger.error('Invalid arguments passed to handleAutoInvestCreate');
+      return;
+    }
+
+    const { baseAssetID, targetAssetID } = getAssetIDBySymbol(details.symbol);
+    if (snapshot.asset_id != targetAssetID || !details.exchangeName) {
+      // Plans are only funded with the quote asset, refund
+      return await this.snapshotService.refund(snapshot);
+    }
+
+    try {
+      const plan = await this.autoInvestService.findPlan(details.traceId);
+      if (plan) {
+        if (plan.fundingAssetId != snapshot.asset_id) {
+          return await this.snapshotService.refund(snapshot);
+        }
+        return await this.autoInvestService.fundPlan(
+          plan.id,
+          Number(snapshot.amount),
+        );
+      }
+      if (details.action !== 'create') {
+        // Deposit to a plan that doesn't exist
+        return await this.snapshotService.refund(snapshot);
+      }
+      return await this.autoInvestService.createPlan({
+        id: details.traceId,
+        userId: snapshot.opponent_id,
+        exchangeName: details.exchangeName,
+        pair: details.symbol,
+        symbol: getExchangeSymbol(details.symbol),
+        assetId: baseAssetID,
+        fundingAssetId: targetAssetID,
+        amount: Number(details.amount),
+        frequencyHours: details.frequencyHours,
+        balance: Number(snapshot.amount),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to fund auto invest plan ${details.traceId}: ${error.message}`,
+      );
+      return await this.snapshotService.refund(snapshot);
+    }
+  }
+}
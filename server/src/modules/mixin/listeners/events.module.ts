@@ -9,6 +9,8 @@ import { CustomConfigModule } from 'src/modules/customConfig/customConfig.module
 import { ArbitrageListener } from 'src/modules/mixin/listeners/arbitrage.listener';
 import { MarketMakingListener } from 'src/modules/mixin/listeners/market_making.listener';
 import { StrategyModule } from 'src/modules/strategy/strategy.module';
+import { AutoInvestListener } from 'src/modules/mixin/listeners/auto_invest.listener';
+import { AutoInvestModule } from 'src/modules/autoInvest/autoInvest.module';
 
 @Module({
   imports: [
@@ -16,6 +18,7 @@ import { StrategyModule } from 'src/modules/strategy/strategy.module';
     SnapshotsModule,
     CustomConfigModule,
     StrategyModule,
+    AutoInvestModule,
   ],
   providers: [
     ExchangeListener,
@@ -23,6 +26,7 @@ import { StrategyModule } from 'src/modules/strategy/strategy.module';
     SpotOrderListener,
     ArbitrageListener,
     MarketMakingListener,
+    AutoInvestListener,
     ConfigService,
   ],
   exports: [
@@ -31,6 +35,7 @@ import { StrategyModule } from 'src/modules/strategy/strategy.module';
     MixinListener,
     ArbitrageListener,
     MarketMakingListener,
+    AutoInvestListener,
   ],
 })
 export class EventListenersModule {}
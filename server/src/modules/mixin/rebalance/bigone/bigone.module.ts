@@ -1,7 +1,9 @@
 import { Module } from '@nestjs/common';
 import { BigoneService } from './bigone.service';
+import { ExchangeInitModule } from 'src/modules/exchangeInit/exchangeInit.module';
 
 @Module({
+  imports: [ExchangeInitModule],
   providers: [BigoneService],
   exports: [BigoneService],
 })
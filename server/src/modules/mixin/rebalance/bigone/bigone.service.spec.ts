@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { BigoneService } from './bigone.service';
+import { RequestSchedulerService } from 'src/modules/exchangeInit/requestScheduler.service';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -13,6 +14,7 @@ describe('BigoneService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         BigoneService,
+        RequestSchedulerService,
         {
           provide: ConfigService,
           useValue: {
@@ -7,6 +7,7 @@
  *
  * Dependencies:
  * - ConfigService: Provides configuration values from environment variables.
+ * - RequestSchedulerService: Throttles the requests of the rebalance account of BigOne.
  * - CCXT: Cryptocurrency exchange trading library.
  * - Axios: HTTP client for making API requests.
  * - JWT: Library for generating JSON Web Tokens.
@@ -16,7 +17,7 @@
  *
  * Methods:
  *
- * - constructor: Initializes the service with the injected ConfigService and sets up the CCXT instance.
+ * - constructor: Initializes the service with the injected ConfigService and RequestSchedulerService and sets up the CCXT instance.
  *
  * - generateJwtToken(): Generates a JWT token for authenticating with the BigOne API.
  *
@@ -40,6 +41,7 @@
  * - The generateJwtToken method creates a token required for authenticated API requests.
  * - The service includes methods for creating, retrieving, and canceling withdrawals, as well as fetching withdrawal fees.
  * - Error handling is implemented to log and manage errors during API interactions.
+ * - The API requests go through the request scheduler on the 'rebalance' account, the fee lookup reads the public website and isn't scheduled.
  */
 
 import * as ccxt from 'ccxt';
@@ -49,6 +51,9 @@ import axios, { AxiosResponse } from 'axios';
 import { Injectable, HttpException } from '@nestjs/common';
 import { FeeResponse } from 'src/common/types/rebalance/bigone';
 import { ASSET_ID_SYMBOL_MAP } from 'src/common/constants/pairs';
+import { RequestSchedulerService } from 'src/modules/exchangeInit/requestScheduler.service';
+
+const REBALANCE_ACCOUNT_LABEL = 'rebalance';
 
 @Injectable()
 export class BigoneService {
@@ -58,15 +63,22 @@ export class BigoneService {
   private readonly apiSecret: string;
   private readonly ccxtInstance: ccxt.bigone;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly requestScheduler: RequestSchedulerService,
+  ) {
     this.apiKey = this.configService.get<string>('rebalance.bigone_api_key');
     this.apiSecret = this.configService.get<string>(
       'rebalance.bigone_api_secret',
     );
-    this.ccxtInstance = new ccxt.bigone({
-      apiKey: this.apiKey,
-      secret: this.apiSecret,
-    });
+    this.ccxtInstance = this.requestScheduler.wrap(
+      'bigone',
+      REBALANCE_ACCOUNT_LABEL,
+      new ccxt.bigone({
+        apiKey: this.apiKey,
+        secret: this.apiSecret,
+      }),
+    );
   }
 
   private generateJwtToken(): string {
@@ -102,11 +114,14 @@ export class BigoneService {
     if (assetSymbol) `${queryParams}asset_symbol=${assetSymbol}`;
 
     try {
-      const response = await axios.get(
-        `${this.apiBaseUrl}/viewer/withdrawals${queryParams}`,
-        {
-          headers: this.getHeaders(),
-        },
+      const response = await this.requestScheduler.schedule(
+        'bigone',
+        REBALANCE_ACCOUNT_LABEL,
+        'fetchWithdrawals',
+        () =>
+          axios.get(`${this.apiBaseUrl}/viewer/withdrawals${queryParams}`, {
+            headers: this.getHeaders(),
+          }),
       );
       return response.data;
     } catch (err) {
@@ -119,11 +134,14 @@ export class BigoneService {
 
   async getWithdrawalByGuid(guid: string): Promise<AxiosResponse<any>> {
     try {
-      const response = await axios.get(
-        `${this.apiBaseUrl}/viewer/withdrawals/${guid}`,
-        {
-          headers: this.getHeaders(),
-        },
+      const response = await this.requestScheduler.schedule(
+        'bigone',
+        REBALANCE_ACCOUNT_LABEL,
+        'fetchWithdrawal',
+        () =>
+          axios.get(`${this.apiBaseUrl}/viewer/withdrawals/${guid}`, {
+            headers: this.getHeaders(),
+          }),
       );
       return response.data;
     } catch (err) {
@@ -152,12 +170,14 @@ export class BigoneService {
     };
 
     try {
-      const response = await axios.post(
-        `${this.apiBaseUrl}/viewer/withdrawals`,
-        data,
-        {
-          headers: this.getHeaders(),
-        },
+      const response = await this.requestScheduler.schedule(
+        'bigone',
+        REBALANCE_ACCOUNT_LABEL,
+        'withdraw',
+        () =>
+          axios.post(`${this.apiBaseUrl}/viewer/withdrawals`, data, {
+            headers: this.getHeaders(),
+          }),
       );
       return response.data;
     } catch (err) {
@@ -170,12 +190,18 @@ export class BigoneService {
 
   async cancelWithdrawal(guid: string): Promise<AxiosResponse<any>> {
     try {
-      const response = await axios.post(
-        `${this.apiBaseUrl}/viewer/withdrawals/${guid}/cancel`,
-        {},
-        {
-          headers: this.getHeaders(),
-        },
+      const response = await this.requestScheduler.schedule(
+        'bigone',
+        REBALANCE_ACCOUNT_LABEL,
+        'cancelWithdrawal',
+        () =>
+          axios.post(
+            `${this.apiBaseUrl}/viewer/withdrawals/${guid}/cancel`,
+            {},
+            {
+              headers: this.getHeaders(),
+            },
+          ),
       );
       return response.data;
     } catch (err) {
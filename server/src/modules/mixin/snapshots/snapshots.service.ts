@@ -47,7 +47,7 @@
  *  4. Wait for state update scheduler to update order state, in exchange.service.ts
  *  5. If the state updated to succeess, send release token event to mixin.listener.ts
  *
- * - The service handles different types of memos (SP, AR, MM) and triggers corresponding events for spot orders, arbitrage, and market making.
+ * - The service handles different types of memos (SP, AR, MM, AI) and triggers corresponding events for spot orders, arbitrage, market making and auto invest.
  * - Error handling is implemented to log and manage errors during API interactions and snapshot processing.
  * - The service ensures secure handling of transactions and balances using the Mixin API and related functions.
  */
@@ -77,6 +77,7 @@ import {
 } from '@mixin.dev/mixin-node-sdk';
 import {
   decodeArbitrageMemo,
+  decodeAutoInvestMemo,
   decodeMarketMakingMemo,
   decodeSpotMemo,
 } from 'src/common/helpers/mixin/memo';
@@ -556,6 +557,14 @@ export class SnapshotsService {
         this.events.emit('market_making.create', mmDetails, snapshot);
         break;
 
+      case 'AI':
+        const aiDetails = decodeAutoInvestMemo(decodedMemo);
+        if (!aiDetails) {
+          break;
+        }
+        this.events.emit('auto_invest.create', aiDetails, snapshot);
+        break;
+
       default:
         // await this.refund(snapshot);
         break;
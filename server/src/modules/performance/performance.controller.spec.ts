@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { PerformanceController } from './performance.controller';
 import { PerformanceService } from './performance.service'; // Import the service
+import { PnlService } from './pnl.service';
 
 describe('PerformanceController', () => {
   let controller: PerformanceController;
@@ -9,6 +11,9 @@ describe('PerformanceController', () => {
   const mockPerformanceService = {
     // mock methods that are used by the PerformanceController
   };
+  const mockPnlService = {
+    getPnlTimeSeries: jest.fn(),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -18,6 +23,7 @@ describe('PerformanceController', () => {
           provide: PerformanceService,
           useValue: mockPerformanceService, // Provide the mock implementation
         },
+        { provide: PnlService, useValue: mockPnlService },
       ],
     }).compile();
 
@@ -27,4 +33,20 @@ describe('PerformanceController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should read the PnL time series between the given times', () => {
+    controller.getStrategyPnl('1-client1-grid', '2024-12-01', undefined);
+
+    expect(mockPnlService.getPnlTimeSeries).toHaveBeenCalledWith(
+      '1-client1-grid',
+      new Date('2024-12-01'),
+      undefined,
+    );
+  });
+
+  it('should reject an invalid time', () => {
+    expect(() =>
+      controller.getStrategyPnl('1-client1-grid', 'yesterday'),
+    ).toThrow(BadRequestException);
+  });
 });
@@ -1,9 +1,19 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Query,
+} from '@nestjs/common';
 import { PerformanceService } from './performance.service';
+import { PnlService } from './pnl.service';
 
 @Controller('performance')
 export class PerformanceController {
-  constructor(private readonly performanceService: PerformanceService) {}
+  constructor(
+    private readonly performanceService: PerformanceService,
+    private readonly pnlService: PnlService,
+  ) {}
 
   @Get('/:userId')
   getPerformanceByUser(
@@ -15,4 +25,22 @@ export class PerformanceController {
       strategyType,
     );
   }
+
+  // Served under /strategy rather than /performance/:strategyKey, /performance/:userId above already takes that route
+  @Get('/strategy/:strategyKey')
+  getStrategyPnl(
+    @Param('strategyKey') strategyKey: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(to) : undefined;
+    if (
+      (fromDate && isNaN(fromDate.getTime())) ||
+      (toDate && isNaN(toDate.getTime()))
+    ) {
+      throw new BadRequestException('Invalid from or to time');
+    }
+    return this.pnlService.getPnlTimeSeries(strategyKey, fromDate, toDate);
+  }
 }
@@ -1,13 +1,21 @@
 import { Module } from '@nestjs/common';
 import { PerformanceController } from './performance.controller';
 import { PerformanceService } from './performance.service';
+import { PnlService } from './pnl.service';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
 import { Performance } from 'src/common/entities/performance.entity';
+import { StrategyFill } from 'src/common/entities/strategy-fill.entity';
+import { PnlSnapshot } from 'src/common/entities/pnl-snapshot.entity';
+import { ExchangeInitModule } from '../exchangeInit/exchangeInit.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Performance])],
+  imports: [
+    TypeOrmModule.forFeature([Performance, StrategyFill, PnlSnapshot]),
+    ExchangeInitModule,
+  ],
   controllers: [PerformanceController],
-  providers: [PerformanceService],
-  exports: [PerformanceService],
+  providers: [PerformanceService, PnlService, ConfigService],
+  exports: [PerformanceService, PnlService],
 })
 export class PerformanceModule {}
@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PnlService } from './pnl.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { StrategyFill } from 'src/common/entities/strategy-fill.entity';
+import { PnlSnapshot } from 'src/common/entities/pnl-snapshot.entity';
+
+describe('PnlService', () => {
+  let service: PnlService;
+
+  const mockConfigService = {
+    get: jest.fn().mockReturnValue('fifo'),
+  };
+  const mockExchange = {
+    fetchTicker: jest.fn().mockResolvedValue({ last: 110 }),
+  };
+  const mockExchangeInitService = {
+    getExchange: jest.fn().mockReturnValue(mockExchange),
+  };
+  const mockStrategyFillRepository = {
+    find: jest.fn(),
+    create: jest.fn((fill) => fill),
+    save: jest.fn((fill) => fill),
+  };
+  const mockPnlSnapshotRepository = {
+    find: jest.fn().mockResolvedValue([]),
+    create: jest.fn((snapshot) => snapshot),
+    save: jest.fn((snapshot) => snapshot),
+  };
+
+  const fill = {
+    strategyKey: '1-c-arbitrage',
+    exchangeName: 'binance',
+    pair: 'BTC/USDT',
+    side: 'buy' as const,
+    amount: 1,
+    price: 100,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockStrategyFillRepository.find.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PnlService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: ExchangeInitService, useValue: mockExchangeInitService },
+        {
+          provide: getRepositoryToken(StrategyFill),
+          useValue: mockStrategyFillRepository,
+        },
+        {
+          provide: getRepositoryToken(PnlSnapshot),
+          useValue: mockPnlSnapshotRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PnlService>(PnlService);
+  });
+
+  it('records the realized PnL of fills and marks the position to the market', async () => {
+    await service.recordFill({ ...fill, fee: 0.1 });
+    await service.recordFill({ ...fill, price: 120, fee: 0.1 });
+    const sell = await service.recordFill({
+      ...fill,
+      exchangeName: 'mexc',
+      side: 'sell',
+      amount: 1.5,
+      price: 130,
+      fee: 0.2,
+    });
+
+    expect(sell.realizedPnl).toBe(35);
+    expect(await service.getPositions('1-c-arbitrage')).toEqual([
+      {
+        pair: 'BTC/USDT',
+        position: 0.5,
+        averageCost: 120,
+        referencePrice: 110,
+        realizedPnl: 35,
+        unrealizedPnl: -5,
+        fees: expect.closeTo(0.4),
+        netPnl: expect.closeTo(29.6),
+      },
+    ]);
+    expect(mockExchangeInitService.getExchange).toHaveBeenCalledWith('mexc');
+  });
+
+  it('rebuilds the inventories from the recorded fills', async () => {
+    mockStrategyFillRepository.find.mockResolvedValue([
+      { ...fill, id: 1, fee: 0, realizedPnl: 0 },
+    ]);
+
+    const sell = await service.recordFill({ ...fill, side: 'sell', price: 90 });
+    await service.snapshotOpenPositions();
+
+    expect(sell.realizedPnl).toBe(-10);
+    expect(mockStrategyFillRepository.find).toHaveBeenCalledTimes(1);
+    expect(mockPnlSnapshotRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * PnlService
+ *
+ * This service keeps the PnL ledger of every strategy. It ingests the fills of the strategy orders, matches them
+ * against the inventory lots of the strategy on each pair and marks what is still held to the market.
+ *
+ * Dependencies:
+ * - ConfigService: Provides the cost basis method the lots are matched with.
+ * - ExchangeInitService: Service for the exchanges the reference prices are read from.
+ * - Repository<StrategyFill>: Injected repository for the fills the ledger is built from.
+ * - Repository<PnlSnapshot>: Injected repository for the PnL time series.
+ * - Helpers: pnl for the inventory accounting.
+ *
+ * Methods:
+ *
+ * - recordFill(fill: StrategyFillInput): Persists a fill and applies it to the inventory of its strategy and pair.
+ *
+ * - getFills(strategyKey: string): Returns the recorded fills of a strategy, oldest first.
+ *
+ * - getPositions(strategyKey: string): Returns the position, average cost and realized and unrealized PnL of a strategy on each pair.
+ *
+ * - getPnlTimeSeries(strategyKey: string, from?: Date, to?: Date): Returns the current positions and the PnL snapshots of a strategy.
+ *
+ * - snapshotOpenPositions(): Scheduled task marking the inventories to the market and recording a snapshot every minute.
+ *
+ * Notes:
+ * - Fills are the source of truth, the inventories of a strategy are rebuilt from them the first time it is accessed.
+ * - Positions are tracked per pair across exchanges, so the buy and sell legs of an arbitrage offset each other.
+ * - Fees are kept in the quote currency and subtracted from the net PnL, realized PnL is before fees.
+ * - Only the inventories used since the service started are marked by the scheduler.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, MoreThanOrEqual, LessThanOrEqual, Repository } from 'typeorm';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { StrategyFill } from 'src/common/entities/strategy-fill.entity';
+import { PnlSnapshot } from 'src/common/entities/pnl-snapshot.entity';
+import {
+  CostBasisMethod,
+  PnlInventory,
+  PnlPosition,
+  StrategyFillInput,
+} from 'src/common/types/performance/pnl';
+import {
+  applyFillToInventory,
+  calculateUnrealizedPnl,
+  createInventory,
+  getInventoryAverageCost,
+  getInventoryPosition,
+} from 'src/common/helpers/performance/pnl';
+
+@Injectable()
+export class PnlService {
+  private readonly logger = new CustomLogger(PnlService.name);
+  // Inventories by strategy key, then by pair
+  private inventories = new Map<string, Map<string, PnlInventory>>();
+
+  constructor(
+    private configService: ConfigService,
+    private exchangeInitService: ExchangeInitService,
+    @InjectRepository(StrategyFill)
+    private strategyFillRepository: Repository<StrategyFill>,
+    @InjectRepository(PnlSnapshot)
+    private pnlSnapshotRepository: Repository<PnlSnapshot>,
+  ) {}
+
+  async recordFill(fill: StrategyFillInput): Promise<StrategyFill> {
+    const inventories = await this.getInventories(fill.strategyKey);
+    const inventory =
+      inventories.get(fill.pair) ||
+      createInventory(this.getCostBasisMethod(), fill.exchangeName);
+    inventories.set(fill.pair, inventory);
+
+    const realizedPnl = this.applyFill(inventory, fill);
+    return await this.strategyFillRepository.save(
+      this.strategyFillRepository.create({
+        ...fill,
+        fee: fill.fee || 0,
+        realizedPnl,
+        executedAt: fill.executedAt || new Date(),
+      }),
+    );
+  }
+
+  async getFills(strategyKey: string): Promise<StrategyFill[]> {
+    return await this.strategyFillRepository.find({
+      where: { strategyKey },
+      order: { executedAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async getPositions(strategyKey: string): Promise<PnlPosition[]> {
+    const inventories = await this.getInventories(strategyKey);
+    const positions: PnlPosition[] = [];
+    for (const [pair, inventory] of inventories) {
+      positions.push(await this.markInventory(pair, inventory));
+    }
+    return positions;
+  }
+
+  async getPnlTimeSeries(strategyKey: string, from?: Date, to?: Date) {
+    const timestamp =
+      from && to
+        ? Between(from, to)
+        : from
+        ? MoreThanOrEqual(from)
+        : to
+        ? LessThanOrEqual(to)
+        : undefined;
+    const snapshots = await this.pnlSnapshotRepository.find({
+      where: { strategyKey, ...(timestamp && { timestamp }) },
+      order: { timestamp: 'ASC' },
+    });
+    return {
+      strategyKey,
+      positions: await this.getPositions(strategyKey),
+      snapshots,
+    };
+  }
+
+  @Cron('0 * * * * *') // Every minute
+  async snapshotOpenPositions() {
+    for (const [strategyKey, inventories] of this.inventories) {
+      for (const [pair, inventory] of inventories) {
+        // Closed inventories don't change until the next fill
+        if (getInventoryPosition(inventory) === 0) {
+          continue;
+        }
+        try {
+          const position = await this.markInventory(pair, inventory);
+          await this.pnlSnapshotRepository.save(
+            this.pnlSnapshotRepository.create({ strategyKey, ...position }),
+          );
+        } catch (error) {
+          this.logger.error(
+            `Failed to snapshot the PnL of ${strategyKey} on ${pair}: ${error.message}`,
+          );
+        }
+      }
+    }
+  }
+
+  private async getInventories(
+    strategyKey: string,
+  ): Promise<Map<string, PnlInventory>> {
+    let inventories = this.inventories.get(strategyKey);
+    if (inventories) {
+      return inventories;
+    }
+
+    // Replay the fills recorded before the service started
+    inventories = new Map();
+    const fills = await this.getFills(strategyKey);
+    for (const fill of fills) {
+      const inventory =
+        inventories.get(fill.pair) ||
+        createInventory(this.getCostBasisMethod(), fill.exchangeName);
+      inventories.set(fill.pair, inventory);
+      this.applyFill(inventory, {
+        ...fill,
+        side: fill.side as 'buy' | 'sell',
+      });
+    }
+    // Another call may have loaded them while the fills were read
+    if (!this.inventories.has(strategyKey)) {
+      this.inventories.set(strategyKey, inventories);
+    }
+    return this.inventories.get(strategyKey);
+  }
+
+  private applyFill(inventory: PnlInventory, fill: StrategyFillInput): number {
+    inventory.exchangeName = fill.exchangeName;
+    inventory.fees += fill.fee || 0;
+    return applyFillToInventory(inventory, fill.side, fill.amount, fill.price);
+  }
+
+  private async markInventory(
+    pair: string,
+    inventory: PnlInventory,
+  ): Promise<PnlPosition> {
+    const position = getInventoryPosition(inventory);
+    const referencePrice =
+      position !== 0 ? await this.getReferencePrice(inventory, pair) : 0;
+    const unrealizedPnl =
+      position !== 0 ? calculateUnrealizedPnl(inventory, referencePrice) : 0;
+    return {
+      pair,
+      position,
+      averageCost: getInventoryAverageCost(inventory),
+      referencePrice,
+      realizedPnl: inventory.realizedPnl,
+      unrealizedPnl,
+      fees: inventory.fees,
+      netPnl: inventory.realizedPnl + unrealizedPnl - inventory.fees,
+    };
+  }
+
+  private async getReferencePrice(
+    inventory: PnlInventory,
+    pair: string,
+  ): Promise<number> {
+    const exchange = this.exchangeInitService.getExchange(
+      inventory.exchangeName,
+    );
+    const ticker = await exchange.fetchTicker(pair);
+    return ticker.last;
+  }
+
+  private getCostBasisMethod(): CostBasisMethod {
+    return this.configService.get<string>('pnl.cost_basis') === 'average'
+      ? 'average'
+      : 'fifo';
+  }
+}
@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { AlpacaStratService } from 'src/modules/strategy/alpacastrat.service';
 import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
 import { StrategyService } from './strategy.service';
+import { StrategyRegistryService } from './registry.service';
+import { OrderBookHubService } from '../marketdata/orderbook-hub.service';
 import { Repository } from 'typeorm';
 import { MarketMakingHistory } from 'src/common/entities/mm-order.entity';
 import { ArbitrageHistory } from 'src/common/entities/arbitrage-order.entity';
@@ -13,11 +15,19 @@ import { ArbitrageStrategyDto } from 'src/modules/strategy/strategy.dto';
 describe('AlpacaStratService', () => {
   let service: AlpacaStratService;
   let exchangeInitService: ExchangeInitService;
+  let strategyRegistry: StrategyRegistryService;
+  let strategyService: StrategyService;
+
+  const mockOrderBookHub = {
+    subscribe: jest.fn(),
+    unsubscribeAll: jest.fn(),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AlpacaStratService,
+        StrategyRegistryService,
         CustomLogger,
         {
           provide: ExchangeInitService,
@@ -29,8 +39,10 @@ describe('AlpacaStratService', () => {
           provide: StrategyService,
           useValue: {
             evaluateArbitrageOpportunityVWAP: jest.fn(),
+            placeStrategyLimitOrder: jest.fn(),
           },
         },
+        { provide: OrderBookHubService, useValue: mockOrderBookHub },
         {
           provide: getRepositoryToken(MarketMakingHistory),
           useClass: Repository,
@@ -44,6 +56,10 @@ describe('AlpacaStratService', () => {
 
     service = module.get<AlpacaStratService>(AlpacaStratService);
     exchangeInitService = module.get<ExchangeInitService>(ExchangeInitService);
+    strategyRegistry = module.get<StrategyRegistryService>(
+      StrategyRegistryService,
+    );
+    strategyService = module.get<StrategyService>(StrategyService);
   });
 
   afterEach(() => {
@@ -78,8 +94,16 @@ describe('AlpacaStratService', () => {
         'alpaca',
         'default',
       );
-      expect(exchangeInitService.getExchange).toHaveBeenCalledWith('binance');
+      expect(exchangeInitService.getExchange).toHaveBeenCalledWith(
+        'binance',
+        undefined,
+      );
       expect(service['strategyInstances'].size).toBe(1);
+      expect(mockOrderBookHub.subscribe).toHaveBeenCalledWith(
+        'binance',
+        'BTC/USD',
+        'user123-client123-alpaca-arbitrage',
+      );
     });
   });
 
@@ -115,8 +139,107 @@ describe('AlpacaStratService', () => {
         'alpaca',
         'default',
       );
-      expect(exchangeInitService.getExchange).toHaveBeenCalledWith('binance');
+      expect(exchangeInitService.getExchange).toHaveBeenCalledWith(
+        'binance',
+        undefined,
+      );
       expect(service['strategyInstances'].size).toBe(1);
     });
   });
+
+  describe('derivatives arbitrage', () => {
+    it('should place both legs through the risk checks of the strategy service', async () => {
+      const alpacaExchange = {
+        id: 'alpaca',
+        name: 'Alpaca',
+        fetchTicker: jest.fn().mockResolvedValue({ last: 100 }),
+      } as unknown as ccxt.Exchange;
+      const exchangeB = {
+        id: 'binance',
+        name: 'Binance',
+        fetchTicker: jest.fn().mockResolvedValue({ last: 102 }),
+      } as unknown as ccxt.Exchange;
+      jest
+        .spyOn(exchangeInitService, 'getExchange')
+        .mockImplementation((exchangeName) =>
+          exchangeName === 'alpaca' ? alpacaExchange : exchangeB,
+        );
+      const placeOrder = jest
+        .spyOn(strategyService, 'placeStrategyLimitOrder')
+        .mockResolvedValueOnce({ id: 'buy-1' } as ccxt.Order)
+        .mockResolvedValueOnce({ id: 'sell-1' } as ccxt.Order);
+      jest
+        .spyOn(service['arbitrageHistoryRepository'], 'create')
+        .mockImplementation((order) => order as ArbitrageHistory);
+      jest
+        .spyOn(service['arbitrageHistoryRepository'], 'save')
+        .mockImplementation(async (order) => order as ArbitrageHistory);
+
+      await strategyRegistry
+        .get('alpaca-futures-arbitrage')
+        .tick('user123-client123-alpaca-futures-arbitrage', {
+          userId: 'user123',
+          clientId: 'client123',
+          pair: 'BTC/USD',
+          exchangeAName: 'alpaca',
+          exchangeBName: 'binance',
+          accountLabel: 'paper',
+          amountToTrade: 1,
+          minProfitability: 0.01,
+        });
+
+      expect(placeOrder).toHaveBeenNthCalledWith(
+        1,
+        'user123-client123-alpaca-futures-arbitrage',
+        expect.objectContaining({
+          exchange: 'alpaca',
+          accountLabel: 'default',
+          side: 'buy',
+          price: 100,
+        }),
+      );
+      expect(placeOrder).toHaveBeenNthCalledWith(
+        2,
+        'user123-client123-alpaca-futures-arbitrage',
+        expect.objectContaining({
+          exchange: 'binance',
+          accountLabel: 'paper',
+          side: 'sell',
+          price: 102,
+        }),
+      );
+    });
+  });
+
+  describe('strategy registry', () => {
+    it('should register the Alpaca strategies and stop them through it', async () => {
+      const intervalId = setInterval(() => undefined, 1000);
+      service['strategyInstances'].set('user123-client123-alpaca-arbitrage', {
+        isRunning: true,
+        intervalId,
+      });
+
+      expect(strategyRegistry.getTypes().map(({ type }) => type)).toEqual([
+        'alpaca-arbitrage',
+        'alpaca-futures-arbitrage',
+        'alpaca-options-arbitrage',
+      ]);
+      await strategyRegistry
+        .get('alpaca-arbitrage')
+        .stop('user123-client123-alpaca-arbitrage');
+
+      expect(service['strategyInstances'].size).toBe(0);
+      expect(mockOrderBookHub.unsubscribeAll).toHaveBeenCalledWith(
+        'user123-client123-alpaca-arbitrage',
+      );
+    });
+
+    it('should only move the Alpaca strategies to another account on restart', () => {
+      for (const { type } of strategyRegistry.getTypes()) {
+        expect(strategyRegistry.get(type).fixedParameters).toContain(
+          'accountLabel',
+        );
+      }
+    });
+  });
 });
@@ -1,7 +1,10 @@
 import * as ccxt from 'ccxt';
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { CustomLogger } from 'src/modules/logger/logger.service';
-import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import {
+  ExchangeInitService,
+  READ_ONLY_ACCOUNT_LABEL,
+} from 'src/modules/exchangeInit/exchangeInit.service';
 import { ArbitrageStrategyDto } from 'src/modules/strategy/strategy.dto';
 import { Repository } from 'typeorm';
 import { MarketMakingHistory } from 'src/common/entities/mm-order.entity';
@@ -9,6 +12,8 @@ import { ArbitrageHistory } from 'src/common/entities/arbitrage-order.entity';
 import { InjectRepository } from '@nestjs/typeorm';
 import { createStrategyKey } from 'src/common/helpers/strategyKey';
 import { StrategyService } from './strategy.service';
+import { StrategyRegistryService } from './registry.service';
+import { OrderBookHubService } from '../marketdata/orderbook-hub.service';
 
 //This is still in testing: Do not use in production
 
@@ -27,11 +32,89 @@ export class AlpacaStratService {
   constructor(
     private exchangeInitService: ExchangeInitService,
     private strategyService: StrategyService,
+    private strategyRegistry: StrategyRegistryService,
+    private orderBookHub: OrderBookHubService,
     @InjectRepository(MarketMakingHistory)
     private orderRepository: Repository<MarketMakingHistory>,
     @InjectRepository(ArbitrageHistory)
     private arbitrageHistoryRepository: Repository<ArbitrageHistory>,
-  ) {}
+  ) {
+    this.registerStrategies();
+  }
+
+  private registerStrategies() {
+    const getMarkets = (_strategyKey: string, parameters) => [
+      { exchangeName: 'alpaca', pair: parameters.pair },
+      { exchangeName: parameters.exchangeBName, pair: parameters.pair },
+    ];
+    const stop = async (strategyKey: string) =>
+      this.stopAlpacaStrategy(strategyKey);
+
+    this.strategyRegistry.register({
+      type: 'alpaca-arbitrage',
+      description:
+        'Arbitrage of a pair between Alpaca and another exchange (in testing)',
+      parameters: ArbitrageStrategyDto,
+      fixedParameters: [
+        'pair',
+        'exchangeBName',
+        'accountLabel',
+        'checkIntervalSeconds',
+      ],
+      start: (parameters: ArbitrageStrategyDto) =>
+        this.startAlpacaArbitrageStrategy(
+          parameters,
+          parameters.checkIntervalSeconds,
+          parameters.maxOpenOrders,
+        ),
+      tick: (strategyKey, parameters: ArbitrageStrategyDto) =>
+        this.tickAlpacaArbitrageStrategy(
+          strategyKey,
+          [
+            this.exchangeInitService.getExchange('alpaca', 'default'),
+            this.exchangeInitService.getExchange(
+              parameters.exchangeBName,
+              parameters.accountLabel,
+            ),
+          ],
+          parameters,
+          parameters.maxOpenOrders,
+        ),
+      stop,
+      getMarkets,
+    });
+    for (const derivativeType of ['futures', 'options'] as const) {
+      this.strategyRegistry.register({
+        type: `alpaca-${derivativeType}-arbitrage`,
+        description: `Arbitrage of a pair between Alpaca spot and ${derivativeType} on another exchange (in testing)`,
+        parameters: ArbitrageStrategyDto,
+        fixedParameters: [
+          'pair',
+          'exchangeBName',
+          'accountLabel',
+          'checkIntervalSeconds',
+        ],
+        start: (parameters: ArbitrageStrategyDto) =>
+          this.startAlpacaDerivativesArbitrage(
+            parameters,
+            derivativeType,
+            parameters.checkIntervalSeconds,
+          ),
+        tick: (_strategyKey, parameters: ArbitrageStrategyDto) =>
+          this.evaluateDerivativesArbitrage(
+            this.exchangeInitService.getExchange('alpaca', 'default'),
+            this.exchangeInitService.getExchange(
+              parameters.exchangeBName,
+              parameters.accountLabel,
+            ),
+            parameters,
+            derivativeType,
+          ),
+        stop,
+        getMarkets,
+      });
+    }
+  }
 
   // Method to start an arbitrage strategy between Alpaca and another exchange
   async startAlpacaArbitrageStrategy(
@@ -39,7 +122,8 @@ export class AlpacaStratService {
     checkIntervalSeconds: number,
     maxOpenOrders: number,
   ) {
-    const { userId, clientId, pair, exchangeBName } = strategyParamsDto;
+    const { userId, clientId, pair, exchangeBName, accountLabel } =
+      strategyParamsDto;
     const strategyKey = createStrategyKey({
       type: 'alpaca-arbitrage',
       user_id: userId,
@@ -52,44 +136,77 @@ export class AlpacaStratService {
       );
       return;
     }
+    if (accountLabel === READ_ONLY_ACCOUNT_LABEL) {
+      throw new BadRequestException(
+        `Strategy ${strategyKey} trades, it can't run on the ${accountLabel} account.`,
+      );
+    }
 
     const alpacaExchange = this.exchangeInitService.getExchange(
       'alpaca',
       'default',
     );
-    const exchangeB = this.exchangeInitService.getExchange(exchangeBName);
+    const exchangeB = this.exchangeInitService.getExchange(
+      exchangeBName,
+      accountLabel,
+    );
 
     this.logger.log(
       `Starting Alpaca arbitrage strategy for user ${userId}, client ${clientId}.`,
     );
+    // The opportunities are evaluated off the order books streamed by the hub
+    this.orderBookHub.subscribe(alpacaExchange.id, pair, strategyKey);
+    this.orderBookHub.subscribe(
+      exchangeB.id,
+      pair,
+      strategyKey,
+      undefined,
+      accountLabel,
+    );
 
     const intervalId = setInterval(async () => {
-      const allOrdersFilled = await this.checkAndCleanFilledOrders(strategyKey);
-      const currentOpenOrders = this.activeOrders.get(strategyKey)?.length || 0;
-
-      if (allOrdersFilled && currentOpenOrders < maxOpenOrders) {
-        await this.strategyService.evaluateArbitrageOpportunityVWAP(
-          alpacaExchange,
-          exchangeB,
-          strategyParamsDto,
-        );
-      } else {
-        this.logger.log(
-          `Waiting for open orders to fill for ${strategyKey} before evaluating new opportunities.`,
-        );
-      }
+      await this.tickAlpacaArbitrageStrategy(
+        strategyKey,
+        [alpacaExchange, exchangeB],
+        strategyParamsDto,
+        maxOpenOrders,
+      );
     }, checkIntervalSeconds * 1000);
 
     this.strategyInstances.set(strategyKey, { isRunning: true, intervalId });
   }
 
+  private async tickAlpacaArbitrageStrategy(
+    strategyKey: string,
+    exchanges: ccxt.Exchange[],
+    strategyParamsDto: ArbitrageStrategyDto,
+    maxOpenOrders: number,
+  ) {
+    const allOrdersFilled = await this.checkAndCleanFilledOrders(strategyKey);
+    const currentOpenOrders = this.activeOrders.get(strategyKey)?.length || 0;
+
+    if (allOrdersFilled && currentOpenOrders < maxOpenOrders) {
+      // Alpaca only trades on its default account
+      await this.strategyService.evaluateArbitrageOpportunityVWAP(
+        exchanges,
+        strategyParamsDto,
+        ['default', strategyParamsDto.accountLabel],
+      );
+    } else {
+      this.logger.log(
+        `Waiting for open orders to fill for ${strategyKey} before evaluating new opportunities.`,
+      );
+    }
+  }
+
   // Method to handle derivatives arbitrage between Alpaca spot and futures/options
   async startAlpacaDerivativesArbitrage(
     strategyParamsDto: ArbitrageStrategyDto,
     derivativeType: 'futures' | 'options',
     checkIntervalSeconds: number,
   ) {
-    const { userId, clientId, pair, exchangeBName } = strategyParamsDto;
+    const { userId, clientId, pair, exchangeBName, accountLabel } =
+      strategyParamsDto;
     const strategyKey = createStrategyKey({
       type: `alpaca-${derivativeType}-arbitrage`,
       user_id: userId,
@@ -102,12 +219,20 @@ export class AlpacaStratService {
       );
       return;
     }
+    if (accountLabel === READ_ONLY_ACCOUNT_LABEL) {
+      throw new BadRequestException(
+        `Strategy ${strategyKey} trades, it can't run on the ${accountLabel} account.`,
+      );
+    }
 
     const alpacaExchange = this.exchangeInitService.getExchange(
       'alpaca',
       'default',
     );
-    const exchangeB = this.exchangeInitService.getExchange(exchangeBName);
+    const exchangeB = this.exchangeInitService.getExchange(
+      exchangeBName,
+      accountLabel,
+    );
 
     this.logger.log(
       `Starting Alpaca ${derivativeType} arbitrage strategy for user ${userId}, client ${clientId}.`,
@@ -125,6 +250,19 @@ export class AlpacaStratService {
     this.strategyInstances.set(strategyKey, { isRunning: true, intervalId });
   }
 
+  // Alpaca strategies run outside of the strategy service, their loop is cleared here
+  async stopAlpacaStrategy(strategyKey: string) {
+    const strategyInstance = this.strategyInstances.get(strategyKey);
+    if (!strategyInstance) {
+      return;
+    }
+    clearInterval(strategyInstance.intervalId);
+    this.strategyInstances.delete(strategyKey);
+    this.activeOrders.delete(strategyKey);
+    this.orderBookHub.unsubscribeAll(strategyKey);
+    this.logger.log(`Stopped Alpaca strategy ${strategyKey}.`);
+  }
+
   // Custom logic to evaluate and execute arbitrage for derivatives
   private async evaluateDerivativesArbitrage(
     alpacaExchange: ccxt.Exchange,
@@ -171,6 +309,7 @@ export class AlpacaStratService {
 
         // Execute buy on Alpaca (spot) and sell on the derivative market (e.g., futures)
         await this.executeArbitrageTrade(
+          strategyKey,
           userId,
           clientId,
           alpacaExchange,
@@ -179,6 +318,7 @@ export class AlpacaStratService {
           amountToTrade,
           alpacaSpotPrice,
           derivativePrice,
+          strategyParamsDto.accountLabel,
         );
       } else if (
         (alpacaSpotPrice - derivativePrice) / derivativePrice >=
@@ -190,6 +330,7 @@ export class AlpacaStratService {
 
         // Execute buy on the derivative market and sell on Alpaca (spot)
         await this.executeArbitrageTrade(
+          strategyKey,
           userId,
           clientId,
           exchangeB,
@@ -198,6 +339,7 @@ export class AlpacaStratService {
           amountToTrade,
           derivativePrice,
           alpacaSpotPrice,
+          strategyParamsDto.accountLabel,
         );
       } else {
         this.logger.log(`No arbitrage opportunity found.`);
@@ -227,33 +369,51 @@ export class AlpacaStratService {
     return optionsTicker.last;
   }
 
-  // Utility method to execute an arbitrage trade
+  // Utility method to execute an arbitrage trade, the orders go through the risk checks of the strategy service
   private async executeArbitrageTrade(
-    userId,
-    clientId,
+    strategyKey: string,
+    userId: string,
+    clientId: string,
     buyExchange: ccxt.Exchange,
     sellExchange: ccxt.Exchange,
     symbol: string,
     amount: number,
     buyPrice: number,
     sellPrice: number,
+    accountLabel?: string,
   ) {
     try {
       // Place buy limit order on buyExchange
-      const buyOrder = await buyExchange.createLimitBuyOrder(
-        symbol,
-        amount,
-        buyPrice,
+      const buyOrder = await this.strategyService.placeStrategyLimitOrder(
+        strategyKey,
+        {
+          userId,
+          clientId,
+          exchange: buyExchange.id,
+          accountLabel: this.getAccountLabel(buyExchange, accountLabel),
+          symbol,
+          side: 'buy',
+          amount,
+          price: buyPrice,
+        },
       );
       this.logger.log(
         `Buy order placed on ${buyExchange.name}: ${buyOrder.id} at price ${buyPrice} for ${symbol}`,
       );
 
       // Place sell limit order on sellExchange
-      const sellOrder = await sellExchange.createLimitSellOrder(
-        symbol,
-        amount,
-        sellPrice,
+      const sellOrder = await this.strategyService.placeStrategyLimitOrder(
+        strategyKey,
+        {
+          userId,
+          clientId,
+          exchange: sellExchange.id,
+          accountLabel: this.getAccountLabel(sellExchange, accountLabel),
+          symbol,
+          side: 'sell',
+          amount,
+          price: sellPrice,
+        },
       );
       this.logger.log(
         `Sell order placed on ${sellExchange.name}: ${sellOrder.id} at price ${sellPrice} for ${symbol}`,
@@ -275,6 +435,11 @@ export class AlpacaStratService {
     }
   }
 
+  // Alpaca only trades on its default account, the other exchange on the account of the strategy
+  private getAccountLabel(exchange: ccxt.Exchange, accountLabel?: string) {
+    return exchange.id === 'alpaca' ? 'default' : accountLabel;
+  }
+
   // Save the arbitrage order in the history
   private async saveArbitrageOrder(
     _userId: string,
@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { BacktestService } from './backtest.service';
+import { BacktestResult } from 'src/common/entities/backtest-result.entity';
+import { PriceSourceType } from 'src/common/enum/pricesourcetype';
+import { BacktestDto, PureMarketMakingStrategyDto } from './strategy.dto';
+
+describe('BacktestService', () => {
+  let service: BacktestService;
+
+  const mockBacktestResultRepository = {
+    create: jest.fn((data) => data),
+    save: jest.fn(async (data) => ({ id: 'backtest-1', ...data })),
+    findOne: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const marketMakingParams: PureMarketMakingStrategyDto = {
+    userId: '1',
+    clientId: 'client1',
+    pair: 'BTC/USDT',
+    exchangeName: 'binance',
+    bidSpread: 0.01,
+    askSpread: 0.01,
+    orderAmount: 1,
+    orderRefreshTime: 60000,
+    numberOfLayers: 1,
+    priceSourceType: PriceSourceType.MID_PRICE,
+    amountChangePerLayer: 0,
+    amountChangeType: 'fixed',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BacktestService,
+        {
+          provide: getRepositoryToken(BacktestResult),
+          useValue: mockBacktestResultRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<BacktestService>(BacktestService);
+  });
+
+  it('should fill resting market making orders against recorded trades', async () => {
+    const backtestDto: BacktestDto = {
+      userId: '1',
+      clientId: 'client1',
+      strategyType: 'pureMarketMaking',
+      marketMakingParams,
+      initialBaseBalance: 10,
+      initialQuoteBalance: 1000,
+      makerFee: 0,
+      snapshots: [
+        {
+          timestamp: 0,
+          orderBooks: { binance: { bids: [[99.5, 5]], asks: [[100.5, 5]] } },
+        },
+        {
+          timestamp: 1000,
+          orderBooks: { binance: { bids: [[99, 5]], asks: [[100, 5]] } },
+          trades: { binance: [{ price: 98, amount: 0.4, side: 'sell' }] },
+        },
+      ],
+    };
+
+    const result = await service.runBacktest(backtestDto);
+
+    // Buy layer at 100 * (1 - 0.01) = 99 is partially filled by the 0.4 trade
+    expect(result.report.numberOfFills).toBe(1);
+    expect(result.report.fills[0]).toMatchObject({
+      side: 'buy',
+      price: 99,
+      amount: 0.4,
+      liquidity: 'maker',
+    });
+    expect(result.report.inventoryPath[1].baseBalance).toBeCloseTo(10.4);
+    expect(result.report.inventoryPath[1].quoteBalance).toBeCloseTo(960.4);
+    expect(mockBacktestResultRepository.save).toHaveBeenCalled();
+  });
+
+  it('should trade arbitrage opportunities and track drawdown', async () => {
+    const backtestDto: BacktestDto = {
+      userId: '1',
+      clientId: 'client1',
+      strategyType: 'arbitrage',
+      arbitrageParams: {
+        userId: '1',
+        clientId: 'client1',
+        pair: 'BTC/USDT',
+        amountToTrade: 1,
+        minProfitability: 0.01,
+        exchangeAName: 'binance',
+        exchangeBName: 'mexc',
+        checkIntervalSeconds: 1,
+      },
+      initialBaseBalance: 0,
+      initialQuoteBalance: 1000,
+      takerFee: 0,
+      snapshots: [
+        {
+          timestamp: 0,
+          orderBooks: {
+            binance: { bids: [[99, 2]], asks: [[100, 2]] },
+            mexc: { bids: [[105, 2]], asks: [[106, 2]] },
+          },
+        },
+      ],
+    };
+
+    const result = await service.runBacktest(backtestDto);
+
+    expect(result.report.numberOfFills).toBe(2);
+    expect(result.report.pnl).toBeCloseTo(5);
+    expect(result.report.maxDrawdown).toBe(0);
+  });
+
+  it('should only trade arbitrage opportunities left after the fees of both exchanges', async () => {
+    const backtestDto: BacktestDto = {
+      userId: '1',
+      clientId: 'client1',
+      strategyType: 'arbitrage',
+      arbitrageParams: {
+        userId: '1',
+        clientId: 'client1',
+        pair: 'BTC/USDT',
+        amountToTrade: 1,
+        minProfitability: 0.01,
+        exchangeAName: 'binance',
+        exchangeBName: 'mexc',
+        exchangeBFees: { maker: 0.02, taker: 0.02 },
+        checkIntervalSeconds: 1,
+      },
+      initialBaseBalance: 0,
+      initialQuoteBalance: 1000,
+      takerFee: 0.001,
+      snapshots: [
+        {
+          timestamp: 0,
+          orderBooks: {
+            binance: { bids: [[99, 2]], asks: [[100, 2]] },
+            mexc: { bids: [[102, 2]], asks: [[103, 2]] },
+          },
+        },
+        {
+          timestamp: 1000,
+          orderBooks: {
+            binance: { bids: [[99, 2]], asks: [[100, 2]] },
+            mexc: { bids: [[105, 2]], asks: [[106, 2]] },
+          },
+        },
+      ],
+    };
+
+    const result = await service.runBacktest(backtestDto);
+
+    // A gross 2% the 2% mexc fee eats is skipped, the 5% spread nets 5 - 0.1 - 2.1
+    expect(result.report.numberOfFills).toBe(2);
+    expect(result.report.pnl).toBeCloseTo(2.8);
+  });
+
+  it('should reject a backtest without snapshots', async () => {
+    await expect(
+      service.runBacktest({
+        userId: '1',
+        clientId: 'client1',
+        strategyType: 'pureMarketMaking',
+        marketMakingParams,
+        initialBaseBalance: 0,
+        initialQuoteBalance: 0,
+        snapshots: [],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
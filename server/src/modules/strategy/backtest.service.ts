@@ -0,0 +1,514 @@
+/**
+ * BacktestService
+ *
+ * This service replays recorded order books and trades through the same decision logic that
+ * StrategyService uses for pure market making and arbitrage, fills the resulting orders with a
+ * simulated fill model and persists a report of the run.
+ *
+ * Dependencies:
+ * - Repositories: Injected repository for the BacktestResult entity.
+ * - Helpers: calculateLayerOrders, getPriceFromOrderBook and findArbitrageOpportunityVWAP, shared with StrategyService.
+ *
+ * Methods:
+ *
+ * - runBacktest(): Validates the request, runs the simulation for the strategy type and saves the result.
+ *
+ * - getBacktestResult(): Fetches a saved backtest result by id.
+ *
+ * - getBacktestResultsByUser(): Fetches all saved backtest results of a user.
+ *
+ * Notes:
+ * - Market making orders rest until a recorded trade trades through their price or the book crosses them (maker fee).
+ *   Orders that would cross the book when placed are filled immediately (taker fee).
+ * - Arbitrage opportunities are netted of the fee rates of both exchanges like the live strategy, the fee rates overrides of
+ *   the strategy win over the fee rates of the backtest. They are filled immediately at the VWAP of both legs. Withdrawal
+ *   fees aren't replayed, they are looked up live.
+ * - Fees are charged in the quote asset. Equity is marked to the mid price of the quoted (or first) exchange.
+ */
+
+import { Repository } from 'typeorm';
+import { InjectRepository } from '@nestjs/typeorm';
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import {
+  ArbitrageStrategyDto,
+  BacktestDto,
+  PureMarketMakingStrategyDto,
+} from 'src/modules/strategy/strategy.dto';
+import { BacktestResult } from 'src/common/entities/backtest-result.entity';
+import {
+  BacktestFill,
+  BacktestInventoryPoint,
+  BacktestOrderBook,
+  BacktestReport,
+  BacktestSnapshot,
+  BacktestStrategyType,
+  BacktestTrade,
+} from 'src/common/types/backtest/backtest';
+import {
+  calculateLayerOrders,
+  getPriceFromOrderBook,
+} from 'src/common/helpers/strategy/marketMaking';
+import { findArbitrageOpportunityVWAP } from 'src/common/helpers/strategy/arbitrage';
+
+const DEFAULT_FEE_RATE = 0.001;
+const ORDER_BOOK_FRESHNESS_MS = 10000; // Same threshold as StrategyService.isDataFresh
+const AMOUNT_EPSILON = 1e-12;
+
+interface SimulatedOrder {
+  side: 'buy' | 'sell';
+  price: number;
+  remaining: number;
+}
+
+interface SimulationState {
+  baseBalance: number;
+  quoteBalance: number;
+  initialBaseBalance: number;
+  initialQuoteBalance: number;
+  fills: BacktestFill[];
+  inventoryPath: BacktestInventoryPoint[];
+}
+
+@Injectable()
+export class BacktestService {
+  private readonly logger = new CustomLogger(BacktestService.name);
+
+  constructor(
+    @InjectRepository(BacktestResult)
+    private backtestResultRepository: Repository<BacktestResult>,
+  ) {}
+
+  async runBacktest(backtestDto: BacktestDto): Promise<BacktestResult> {
+    const {
+      userId,
+      clientId,
+      strategyType,
+      marketMakingParams,
+      arbitrageParams,
+      snapshots,
+    } = backtestDto;
+
+    if (!snapshots || snapshots.length === 0) {
+      throw new BadRequestException('No snapshots provided for backtest.');
+    }
+    const orderedSnapshots = [...snapshots].sort(
+      (a, b) => a.timestamp - b.timestamp,
+    );
+
+    let report: BacktestReport;
+    let parameters: PureMarketMakingStrategyDto | ArbitrageStrategyDto;
+    if (strategyType === 'pureMarketMaking' && marketMakingParams) {
+      parameters = marketMakingParams;
+      report = this.simulateMarketMaking(
+        marketMakingParams,
+        orderedSnapshots,
+        backtestDto,
+      );
+    } else if (strategyType === 'arbitrage' && arbitrageParams) {
+      parameters = arbitrageParams;
+      report = this.simulateArbitrage(
+        arbitrageParams,
+        orderedSnapshots,
+        backtestDto,
+      );
+    } else {
+      throw new BadRequestException('Invalid backtest parameters');
+    }
+
+    this.logger.log(
+      `Backtest of ${strategyType} for user ${userId}, client ${clientId} finished: PnL ${report.pnl}, ${report.numberOfFills} fills, max drawdown ${report.maxDrawdown}`,
+    );
+
+    const backtestResult = this.backtestResultRepository.create({
+      userId,
+      clientId,
+      strategyType,
+      parameters,
+      pnl: report.pnl,
+      maxDrawdown: report.maxDrawdown,
+      totalFees: report.totalFees,
+      numberOfFills: report.numberOfFills,
+      report,
+    });
+    return await this.backtestResultRepository.save(backtestResult);
+  }
+
+  async getBacktestResult(id: string): Promise<BacktestResult> {
+    return await this.backtestResultRepository.findOne({ where: { id } });
+  }
+
+  async getBacktestResultsByUser(userId: string): Promise<BacktestResult[]> {
+    return await this.backtestResultRepository.find({ where: { userId } });
+  }
+
+  private simulateMarketMaking(
+    params: PureMarketMakingStrategyDto,
+    snapshots: BacktestSnapshot[],
+    backtestDto: BacktestDto,
+  ): BacktestReport {
+    const {
+      exchangeName,
+      bidSpread,
+      askSpread,
+      orderAmount,
+      orderRefreshTime,
+      numberOfLayers,
+      priceSourceType,
+      amountChangePerLayer,
+      amountChangeType,
+      ceilingPrice,
+      floorPrice,
+    } = params;
+    const makerFee = backtestDto.makerFee ?? DEFAULT_FEE_RATE;
+    const takerFee = backtestDto.takerFee ?? DEFAULT_FEE_RATE;
+    const state = this.createState(backtestDto);
+
+    let openOrders: SimulatedOrder[] = [];
+    let lastRefresh: number | undefined;
+    let lastTradePrice: number | undefined;
+
+    for (const snapshot of snapshots) {
+      const orderBook = snapshot.orderBooks[exchangeName];
+      if (!this.hasBothSides(orderBook)) {
+        continue;
+      }
+      const trades = snapshot.trades?.[exchangeName] || [];
+      const midPrice = this.getMidPrice(orderBook);
+
+      // Orders placed on an earlier snapshot can only fill against later data
+      openOrders = this.matchRestingOrders(
+        state,
+        openOrders,
+        orderBook,
+        trades,
+        snapshot.timestamp,
+        exchangeName,
+        makerFee,
+      );
+      if (trades.length > 0) {
+        lastTradePrice = trades[trades.length - 1].price;
+      }
+
+      if (
+        lastRefresh === undefined ||
+        snapshot.timestamp - lastRefresh >= orderRefreshTime
+      ) {
+        // A refresh cancels every resting order and places the ladder again
+        openOrders = [];
+        const priceSource = getPriceFromOrderBook(
+          orderBook,
+          priceSourceType,
+          lastTradePrice ?? midPrice,
+        );
+        const layerOrders = calculateLayerOrders({
+          priceSource,
+          bidSpread,
+          askSpread,
+          baseOrderAmount: orderAmount,
+          numberOfLayers,
+          amountChangePerLayer,
+          amountChangeType,
+          ceilingPrice,
+          floorPrice,
+        });
+
+        for (const layerOrder of layerOrders) {
+          const crossesBook =
+            layerOrder.side === 'buy'
+              ? layerOrder.price >= orderBook.asks[0][0]
+              : layerOrder.price <= orderBook.bids[0][0];
+          if (crossesBook) {
+            this.applyFill(state, {
+              timestamp: snapshot.timestamp,
+              exchange: exchangeName,
+              side: layerOrder.side,
+              price: layerOrder.price,
+              amount: layerOrder.amount,
+              fee: layerOrder.price * layerOrder.amount * takerFee,
+              liquidity: 'taker',
+            });
+          } else {
+            openOrders.push({
+              side: layerOrder.side,
+              price: layerOrder.price,
+              remaining: layerOrder.amount,
+            });
+          }
+        }
+        lastRefresh = snapshot.timestamp;
+      }
+
+      this.recordInventory(state, snapshot.timestamp, midPrice);
+    }
+
+    return this.buildReport('pureMarketMaking', state);
+  }
+
+  private simulateArbitrage(
+    params: ArbitrageStrategyDto,
+    snapshots: BacktestSnapshot[],
+    backtestDto: BacktestDto,
+  ): BacktestReport {
+    const {
+      exchangeAName,
+      exchangeBName,
+      amountToTrade,
+      minProfitability,
+      checkIntervalSeconds,
+    } = params;
+    const checkIntervalMs = (checkIntervalSeconds ?? 10) * 1000;
+    const state = this.createState(backtestDto);
+
+    // Same fee rates StrategyService.getArbitrageVenue nets the opportunities of
+    const feeType = params.feeType || 'taker';
+    const defaultFeeRate =
+      (feeType === 'maker' ? backtestDto.makerFee : backtestDto.takerFee) ??
+      DEFAULT_FEE_RATE;
+    const getFeeRate = (exchangeName: string) =>
+      (params.exchangeFees?.[exchangeName] ??
+        (exchangeName === exchangeAName
+          ? params.exchangeAFees
+          : params.exchangeBFees))?.[feeType] ?? defaultFeeRate;
+    const costs = {
+      feeRateA: getFeeRate(exchangeAName),
+      feeRateB: getFeeRate(exchangeBName),
+    };
+
+    // Order books are carried forward like the live order book cache
+    const latestOrderBooks = new Map<
+      string,
+      { data: BacktestOrderBook; timestamp: number }
+    >();
+    let lastCheck: number | undefined;
+
+    for (const snapshot of snapshots) {
+      for (const [exchangeName, orderBook] of Object.entries(
+        snapshot.orderBooks,
+      )) {
+        if (this.hasBothSides(orderBook)) {
+          latestOrderBooks.set(exchangeName, {
+            data: orderBook,
+            timestamp: snapshot.timestamp,
+          });
+        }
+      }
+      const cachedOrderBookA = latestOrderBooks.get(exchangeAName);
+      const cachedOrderBookB = latestOrderBooks.get(exchangeBName);
+      if (!cachedOrderBookA || !cachedOrderBookB) {
+        continue;
+      }
+
+      if (
+        lastCheck === undefined ||
+        snapshot.timestamp - lastCheck >= checkIntervalMs
+      ) {
+        lastCheck = snapshot.timestamp;
+        const isFresh = (timestamp: number) =>
+          snapshot.timestamp - timestamp < ORDER_BOOK_FRESHNESS_MS;
+
+        if (
+          isFresh(cachedOrderBookA.timestamp) &&
+          isFresh(cachedOrderBookB.timestamp)
+        ) {
+          const opportunity = findArbitrageOpportunityVWAP(
+            cachedOrderBookA.data,
+            cachedOrderBookB.data,
+            amountToTrade,
+            minProfitability,
+            costs,
+          );
+          if (opportunity) {
+            const [buyExchange, sellExchange] =
+              opportunity.direction === 'AtoB'
+                ? [exchangeAName, exchangeBName]
+                : [exchangeBName, exchangeAName];
+            this.applyFill(state, {
+              timestamp: snapshot.timestamp,
+              exchange: buyExchange,
+              side: 'buy',
+              price: opportunity.buyPrice,
+              amount: amountToTrade,
+              fee: opportunity.breakdown.buyFee,
+              liquidity: 'taker',
+            });
+            this.applyFill(state, {
+              timestamp: snapshot.timestamp,
+              exchange: sellExchange,
+              side: 'sell',
+              price: opportunity.sellPrice,
+              amount: amountToTrade,
+              fee: opportunity.breakdown.sellFee,
+              liquidity: 'taker',
+            });
+          }
+        }
+      }
+
+      this.recordInventory(
+        state,
+        snapshot.timestamp,
+        this.getMidPrice(cachedOrderBookA.data),
+      );
+    }
+
+    return this.buildReport('arbitrage', state);
+  }
+
+  private matchRestingOrders(
+    state: SimulationState,
+    openOrders: SimulatedOrder[],
+    orderBook: BacktestOrderBook,
+    trades: BacktestTrade[],
+    timestamp: number,
+    exchangeName: string,
+    makerFee: number,
+  ): SimulatedOrder[] {
+    // Trade liquidity is shared between our orders, best priced orders first
+    const tradeLiquidity = trades.map((trade) => ({ ...trade }));
+    const sortedOrders = [
+      ...openOrders
+        .filter((order) => order.side === 'buy')
+        .sort((a, b) => b.price - a.price),
+      ...openOrders
+        .filter((order) => order.side === 'sell')
+        .sort((a, b) => a.price - b.price),
+    ];
+
+    for (const order of sortedOrders) {
+      let filledAmount = 0;
+      const bookCrossed =
+        order.side === 'buy'
+          ? orderBook.asks[0][0] <= order.price
+          : orderBook.bids[0][0] >= order.price;
+
+      if (bookCrossed) {
+        filledAmount = order.remaining;
+      } else {
+        for (const trade of tradeLiquidity) {
+          if (order.remaining - filledAmount <= AMOUNT_EPSILON) break;
+          const tradesThrough =
+            order.side === 'buy'
+              ? trade.price <= order.price && trade.side !== 'buy'
+              : trade.price >= order.price && trade.side !== 'sell';
+          if (!tradesThrough || trade.amount <= AMOUNT_EPSILON) continue;
+
+          const amount = Math.min(order.remaining - filledAmount, trade.amount);
+          trade.amount -= amount;
+          filledAmount += amount;
+        }
+      }
+
+      if (filledAmount > AMOUNT_EPSILON) {
+        order.remaining -= filledAmount;
+        this.applyFill(state, {
+          timestamp,
+          exchange: exchangeName,
+          side: order.side,
+          price: order.price,
+          amount: filledAmount,
+          fee: order.price * filledAmount * makerFee,
+          liquidity: 'maker',
+        });
+      }
+    }
+
+    return sortedOrders.filter((order) => order.remaining > AMOUNT_EPSILON);
+  }
+
+  private createState(backtestDto: BacktestDto): SimulationState {
+    const baseBalance = Number(backtestDto.initialBaseBalance) || 0;
+    const quoteBalance = Number(backtestDto.initialQuoteBalance) || 0;
+    return {
+      baseBalance,
+      quoteBalance,
+      initialBaseBalance: baseBalance,
+      initialQuoteBalance: quoteBalance,
+      fills: [],
+      inventoryPath: [],
+    };
+  }
+
+  private applyFill(state: SimulationState, fill: BacktestFill) {
+    const notional = fill.price * fill.amount;
+    if (fill.side === 'buy') {
+      state.baseBalance += fill.amount;
+      state.quoteBalance -= notional + fill.fee;
+    } else {
+      state.baseBalance -= fill.amount;
+      state.quoteBalance += notional - fill.fee;
+    }
+    state.fills.push(fill);
+  }
+
+  private recordInventory(
+    state: SimulationState,
+    timestamp: number,
+    markPrice: number,
+  ) {
+    state.inventoryPath.push({
+      timestamp,
+      baseBalance: state.baseBalance,
+      quoteBalance: state.quoteBalance,
+      markPrice,
+      equity: state.baseBalance * markPrice + state.quoteBalance,
+    });
+  }
+
+  private buildReport(
+    strategyType: BacktestStrategyType,
+    state: SimulationState,
+  ): BacktestReport {
+    const { inventoryPath, fills } = state;
+    if (inventoryPath.length === 0) {
+      throw new BadRequestException(
+        `No usable order book data found for ${strategyType} backtest.`,
+      );
+    }
+
+    const first = inventoryPath[0];
+    const last = inventoryPath[inventoryPath.length - 1];
+    const initialEquity =
+      state.initialBaseBalance * first.markPrice + state.initialQuoteBalance;
+    const finalEquity = last.equity;
+
+    let peak = initialEquity;
+    let maxDrawdown = 0;
+    for (const point of inventoryPath) {
+      peak = Math.max(peak, point.equity);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak);
+      }
+    }
+
+    const pnl = finalEquity - initialEquity;
+    return {
+      strategyType,
+      startTime: first.timestamp,
+      endTime: last.timestamp,
+      initialEquity,
+      finalEquity,
+      pnl,
+      pnlPercentage: initialEquity !== 0 ? (pnl / initialEquity) * 100 : 0,
+      totalFees: fills.reduce((sum, fill) => sum + fill.fee, 0),
+      totalVolume: fills.reduce(
+        (sum, fill) => sum + fill.price * fill.amount,
+        0,
+      ),
+      numberOfFills: fills.length,
+      maxDrawdown,
+      fills,
+      inventoryPath,
+    };
+  }
+
+  private hasBothSides(orderBook?: BacktestOrderBook): boolean {
+    return (
+      !!orderBook && orderBook.bids?.length > 0 && orderBook.asks?.length > 0
+    );
+  }
+
+  private getMidPrice(orderBook: BacktestOrderBook): number {
+    return (orderBook.bids[0][0] + orderBook.asks[0][0]) / 2;
+  }
+}
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as ccxt from 'ccxt';
+import { FeeService } from './fee.service';
+import { BigoneService } from 'src/modules/mixin/rebalance/bigone/bigone.service';
+
+describe('FeeService', () => {
+  let service: FeeService;
+
+  const mockBigoneService = {
+    getFeeBySymbol: jest.fn(),
+  };
+
+  const createExchange = (fetchTradingFees?: jest.Mock) =>
+    ({
+      id: 'binance',
+      has: { fetchTradingFees: !!fetchTradingFees },
+      fetchTradingFees,
+      loadMarkets: jest.fn().mockResolvedValue({
+        'BTC/USDT': { maker: 0.002, taker: 0.003 },
+      }),
+      fees: { trading: { maker: 0.004, taker: 0.005 } },
+    } as unknown as ccxt.Exchange);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeeService,
+        { provide: BigoneService, useValue: mockBigoneService },
+      ],
+    }).compile();
+
+    service = module.get<FeeService>(FeeService);
+  });
+
+  it('reads the fee rates of the account and caches them', async () => {
+    const fetchTradingFees = jest.fn().mockResolvedValue({
+      'BTC/USDT': { maker: 0.0008, taker: 0.001 },
+    });
+    const exchange = createExchange(fetchTradingFees);
+
+    expect(await service.getTradingFeeRates(exchange, 'BTC/USDT')).toEqual({
+      maker: 0.0008,
+      taker: 0.001,
+    });
+    expect(
+      await service.getTradingFeeRates(exchange, 'BTC/USDT', { taker: 0.0005 }),
+    ).toEqual({ maker: 0.0008, taker: 0.0005 });
+    expect(fetchTradingFees).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the fee rates of accounts on the same exchange apart', async () => {
+    const live = createExchange(
+      jest.fn().mockResolvedValue({
+        'BTC/USDT': { maker: 0.0008, taker: 0.001 },
+      }),
+    );
+    // A paper account has the id of the live exchange
+    const paper = createExchange();
+
+    await service.getTradingFeeRates(live, 'BTC/USDT');
+    expect(await service.getTradingFeeRates(paper, 'BTC/USDT')).toEqual({
+      maker: 0.002,
+      taker: 0.003,
+    });
+    expect(await service.getTradingFeeRates(live, 'BTC/USDT')).toEqual({
+      maker: 0.0008,
+      taker: 0.001,
+    });
+  });
+
+  it('falls back to the market fees, then to the exchange defaults', async () => {
+    expect(
+      await service.getTradingFeeRates(createExchange(), 'BTC/USDT'),
+    ).toEqual({ maker: 0.002, taker: 0.003 });
+    expect(
+      await service.getTradingFeeRates(createExchange(), 'ETH/USDT'),
+    ).toEqual({ maker: 0.004, taker: 0.005 });
+  });
+
+  it('reads withdrawal fees from BigOne', async () => {
+    mockBigoneService.getFeeBySymbol.mockResolvedValue('0.0005');
+
+    expect(await service.getWithdrawalFee('BTC')).toBe(0.0005);
+    expect(await service.getWithdrawalFee('BTC')).toBe(0.0005);
+    expect(mockBigoneService.getFeeBySymbol).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * FeeService
+ *
+ * This service looks up the costs strategies net their opportunities of: the trading fee rates of a market and the
+ * withdrawal fee of moving an asset between exchanges.
+ *
+ * Dependencies:
+ * - BigoneService: Service the withdrawal fees of rebalancing through BigOne are read from.
+ *
+ * Methods:
+ *
+ * - getTradingFeeRates(exchange: ccxt.Exchange, pair: string, overrides?: Partial<ExchangeFeeRates>): Returns the maker and taker fee rates of a market, overridden by the account's own rates when given.
+ *
+ * - getWithdrawalFee(symbol: string): Returns the withdrawal fee of an asset, in the asset.
+ *
+ * Notes:
+ * - Trading fees come from fetchTradingFees where the exchange supports it, otherwise from the market data or the exchange defaults.
+ * - Fees are cached for an hour, trading fees per exchange instance as each account (paper included) has its own fee tier.
+ */
+
+import * as ccxt from 'ccxt';
+import { Injectable } from '@nestjs/common';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { BigoneService } from 'src/modules/mixin/rebalance/bigone/bigone.service';
+import { ExchangeFeeRates } from 'src/common/types/strategy/strategy';
+
+@Injectable()
+export class FeeService {
+  private readonly logger = new CustomLogger(FeeService.name);
+  private readonly cacheTtlMs = 60 * 60 * 1000;
+  private tradingFees = new WeakMap<
+    ccxt.Exchange,
+    Map<string, { rates: ExchangeFeeRates; fetchedAt: number }>
+  >();
+  private withdrawalFees = new Map<
+    string,
+    { fee: number; fetchedAt: number }
+  >();
+
+  constructor(private bigoneService: BigoneService) {}
+
+  async getTradingFeeRates(
+    exchange: ccxt.Exchange,
+    pair: string,
+    overrides: Partial<ExchangeFeeRates> = {},
+  ): Promise<ExchangeFeeRates> {
+    if (overrides.maker != null && overrides.taker != null) {
+      return { maker: overrides.maker, taker: overrides.taker };
+    }
+
+    if (!this.tradingFees.has(exchange)) {
+      this.tradingFees.set(exchange, new Map());
+    }
+    const accountFees = this.tradingFees.get(exchange);
+    let cached = accountFees.get(pair);
+    if (!cached || Date.now() - cached.fetchedAt >= this.cacheTtlMs) {
+      cached = {
+        rates: await this.fetchTradingFeeRates(exchange, pair),
+        fetchedAt: Date.now(),
+      };
+      accountFees.set(pair, cached);
+    }
+    return {
+      maker: overrides.maker ?? cached.rates.maker,
+      taker: overrides.taker ?? cached.rates.taker,
+    };
+  }
+
+  async getWithdrawalFee(symbol: string): Promise<number> {
+    const cached = this.withdrawalFees.get(symbol);
+    if (cached && Date.now() - cached.fetchedAt < this.cacheTtlMs) {
+      return cached.fee;
+    }
+    const fee = Number(await this.bigoneService.getFeeBySymbol(symbol));
+    this.withdrawalFees.set(symbol, { fee, fetchedAt: Date.now() });
+    return fee;
+  }
+
+  private async fetchTradingFeeRates(
+    exchange: ccxt.Exchange,
+    pair: string,
+  ): Promise<ExchangeFeeRates> {
+    if (exchange.has['fetchTradingFees']) {
+      try {
+        const fees = await exchange.fetchTradingFees();
+        if (fees[pair]) {
+          return { maker: fees[pair].maker, taker: fees[pair].taker };
+        }
+      } catch (error) {
+        this.logger.warn(
+          `Failed to fetch the trading fees of ${exchange.id}, using the market fees: ${error.message}`,
+        );
+      }
+    }
+
+    // Fall back to the fees of the market, then to the defaults of the exchange
+    const markets = await exchange.loadMarkets();
+    const market = markets[pair];
+    const defaults = exchange.fees['trading'] || {};
+    return {
+      maker: market?.maker ?? defaults.maker ?? 0,
+      taker: market?.taker ?? defaults.taker ?? 0,
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { StrategyLifecycleService } from './lifecycle.service';
+import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
+import { StrategyEvent } from 'src/common/entities/strategy-event.entity';
+import { StrategyParameterVersion } from 'src/common/entities/strategy-parameter-version.entity';
+
+describe('StrategyLifecycleService', () => {
+  let service: StrategyLifecycleService;
+  let instances: Partial<StrategyInstance>[];
+  let versions: Partial<StrategyParameterVersion>[];
+
+  const matches = (instance, where) =>
+    Object.entries(where).every(([key, value]) => instance[key] === value);
+  const mockStrategyInstanceRepository = {
+    find: jest.fn(async ({ where }) =>
+      instances.filter((instance) => matches(instance, where)),
+    ),
+    findOne: jest.fn(async ({ where }) =>
+      instances.find((instance) => matches(instance, where)),
+    ),
+    create: jest.fn((instance) => instance),
+    save: jest.fn(async (instance) => instances.push(instance)),
+    update: jest.fn(async (where, changes) => {
+      const updated = instances.filter((instance) => matches(instance, where));
+      updated.forEach((instance) => Object.assign(instance, changes));
+      return { affected: updated.length };
+    }),
+  };
+  const mockStrategyEventRepository = {
+    find: jest.fn(),
+    create: jest.fn((event) => event),
+    save: jest.fn(),
+  };
+  const mockStrategyParameterVersionRepository = {
+    find: jest.fn(async ({ where }) =>
+      versions.filter((version) => matches(version, where)),
+    ),
+    findOne: jest.fn(async ({ where }) =>
+      versions
+        .filter((version) => matches(version, where))
+        .sort((a, b) => b.version - a.version)
+        .shift(),
+    ),
+    create: jest.fn((version) => version),
+    save: jest.fn(async (version) => versions.push(version)),
+  };
+
+  const strategyKey = '1-client1-grid';
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    instances = [];
+    versions = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StrategyLifecycleService,
+        {
+          provide: getRepositoryToken(StrategyInstance),
+          useValue: mockStrategyInstanceRepository,
+        },
+        {
+          provide: getRepositoryToken(StrategyEvent),
+          useValue: mockStrategyEventRepository,
+        },
+        {
+          provide: getRepositoryToken(StrategyParameterVersion),
+          useValue: mockStrategyParameterVersionRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StrategyLifecycleService>(StrategyLifecycleService);
+  });
+
+  it('records every transition of a strategy with its reason and actor', async () => {
+    await service.createStrategyInstance(
+      { strategyKey, strategyType: 'grid', parameters: {} },
+      { actor: 'user' },
+    );
+    await service.transition(strategyKey, 'starting', { actor: 'user' });
+    await service.transition(strategyKey, 'running');
+    await service.transition(strategyKey, 'pausing', {
+      actor: 'risk',
+      reason: 'maxDailyLoss breached',
+    });
+
+    expect(await service.getStatus(strategyKey)).toBe('pausing');
+    expect(
+      mockStrategyEventRepository.save.mock.calls.map(([event]) => event),
+    ).toEqual([
+      expect.objectContaining({ toStatus: 'created', actor: 'user' }),
+      expect.objectContaining({ fromStatus: 'created', toStatus: 'starting' }),
+      expect.objectContaining({ toStatus: 'running', actor: 'system' }),
+      {
+        strategyKey,
+        type: 'transition',
+        fromStatus: 'running',
+        toStatus: 'pausing',
+        reason: 'maxDailyLoss breached',
+        actor: 'risk',
+      },
+    ]);
+  });
+
+  it('rejects transitions the lifecycle does not allow', async () => {
+    instances.push({ strategyKey, status: 'stopped' });
+
+    await expect(service.transition(strategyKey, 'running')).rejects.toThrow(
+      `Strategy ${strategyKey} can't move from stopped to running.`,
+    );
+    expect(mockStrategyEventRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('only claims a strategy still in the expected status', async () => {
+    instances.push({ strategyKey, status: 'starting' });
+
+    expect(
+      await service.transition(strategyKey, 'starting', {}, 'interrupted'),
+    ).toBe(false);
+    expect(mockStrategyInstanceRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('records parameter changes and deduplicates repeated errors', async () => {
+    instances.push({ strategyKey, status: 'running', parameters: { a: 1 } });
+
+    await service.updateParameters(strategyKey, { a: 1 });
+    await service.updateParameters(strategyKey, { a: 2 }, { actor: 'user' });
+    await service.recordError(strategyKey, 'Network error');
+    await service.recordError(strategyKey, 'Network error');
+
+    expect(instances[0].parameters).toEqual({ a: 2 });
+    expect(
+      mockStrategyEventRepository.save.mock.calls.map(([event]) => event.type),
+    ).toEqual(['parameters', 'error']);
+  });
+
+  it('keeps a version of the parameters for every change', async () => {
+    await service.createStrategyInstance(
+      { strategyKey, strategyType: 'grid', parameters: { a: 1 } },
+      { actor: 'user' },
+    );
+
+    expect(await service.updateParameters(strategyKey, { a: 1 })).toBe(1);
+    expect(
+      await service.updateParameters(strategyKey, { a: 2 }, { actor: 'admin' }),
+    ).toBe(2);
+    expect(await service.getParameterVersions(strategyKey)).toEqual([
+      { strategyKey, version: 1, parameters: { a: 1 }, actor: 'user' },
+      { strategyKey, version: 2, parameters: { a: 2 }, actor: 'admin' },
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * StrategyLifecycleService
+ *
+ * This service owns the status of the strategy instances. It moves a strategy through its lifecycle (created,
+ * starting, running, pausing, paused, stopping, stopped or errored), rejecting the transitions the lifecycle doesn't
+ * allow, and keeps a timeline of the transitions, parameter changes and errors of every strategy.
+ *
+ * Dependencies:
+ * - Repository<StrategyInstance>: Injected repository the status and parameters of the strategies are kept in.
+ * - Repository<StrategyEvent>: Injected repository for the timeline of the strategies.
+ * - Repository<StrategyParameterVersion>: Injected repository for the version history of the strategy parameters.
+ * - Helpers: lifecycle for the allowed transitions.
+ *
+ * Methods:
+ *
+ * - getStatus(strategyKey: string): Returns the status of a strategy, null when it doesn't exist.
+ *
+ * - createStrategyInstance(instance: Partial<StrategyInstance>, context?: StrategyEventContext): Creates a strategy in the created status.
+ *
+ * - transition(strategyKey: string, to: StrategyStatus, context?: StrategyEventContext, from?: StrategyStatus): Moves a strategy to a status and records the transition.
+ *
+ * - transitionAll(from: StrategyStatus, to: StrategyStatus, context?: StrategyEventContext): Moves every strategy in a status to another one.
+ *
+ * - updateParameters(strategyKey: string, parameters: Record<string, any>, context?: StrategyEventContext): Saves the parameters of a strategy as a new version and records the change.
+ *
+ * - getParameterVersions(strategyKey: string): Returns the parameter versions of a strategy, oldest first.
+ *
+ * - recordError(strategyKey: string, error: string, context?: StrategyEventContext): Records an error of a strategy.
+ *
+ * - getTimeline(strategyKey: string): Returns the events of a strategy, oldest first.
+ *
+ * Notes:
+ * - A transition only applies to the status it was validated against, it returns false when the status changed meanwhile.
+ * - An error repeated within a minute is only recorded once, so a failing strategy loop doesn't flood the timeline.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
+import { StrategyEvent } from 'src/common/entities/strategy-event.entity';
+import { StrategyParameterVersion } from 'src/common/entities/strategy-parameter-version.entity';
+import {
+  StrategyEventContext,
+  StrategyEventType,
+  StrategyStatus,
+} from 'src/common/types/strategy/strategy';
+import { canTransitionStrategy } from 'src/common/helpers/strategy/lifecycle';
+
+@Injectable()
+export class StrategyLifecycleService {
+  private readonly logger = new CustomLogger(StrategyLifecycleService.name);
+  private readonly errorDedupMs = 60000;
+  private lastErrors = new Map<string, { error: string; recordedAt: number }>();
+
+  constructor(
+    @InjectRepository(StrategyInstance)
+    private strategyInstanceRepository: Repository<StrategyInstance>,
+    @InjectRepository(StrategyEvent)
+    private strategyEventRepository: Repository<StrategyEvent>,
+    @InjectRepository(StrategyParameterVersion)
+    private strategyParameterVersionRepository: Repository<StrategyParameterVersion>,
+  ) {}
+
+  async getStatus(strategyKey: string): Promise<string | null> {
+    const strategyInstance = await this.strategyInstanceRepository.findOne({
+      where: { strategyKey },
+    });
+    return strategyInstance?.status ?? null;
+  }
+
+  async createStrategyInstance(
+    instance: Partial<StrategyInstance>,
+    context: StrategyEventContext = {},
+  ): Promise<StrategyInstance> {
+    const strategyInstance = this.strategyInstanceRepository.create({
+      ...instance,
+      status: 'created',
+    });
+    await this.strategyInstanceRepository.save(strategyInstance);
+    await this.recordEvent(instance.strategyKey, 'transition', context, {
+      toStatus: 'created',
+    });
+    await this.saveParameterVersion(
+      instance.strategyKey,
+      1,
+      instance.parameters,
+      context,
+    );
+    return strategyInstance;
+  }
+
+  async transition(
+    strategyKey: string,
+    to: StrategyStatus,
+    context: StrategyEventContext = {},
+    from?: StrategyStatus,
+  ): Promise<boolean> {
+    const status = await this.getStatus(strategyKey);
+    if (status === null) {
+      throw new Error(`Strategy with key ${strategyKey} not found.`);
+    }
+    if (from && status !== from) {
+      return false;
+    }
+    if (!canTransitionStrategy(status, to)) {
+      throw new Error(
+        `Strategy ${strategyKey} can't move from ${status} to ${to}.`,
+      );
+    }
+
+    const result = await this.strategyInstanceRepository.update(
+      { strategyKey, status },
+      { status: to, updatedAt: new Date() },
+    );
+    if (!result.affected) {
+      return false;
+    }
+    await this.recordEvent(strategyKey, 'transition', context, {
+      fromStatus: status,
+      toStatus: to,
+    });
+    return true;
+  }
+
+  async transitionAll(
+    from: StrategyStatus,
+    to: StrategyStatus,
+    context: StrategyEventContext = {},
+  ) {
+    const strategyInstances = await this.strategyInstanceRepository.find({
+      where: { status: from },
+    });
+    for (const { strategyKey } of strategyInstances) {
+      try {
+        await this.transition(strategyKey, to, context, from);
+      } catch (error) {
+        this.logger.error(
+          `Failed to move strategy ${strategyKey} to ${to}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  // Returns the version of the parameters, unchanged parameters don't make a new one
+  async updateParameters(
+    strategyKey: string,
+    parameters: Record<string, any>,
+    context: StrategyEventContext = {},
+  ): Promise<number> {
+    const strategyInstance = await this.strategyInstanceRepository.findOne({
+      where: { strategyKey },
+    });
+    if (!strategyInstance) {
+      throw new Error(`Strategy with key ${strategyKey} not found.`);
+    }
+    let version =
+      (
+        await this.strategyParameterVersionRepository.findOne({
+          where: { strategyKey },
+          order: { version: 'DESC' },
+        })
+      )?.version ?? 0;
+    if (!version) {
+      // Strategies created before parameters were versioned start their history with the current parameters
+      version = 1;
+      await this.saveParameterVersion(
+        strategyKey,
+        version,
+        strategyInstance.parameters,
+        { actor: 'system' },
+      );
+    }
+    if (
+      JSON.stringify(strategyInstance.parameters) === JSON.stringify(parameters)
+    ) {
+      return version;
+    }
+
+    await this.strategyInstanceRepository.update(
+      { strategyKey },
+      { parameters, updatedAt: new Date() },
+    );
+    await this.saveParameterVersion(
+      strategyKey,
+      version + 1,
+      parameters,
+      context,
+    );
+    await this.recordEvent(strategyKey, 'parameters', context, {
+      details: {
+        version: version + 1,
+        previous: strategyInstance.parameters,
+        parameters,
+      },
+    });
+    return version + 1;
+  }
+
+  async getParameterVersions(
+    strategyKey: string,
+  ): Promise<StrategyParameterVersion[]> {
+    return await this.strategyParameterVersionRepository.find({
+      where: { strategyKey },
+      order: { version: 'ASC' },
+    });
+  }
+
+  async recordError(
+    strategyKey: string,
+    error: string,
+    context: StrategyEventContext = {},
+  ) {
+    const lastError = this.lastErrors.get(strategyKey);
+    if (
+      lastError?.error === error &&
+      Date.now() - lastError.recordedAt < this.errorDedupMs
+    ) {
+      return;
+    }
+    this.lastErrors.set(strategyKey, { error, recordedAt: Date.now() });
+
+    try {
+      await this.recordEvent(
+        strategyKey,
+        'error',
+        { actor: 'system', ...context },
+        { details: { error } },
+      );
+    } catch (recordError) {
+      this.logger.error(
+        `Failed to record an error of strategy ${strategyKey}: ${recordError.message}`,
+      );
+    }
+  }
+
+  async getTimeline(strategyKey: string): Promise<StrategyEvent[]> {
+    return await this.strategyEventRepository.find({
+      where: { strategyKey },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+  }
+
+  private async saveParameterVersion(
+    strategyKey: string,
+    version: number,
+    parameters: Record<string, any>,
+    context: StrategyEventContext,
+  ) {
+    await this.strategyParameterVersionRepository.save(
+      this.strategyParameterVersionRepository.create({
+        strategyKey,
+        version,
+        parameters,
+        actor: context.actor || 'system',
+      }),
+    );
+  }
+
+  private async recordEvent(
+    strategyKey: string,
+    type: StrategyEventType,
+    context: StrategyEventContext,
+    event: Partial<StrategyEvent>,
+  ) {
+    await this.strategyEventRepository.save(
+      this.strategyEventRepository.create({
+        strategyKey,
+        type,
+        reason: context.reason,
+        actor: context.actor || 'system',
+        ...event,
+      }),
+    );
+  }
+}
@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PriceSourceService } from './price-source.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { OrderBookHubService } from 'src/modules/marketdata/orderbook-hub.service';
+import { CoingeckoProxyService } from 'src/modules/coingecko/coingecko.service';
+import { PriceSourceType } from 'src/common/enum/pricesourcetype';
+
+describe('PriceSourceService', () => {
+  let service: PriceSourceService;
+  let exchanges: Record<string, any>;
+  let getExchange: jest.Mock;
+
+  const mockOrderBookHub = {
+    getSnapshot: jest.fn(),
+  };
+
+  const mockCoingeckoProxyService = {
+    coinsId: jest.fn(),
+  };
+
+  const createExchange = (
+    orderBook: { bids: number[][]; asks: number[][] },
+    ticker: { last: number; baseVolume: number; timestamp?: number },
+  ) => ({
+    fetchOrderBook: jest.fn().mockResolvedValue(orderBook),
+    fetchTicker: jest
+      .fn()
+      .mockResolvedValue({ timestamp: Date.now(), ...ticker }),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    exchanges = {
+      bigone: createExchange(
+        { bids: [[0.9, 10]], asks: [[1.1, 30]] },
+        { last: 1, baseVolume: 100 },
+      ),
+      binance: createExchange(
+        { bids: [[1.19, 500]], asks: [[1.21, 500]] },
+        { last: 1.2, baseVolume: 3000 },
+      ),
+      okx: createExchange(
+        { bids: [[1.22, 500]], asks: [[1.24, 500]] },
+        { last: 1.4, baseVolume: 1000 },
+      ),
+    };
+    getExchange = jest.fn((exchangeName: string) => {
+      if (!exchanges[exchangeName]) {
+        throw new Error('Exchange configuration error.');
+      }
+      return exchanges[exchangeName];
+    });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceSourceService,
+        {
+          provide: ExchangeInitService,
+          useValue: {
+            getExchange,
+            // Only bigone has a paper account
+            getAccountsForExchange: (exchangeName: string) =>
+              exchangeName === 'bigone' ? ['default', 'paper'] : ['default'],
+          },
+        },
+        { provide: OrderBookHubService, useValue: mockOrderBookHub },
+        {
+          provide: CoingeckoProxyService,
+          useValue: mockCoingeckoProxyService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PriceSourceService>(PriceSourceService);
+  });
+
+  it('reads the order book prices from the stream of the hub when one is open', async () => {
+    mockOrderBookHub.getSnapshot.mockReturnValueOnce({
+      orderBook: { bids: [[0.95, 30]], asks: [[1.05, 10]] },
+      timestamp: Date.now(),
+    });
+
+    expect(
+      await service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.MICROPRICE,
+      ),
+    ).toBeCloseTo(1.025);
+    expect(exchanges.bigone.fetchOrderBook).not.toHaveBeenCalled();
+    expect(
+      await service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.MICROPRICE,
+      ),
+    ).toBeCloseTo(0.95);
+  });
+
+  it('reads the mid price of the reference pair on another exchange', async () => {
+    expect(
+      await service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.EXTERNAL_EXCHANGE,
+        { referenceExchangeName: 'binance', referencePair: 'HMT/USDC' },
+      ),
+    ).toBeCloseTo(1.2);
+    expect(exchanges.binance.fetchOrderBook).toHaveBeenCalledWith('HMT/USDC');
+  });
+
+  it('weights the index by volume and leaves out the exchanges that fail', async () => {
+    expect(
+      await service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.VOLUME_WEIGHTED_INDEX,
+        { indexExchangeNames: ['binance', 'okx', 'mexc'] },
+      ),
+    ).toBeCloseTo(1.25);
+  });
+
+  it('reads the CoinGecko price in the currency of the settings', async () => {
+    mockCoingeckoProxyService.coinsId.mockResolvedValue({
+      market_data: {
+        current_price: { usd: 1.1, eur: 1 },
+        last_updated: new Date(Date.now() - 2 * 60 * 1000).toISOString(),
+      },
+    });
+
+    expect(
+      await service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.COINGECKO,
+        { coingeckoId: 'hemittoken', coingeckoCurrency: 'EUR' },
+      ),
+    ).toBe(1);
+    expect(mockCoingeckoProxyService.coinsId).toHaveBeenCalledWith(
+      'hemittoken',
+    );
+  });
+
+  it('falls back to the next price source when one is stale or fails', async () => {
+    exchanges.bigone.fetchTicker.mockResolvedValue({
+      last: 1.3,
+      baseVolume: 100,
+      timestamp: Date.now() - 120 * 1000,
+    });
+    const warnSpy = jest.spyOn(service['logger'], 'warn');
+
+    expect(
+      await service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.LAST_PRICE,
+        {
+          fallbackPriceSourceTypes: [
+            PriceSourceType.COINGECKO,
+            PriceSourceType.MID_PRICE,
+          ],
+        },
+      ),
+    ).toBe(1);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Falling back to the mid_price price of HMT/USDT on bigone, last_price: stale price',
+      ),
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('coingecko: no CoinGecko id is set'),
+    );
+  });
+
+  it('fails when none of the price sources is available', async () => {
+    await expect(
+      service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.EXTERNAL_EXCHANGE,
+        {
+          referenceExchangeName: 'mexc',
+          fallbackPriceSourceTypes: [PriceSourceType.VOLUME_WEIGHTED_INDEX],
+        },
+      ),
+    ).rejects.toThrow(
+      'No price source of HMT/USDT on bigone is available: external_exchange: Exchange configuration error., volume_weighted_index: no index exchanges are set',
+    );
+  });
+
+  it('reads the prices on the account of the strategy', async () => {
+    expect(
+      await service.getReferencePrice(
+        'bigone',
+        'HMT/USDT',
+        PriceSourceType.MID_PRICE,
+        {},
+        'paper',
+      ),
+    ).toBeCloseTo(1);
+    expect(mockOrderBookHub.getSnapshot).toHaveBeenCalledWith(
+      'bigone',
+      'HMT/USDT',
+      'paper',
+    );
+    expect(getExchange).toHaveBeenCalledWith('bigone', 'paper');
+
+    // Binance has no paper account, its index price is read on the default one
+    await service.getReferencePrice(
+      'bigone',
+      'HMT/USDT',
+      PriceSourceType.VOLUME_WEIGHTED_INDEX,
+      { indexExchangeNames: ['bigone', 'binance'] },
+      'paper',
+    );
+    expect(getExchange).toHaveBeenCalledWith('binance', 'default');
+  });
+});
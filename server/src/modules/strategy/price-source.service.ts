@@ -0,0 +1,280 @@
+/**
+ * PriceSourceService
+ *
+ * This service reads the reference price market making strategies quote around. Besides the order book and last price
+ * of the exchange a strategy quotes on, the price can come from another exchange, from an index weighted by the volume of
+ * several exchanges, from CoinGecko or from the microprice of the order book, which suits thin markets better.
+ *
+ * Dependencies:
+ * - ExchangeInitService: Service providing the exchange instances the prices are read from.
+ * - OrderBookHubService: Shared order book streams, preferred over fetching an order book when one is open.
+ * - CoingeckoProxyService: Service the CoinGecko prices are read from.
+ * - Helpers: marketMaking for the prices read out of an order book and the volume weighted price.
+ *
+ * Methods:
+ *
+ * - getReferencePrice(exchangeName: string, pair: string, priceSourceType: PriceSourceType, settings?: PriceSourceSettings, accountLabel?: string):
+ *   Returns the price of a pair from a price source, falling back to the next source of the settings when it fails or is stale.
+ *
+ * Notes:
+ * - A price is stale when it is older than the maxPriceAge of the settings, by default a minute for the exchange prices and
+ *   five minutes for CoinGecko, which updates less often.
+ * - The exchanges of an index that fail or are stale are left out of it, the index only fails when none of them is left.
+ * - Prices are read on the account of the strategy, so a paper account reads the order books it matches against. Reference
+ *   and index exchanges fall back to their default account when the strategy has no account there.
+ */
+
+import * as ccxt from 'ccxt';
+import { Injectable } from '@nestjs/common';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { OrderBookHubService } from 'src/modules/marketdata/orderbook-hub.service';
+import { CoingeckoProxyService } from 'src/modules/coingecko/coingecko.service';
+import { PriceSourceType } from 'src/common/enum/pricesourcetype';
+import { PriceSourceSettings } from 'src/common/types/strategy/strategy';
+import {
+  getPriceFromOrderBook,
+  getVolumeWeightedPrice,
+} from 'src/common/helpers/strategy/marketMaking';
+
+interface PriceQuote {
+  price: number;
+  timestamp: number;
+}
+
+@Injectable()
+export class PriceSourceService {
+  private readonly logger = new CustomLogger(PriceSourceService.name);
+  private readonly defaultMaxPriceAge = 60 * 1000;
+  private readonly defaultCoingeckoMaxPriceAge = 5 * 60 * 1000;
+
+  constructor(
+    private exchangeInitService: ExchangeInitService,
+    private orderBookHub: OrderBookHubService,
+    private coingeckoProxyService: CoingeckoProxyService,
+  ) {}
+
+  async getReferencePrice(
+    exchangeName: string,
+    pair: string,
+    priceSourceType: PriceSourceType,
+    settings: PriceSourceSettings = {},
+    accountLabel = 'default',
+  ): Promise<number> {
+    const priceSourceTypes = [
+      priceSourceType,
+      ...(settings.fallbackPriceSourceTypes || []),
+    ].filter((type, i, types) => types.indexOf(type) === i);
+
+    const failures: string[] = [];
+    for (const type of priceSourceTypes) {
+      try {
+        const { price, timestamp } = await this.getPrice(
+          exchangeName,
+          pair,
+          type,
+          settings,
+          accountLabel,
+        );
+        if (!(price > 0)) {
+          throw new Error(`invalid price ${price}`);
+        }
+        const age = Date.now() - timestamp;
+        if (age > this.getMaxPriceAge(type, settings)) {
+          throw new Error(`stale price, ${age}ms old`);
+        }
+        if (failures.length) {
+          this.logger.warn(
+            `Falling back to the ${type} price of ${pair} on ${exchangeName}, ${failures.join(
+              ', ',
+            )}`,
+          );
+        }
+        return price;
+      } catch (error) {
+        failures.push(`${type}: ${error.message}`);
+      }
+    }
+    throw new Error(
+      `No price source of ${pair} on ${exchangeName} is available: ${failures.join(
+        ', ',
+      )}`,
+    );
+  }
+
+  private getMaxPriceAge(
+    priceSourceType: PriceSourceType,
+    settings: PriceSourceSettings,
+  ): number {
+    if (settings.maxPriceAge) {
+      return settings.maxPriceAge;
+    }
+    return priceSourceType === PriceSourceType.COINGECKO
+      ? this.defaultCoingeckoMaxPriceAge
+      : this.defaultMaxPriceAge;
+  }
+
+  private async getPrice(
+    exchangeName: string,
+    pair: string,
+    priceSourceType: PriceSourceType,
+    settings: PriceSourceSettings,
+    accountLabel: string,
+  ): Promise<PriceQuote> {
+    switch (priceSourceType) {
+      case PriceSourceType.MID_PRICE:
+      case PriceSourceType.BEST_ASK:
+      case PriceSourceType.BEST_BID:
+      case PriceSourceType.MICROPRICE: {
+        const { orderBook, timestamp } = await this.getOrderBook(
+          exchangeName,
+          pair,
+          accountLabel,
+        );
+        return {
+          price: getPriceFromOrderBook(orderBook, priceSourceType),
+          timestamp,
+        };
+      }
+      case PriceSourceType.LAST_PRICE: {
+        const exchange = this.exchangeInitService.getExchange(
+          exchangeName,
+          accountLabel,
+        );
+        const ticker = await exchange.fetchTicker(pair);
+        return {
+          price: ticker.last,
+          timestamp: ticker.timestamp ?? Date.now(),
+        };
+      }
+      case PriceSourceType.EXTERNAL_EXCHANGE: {
+        if (!settings.referenceExchangeName) {
+          throw new Error('no reference exchange is set');
+        }
+        const { orderBook, timestamp } = await this.getOrderBook(
+          settings.referenceExchangeName,
+          settings.referencePair || pair,
+          this.getReferenceAccountLabel(
+            settings.referenceExchangeName,
+            accountLabel,
+          ),
+        );
+        return {
+          price: getPriceFromOrderBook(orderBook, PriceSourceType.MID_PRICE),
+          timestamp,
+        };
+      }
+      case PriceSourceType.VOLUME_WEIGHTED_INDEX:
+        return await this.getIndexPrice(
+          settings.referencePair || pair,
+          settings,
+          accountLabel,
+        );
+      case PriceSourceType.COINGECKO:
+        return await this.getCoingeckoPrice(settings);
+      default:
+        throw new Error('invalid price source type');
+    }
+  }
+
+  // Other exchanges are only read from, on the account of the strategy when it has one there
+  private getReferenceAccountLabel(
+    exchangeName: string,
+    accountLabel: string,
+  ): string {
+    return accountLabel !== 'default' &&
+      this.exchangeInitService
+        .getAccountsForExchange(exchangeName)
+        .includes(accountLabel)
+      ? accountLabel
+      : 'default';
+  }
+
+  private async getOrderBook(
+    exchangeName: string,
+    pair: string,
+    accountLabel: string,
+  ): Promise<{ orderBook: ccxt.OrderBook; timestamp: number }> {
+    let snapshot = this.orderBookHub.getSnapshot(
+      exchangeName,
+      pair,
+      accountLabel,
+    );
+    if (!snapshot) {
+      const exchange = this.exchangeInitService.getExchange(
+        exchangeName,
+        accountLabel,
+      );
+      const orderBook = await exchange.fetchOrderBook(pair);
+      snapshot = { orderBook, timestamp: orderBook.timestamp ?? Date.now() };
+    }
+    if (!snapshot.orderBook.bids.length || !snapshot.orderBook.asks.length) {
+      throw new Error(`empty order book on ${exchangeName}`);
+    }
+    return snapshot;
+  }
+
+  // Last prices of the exchanges weighted by their 24h volume
+  private async getIndexPrice(
+    pair: string,
+    settings: PriceSourceSettings,
+    accountLabel: string,
+  ): Promise<PriceQuote> {
+    const exchangeNames = settings.indexExchangeNames || [];
+    if (!exchangeNames.length) {
+      throw new Error('no index exchanges are set');
+    }
+    const maxPriceAge = this.getMaxPriceAge(
+      PriceSourceType.VOLUME_WEIGHTED_INDEX,
+      settings,
+    );
+    const tickers = await Promise.all(
+      exchangeNames.map(async (exchangeName) => {
+        try {
+          const exchange = this.exchangeInitService.getExchange(
+            exchangeName,
+            this.getReferenceAccountLabel(exchangeName, accountLabel),
+          );
+          const ticker = await exchange.fetchTicker(pair);
+          const timestamp = ticker.timestamp ?? Date.now();
+          if (Date.now() - timestamp > maxPriceAge) {
+            this.logger.warn(
+              `Leaving ${exchangeName} out of the index of ${pair}, its price is stale.`,
+            );
+            return null;
+          }
+          return { price: ticker.last, volume: ticker.baseVolume, timestamp };
+        } catch (error) {
+          this.logger.warn(
+            `Leaving ${exchangeName} out of the index of ${pair}: ${error.message}`,
+          );
+          return null;
+        }
+      }),
+    );
+    const quotes = tickers.filter((ticker) => ticker !== null);
+    const price = getVolumeWeightedPrice(quotes);
+    if (price === undefined) {
+      throw new Error('no index exchange has a fresh price and volume');
+    }
+    return {
+      price,
+      timestamp: Math.min(...quotes.map(({ timestamp }) => timestamp)),
+    };
+  }
+
+  private async getCoingeckoPrice(
+    settings: PriceSourceSettings,
+  ): Promise<PriceQuote> {
+    if (!settings.coingeckoId) {
+      throw new Error('no CoinGecko id is set');
+    }
+    const currency = (settings.coingeckoCurrency || 'usd').toLowerCase();
+    const coin = await this.coingeckoProxyService.coinsId(settings.coingeckoId);
+    const lastUpdated = coin.market_data?.last_updated ?? coin.last_updated;
+    return {
+      price: coin.market_data?.current_price?.[currency],
+      timestamp: lastUpdated ? new Date(lastUpdated).getTime() : Date.now(),
+    };
+  }
+}
@@ -0,0 +1,63 @@
+import { StrategyRegistryService } from './registry.service';
+import { GridStrategyDto } from './strategy.dto';
+import { StrategyPlugin } from 'src/common/types/strategy/strategy';
+
+describe('StrategyRegistryService', () => {
+  let registry: StrategyRegistryService;
+
+  const plugin: StrategyPlugin = {
+    type: 'grid',
+    description: 'Grid',
+    parameters: GridStrategyDto,
+    fixedParameters: ['pair'],
+    start: jest.fn(),
+    getMarkets: (_strategyKey, parameters) => [
+      { exchangeName: parameters.exchangeName, pair: parameters.pair },
+    ],
+  };
+
+  beforeEach(() => {
+    registry = new StrategyRegistryService();
+    registry.register(plugin);
+  });
+
+  it('dispatches to the plugin of a registered type', () => {
+    expect(registry.has('grid')).toBe(true);
+    expect(
+      registry.get('grid').getMarkets('1-client1-grid', {
+        exchangeName: 'binance',
+        pair: 'BTC/USDT',
+      }),
+    ).toEqual([{ exchangeName: 'binance', pair: 'BTC/USDT' }]);
+  });
+
+  it('rejects unknown and duplicate types', () => {
+    expect(registry.has('momentum')).toBe(false);
+    expect(() => registry.get('momentum')).toThrow(
+      'Unknown strategy type: momentum',
+    );
+    expect(() => registry.register(plugin)).toThrow(
+      'Strategy type grid is already registered.',
+    );
+  });
+
+  it('lists the types with the JSON schema of their parameters', () => {
+    const [type] = registry.getTypes();
+
+    expect(type).toMatchObject({ type: 'grid', description: 'Grid' });
+    expect(type.parameters).toMatchObject({
+      type: 'object',
+      properties: {
+        pair: {
+          type: 'string',
+          description: 'Trading pair',
+          example: 'BTC/USDT',
+        },
+        gridCount: { type: 'number' },
+      },
+    });
+    expect(type.parameters.required).toEqual(
+      expect.arrayContaining(['userId', 'pair', 'gridCount']),
+    );
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * StrategyRegistryService
+ *
+ * This service keeps the strategy types the core can run. The services implementing strategies register a plugin for
+ * each of their types, and the core starts, stops and looks up the markets and parameters of a strategy through the
+ * plugin of its type instead of switching on the type itself.
+ *
+ * Dependencies:
+ * - Helpers: parameters for the JSON schema of the parameters of a type.
+ *
+ * Methods:
+ *
+ * - register(plugin: StrategyPlugin): Registers a strategy type, a type can only be registered once.
+ *
+ * - has(type: string): Returns whether a strategy type is registered.
+ *
+ * - get(type: string): Returns the plugin of a strategy type, throws when it isn't registered.
+ *
+ * - getTypes(): Returns the registered types with the JSON schema of their parameters.
+ */
+
+import { Injectable } from '@nestjs/common';
+import {
+  StrategyPlugin,
+  StrategyTypeDescription,
+} from 'src/common/types/strategy/strategy';
+import { getParameterJsonSchema } from 'src/common/helpers/strategy/parameters';
+
+@Injectable()
+export class StrategyRegistryService {
+  private plugins = new Map<string, StrategyPlugin>();
+
+  register(plugin: StrategyPlugin) {
+    if (this.plugins.has(plugin.type)) {
+      throw new Error(`Strategy type ${plugin.type} is already registered.`);
+    }
+    this.plugins.set(plugin.type, plugin);
+  }
+
+  has(type: string): boolean {
+    return this.plugins.has(type);
+  }
+
+  get(type: string): StrategyPlugin {
+    const plugin = this.plugins.get(type);
+    if (!plugin) {
+      throw new Error(`Unknown strategy type: ${type}`);
+    }
+    return plugin;
+  }
+
+  getTypes(): StrategyTypeDescription[] {
+    return Array.from(this.plugins.values()).map(
+      ({ type, description, parameters }) => ({
+        type,
+        description,
+        parameters: getParameterJsonSchema(parameters),
+      }),
+    );
+  }
+}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as ccxt from 'ccxt';
+import { ConfigService } from '@nestjs/config';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { RiskService } from './risk.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { PnlService } from 'src/modules/performance/pnl.service';
+import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
+
+describe('RiskService', () => {
+  let service: RiskService;
+
+  const globalLimits = {
+    'risk.max_position_per_asset': 0,
+    'risk.max_open_notional': 1000,
+    'risk.max_daily_loss': 0,
+    'risk.max_drawdown': 0,
+    'risk.max_orders_per_minute': 0,
+  };
+  const mockConfigService = {
+    get: jest.fn((key: string) => globalLimits[key]),
+  };
+  const mockExchange = {
+    fetchOrder: jest.fn(),
+    fetchTicker: jest.fn(),
+  };
+  const mockExchangeInitService = {
+    getExchange: jest.fn().mockReturnValue(mockExchange),
+  };
+  const mockStrategyInstanceRepository = {
+    findOne: jest.fn(),
+  };
+  const mockPnlService = {
+    recordFill: jest.fn(),
+    getFills: jest.fn(),
+  };
+
+  const limitBuy = {
+    type: 'limit' as const,
+    exchangeName: 'binance',
+    symbol: 'BTC/USDT',
+    side: 'buy' as const,
+    amount: 1,
+    price: 100,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockStrategyInstanceRepository.findOne.mockResolvedValue({
+      parameters: { riskLimits: { maxPositionPerAsset: 1.5 } },
+    });
+    mockPnlService.getFills.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RiskService,
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: ExchangeInitService, useValue: mockExchangeInitService },
+        { provide: PnlService, useValue: mockPnlService },
+        {
+          provide: getRepositoryToken(StrategyInstance),
+          useValue: mockStrategyInstanceRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<RiskService>(RiskService);
+  });
+
+  it('checks orders against the global limits merged with the strategy ones', async () => {
+    expect(await service.checkOrder('1-c-grid', limitBuy)).toBeNull();
+    expect(
+      await service.checkOrder('1-c-grid', { ...limitBuy, amount: 2 }),
+    ).toMatchObject({ limit: 'maxPositionPerAsset', threshold: 1.5 });
+    expect(
+      await service.checkOrder('1-c-grid', { ...limitBuy, price: 1200 }),
+    ).toMatchObject({ limit: 'maxOpenNotional', threshold: 1000 });
+  });
+
+  it('applies the fills of tracked orders and drops the closed ones', async () => {
+    await service.recordOrder('1-c-grid', limitBuy, {
+      id: 'order-1',
+      status: 'open',
+      filled: 0,
+    } as ccxt.Order);
+    expect(await service.getRiskStatus('1-c-grid')).toMatchObject({
+      openOrders: 1,
+      openNotional: 100,
+    });
+
+    mockExchange.fetchOrder.mockResolvedValue({
+      status: 'closed',
+      filled: 1,
+      average: 100,
+      fee: { cost: 0.001, currency: 'BTC' },
+    });
+    await service.syncStrategy('1-c-grid');
+    await service.recordOrder(
+      '1-c-grid',
+      { ...limitBuy, side: 'sell', price: 90 },
+      { id: 'order-2', status: 'closed', filled: 1, average: 90 } as ccxt.Order,
+    );
+
+    expect(mockExchange.fetchOrder).toHaveBeenCalledWith('order-1', 'BTC/USDT');
+    expect(await service.getRiskStatus('1-c-grid')).toMatchObject({
+      openOrders: 0,
+      openNotional: 0,
+      positions: { BTC: { amount: 0, averagePrice: 0 } },
+      realizedPnl: -10.1,
+      dailyPnl: -10.1,
+    });
+    expect(mockPnlService.recordFill).toHaveBeenCalledWith({
+      strategyKey: '1-c-grid',
+      exchangeName: 'binance',
+      pair: 'BTC/USDT',
+      side: 'buy',
+      amount: 1,
+      price: 100,
+      fee: 0.1,
+      orderId: 'order-1',
+    });
+    expect(mockPnlService.recordFill).toHaveBeenCalledTimes(2);
+  });
+
+  it('rebuilds the positions and loss limits of a strategy from its PnL ledger', async () => {
+    globalLimits['risk.max_daily_loss'] = 50;
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    mockPnlService.getFills.mockResolvedValue([
+      {
+        pair: 'BTC/USDT',
+        side: 'buy',
+        amount: 2,
+        price: 100,
+        fee: 0,
+        executedAt: yesterday,
+      },
+      {
+        pair: 'BTC/USDT',
+        side: 'sell',
+        amount: 1,
+        price: 130,
+        fee: 0,
+        executedAt: yesterday,
+      },
+      {
+        pair: 'BTC/USDT',
+        side: 'sell',
+        amount: 1,
+        price: 40,
+        fee: 1,
+        executedAt: new Date(),
+      },
+    ]);
+
+    try {
+      expect(await service.getRiskStatus('1-c-grid')).toMatchObject({
+        positions: { BTC: { amount: 0, averagePrice: 0 } },
+        realizedPnl: -31,
+        peakPnl: 30,
+        dailyPnl: -61,
+      });
+      expect(
+        await service.checkOrder('1-c-grid', { ...limitBuy, amount: 0.5 }),
+      ).toMatchObject({ limit: 'maxDailyLoss', threshold: 50 });
+      expect(mockPnlService.getFills).toHaveBeenCalledWith('1-c-grid');
+    } finally {
+      globalLimits['risk.max_daily_loss'] = 0;
+    }
+  });
+});
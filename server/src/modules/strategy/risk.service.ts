@@ -0,0 +1,349 @@
+/**
+ * RiskService
+ *
+ * This service is the risk layer strategy orders pass through. It keeps the positions, open orders, realized profit
+ * and order rate of every strategy and checks them against the global and per-strategy risk limits.
+ *
+ * Dependencies:
+ * - ConfigService: Provides the global risk limits.
+ * - ExchangeInitService: Service for the exchanges the tracked orders are refreshed from.
+ * - PnlService: Service the fills are recorded to for the PnL ledger of the strategy, and replayed from on a restart.
+ * - Repository<StrategyInstance>: Injected repository the per-strategy limits are read from.
+ * - Helpers: risk for the position accounting and the limit checks.
+ *
+ * Methods:
+ *
+ * - getGlobalLimits(): Returns the risk limits configured for all strategies.
+ *
+ * - checkOrder(strategyKey: string, order: RiskOrder): Refreshes the strategy's state and returns the limit an order would breach, if any.
+ *
+ * - recordOrder(strategyKey: string, order: RiskOrder, placedOrder: ccxt.Order): Tracks a placed order and applies its immediate fill.
+ *
+ * - syncStrategy(strategyKey: string): Applies the fills of the tracked open orders and drops the closed ones.
+ *
+ * - getRiskStatus(strategyKey: string): Returns the limits, positions and profit the risk checks of a strategy run against.
+ *
+ * - reloadLimits(strategyKey: string): Rereads the limits of a strategy on its next order, its positions and profit are kept.
+ *
+ * Notes:
+ * - Positions are tracked per base asset across the strategy's exchanges, profit and notional are summed across its markets
+ *   as they are, so they assume the markets share a quote currency.
+ * - Only realized profit, net of fees, counts towards the daily loss and drawdown limits, the daily profit resets at 00:00 UTC.
+ * - The state is kept in memory. The fills are also recorded to the PnL ledger, which persists them, so the positions and
+ *   profit of a strategy are rebuilt from its ledger the first time it is accessed. Open orders and the order rate start over.
+ */
+
+import * as ccxt from 'ccxt';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import { PnlService } from 'src/modules/performance/pnl.service';
+import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
+import {
+  RiskBreach,
+  RiskLimits,
+  RiskOrder,
+  StrategyRiskState,
+} from 'src/common/types/strategy/strategy';
+import {
+  applyFillToPosition,
+  checkLossRiskLimits,
+  checkOrderRiskLimits,
+  mergeRiskLimits,
+} from 'src/common/helpers/strategy/risk';
+import { StrategyFillInput } from 'src/common/types/performance/pnl';
+import { getQuoteFee } from 'src/common/helpers/performance/pnl';
+
+@Injectable()
+export class RiskService {
+  private readonly logger = new CustomLogger(RiskService.name);
+  private readonly syncIntervalMs = 10000;
+  private states = new Map<string, StrategyRiskState>();
+
+  constructor(
+    private configService: ConfigService,
+    private exchangeInitService: ExchangeInitService,
+    private pnlService: PnlService,
+    @InjectRepository(StrategyInstance)
+    private strategyInstanceRepository: Repository<StrategyInstance>,
+  ) {}
+
+  getGlobalLimits(): RiskLimits {
+    return {
+      maxPositionPerAsset: this.configService.get<number>(
+        'risk.max_position_per_asset',
+      ),
+      maxOpenNotional: this.configService.get<number>('risk.max_open_notional'),
+      maxDailyLoss: this.configService.get<number>('risk.max_daily_loss'),
+      maxDrawdown: this.configService.get<number>('risk.max_drawdown'),
+      maxOrdersPerMinute: this.configService.get<number>(
+        'risk.max_orders_per_minute',
+      ),
+    };
+  }
+
+  async checkOrder(
+    strategyKey: string,
+    order: RiskOrder,
+  ): Promise<RiskBreach | null> {
+    const state = await this.getState(strategyKey);
+    if (Date.now() - state.lastSyncAt >= this.syncIntervalMs) {
+      await this.syncStrategy(strategyKey);
+    }
+    this.rollDay(state);
+
+    const lossBreach = checkLossRiskLimits(
+      state.limits,
+      state.realizedPnl,
+      state.peakPnl,
+      state.dailyPnl,
+    );
+    if (lossBreach) {
+      return lossBreach;
+    }
+
+    const minuteAgo = Date.now() - 60000;
+    state.orderTimestamps = state.orderTimestamps.filter(
+      (timestamp) => timestamp > minuteAgo,
+    );
+    return checkOrderRiskLimits(
+      state.limits,
+      {
+        side: order.side,
+        amount: order.amount,
+        notional: order.type === 'limit' ? order.amount * order.price : 0,
+      },
+      state.positions[this.getAsset(order.symbol)]?.amount || 0,
+      this.getOpenNotional(state),
+      state.orderTimestamps.length,
+    );
+  }
+
+  async recordOrder(
+    strategyKey: string,
+    order: RiskOrder,
+    placedOrder: ccxt.Order,
+  ) {
+    const state = await this.getState(strategyKey);
+    state.orderTimestamps.push(Date.now());
+
+    const filled =
+      placedOrder.filled || (order.type === 'market' ? order.amount : 0);
+    const price =
+      filled > 0
+        ? placedOrder.average ||
+          placedOrder.price ||
+          order.price ||
+          (await this.getMarketPrice(order))
+        : 0;
+    const fee = getQuoteFee(placedOrder.fee, order.symbol, price);
+    if (filled > 0) {
+      await this.applyFill(strategyKey, state, {
+        exchangeName: order.exchangeName,
+        pair: order.symbol,
+        side: order.side,
+        amount: filled,
+        price,
+        fee,
+        orderId: placedOrder.id,
+      });
+    }
+    if (order.type === 'limit' && placedOrder.status !== 'closed') {
+      state.openOrders.push({
+        exchangeName: order.exchangeName,
+        accountLabel: order.accountLabel,
+        orderId: placedOrder.id,
+        symbol: order.symbol,
+        side: order.side,
+        amount: order.amount,
+        price: order.price,
+        filled,
+        fee,
+      });
+    }
+  }
+
+  async syncStrategy(strategyKey: string) {
+    const state = await this.getState(strategyKey);
+    state.lastSyncAt = Date.now();
+
+    const openOrders = [];
+    for (const trackedOrder of state.openOrders) {
+      try {
+        const exchange = this.exchangeInitService.getExchange(
+          trackedOrder.exchangeName,
+          trackedOrder.accountLabel,
+        );
+        const order = await exchange.fetchOrder(
+          trackedOrder.orderId,
+          trackedOrder.symbol,
+        );
+        const newFill = (order.filled || 0) - trackedOrder.filled;
+        if (newFill > 0) {
+          const price = order.average || trackedOrder.price;
+          // Fees are reported for the whole order, only the new part is recorded
+          const fee = getQuoteFee(order.fee, trackedOrder.symbol, price);
+          await this.applyFill(strategyKey, state, {
+            exchangeName: trackedOrder.exchangeName,
+            pair: trackedOrder.symbol,
+            side: trackedOrder.side,
+            amount: newFill,
+            price,
+            fee: Math.max(fee - trackedOrder.fee, 0),
+            orderId: trackedOrder.orderId,
+          });
+          trackedOrder.filled = order.filled;
+          trackedOrder.fee = Math.max(fee, trackedOrder.fee);
+        }
+        if (order.status === 'open') {
+          openOrders.push(trackedOrder);
+        }
+      } catch (error) {
+        // Keep counting the order as open until it can be checked
+        openOrders.push(trackedOrder);
+        this.logger.error(
+          `${strategyKey}: failed to refresh order ${trackedOrder.orderId}: ${error.message}`,
+        );
+      }
+    }
+    state.openOrders = openOrders;
+  }
+
+  async getRiskStatus(strategyKey: string) {
+    const state = await this.getState(strategyKey);
+    this.rollDay(state);
+    return {
+      limits: state.limits,
+      positions: state.positions,
+      openOrders: state.openOrders.length,
+      openNotional: this.getOpenNotional(state),
+      realizedPnl: state.realizedPnl,
+      peakPnl: state.peakPnl,
+      dailyPnl: state.dailyPnl,
+    };
+  }
+
+  reloadLimits(strategyKey: string) {
+    const state = this.states.get(strategyKey);
+    if (state) {
+      state.limits = null;
+    }
+  }
+
+  private async getState(strategyKey: string): Promise<StrategyRiskState> {
+    if (!this.states.has(strategyKey)) {
+      const state = await this.loadState(strategyKey);
+      // Another call may have loaded it while the fills were read
+      if (!this.states.has(strategyKey)) {
+        this.states.set(strategyKey, state);
+      }
+    }
+    const state = this.states.get(strategyKey);
+    if (!state.limits) {
+      const strategyInstance = await this.strategyInstanceRepository.findOne({
+        where: { strategyKey },
+      });
+      state.limits = mergeRiskLimits(
+        this.getGlobalLimits(),
+        strategyInstance?.parameters?.riskLimits,
+      );
+    }
+    return state;
+  }
+
+  // Replays the fills of the PnL ledger, so a restart doesn't reset the loss limits
+  private async loadState(strategyKey: string): Promise<StrategyRiskState> {
+    const state: StrategyRiskState = {
+      limits: null,
+      positions: {},
+      openOrders: [],
+      orderTimestamps: [],
+      realizedPnl: 0,
+      peakPnl: 0,
+      dailyPnl: 0,
+      day: this.getDay(),
+      lastSyncAt: 0,
+    };
+    const fills = await this.pnlService.getFills(strategyKey);
+    for (const fill of fills) {
+      const realizedPnl = this.applyFillToState(state, {
+        ...fill,
+        side: fill.side as 'buy' | 'sell',
+      });
+      if (new Date(fill.executedAt).toISOString().slice(0, 10) === state.day) {
+        state.dailyPnl += realizedPnl;
+      }
+    }
+    return state;
+  }
+
+  private async applyFill(
+    strategyKey: string,
+    state: StrategyRiskState,
+    fill: Omit<StrategyFillInput, 'strategyKey'>,
+  ) {
+    this.rollDay(state);
+    state.dailyPnl += this.applyFillToState(state, fill);
+
+    try {
+      await this.pnlService.recordFill({ strategyKey, ...fill });
+    } catch (error) {
+      this.logger.error(
+        `${strategyKey}: failed to record the fill of order ${fill.orderId}: ${error.message}`,
+      );
+    }
+  }
+
+  // Applies a fill to the position of its asset and the overall profit, returns the profit it realized net of its fee
+  private applyFillToState(
+    state: StrategyRiskState,
+    fill: Omit<StrategyFillInput, 'strategyKey'>,
+  ): number {
+    const asset = this.getAsset(fill.pair);
+    const position = state.positions[asset] || { amount: 0, averagePrice: 0 };
+    state.positions[asset] = position;
+
+    // The position only tracks the prices, the fees count against the profit
+    const realizedPnl =
+      applyFillToPosition(position, fill.side, fill.amount, fill.price) -
+      (fill.fee || 0);
+    state.realizedPnl += realizedPnl;
+    state.peakPnl = Math.max(state.peakPnl, state.realizedPnl);
+    return realizedPnl;
+  }
+
+  private rollDay(state: StrategyRiskState) {
+    const day = this.getDay();
+    if (state.day !== day) {
+      state.day = day;
+      state.dailyPnl = 0;
+    }
+  }
+
+  private getOpenNotional(state: StrategyRiskState): number {
+    return state.openOrders.reduce(
+      (total, order) => total + (order.amount - order.filled) * order.price,
+      0,
+    );
+  }
+
+  private async getMarketPrice(order: RiskOrder): Promise<number> {
+    const exchange = this.exchangeInitService.getExchange(
+      order.exchangeName,
+      order.accountLabel,
+    );
+    const ticker = await exchange.fetchTicker(order.symbol);
+    return ticker.last;
+  }
+
+  private getAsset(symbol: string): string {
+    return symbol.split('/')[0];
+  }
+
+  private getDay(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { StrategySchedulerService } from './scheduler.service';
+import { StrategyService } from './strategy.service';
+import { StrategyLifecycleService } from './lifecycle.service';
+import { StrategySchedule } from 'src/common/entities/strategy-schedule.entity';
+
+describe('StrategySchedulerService', () => {
+  let service: StrategySchedulerService;
+
+  const strategyKey = '1-client1-pureMarketMaking';
+  const mockStrategyService = {
+    getStrategyInstanceKey: jest.fn(),
+    rerunStrategy: jest.fn(),
+    stopStrategyForUser: jest.fn(),
+  };
+  const mockLifecycleService = {
+    transition: jest.fn().mockResolvedValue(true),
+  };
+  const mockStrategyScheduleRepository = {
+    find: jest.fn(),
+  };
+
+  const schedule = {
+    strategyKey,
+    cronWindow: '* 9-17 * * *',
+    enabled: true,
+  } as StrategySchedule;
+  const withinWindow = new Date('2024-12-04T10:00:00Z');
+  const outsideWindow = new Date('2024-12-04T20:00:00Z');
+  const instance = (status: string) => ({
+    strategyKey,
+    status,
+    userId: '1',
+    clientId: 'client1',
+    strategyType: 'pureMarketMaking',
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StrategySchedulerService,
+        { provide: StrategyService, useValue: mockStrategyService },
+        { provide: StrategyLifecycleService, useValue: mockLifecycleService },
+        {
+          provide: getRepositoryToken(StrategySchedule),
+          useValue: mockStrategyScheduleRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StrategySchedulerService>(StrategySchedulerService);
+  });
+
+  it('starts a stopped strategy that entered its window', async () => {
+    mockStrategyService.getStrategyInstanceKey.mockResolvedValue(
+      instance('stopped'),
+    );
+
+    await service.enforceSchedule(schedule, withinWindow);
+
+    expect(mockLifecycleService.transition).toHaveBeenCalledWith(
+      strategyKey,
+      'starting',
+      { actor: 'scheduler', reason: 'Within its schedule' },
+      'stopped',
+    );
+    expect(mockStrategyService.rerunStrategy).toHaveBeenCalledWith(strategyKey);
+  });
+
+  it('stops a running strategy that left its window', async () => {
+    mockStrategyService.getStrategyInstanceKey.mockResolvedValue(
+      instance('running'),
+    );
+
+    await service.enforceSchedule(schedule, outsideWindow);
+
+    expect(mockStrategyService.stopStrategyForUser).toHaveBeenCalledWith(
+      '1',
+      'client1',
+      'pureMarketMaking',
+      { actor: 'scheduler', reason: 'Outside of its schedule' },
+    );
+    expect(mockStrategyService.rerunStrategy).not.toHaveBeenCalled();
+  });
+
+  it('leaves strategies paused by the risk limits as they are', async () => {
+    mockStrategyService.getStrategyInstanceKey.mockResolvedValue(
+      instance('paused'),
+    );
+
+    await service.enforceSchedule(schedule, withinWindow);
+    await service.enforceSchedule(schedule, outsideWindow);
+
+    expect(mockLifecycleService.transition).not.toHaveBeenCalled();
+    expect(mockStrategyService.stopStrategyForUser).not.toHaveBeenCalled();
+  });
+
+  it('moves a strategy that fails to start to errored', async () => {
+    mockStrategyService.getStrategyInstanceKey.mockResolvedValue(
+      instance('created'),
+    );
+    mockStrategyService.rerunStrategy.mockRejectedValueOnce(
+      new Error('Exchange not found'),
+    );
+    mockStrategyScheduleRepository.find.mockResolvedValue([schedule]);
+    jest.useFakeTimers({ now: withinWindow, doNotFake: ['nextTick'] });
+
+    await service.enforceSchedules();
+    jest.useRealTimers();
+
+    expect(mockLifecycleService.transition).toHaveBeenLastCalledWith(
+      strategyKey,
+      'errored',
+      { actor: 'scheduler', reason: 'Failed to start: Exchange not found' },
+    );
+  });
+});
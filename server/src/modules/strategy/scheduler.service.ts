@@ -0,0 +1,109 @@
+/**
+ * StrategySchedulerService
+ *
+ * This service runs the strategies that have a schedule only within their window. Every minute it starts the scheduled
+ * strategies that entered their window and stops, cancelling their orders, the ones that left it.
+ *
+ * Dependencies:
+ * - StrategyService: Service the strategies are started and stopped through.
+ * - StrategyLifecycleService: Service the scheduled starts are claimed through.
+ * - Repository<StrategySchedule>: Injected repository for the schedules of the strategies.
+ * - Helpers: schedule for the window of a schedule.
+ *
+ * Methods:
+ *
+ * - enforceSchedules(): Scheduled task starting and stopping the scheduled strategies every minute.
+ *
+ * - enforceSchedule(schedule: StrategySchedule, now: Date): Starts or stops a strategy depending on whether it is within its window.
+ *
+ * Notes:
+ * - A strategy is started within its window when it was created or stopped, a strategy that errored or was paused
+ *   by the risk limits is left as it is.
+ * - A strategy stopped by hand within its window is started again, the schedule has to be disabled to keep it stopped.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { CustomLogger } from 'src/modules/logger/logger.service';
+import { StrategyService } from './strategy.service';
+import { StrategyLifecycleService } from './lifecycle.service';
+import { StrategySchedule } from 'src/common/entities/strategy-schedule.entity';
+import { isWithinStrategySchedule } from 'src/common/helpers/strategy/schedule';
+
+@Injectable()
+export class StrategySchedulerService {
+  private readonly logger = new CustomLogger(StrategySchedulerService.name);
+
+  constructor(
+    private strategyService: StrategyService,
+    private lifecycleService: StrategyLifecycleService,
+    @InjectRepository(StrategySchedule)
+    private strategyScheduleRepository: Repository<StrategySchedule>,
+  ) {}
+
+  @Cron('0 * * * * *') // Every minute
+  async enforceSchedules() {
+    const schedules = await this.strategyScheduleRepository.find({
+      where: { enabled: true },
+    });
+    const now = new Date();
+    for (const schedule of schedules) {
+      try {
+        await this.enforceSchedule(schedule, now);
+      } catch (error) {
+        this.logger.error(
+          `Failed to enforce the schedule of strategy ${schedule.strategyKey}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  async enforceSchedule(schedule: StrategySchedule, now: Date) {
+    const { strategyKey } = schedule;
+    const strategyInstance = await this.strategyService.getStrategyInstanceKey(
+      strategyKey,
+    );
+    if (!strategyInstance) {
+      this.logger.warn(`Scheduled strategy ${strategyKey} not found.`);
+      return;
+    }
+    const { status, userId, clientId, strategyType } = strategyInstance;
+
+    if (!isWithinStrategySchedule(schedule, now)) {
+      if (status === 'running') {
+        await this.strategyService.stopStrategyForUser(
+          userId,
+          clientId,
+          strategyType,
+          { actor: 'scheduler', reason: 'Outside of its schedule' },
+        );
+      }
+      return;
+    }
+    if (status !== 'created' && status !== 'stopped') {
+      return;
+    }
+
+    // Claim the instance, so it's only started once
+    const claimed = await this.lifecycleService.transition(
+      strategyKey,
+      'starting',
+      { actor: 'scheduler', reason: 'Within its schedule' },
+      status,
+    );
+    if (!claimed) {
+      return;
+    }
+    try {
+      await this.strategyService.rerunStrategy(strategyKey);
+    } catch (error) {
+      await this.lifecycleService.transition(strategyKey, 'errored', {
+        actor: 'scheduler',
+        reason: `Failed to start: ${error.message}`,
+      });
+      throw error;
+    }
+  }
+}
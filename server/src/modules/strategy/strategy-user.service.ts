@@ -272,6 +272,16 @@ export class StrategyUserService {
           amountChangePerLayer: Number(mm.amountChangePerLayer),
           ceilingPrice: Number(mm.ceilingPrice),
           floorPrice: Number(mm.floorPrice),
+          priceTolerance: mm.priceTolerance
+            ? Number(mm.priceTolerance)
+            : undefined,
+          amountTolerance: mm.amountTolerance
+            ? Number(mm.amountTolerance)
+            : undefined,
+          hangingOrderTimeout: mm.hangingOrderTimeout
+            ? Number(mm.hangingOrderTimeout)
+            : undefined,
+          maxPriceAge: mm.maxPriceAge ? Number(mm.maxPriceAge) : undefined,
         });
       });
     }
@@ -3,11 +3,16 @@ import { StrategyController } from './strategy.controller';
 import { StrategyService } from './strategy.service';
 import { StrategyUserService } from './strategy-user.service';
 import { AdminService } from '../admin/admin.service';
+import { BacktestService } from './backtest.service';
 
 const mockStrategyService = {
   // mock methods of StrategyService that are used by StrategyController
 };
 const mockStrategyUserService = {};
+const mockBacktestService = {
+  runBacktest: jest.fn(),
+  getBacktestResult: jest.fn(),
+};
 
 describe('StrategyController', () => {
   let controller: StrategyController;
@@ -30,6 +35,10 @@ describe('StrategyController', () => {
           provide: StrategyUserService,
           useValue: mockStrategyUserService, // Use the mock StrategyService here
         },
+        {
+          provide: BacktestService,
+          useValue: mockBacktestService,
+        },
       ],
     }).compile();
 
@@ -6,6 +6,7 @@ import {
   HttpCode,
   HttpStatus,
   Param,
+  Patch,
   Post,
   Query,
 } from '@nestjs/common';
@@ -20,15 +21,24 @@ import {
 import { StrategyUserService } from 'src/modules/strategy/strategy-user.service';
 import { MarketMakingHistory } from 'src/common/entities/mm-order.entity';
 import { ArbitrageHistory } from 'src/common/entities/arbitrage-order.entity';
+import { TriangularArbitrageHistory } from 'src/common/entities/triangular-arbitrage-order.entity';
 import {
   ArbitrageStrategyDto,
+  AvellanedaMarketMakingStrategyDto,
+  BacktestDto,
+  CrossExchangeMarketMakingStrategyDto,
   ExecuteVolumeStrategyDto,
+  GridStrategyDto,
   JoinStrategyDto,
   PureMarketMakingStrategyDto,
   StopVolumeStrategyDto,
+  TriangularArbitrageStrategyDto,
 } from './strategy.dto';
 import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
 import { AdminService } from '../admin/admin.service';
+import { BacktestService } from './backtest.service';
+import { BacktestResult } from 'src/common/entities/backtest-result.entity';
+import { StrategyKey } from 'src/common/helpers/strategyKey';
 
 @ApiTags('strategy')
 @Controller('strategy')
@@ -37,6 +47,7 @@ export class StrategyController {
     private readonly strategyService: StrategyService,
     private readonly strategyUserSerive: StrategyUserService,
     private readonly adminService: AdminService,
+    private readonly backtestService: BacktestService,
   ) {}
 
   @Get('/all')
@@ -282,6 +293,276 @@ export class StrategyController {
     );
   }
 
+  @Post('/execute-avellaneda-market-making')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Execute inventory-aware (Avellaneda–Stoikov) market making',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The avellaneda market making strategy has been initiated for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async executeAvellanedaMarketMaking(
+    @Body() strategyParamsDto: AvellanedaMarketMakingStrategyDto,
+  ) {
+    return this.strategyService.executeAvellanedaMarketMakingStrategy(
+      strategyParamsDto,
+    );
+  }
+
+  @Get('/stop-avellaneda-market-making')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop avellaneda market making for a user' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiQuery({ name: 'clientId', type: String, description: 'Client ID' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The avellaneda market making strategy has been stopped for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async stopAvellanedaMarketMaking(
+    @Query('userId') userId: string,
+    @Query('clientId') clientId: string,
+  ) {
+    return this.strategyService.stopStrategyForUser(
+      userId,
+      clientId,
+      'avellanedaMarketMaking',
+    );
+  }
+
+  @Post('/execute-cross-exchange-market-making')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Execute cross exchange market making with hedging for a user',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The cross exchange market making strategy has been initiated for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async executeCrossExchangeMarketMaking(
+    @Body() strategyParamsDto: CrossExchangeMarketMakingStrategyDto,
+  ) {
+    return this.strategyService.executeCrossExchangeMarketMakingStrategy(
+      strategyParamsDto,
+    );
+  }
+
+  @Get('/stop-cross-exchange-market-making')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop cross exchange market making for a user' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiQuery({ name: 'clientId', type: String, description: 'Client ID' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The cross exchange market making strategy has been stopped for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async stopCrossExchangeMarketMaking(
+    @Query('userId') userId: string,
+    @Query('clientId') clientId: string,
+  ) {
+    return this.strategyService.stopStrategyForUser(
+      userId,
+      clientId,
+      'crossExchangeMarketMaking',
+    );
+  }
+
+  @Post('/execute-grid')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Execute grid strategy for a user' })
+  @ApiResponse({
+    status: 200,
+    description: 'The grid strategy has been initiated for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async executeGrid(@Body() strategyParamsDto: GridStrategyDto) {
+    return this.strategyService.executeGridStrategy(strategyParamsDto);
+  }
+
+  @Get('/stop-grid')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop grid strategy for a user' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiQuery({ name: 'clientId', type: String, description: 'Client ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The grid strategy has been stopped for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async stopGrid(
+    @Query('userId') userId: string,
+    @Query('clientId') clientId: string,
+  ) {
+    return this.strategyService.stopStrategyForUser(userId, clientId, 'grid');
+  }
+
+  @Get('/grid/profit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get the realized profit of every grid' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiQuery({ name: 'clientId', type: String, description: 'Client ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Round trips and realized profit per grid, and in total.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async getGridProfits(
+    @Query('userId') userId: string,
+    @Query('clientId') clientId: string,
+  ) {
+    return this.strategyService.getGridProfits(userId, clientId);
+  }
+
+  @Get('/risk')
+  @ApiOperation({
+    summary: 'Get the risk limits, positions and realized profit of a strategy',
+  })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiQuery({ name: 'clientId', type: String, description: 'Client ID' })
+  @ApiQuery({
+    name: 'strategyType',
+    type: String,
+    description: 'Strategy type, e.g. pureMarketMaking',
+  })
+  @ApiResponse({ status: 200, description: 'Risk status of the strategy.' })
+  async getStrategyRiskStatus(
+    @Query('userId') userId: string,
+    @Query('clientId') clientId: string,
+    @Query('strategyType') strategyType: StrategyKey['type'],
+  ) {
+    return this.strategyService.getStrategyRiskStatus(
+      userId,
+      clientId,
+      strategyType,
+    );
+  }
+
+  @Get('/types')
+  @ApiOperation({
+    summary: 'Get the strategy types with the JSON schema of their parameters',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'The registered strategy types.',
+  })
+  getStrategyTypes() {
+    return this.strategyService.getStrategyTypes();
+  }
+
+  @Get('/timeline/:strategyKey')
+  @ApiOperation({
+    summary:
+      'Get the status transitions, parameter changes and errors of a strategy',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Events of the strategy, oldest first.',
+  })
+  async getStrategyTimeline(@Param('strategyKey') strategyKey: string) {
+    return this.strategyService.getStrategyTimeline(strategyKey);
+  }
+
+  @Patch('/:strategyKey/parameters')
+  @ApiOperation({
+    summary: 'Update the parameters of a strategy without restarting it',
+  })
+  @ApiBody({
+    description:
+      'Parameters to change, validated against the DTO of the strategy type',
+    schema: { type: 'object', additionalProperties: true },
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The new version of the parameters, applied from the next tick of a running strategy.',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid parameters.' })
+  @ApiResponse({ status: 404, description: 'Strategy not found.' })
+  async updateStrategyParameters(
+    @Param('strategyKey') strategyKey: string,
+    @Body() parameters: Record<string, any>,
+  ) {
+    return await this.strategyService.updateStrategyParameters(
+      strategyKey,
+      parameters,
+    );
+  }
+
+  @Get('/:strategyKey/parameters/versions')
+  @ApiOperation({ summary: 'Get the parameter versions of a strategy' })
+  @ApiResponse({
+    status: 200,
+    description: 'Parameter versions of the strategy, oldest first.',
+  })
+  async getStrategyParameterVersions(
+    @Param('strategyKey') strategyKey: string,
+  ) {
+    return await this.strategyService.getStrategyParameterVersions(strategyKey);
+  }
+
+  @Post('/execute-triangular-arbitrage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Execute triangular arbitrage within a single exchange for a user',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The triangular arbitrage strategy has been initiated for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async executeTriangularArbitrage(
+    @Body() strategyParamsDto: TriangularArbitrageStrategyDto,
+  ) {
+    return this.strategyService.startTriangularArbitrageStrategyForUser(
+      strategyParamsDto,
+    );
+  }
+
+  @Get('/stop-triangular-arbitrage')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Stop triangular arbitrage for a user' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiQuery({ name: 'clientId', type: String, description: 'Client ID' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'The triangular arbitrage strategy has been stopped for the user.',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async stopTriangularArbitrage(
+    @Query('userId') userId: string,
+    @Query('clientId') clientId: string,
+  ) {
+    return this.strategyService.stopStrategyForUser(
+      userId,
+      clientId,
+      'triangularArbitrage',
+    );
+  }
+
+  @Get('/triangular-arbitrage/history/:userId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get all triangular arbitrage cycles by user' })
+  @ApiResponse({
+    status: 200,
+    description: 'All triangular arbitrage cycles of user, latest first',
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async getUserTriangularArbitrageHistory(
+    @Param('userId') userId: string,
+  ): Promise<TriangularArbitrageHistory[]> {
+    return await this.strategyService.getUserTriangularArbitrageHistory(userId);
+  }
+
   @Post('/execute-volume-strategy')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Execute volume strategy' })
@@ -340,4 +621,35 @@ export class StrategyController {
   async rerunStrategy(@Body('strategyKey') strategyKey: string) {
     return await this.strategyService.rerunStrategy(strategyKey);
   }
+
+  @Post('backtest')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Backtest a pure market making or arbitrage parameter set',
+  })
+  @ApiBody({
+    description: 'Strategy parameters and the recorded market data to replay',
+    type: BacktestDto,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'The saved backtest result with its report',
+    type: BacktestResult,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request.' })
+  async runBacktest(@Body() backtestDto: BacktestDto) {
+    return await this.backtestService.runBacktest(backtestDto);
+  }
+
+  @Get('backtest/:id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get a saved backtest result' })
+  @ApiResponse({
+    status: 200,
+    description: 'The saved backtest result with its report',
+    type: BacktestResult,
+  })
+  async getBacktestResult(@Param('id') id: string) {
+    return await this.backtestService.getBacktestResult(id);
+  }
 }
@@ -1,7 +1,62 @@
 // strategy.dto.ts
 
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { PriceSourceType } from 'src/common/enum/pricesourcetype';
+import {
+  BacktestSnapshot,
+  BacktestStrategyType,
+} from 'src/common/types/backtest/backtest';
+import {
+  ArbitrageLegPolicy,
+  GridState,
+} from 'src/common/types/strategy/strategy';
+import { GridSpacing } from 'src/common/helpers/strategy/grid';
+
+export class RiskLimitsDto {
+  @ApiPropertyOptional({
+    description: 'Maximum net base amount held of any asset, long or short',
+    example: 1,
+  })
+  maxPositionPerAsset?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum quote value of the open orders',
+    example: 10000,
+  })
+  maxOpenNotional?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum realized loss in quote since 00:00 UTC',
+    example: 200,
+  })
+  maxDailyLoss?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum drop in quote of the realized profit from its peak',
+    example: 500,
+  })
+  maxDrawdown?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of orders placed per minute',
+    example: 60,
+  })
+  maxOrdersPerMinute?: number;
+}
+
+export class FeeRatesDto {
+  @ApiPropertyOptional({
+    description: 'Maker fee rate as a decimal',
+    example: 0.001,
+  })
+  maker?: number;
+
+  @ApiPropertyOptional({
+    description: 'Taker fee rate as a decimal',
+    example: 0.001,
+  })
+  taker?: number;
+}
 
 export class JoinStrategyDto {
   @ApiProperty({ description: 'User ID', example: 'user123' })
@@ -67,18 +122,104 @@ export class ArbitrageStrategyDto {
   })
   minProfitability: number;
 
-  @ApiProperty({
+  @ApiPropertyOptional({
     example: 'binance',
-    description: 'Name of the first exchange.',
+    description: 'Name of the first exchange, when no exchangeNames are given.',
   })
-  exchangeAName: string;
+  exchangeAName?: string;
 
-  @ApiProperty({ example: 'mexc', description: 'Name of the second exchange.' })
-  exchangeBName: string;
+  @ApiPropertyOptional({
+    example: 'mexc',
+    description:
+      'Name of the second exchange, when no exchangeNames are given.',
+  })
+  exchangeBName?: string;
+
+  @ApiPropertyOptional({
+    example: ['binance', 'mexc', 'okx', 'bitfinex'],
+    description:
+      'Exchanges to route between, every tick trades on the buy and sell pair with the highest net spread. Replaces exchangeAName and exchangeBName.',
+    type: [String],
+  })
+  exchangeNames?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Label of the exchange account the strategy trades on, read-only accounts are refused',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
   @ApiProperty({ example: 10, description: 'interval to run arbitrage scan' })
   checkIntervalSeconds?: number;
   @ApiProperty({ example: 1, description: 'Max number of orders' })
   maxOpenOrders?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Seconds the legs of a trade may stay unfilled before the unbalanced one is repaired',
+    example: 30,
+    default: 30,
+  })
+  legTimeoutSeconds?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'How a leg left unbalanced is repaired: closed at market, the missing leg reposted at a worse price, or only alerted',
+    enum: ['marketClose', 'repost', 'alert'],
+    default: 'marketClose',
+  })
+  legPolicy?: ArbitrageLegPolicy;
+
+  @ApiPropertyOptional({
+    description:
+      'Relative price concession of a reposted leg, falls back to closing at market when it does not fill',
+    example: 0.002,
+    default: 0.002,
+  })
+  repostSlippage?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Fee rates of the account on the first exchange, overriding the ones read from the exchange',
+    type: FeeRatesDto,
+  })
+  exchangeAFees?: FeeRatesDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Fee rates of the account on the second exchange, overriding the ones read from the exchange',
+    type: FeeRatesDto,
+  })
+  exchangeBFees?: FeeRatesDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Fee rates of the account by exchange name, overriding the ones read from the exchange',
+    example: { binance: { maker: 0.001, taker: 0.001 } },
+  })
+  exchangeFees?: Record<string, FeeRatesDto>;
+
+  @ApiPropertyOptional({
+    description: 'Fee the opportunities are netted of',
+    enum: ['taker', 'maker'],
+    default: 'taker',
+  })
+  feeType?: 'taker' | 'maker';
+
+  @ApiPropertyOptional({
+    description:
+      'Number of trades the withdrawal fees of rebalancing inventory between the exchanges are amortized over, unset to ignore them',
+    example: 20,
+  })
+  transferCostTrades?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Risk limits of this strategy, overriding the global ones. Breaching one pauses the strategy',
+    type: RiskLimitsDto,
+  })
+  riskLimits?: RiskLimitsDto;
 }
 
 export class PureMarketMakingStrategyDto {
@@ -94,6 +235,14 @@ export class PureMarketMakingStrategyDto {
   @ApiProperty({ description: 'Exchange name', example: 'binance' })
   exchangeName: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Label of the exchange account the strategy trades on, read-only accounts are refused',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
   @ApiProperty({ description: 'Bid spread as a percentage', example: 0.1 })
   bidSpread: number;
 
@@ -117,11 +266,64 @@ export class PureMarketMakingStrategyDto {
 
   @ApiProperty({
     description:
-      'Price source type (mid_price, best_bid, best_ask, last_price)',
+      'Price source type (mid_price, best_bid, best_ask, last_price, microprice, external_exchange, volume_weighted_index, coingecko)',
+    enum: PriceSourceType,
     example: 'mid_price',
   })
   priceSourceType: PriceSourceType;
 
+  @ApiPropertyOptional({
+    description:
+      'Exchange the external_exchange price source reads the mid price of',
+    example: 'binance',
+  })
+  referenceExchangeName?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Pair the external_exchange and volume_weighted_index price sources read, the traded pair by default',
+    example: 'BTC/USDT',
+  })
+  referencePair?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Exchanges whose last prices the volume_weighted_index price source weights by their 24h volume',
+    example: ['binance', 'okx', 'mexc'],
+    type: [String],
+  })
+  indexExchangeNames?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'CoinGecko id of the base asset for the coingecko price source',
+    example: 'bitcoin',
+  })
+  coingeckoId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Currency of the coingecko price source',
+    example: 'usd',
+    default: 'usd',
+  })
+  coingeckoCurrency?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Milliseconds after which a price is stale, by default 60000 and 300000 for coingecko',
+    example: 30000,
+  })
+  maxPriceAge?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Price sources tried in order when the price source fails or its price is stale',
+    enum: PriceSourceType,
+    isArray: true,
+    example: ['external_exchange', 'mid_price'],
+  })
+  fallbackPriceSourceTypes?: PriceSourceType[];
+
   @ApiProperty({
     description:
       'Amount that increases on each layer, Set to 0 for same amount',
@@ -147,6 +349,414 @@ export class PureMarketMakingStrategyDto {
     example: '0',
   })
   floorPrice?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'How orders are refreshed: replace cancels and re-places every layer, diff only replaces the layers that drifted out of tolerance',
+    example: 'diff',
+    default: 'replace',
+  })
+  refreshMode?: 'replace' | 'diff';
+
+  @ApiPropertyOptional({
+    description:
+      'Relative price drift an existing order may have before it is replaced (diff mode)',
+    example: 0.001,
+  })
+  priceTolerance?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Relative size drift an existing order may have before it is replaced (diff mode)',
+    example: 0.05,
+  })
+  amountTolerance?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Keep the opposite side orders alive after one side fills (diff mode)',
+    example: false,
+  })
+  hangingOrdersEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'How long hanging orders are kept alive in milliseconds',
+    example: 60000,
+  })
+  hangingOrderTimeout?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Scale the spreads and layer spacing with the short-term realized volatility, and shrink the orders when it spikes',
+    example: true,
+    default: false,
+  })
+  volatilityAdaptive?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'What the volatility is measured on: the mid price of the watched order book on each refresh, or the closes of candles',
+    enum: ['orderBook', 'ohlcv'],
+    default: 'orderBook',
+  })
+  volatilitySource?: 'orderBook' | 'ohlcv';
+
+  @ApiPropertyOptional({
+    description: 'Number of price returns the volatility is measured over',
+    example: 30,
+    default: 30,
+  })
+  volatilityWindow?: number;
+
+  @ApiPropertyOptional({
+    description: 'Candle timeframe of the ohlcv volatility source',
+    example: '1m',
+    default: '1m',
+  })
+  volatilityTimeframe?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Volatility of the price returns the configured spreads are meant for, the spreads scale with the volatility relative to it',
+    example: 0.001,
+    default: 0.001,
+  })
+  targetVolatility?: number;
+
+  @ApiPropertyOptional({
+    description: 'Lowest spread the volatility can scale a spread down to',
+    example: 0.0005,
+  })
+  minSpread?: number;
+
+  @ApiPropertyOptional({
+    description: 'Highest spread the volatility can scale a spread up to',
+    example: 0.01,
+  })
+  maxSpread?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Share of the order amount kept when the volatility is above target, the orders shrink with the volatility down to it',
+    example: 0.25,
+    default: 0.25,
+  })
+  minOrderSizeRatio?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Risk limits of this strategy, overriding the global ones. Breaching one pauses the strategy',
+    type: RiskLimitsDto,
+  })
+  riskLimits?: RiskLimitsDto;
+}
+
+export class AvellanedaMarketMakingStrategyDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({ description: 'Client ID' })
+  clientId: string;
+
+  @ApiProperty({ description: 'Trading pair', example: 'BTC/USDT' })
+  pair: string;
+
+  @ApiProperty({ description: 'Exchange name', example: 'binance' })
+  exchangeName: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Label of the exchange account the strategy trades on, read-only accounts are refused',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
+  @ApiProperty({ description: 'Order amount', example: 0.1 })
+  orderAmount: number;
+
+  @ApiProperty({
+    description: 'Order refresh time in milliseconds',
+    example: 15000,
+  })
+  orderRefreshTime: number;
+
+  @ApiProperty({
+    description: 'Number of orders you want to place on both sides',
+    example: 1,
+  })
+  numberOfLayers: number;
+
+  @ApiProperty({
+    description:
+      'Share of the portfolio value to hold in the base asset (0 to 1)',
+    example: 0.5,
+  })
+  targetInventoryRatio: number;
+
+  @ApiProperty({
+    description:
+      'Base asset allocated to the strategy, its inventory moves from there with its own fills only',
+    example: 0.5,
+  })
+  baseInventory: number;
+
+  @ApiProperty({
+    description:
+      'Quote asset allocated to the strategy, its inventory moves from there with its own fills only',
+    example: 30000,
+  })
+  quoteInventory: number;
+
+  @ApiProperty({
+    description:
+      'Risk aversion (gamma), higher values skew quotes harder as inventory drifts',
+    example: 0.5,
+  })
+  riskAversion: number;
+
+  @ApiProperty({
+    description:
+      'Order book depth factor (kappa), higher values mean a more liquid book and tighter spreads',
+    example: 1.5,
+  })
+  orderBookDepth: number;
+
+  @ApiProperty({
+    description:
+      'Number of mid price samples (one per refresh) used to measure volatility',
+    example: 30,
+  })
+  volatilityWindow: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Minimum distance of the first layer from the reservation price, as a fraction',
+    example: 0.001,
+  })
+  minSpread?: number;
+
+  @ApiProperty({
+    description:
+      'Amount that increases on each layer, Set to 0 for same amount',
+    example: 1,
+  })
+  amountChangePerLayer: number;
+
+  @ApiProperty({
+    description:
+      'How the amountChangePerLayer should be interpreted (fixed, percentage)',
+    example: 'percentage',
+  })
+  amountChangeType: 'fixed' | 'percentage';
+
+  @ApiPropertyOptional({
+    description: 'Ceiling Price, No orders above this price',
+    example: '0',
+  })
+  ceilingPrice?: number;
+
+  @ApiPropertyOptional({
+    description: 'Floor price, No orders below this price.',
+    example: '0',
+  })
+  floorPrice?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Risk limits of this strategy, overriding the global ones. Breaching one pauses the strategy',
+    type: RiskLimitsDto,
+  })
+  riskLimits?: RiskLimitsDto;
+}
+
+export class CrossExchangeMarketMakingStrategyDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({ description: 'Client ID' })
+  clientId: string;
+
+  @ApiProperty({ description: 'Trading pair', example: 'BTC/USDT' })
+  pair: string;
+
+  @ApiProperty({
+    description: 'Exchange the maker orders are quoted on',
+    example: 'lbank',
+  })
+  makerExchangeName: string;
+
+  @ApiProperty({
+    description:
+      'Deep exchange the maker fills are hedged on with taker orders',
+    example: 'binance',
+  })
+  hedgeExchangeName: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Label of the exchange account the strategy trades on, read-only accounts are refused',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
+  @ApiProperty({ description: 'Order amount', example: 0.1 })
+  orderAmount: number;
+
+  @ApiProperty({
+    description:
+      'Minimum profitability of a maker fill against its hedge, as a fraction',
+    example: 0.003,
+  })
+  minProfitability: number;
+
+  @ApiProperty({
+    description: 'Order refresh time in milliseconds',
+    example: 15000,
+  })
+  orderRefreshTime: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Risk limits of this strategy, overriding the global ones. Breaching one pauses the strategy',
+    type: RiskLimitsDto,
+  })
+  riskLimits?: RiskLimitsDto;
+}
+
+export class TriangularArbitrageStrategyDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({ description: 'Client ID' })
+  clientId: string;
+
+  @ApiProperty({ description: 'Exchange name', example: 'binance' })
+  exchangeName: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Label of the exchange account the strategy trades on, read-only accounts are refused',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
+  @ApiProperty({
+    description: 'Currency every cycle starts and ends in',
+    example: 'USDT',
+  })
+  startCurrency: string;
+
+  @ApiProperty({
+    description: 'Amount of the start currency traded per cycle',
+    example: 100,
+  })
+  amountToTrade: number;
+
+  @ApiProperty({
+    description: 'Minimum profitability of a cycle after fees, as a fraction',
+    example: 0.002,
+  })
+  minProfitability: number;
+
+  @ApiProperty({ description: 'Check interval in seconds', example: 10 })
+  checkIntervalSeconds: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Currencies the cycles may go through, all currencies of the exchange when omitted',
+    example: ['BTC', 'ETH', 'BNB'],
+  })
+  currencies?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of discovered cycles watched and evaluated',
+    example: 50,
+  })
+  maxCycles?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Risk limits of this strategy, overriding the global ones. Breaching one pauses the strategy',
+    type: RiskLimitsDto,
+  })
+  riskLimits?: RiskLimitsDto;
+}
+
+export class GridStrategyDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({ description: 'Client ID' })
+  clientId: string;
+
+  @ApiProperty({ description: 'Trading pair', example: 'BTC/USDT' })
+  pair: string;
+
+  @ApiProperty({ description: 'Exchange name', example: 'binance' })
+  exchangeName: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Label of the exchange account the strategy trades on, read-only accounts are refused',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
+  @ApiProperty({ description: 'Lowest price of the grid', example: 60000 })
+  lowerPrice: number;
+
+  @ApiProperty({ description: 'Highest price of the grid', example: 70000 })
+  upperPrice: number;
+
+  @ApiProperty({
+    description: 'Number of grids between the lower and upper price',
+    example: 10,
+  })
+  gridCount: number;
+
+  @ApiProperty({
+    description:
+      'Grid spacing (arithmetic for equal price steps, geometric for equal ratios)',
+    example: 'arithmetic',
+  })
+  spacing: GridSpacing;
+
+  @ApiProperty({ description: 'Order amount of every grid', example: 0.001 })
+  amountPerGrid: number;
+
+  @ApiProperty({ description: 'Check interval in seconds', example: 10 })
+  checkIntervalSeconds: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Price below the grid at which orders are canceled and the grid inventory sold',
+    example: 58000,
+  })
+  stopLossPrice?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Price above the grid at which orders are canceled and the grid inventory sold',
+    example: 72000,
+  })
+  takeProfitPrice?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Grid orders and realized profit, maintained by the service so a rerun resumes the grid',
+  })
+  gridState?: GridState;
+
+  @ApiPropertyOptional({
+    description:
+      'Risk limits of this strategy, overriding the global ones. Breaching one pauses the strategy',
+    type: RiskLimitsDto,
+  })
+  riskLimits?: RiskLimitsDto;
 }
 
 export class ExecuteVolumeStrategyDto {
@@ -182,3 +792,65 @@ export class StopVolumeStrategyDto {
   @ApiProperty({ description: 'Client ID' })
   clientId: string;
 }
+
+export class BacktestDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({ description: 'Client ID' })
+  clientId: string;
+
+  @ApiProperty({
+    description: 'Strategy to backtest (pureMarketMaking, arbitrage)',
+    example: 'pureMarketMaking',
+  })
+  strategyType: BacktestStrategyType;
+
+  @ApiPropertyOptional({
+    description: 'Parameters for pure market making (required for it)',
+    type: PureMarketMakingStrategyDto,
+  })
+  marketMakingParams?: PureMarketMakingStrategyDto;
+
+  @ApiPropertyOptional({
+    description: 'Parameters for arbitrage (required for it)',
+    type: ArbitrageStrategyDto,
+  })
+  arbitrageParams?: ArbitrageStrategyDto;
+
+  @ApiProperty({
+    description:
+      'Recorded order books and trades ordered by timestamp, keyed by exchange name',
+    example: [
+      {
+        timestamp: 1700000000000,
+        orderBooks: {
+          binance: {
+            bids: [[100, 1]],
+            asks: [[101, 1]],
+          },
+        },
+        trades: { binance: [{ price: 100.5, amount: 0.2, side: 'buy' }] },
+      },
+    ],
+  })
+  snapshots: BacktestSnapshot[];
+
+  @ApiProperty({ description: 'Starting base asset balance', example: 1 })
+  initialBaseBalance: number;
+
+  @ApiProperty({ description: 'Starting quote asset balance', example: 1000 })
+  initialQuoteBalance: number;
+
+  @ApiPropertyOptional({
+    description: 'Maker fee rate as a decimal',
+    example: 0.001,
+  })
+  makerFee?: number;
+
+  @ApiPropertyOptional({
+    description: 'Taker fee rate as a decimal',
+    example: 0.001,
+  })
+  takerFee?: number;
+}
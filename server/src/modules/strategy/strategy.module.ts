@@ -16,12 +16,27 @@ import {
 } from 'src/common/entities/strategy.entity';
 import { ConfigModule } from '@nestjs/config';
 import { ArbitrageHistory } from 'src/common/entities/arbitrage-order.entity';
+import { TriangularArbitrageHistory } from 'src/common/entities/triangular-arbitrage-order.entity';
 import { MarketMakingHistory } from 'src/common/entities/mm-order.entity';
 import { ExchangeInitModule } from '../exchangeInit/exchangeInit.module';
+import { MarketdataModule } from '../marketdata/marketdata.module';
+import { CoingeckoModule } from '../coingecko/coingecko.module';
 import { ExchangeInitService } from '../exchangeInit/exchangeInit.service';
 import { AlpacaStratService } from './alpacastrat.service';
 import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
 import { AdminModule } from '../admin/admin.module';
+import { BacktestService } from './backtest.service';
+import { RiskService } from './risk.service';
+import { FeeService } from './fee.service';
+import { PriceSourceService } from './price-source.service';
+import { StrategyLifecycleService } from './lifecycle.service';
+import { StrategySchedulerService } from './scheduler.service';
+import { StrategyRegistryService } from './registry.service';
+import { BigoneService } from '../mixin/rebalance/bigone/bigone.service';
+import { BacktestResult } from 'src/common/entities/backtest-result.entity';
+import { StrategyEvent } from 'src/common/entities/strategy-event.entity';
+import { StrategyParameterVersion } from 'src/common/entities/strategy-parameter-version.entity';
+import { StrategySchedule } from 'src/common/entities/strategy-schedule.entity';
 
 @Module({
   imports: [
@@ -29,6 +44,8 @@ import { AdminModule } from '../admin/admin.module';
     PerformanceModule,
     LoggerModule,
     ExchangeInitModule,
+    MarketdataModule,
+    CoingeckoModule,
     ConfigModule,
     AdminModule,
     TypeOrmModule.forFeature([
@@ -37,7 +54,12 @@ import { AdminModule } from '../admin/admin.module';
       StrategyInstance,
       PaymentState,
       ArbitrageHistory,
+      TriangularArbitrageHistory,
       MarketMakingHistory,
+      BacktestResult,
+      StrategyEvent,
+      StrategyParameterVersion,
+      StrategySchedule,
     ]),
   ],
   controllers: [StrategyController],
@@ -47,6 +69,14 @@ import { AdminModule } from '../admin/admin.module';
     StrategyUserRepository,
     ExchangeInitService,
     AlpacaStratService,
+    BacktestService,
+    RiskService,
+    FeeService,
+    PriceSourceService,
+    StrategyLifecycleService,
+    StrategySchedulerService,
+    StrategyRegistryService,
+    BigoneService,
   ],
   exports: [StrategyService, StrategyUserService, StrategyUserRepository],
 })
@@ -2,17 +2,39 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { StrategyService } from './strategy.service';
 import { TradeService } from '../trade/trade.service';
 import { PerformanceService } from '../performance/performance.service';
+import { PnlService } from '../performance/pnl.service';
 import { CustomLogger } from '../logger/logger.service';
 import { InternalServerErrorException } from '@nestjs/common';
 import * as ccxt from 'ccxt';
 import { PriceSourceType } from 'src/common/enum/pricesourcetype';
-import { PureMarketMakingStrategyDto } from './strategy.dto';
+import {
+  ArbitrageStrategyDto,
+  PureMarketMakingStrategyDto,
+} from './strategy.dto';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { MarketMakingHistory } from 'src/common/entities/mm-order.entity';
 import { ArbitrageHistory } from 'src/common/entities/arbitrage-order.entity';
+import { TriangularArbitrageHistory } from 'src/common/entities/triangular-arbitrage-order.entity';
 import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
 import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
 import { AdminService } from '../admin/admin.service';
+import { RiskService } from './risk.service';
+import { FeeService } from './fee.service';
+import { PriceSourceService } from './price-source.service';
+import { StrategyLifecycleService } from './lifecycle.service';
+import { StrategyRegistryService } from './registry.service';
+import { OrderBookHubService } from '../marketdata/orderbook-hub.service';
+import {
+  TriangularCycle,
+  TriangularCycleEvaluation,
+} from 'src/common/helpers/strategy/triangularArbitrage';
+import { GridState } from 'src/common/types/strategy/strategy';
+import { calculateRealizedVolatility } from 'src/common/helpers/strategy/marketMaking';
+import { OrderBookSnapshot } from 'src/common/types/marketdata/marketdata';
+import {
+  createClientOrderId,
+  isStrategyClientOrderId,
+} from 'src/common/helpers/strategyKey';
 
 // Mocking the TradeService
 class TradeServiceMock {
@@ -42,11 +64,61 @@ class ExchangeInitServiceMock {
   getSupportedExchanges(): string[] {
     return ['bitfinex', 'mexc', 'binance'];
   }
+
+  async waitForInitialization(): Promise<void> {}
 }
 
 describe('StrategyService', () => {
   let service: StrategyService;
 
+  const mockRiskService = {
+    checkOrder: jest.fn().mockResolvedValue(null),
+    recordOrder: jest.fn(),
+    reloadLimits: jest.fn(),
+    getRiskStatus: jest.fn(),
+  };
+
+  const mockFeeService = {
+    getTradingFeeRates: jest.fn().mockResolvedValue({ maker: 0, taker: 0 }),
+    getWithdrawalFee: jest.fn().mockResolvedValue(0),
+  };
+
+  const mockPnlService = {
+    getFills: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockPriceSourceService = {
+    getReferencePrice: jest.fn().mockResolvedValue(100),
+  };
+
+  const mockLifecycleService = {
+    getStatus: jest.fn().mockResolvedValue(null),
+    createStrategyInstance: jest.fn(),
+    transition: jest.fn().mockResolvedValue(true),
+    transitionAll: jest.fn(),
+    updateParameters: jest.fn(),
+    recordError: jest.fn(),
+    getTimeline: jest.fn(),
+    getParameterVersions: jest.fn(),
+  };
+
+  // Snapshots of the order book streams, by exchange and symbol
+  const orderBookSnapshots = new Map<string, OrderBookSnapshot>();
+  const mockOrderBookHub = {
+    subscribe: jest.fn(),
+    unsubscribeAll: jest.fn(),
+    getSnapshot: jest.fn((exchangeName: string, symbol: string) =>
+      orderBookSnapshots.get(`${exchangeName}:${symbol}`),
+    ),
+  };
+
+  // Replaces the trade methods a test places its orders through
+  const mockTradeService = (
+    methods: Partial<
+      Pick<TradeService, 'executeLimitTrade' | 'executeMarketTrade'>
+    >,
+  ) => Object.assign(service['tradeService'], methods);
+
   // Example mock repository implementation
   const mockOrderRepository = {
     find: jest.fn(),
@@ -59,24 +131,40 @@ describe('StrategyService', () => {
     find: jest.fn(),
     findOne: jest.fn(),
     save: jest.fn(),
+    create: jest.fn((record) => record),
     // Add other repository methods as needed
   };
 
+  const mockTriangularArbitrageHistoryRepository = {
+    find: jest.fn(),
+    save: jest.fn(),
+    create: jest.fn((record) => record),
+  };
+
   const mockStrategyInstanceRepository = {
     find: jest.fn(),
     findOne: jest.fn(),
     save: jest.fn(),
     create: jest.fn(),
+    update: jest.fn(),
     // Add other repository methods as needed
   };
 
   beforeEach(async () => {
+    mockOrderRepository.find.mockResolvedValue([]);
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         StrategyService,
         { provide: TradeService, useClass: TradeServiceMock },
         { provide: PerformanceService, useClass: PerformanceServiceMock },
+        { provide: PnlService, useValue: mockPnlService },
         { provide: ExchangeInitService, useClass: ExchangeInitServiceMock },
+        { provide: RiskService, useValue: mockRiskService },
+        { provide: FeeService, useValue: mockFeeService },
+        { provide: PriceSourceService, useValue: mockPriceSourceService },
+        { provide: StrategyLifecycleService, useValue: mockLifecycleService },
+        StrategyRegistryService,
+        { provide: OrderBookHubService, useValue: mockOrderBookHub },
         {
           provide: AdminService,
           useValue: {
@@ -91,6 +179,10 @@ describe('StrategyService', () => {
           provide: getRepositoryToken(ArbitrageHistory),
           useValue: mockArbitrageOrderRepository,
         },
+        {
+          provide: getRepositoryToken(TriangularArbitrageHistory),
+          useValue: mockTriangularArbitrageHistoryRepository,
+        },
         {
           provide: getRepositoryToken(StrategyInstance),
           useValue: mockStrategyInstanceRepository,
@@ -103,6 +195,7 @@ describe('StrategyService', () => {
     }).compile();
 
     service = module.get<StrategyService>(StrategyService);
+    orderBookSnapshots.clear();
     // Initialize activeOrderBookWatches map
     service['activeOrderBookWatches'].set(
       '1-client1-arbitrage',
@@ -175,31 +268,372 @@ describe('StrategyService', () => {
         floorPrice: undefined, // Add other required properties if needed
       };
 
+      mockLifecycleService.transition.mockClear();
       await service.executePureMarketMakingStrategy(strategyParamsDto);
 
       expect(
         service['strategyInstances'].has('1-client1-pureMarketMaking'),
       ).toBeTruthy();
+      expect(mockLifecycleService.createStrategyInstance).toHaveBeenCalledWith(
+        expect.objectContaining({
+          strategyKey: '1-client1-pureMarketMaking',
+          strategyType: 'pureMarketMaking',
+          parameters: strategyParamsDto,
+        }),
+        { actor: 'user' },
+      );
+      expect(
+        mockLifecycleService.transition.mock.calls.map((call) => call[1]),
+      ).toEqual(['starting', 'running']);
+      clearInterval(
+        service['strategyInstances'].get('1-client1-pureMarketMaking')
+          .intervalId,
+      );
+    });
+  });
+
+  describe('exchange accounts', () => {
+    const strategyParamsDto = {
+      userId: '1',
+      clientId: 'client1',
+      pair: 'BTC/USDT',
+      exchangeName: 'binance',
+      lowerPrice: 100,
+      upperPrice: 200,
+      gridCount: 4,
+      spacing: 'arithmetic' as const,
+      amountPerGrid: 1,
+      checkIntervalSeconds: 10,
+    };
+
+    it('should refuse to start a strategy on a read-only account', async () => {
+      mockLifecycleService.createStrategyInstance.mockClear();
+
+      await expect(
+        service.executeGridStrategy({
+          ...strategyParamsDto,
+          accountLabel: 'read-only',
+        }),
+      ).rejects.toThrow(
+        "Strategy 1-client1-grid trades, it can't run on the read-only account.",
+      );
+      expect(
+        mockLifecycleService.createStrategyInstance,
+      ).not.toHaveBeenCalled();
+      expect(service['strategyInstances'].has('1-client1-grid')).toBe(false);
+    });
+
+    it('should place the orders of a strategy on the account of its label', async () => {
+      const executeLimitTradeMock = jest
+        .fn()
+        .mockResolvedValue({ id: 'order1', status: 'open' });
+      mockTradeService({
+        executeLimitTrade: executeLimitTradeMock,
+      });
+
+      await service['startStrategyInstance']('1-client1-grid', {
+        userId: '1',
+        clientId: 'client1',
+        strategyType: 'grid',
+        parameters: { ...strategyParamsDto, accountLabel: 'account2' },
+      });
+      await service['placeStrategyLimitOrder']('1-client1-grid', {
+        userId: '1',
+        clientId: 'client1',
+        exchange: 'binance',
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        amount: 1,
+        price: 100,
+      });
+
+      expect(mockLifecycleService.createStrategyInstance).toHaveBeenCalledWith(
+        expect.objectContaining({ accountLabel: 'account2' }),
+        { actor: 'user' },
+      );
+      expect(executeLimitTradeMock).toHaveBeenCalledWith(
+        expect.objectContaining({ accountLabel: 'account2' }),
+      );
+    });
+  });
+
+  describe('stopStrategyForUser', () => {
+    it('should stop a running strategy through stopping and cancel its orders', async () => {
+      const strategyKey = '1-client1-grid';
+      const exchange = {
+        id: 'binance',
+        fetchOpenOrders: jest.fn().mockResolvedValue([
+          {
+            id: 'order1',
+            symbol: 'BTC/USDT',
+            clientOrderId: createClientOrderId(strategyKey, 1),
+          },
+        ]),
+        cancelOrder: jest.fn().mockResolvedValue(undefined),
+      };
+      mockStrategyInstanceRepository.findOne.mockResolvedValueOnce({
+        strategyKey,
+        strategyType: 'grid',
+        accountLabel: 'default',
+        parameters: { exchangeName: 'binance', pair: 'BTC/USDT' },
+      });
+      jest
+        .spyOn(service['exchangeInitService'], 'getExchange')
+        .mockReturnValue(exchange as unknown as ccxt.Exchange);
+      service['strategyInstances'].set(strategyKey, {
+        isRunning: true,
+        intervalId: null,
+      });
+      mockLifecycleService.getStatus.mockResolvedValueOnce('running');
+      mockLifecycleService.transition.mockClear();
+
+      await service.stopStrategyForUser('1', 'client1', 'grid', {
+        actor: 'admin',
+      });
+
+      expect(exchange.cancelOrder).toHaveBeenCalledWith('order1', 'BTC/USDT');
+      expect(service['strategyInstances'].has(strategyKey)).toBe(false);
+      expect(mockOrderBookHub.unsubscribeAll).toHaveBeenCalledWith(strategyKey);
+      expect(mockLifecycleService.transition.mock.calls).toEqual([
+        [strategyKey, 'stopping', { actor: 'admin' }],
+        [strategyKey, 'stopped', { actor: 'admin' }],
+      ]);
+    });
+
+    it('should leave a stopped strategy as it is', async () => {
+      mockLifecycleService.getStatus.mockResolvedValueOnce('stopped');
+      mockLifecycleService.transition.mockClear();
+
+      await service.stopStrategyForUser('1', 'client1', 'grid');
+
+      expect(mockLifecycleService.transition).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateStrategyParameters', () => {
+    const strategyKey = '1-client1-pureMarketMaking';
+    const parameters = {
+      userId: '1',
+      clientId: 'client1',
+      pair: 'BTC/USDT',
+      exchangeName: 'bitfinex',
+      bidSpread: 0.1,
+      askSpread: 0.1,
+      orderAmount: 1,
+    };
+
+    beforeEach(() => {
+      mockStrategyInstanceRepository.findOne.mockResolvedValue({
+        strategyKey,
+        strategyType: 'pureMarketMaking',
+        parameters,
+      });
+      mockLifecycleService.updateParameters.mockResolvedValue(2);
+    });
+
+    it('should save a new version and apply it to the running strategy', async () => {
+      const liveParameters = { ...parameters };
+      service['strategyParameters'].set(strategyKey, liveParameters);
+
+      const result = await service.updateStrategyParameters(strategyKey, {
+        bidSpread: 0.2,
+      });
+
+      expect(mockLifecycleService.updateParameters).toHaveBeenCalledWith(
+        strategyKey,
+        { ...parameters, bidSpread: 0.2 },
+        { actor: 'user' },
+      );
+      expect(liveParameters.bidSpread).toBe(0.2);
+      expect(result).toMatchObject({ version: 2, applied: true });
+    });
+
+    it('should reject unknown, fixed and invalid parameters', async () => {
+      mockLifecycleService.updateParameters.mockClear();
+
+      await expect(
+        service.updateStrategyParameters(strategyKey, {
+          spread: 0.2,
+          pair: 'ETH/USDT',
+          askSpread: '0.2',
+        }),
+      ).rejects.toThrow(
+        'spread is not a parameter of the strategy, pair can only be changed by restarting the strategy, askSpread has an invalid value "0.2"',
+      );
+      expect(mockLifecycleService.updateParameters).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('strategy registry', () => {
+    it('should register the built-in strategy types', () => {
+      expect(service.getStrategyTypes().map(({ type }) => type)).toEqual([
+        'arbitrage',
+        'pureMarketMaking',
+        'avellanedaMarketMaking',
+        'crossExchangeMarketMaking',
+        'triangularArbitrage',
+        'grid',
+        'volume',
+      ]);
+    });
+
+    it('should rerun a strategy through the plugin of its type', async () => {
+      const parameters = { userId: '1', clientId: 'client1', pair: 'BTC/USDT' };
+      const executeSpy = jest
+        .spyOn(service, 'executeGridStrategy')
+        .mockResolvedValue(undefined);
+      mockStrategyInstanceRepository.findOne.mockResolvedValueOnce({
+        strategyKey: '1-client1-grid',
+        strategyType: 'grid',
+        parameters,
+      });
+
+      await service.rerunStrategy('1-client1-grid');
+
+      expect(executeSpy).toHaveBeenCalledWith(parameters);
+    });
+
+    it('should start saved volume strategies with their base parameters', async () => {
+      const executeSpy = jest
+        .spyOn(service, 'executeVolumeStrategy')
+        .mockResolvedValue(undefined);
+
+      await service['strategyRegistry'].get('volume').start({
+        exchangeName: 'binance',
+        symbol: 'BTC/USDT',
+        baseIncrementPercentage: 0.1,
+        baseIntervalTime: 10,
+        baseTradeAmount: 1,
+        numTrades: 5,
+        userId: '1',
+        clientId: 'client1',
+      });
+
+      expect(executeSpy).toHaveBeenCalledWith(
+        'binance',
+        'BTC/USDT',
+        0.1,
+        10,
+        1,
+        5,
+        '1',
+        'client1',
+      );
+    });
+
+    it('should reject strategies of an unknown type', async () => {
+      mockLifecycleService.getStatus.mockClear();
+
+      await expect(service.startStrategy('momentum', {})).rejects.toThrow(
+        'Unknown strategy type: momentum',
+      );
+      await service.stopStrategyForUser('1', 'client1', 'momentum');
+
+      expect(mockLifecycleService.getStatus).not.toHaveBeenCalled();
     });
   });
 
   describe('cancelAllOrders', () => {
-    it('should cancel all open orders for the given pair', async () => {
+    it('should cancel the open orders of the strategy for the given pair', async () => {
+      const pair = 'BTC/USDT';
+      const strategyKey = '1-client1-pureMarketMaking';
       const exchange = new ccxt.Exchange();
       exchange.fetchOpenOrders = jest.fn().mockResolvedValue([
-        { id: 'order1', symbol: 'BTC/USDT' },
-        { id: 'order2', symbol: 'BTC/USDT' },
+        {
+          id: 'order1',
+          symbol: pair,
+          clientOrderId: createClientOrderId(strategyKey, 1),
+        },
+        {
+          id: 'order2',
+          symbol: pair,
+          clientOrderId: createClientOrderId(strategyKey, 2),
+        },
+        {
+          id: 'order3',
+          symbol: pair,
+          clientOrderId: createClientOrderId('1-client1-grid', 1),
+        },
+        { id: 'order4', symbol: pair },
       ]);
       exchange.cancelOrder = jest.fn().mockResolvedValue(undefined);
 
+      await service['cancelAllOrders'](exchange, pair, strategyKey);
+
+      expect(exchange.fetchOpenOrders).toHaveBeenCalledWith(pair);
+      expect(exchange.cancelOrder).toHaveBeenCalledWith('order1', pair);
+      expect(exchange.cancelOrder).toHaveBeenCalledWith('order2', pair);
+      expect(exchange.cancelOrder).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fall back to the recorded order ids when the exchange does not echo the client order ids', async () => {
       const pair = 'BTC/USDT';
       const strategyKey = '1-client1-pureMarketMaking';
+      const exchange = new ccxt.Exchange();
+      exchange.id = 'binance';
+      exchange.fetchOpenOrders = jest.fn().mockResolvedValue([
+        { id: 'order1', symbol: pair },
+        { id: 'manual1', symbol: pair },
+      ]);
+      exchange.cancelOrder = jest.fn().mockResolvedValue(undefined);
+      mockStrategyInstanceRepository.findOne.mockResolvedValueOnce({
+        strategyKey,
+        userId: '1',
+        clientId: 'client1',
+        strategyType: 'pureMarketMaking',
+      });
+      mockOrderRepository.find.mockResolvedValueOnce([{ orderId: 'order1' }]);
 
       await service['cancelAllOrders'](exchange, pair, strategyKey);
 
-      expect(exchange.fetchOpenOrders).toHaveBeenCalledWith(pair);
+      expect(mockOrderRepository.find).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          userId: '1',
+          clientId: 'client1',
+          exchange: 'binance',
+          pair,
+          strategy: 'pureMarketMaking',
+        }),
+      });
       expect(exchange.cancelOrder).toHaveBeenCalledWith('order1', pair);
-      expect(exchange.cancelOrder).toHaveBeenCalledWith('order2', pair);
+      expect(exchange.cancelOrder).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('client order ids', () => {
+    it('should tag every order of a strategy with the next id of its sequence', async () => {
+      const executeLimitTradeMock = jest
+        .fn()
+        .mockResolvedValue({ id: 'order1', status: 'open' });
+      mockTradeService({
+        executeLimitTrade: executeLimitTradeMock,
+      });
+      const limitTradeDto = {
+        userId: '1',
+        clientId: 'client1',
+        exchange: 'binance',
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        amount: 1,
+        price: 100,
+      };
+
+      const first = await service['placeStrategyLimitOrder'](
+        '1-client1-grid',
+        limitTradeDto,
+      );
+      await service['placeStrategyLimitOrder']('1-client1-grid', limitTradeDto);
+
+      const [firstId, secondId] = executeLimitTradeMock.mock.calls.map(
+        ([dto]) => dto.clientOrderId,
+      );
+      expect(firstId).toMatch(/^hm[0-9a-f]{14}[0-9a-z]+$/);
+      expect(firstId.length).toBeLessThanOrEqual(32);
+      expect(secondId).not.toBe(firstId);
+      expect(isStrategyClientOrderId('1-client1-grid', secondId)).toBe(true);
+      expect(isStrategyClientOrderId('1-client2-grid', secondId)).toBe(false);
+      // Exchanges that don't echo the client order id back still get it on the order
+      expect(first.clientOrderId).toBe(firstId);
     });
   });
 
@@ -213,11 +647,17 @@ describe('StrategyService', () => {
       const amount = 1;
       const buyPrice = 48000;
       const sellPrice = 49000;
+      exchangeA.fetchOrder = jest
+        .fn()
+        .mockResolvedValue({ status: 'closed', filled: amount });
+      exchangeB.fetchOrder = jest
+        .fn()
+        .mockResolvedValue({ status: 'closed', filled: amount });
 
       const executeLimitTradeMock = jest.fn().mockResolvedValue({});
-      service['tradeService'] = {
+      mockTradeService({
         executeLimitTrade: executeLimitTradeMock,
-      } as any; // Mock TradeService
+      });
 
       await service['executeArbitrageTradeWithLimitOrders'](
         exchangeA,
@@ -238,6 +678,7 @@ describe('StrategyService', () => {
         side: 'buy',
         amount,
         price: buyPrice,
+        clientOrderId: expect.any(String),
       });
       expect(executeLimitTradeMock).toHaveBeenCalledWith({
         userId,
@@ -247,7 +688,1077 @@ describe('StrategyService', () => {
         side: 'sell',
         amount,
         price: sellPrice,
+        clientOrderId: expect.any(String),
+      });
+      expect(mockArbitrageOrderRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ legOutcome: 'completed', profit: 1000 }),
+      );
+    });
+
+    const createExchange = (id: string) =>
+      ({
+        id,
+        name: id,
+        fetchOrder: jest.fn(),
+        cancelOrder: jest.fn().mockResolvedValue({}),
+      } as unknown as ccxt.Exchange);
+
+    it('should close the first leg at market when the second leg fails', async () => {
+      const exchangeA = createExchange('binance');
+      const exchangeB = createExchange('mexc');
+      const executeMarketTradeMock = jest.fn().mockResolvedValue({
+        id: 'close-1',
+        status: 'closed',
+        filled: 1,
+        average: 47900,
+      });
+      mockTradeService({
+        executeLimitTrade: jest
+          .fn()
+          .mockResolvedValueOnce({
+            id: 'buy-1',
+            status: 'closed',
+            filled: 1,
+            average: 48000,
+          })
+          .mockRejectedValueOnce(new Error('Insufficient balance')),
+        executeMarketTrade: executeMarketTradeMock,
       });
+
+      await service['executeArbitrageTradeWithLimitOrders'](
+        exchangeA,
+        exchangeB,
+        'BTC/USDT',
+        1,
+        '1',
+        'client1',
+        48000,
+        49000,
+      );
+
+      expect(executeMarketTradeMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          exchange: 'binance',
+          side: 'sell',
+          amount: 1,
+        }),
+      );
+      expect(mockArbitrageOrderRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          legOutcome: 'unwound',
+          status: 'closed',
+          slippage: 1100,
+          unhedgedAmount: 0,
+          profit: -100,
+        }),
+      );
+    });
+
+    it('should repost the missing amount of a timed out leg at a worse price', async () => {
+      const exchangeA = createExchange('binance');
+      const exchangeB = createExchange('mexc');
+      jest.mocked(exchangeB.fetchOrder).mockResolvedValue({
+        status: 'canceled',
+        filled: 0.4,
+        average: 49000,
+      } as ccxt.Order);
+      const executeLimitTradeMock = jest
+        .fn()
+        .mockResolvedValueOnce({
+          id: 'buy-1',
+          status: 'closed',
+          filled: 1,
+          average: 48000,
+        })
+        .mockResolvedValueOnce({ id: 'sell-1', status: 'open', filled: 0 })
+        .mockResolvedValueOnce({
+          id: 'sell-2',
+          status: 'closed',
+          filled: 0.6,
+          average: 48902,
+        });
+      mockTradeService({
+        executeLimitTrade: executeLimitTradeMock,
+      });
+
+      await service['executeArbitrageTradeWithLimitOrders'](
+        exchangeA,
+        exchangeB,
+        'BTC/USDT',
+        1,
+        '1',
+        'client1',
+        48000,
+        49000,
+        { legTimeoutSeconds: 0, legPolicy: 'repost', repostSlippage: 0.002 },
+      );
+
+      expect(exchangeB.cancelOrder).toHaveBeenCalledWith('sell-1', 'BTC/USDT');
+      expect(executeLimitTradeMock).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          exchange: 'mexc',
+          side: 'sell',
+          amount: 0.6,
+          price: 48902,
+        }),
+      );
+      const [history] = mockArbitrageOrderRepository.save.mock.calls.at(-1);
+      expect(history.legOutcome).toBe('reposted');
+      expect(history.slippage).toBeCloseTo(58.8);
+    });
+
+    it('should only alert on an unbalanced trade with the alert policy', async () => {
+      const exchangeA = createExchange('binance');
+      const exchangeB = createExchange('mexc');
+      jest
+        .mocked(exchangeB.fetchOrder)
+        .mockResolvedValue({ status: 'canceled', filled: 0 } as ccxt.Order);
+      const executeMarketTradeMock = jest.fn();
+      mockTradeService({
+        executeLimitTrade: jest
+          .fn()
+          .mockResolvedValueOnce({ id: 'buy-1', status: 'closed', filled: 1 })
+          .mockResolvedValueOnce({ id: 'sell-1', status: 'open', filled: 0 }),
+        executeMarketTrade: executeMarketTradeMock,
+      });
+      const logToDiscordSpy = jest
+        .spyOn(service['logger'], 'logToDiscord')
+        .mockResolvedValue(undefined);
+      jest
+        .spyOn(service['logger'], 'logToMixinGroup')
+        .mockResolvedValue(undefined);
+
+      await service['executeArbitrageTradeWithLimitOrders'](
+        exchangeA,
+        exchangeB,
+        'BTC/USDT',
+        1,
+        '1',
+        'client1',
+        48000,
+        49000,
+        { legTimeoutSeconds: 0, legPolicy: 'alert' },
+      );
+
+      expect(executeMarketTradeMock).not.toHaveBeenCalled();
+      expect(logToDiscordSpy).toHaveBeenCalledWith(
+        expect.stringContaining('unbalanced by 1'),
+        'WARNING',
+      );
+      expect(mockArbitrageOrderRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          legOutcome: 'unhedged',
+          status: 'open',
+          unhedgedAmount: 1,
+        }),
+      );
+    });
+    it('should evaluate new opportunities after a leg timed out', async () => {
+      const strategyKey = '1-client1-arbitrage';
+      const exchangeA = createExchange('binance');
+      const exchangeB = createExchange('mexc');
+      jest
+        .mocked(exchangeA.fetchOrder)
+        .mockResolvedValue({ status: 'closed', filled: 1 } as ccxt.Order);
+      jest
+        .mocked(exchangeB.fetchOrder)
+        .mockResolvedValue({ status: 'canceled', filled: 0 } as ccxt.Order);
+      mockTradeService({
+        executeLimitTrade: jest
+          .fn()
+          .mockResolvedValueOnce({ id: 'buy-1', status: 'closed', filled: 1 })
+          .mockResolvedValueOnce({ id: 'sell-1', status: 'open', filled: 0 }),
+        executeMarketTrade: jest.fn().mockResolvedValue({
+          id: 'close-1',
+          status: 'closed',
+          filled: 1,
+        }),
+      });
+
+      await service['executeArbitrageTradeWithLimitOrders'](
+        exchangeA,
+        exchangeB,
+        'BTC/USDT',
+        1,
+        '1',
+        'client1',
+        48000,
+        49000,
+        { legTimeoutSeconds: 0 },
+      );
+      expect(service.activeOrders.has(strategyKey)).toBe(false);
+
+      // Orders tracked again by reconciliation count as done once canceled
+      service.activeOrders.set(strategyKey, [
+        { exchange: exchangeB, orderId: 'sell-1', symbol: 'BTC/USDT' },
+      ]);
+      const logSpy = jest.spyOn(service['logger'], 'log');
+      await service['strategyRegistry'].get('arbitrage').tick(strategyKey, {
+        userId: '1',
+        clientId: 'client1',
+        pair: 'BTC/USDT',
+        exchangeAName: 'binance',
+        exchangeBName: 'mexc',
+        amountToTrade: 1,
+        minProfitability: 0.01,
+        maxOpenOrders: 1,
+      } as ArbitrageStrategyDto);
+
+      expect(service.activeOrders.has(strategyKey)).toBe(false);
+      expect(logSpy).toHaveBeenCalledWith(
+        'Order book data is not fresh enough for reliable arbitrage calculation.',
+      );
+      expect(logSpy).not.toHaveBeenCalledWith(
+        expect.stringContaining('Waiting for open orders to fill'),
+      );
+    });
+  });
+
+  describe('evaluateArbitrageOpportunityVWAP', () => {
+    const strategyParamsDto = {
+      userId: '1',
+      clientId: 'client1',
+      pair: 'BTC/USDT',
+      amountToTrade: 1,
+      minProfitability: 0.009,
+      exchangeAName: 'binance',
+      exchangeBName: 'mexc',
+      exchangeBFees: { taker: 0.001 },
+    };
+    const createExchange = (id: string, base = 10, quote = 10000) =>
+      ({
+        id,
+        name: id,
+        fetchBalance: jest.fn().mockResolvedValue({
+          BTC: { free: base },
+          USDT: { free: quote },
+        }),
+      } as unknown as ccxt.Exchange);
+    const exchangeA = createExchange('binance');
+    const exchangeB = createExchange('mexc');
+
+    beforeEach(() => {
+      orderBookSnapshots.set('binance:BTC/USDT', {
+        orderBook: { bids: [[99, 10]], asks: [[100, 10]] } as ccxt.OrderBook,
+        timestamp: Date.now(),
+      });
+      orderBookSnapshots.set('mexc:BTC/USDT', {
+        orderBook: { bids: [[101, 10]], asks: [[102, 10]] } as ccxt.OrderBook,
+        timestamp: Date.now(),
+      });
+    });
+
+    it('should skip a spread the fees eat into and log the cost breakdown', async () => {
+      mockFeeService.getTradingFeeRates.mockResolvedValue({
+        maker: 0.001,
+        taker: 0.001,
+      });
+      const executeLimitTradeMock = jest.fn();
+      mockTradeService({ executeLimitTrade: executeLimitTradeMock });
+      const logSpy = jest.spyOn(service['logger'], 'log');
+
+      await service.evaluateArbitrageOpportunityVWAP(
+        [exchangeA, exchangeB],
+        strategyParamsDto,
+      );
+
+      expect(mockFeeService.getTradingFeeRates).toHaveBeenCalledWith(
+        exchangeB,
+        'BTC/USDT',
+        { taker: 0.001 },
+      );
+      expect(executeLimitTradeMock).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'buy 1 on binance at 100, sell on mexc at 101, gross 1, buy fee 0.1, sell fee 0.101',
+        ),
+      );
+    });
+
+    it('should amortize the withdrawal fees when asked to', async () => {
+      mockFeeService.getTradingFeeRates.mockResolvedValue({
+        maker: 0,
+        taker: 0,
+      });
+      mockFeeService.getWithdrawalFee.mockImplementation(async (symbol) =>
+        symbol === 'BTC' ? 0.002 : 0.01,
+      );
+      const executeLimitTradeMock = jest.fn();
+      mockTradeService({ executeLimitTrade: executeLimitTradeMock });
+
+      await service.evaluateArbitrageOpportunityVWAP([exchangeA, exchangeB], {
+        ...strategyParamsDto,
+        transferCostTrades: 2,
+      });
+
+      expect(mockFeeService.getWithdrawalFee).toHaveBeenCalledWith('BTC');
+      expect(mockFeeService.getWithdrawalFee).toHaveBeenCalledWith('USDT');
+      // (0.002 * 100 + 0.01) / 2 leaves 0.895 of the 1 gross profit, just under 0.9%
+      expect(executeLimitTradeMock).not.toHaveBeenCalled();
+    });
+
+    it('should route between the exchanges with the highest net spread the balances allow', async () => {
+      mockFeeService.getTradingFeeRates.mockResolvedValue({
+        maker: 0,
+        taker: 0,
+      });
+      orderBookSnapshots.set('okx:BTC/USDT', {
+        orderBook: { bids: [[103, 10]], asks: [[104, 10]] } as ccxt.OrderBook,
+        timestamp: Date.now(),
+      });
+      const executeLimitTradeMock = jest
+        .fn()
+        .mockImplementation(async ({ side, price }) => ({
+          id: `${side}-1`,
+          status: 'closed',
+          filled: 1,
+          average: price,
+        }));
+      mockTradeService({ executeLimitTrade: executeLimitTradeMock });
+      // okx has the best bid but no BTC to sell, bitfinex has no order book yet
+      const okx = createExchange('okx', 0);
+      const bitfinex = createExchange('bitfinex');
+
+      await service.evaluateArbitrageOpportunityVWAP(
+        [exchangeA, exchangeB, okx, bitfinex],
+        strategyParamsDto,
+      );
+
+      expect(bitfinex.fetchBalance).not.toHaveBeenCalled();
+      expect(executeLimitTradeMock.mock.calls).toEqual([
+        [
+          expect.objectContaining({
+            exchange: 'binance',
+            side: 'buy',
+            amount: 1,
+            price: 100,
+          }),
+        ],
+        [
+          expect.objectContaining({
+            exchange: 'mexc',
+            side: 'sell',
+            amount: 1,
+            price: 101,
+          }),
+        ],
+      ]);
+    });
+  });
+
+  describe('risk limits', () => {
+    it('should pause the strategy instead of placing an order that breaches a limit', async () => {
+      const executeLimitTradeMock = jest.fn();
+      mockTradeService({
+        executeLimitTrade: executeLimitTradeMock,
+      });
+      mockRiskService.checkOrder.mockResolvedValueOnce({
+        limit: 'maxPositionPerAsset',
+        value: 2,
+        threshold: 1,
+      });
+      mockLifecycleService.getStatus.mockResolvedValueOnce('running');
+      mockLifecycleService.transition.mockClear();
+
+      await expect(
+        service['placeStrategyLimitOrder']('1-client1-arbitrage', {
+          userId: '1',
+          clientId: 'client1',
+          exchange: 'binance',
+          symbol: 'BTC/USDT',
+          side: 'buy',
+          amount: 2,
+          price: 48000,
+        }),
+      ).rejects.toThrow('maxPositionPerAsset breached');
+
+      expect(executeLimitTradeMock).not.toHaveBeenCalled();
+      expect(
+        mockLifecycleService.transition.mock.calls.map((call) => call[1]),
+      ).toEqual(['pausing', 'paused']);
+      expect(mockLifecycleService.transition).toHaveBeenCalledWith(
+        '1-client1-arbitrage',
+        'paused',
+        expect.objectContaining({ actor: 'risk' }),
+      );
+    });
+
+    it('should place both legs of a volume trade through the risk checks on their accounts', async () => {
+      jest.useFakeTimers();
+      const exchange = {
+        id: 'binance',
+        fetchOrderBook: jest
+          .fn()
+          .mockResolvedValue({ bids: [[100, 1]], asks: [[101, 1]] }),
+        fetchOrder: jest.fn().mockResolvedValue({ status: 'closed' }),
+      };
+      jest
+        .spyOn(service['exchangeInitService'], 'getExchange')
+        .mockReturnValue(exchange as unknown as ccxt.Exchange);
+      const executeLimitTradeMock = jest
+        .fn()
+        .mockImplementation(async ({ side }) => ({
+          id: `${side}-1`,
+          status: 'open',
+        }));
+      mockTradeService({ executeLimitTrade: executeLimitTradeMock });
+      mockRiskService.checkOrder.mockClear();
+
+      await service.executeVolumeStrategy(
+        'binance',
+        'BTC/USDT',
+        0.1,
+        10,
+        1,
+        1,
+        '1',
+        'client1',
+      );
+      await jest.advanceTimersByTimeAsync(0);
+      jest.clearAllTimers();
+      jest.useRealTimers();
+
+      expect(mockRiskService.checkOrder).toHaveBeenCalledTimes(2);
+      expect(executeLimitTradeMock.mock.calls).toEqual([
+        [
+          expect.objectContaining({
+            side: 'buy',
+            accountLabel: 'default',
+            clientOrderId: expect.any(String),
+          }),
+        ],
+        [
+          expect.objectContaining({
+            side: 'sell',
+            accountLabel: 'account2',
+            clientOrderId: expect.any(String),
+          }),
+        ],
+      ]);
+      expect(mockRiskService.recordOrder).toHaveBeenCalledWith(
+        '1-client1-volume',
+        expect.objectContaining({ side: 'sell', accountLabel: 'account2' }),
+        expect.objectContaining({ id: 'sell-1' }),
+      );
+    });
+  });
+
+  describe('resumeInterruptedStrategies', () => {
+    const interruptedInstance = {
+      id: 1,
+      strategyKey: '1-client1-arbitrage',
+      userId: '1',
+      clientId: 'client1',
+      strategyType: 'arbitrage',
+      parameters: {
+        pair: 'BTC/USDT',
+        exchangeAName: 'bitfinex',
+        exchangeBName: 'mexc',
+      },
+      status: 'interrupted',
+    };
+
+    it('should reconcile open orders and rerun interrupted strategies', async () => {
+      const exchange = new ccxt.Exchange();
+      exchange.fetchOpenOrders = jest
+        .fn()
+        .mockResolvedValueOnce([
+          {
+            id: 'order1',
+            symbol: 'BTC/USDT',
+            clientOrderId: createClientOrderId('1-client1-arbitrage', 1),
+          },
+          { id: 'manual1', symbol: 'BTC/USDT' },
+        ])
+        .mockResolvedValueOnce([]);
+      jest
+        .spyOn(service['exchangeInitService'], 'getExchange')
+        .mockReturnValue(exchange);
+      const rerunSpy = jest
+        .spyOn(service, 'rerunStrategy')
+        .mockResolvedValue(undefined);
+      mockStrategyInstanceRepository.find.mockResolvedValueOnce([
+        interruptedInstance,
+      ]);
+      mockLifecycleService.transition.mockResolvedValueOnce(true);
+
+      const report = await service.resumeInterruptedStrategies();
+
+      expect(mockLifecycleService.transition).toHaveBeenCalledWith(
+        '1-client1-arbitrage',
+        'starting',
+        expect.objectContaining({ actor: 'system' }),
+        'interrupted',
+      );
+      expect(rerunSpy).toHaveBeenCalledWith('1-client1-arbitrage');
+      expect(report.resumed).toEqual([
+        {
+          strategyKey: '1-client1-arbitrage',
+          strategyType: 'arbitrage',
+          openOrdersFound: 1,
+          ordersReconciled: 1,
+        },
+      ]);
+      expect(service.activeOrders.get('1-client1-arbitrage')).toEqual([
+        { exchange, orderId: 'order1', symbol: 'BTC/USDT' },
+      ]);
+    });
+
+    it('should skip instances already claimed by another service instance', async () => {
+      const rerunSpy = jest
+        .spyOn(service, 'rerunStrategy')
+        .mockResolvedValue(undefined);
+      mockStrategyInstanceRepository.find.mockResolvedValueOnce([
+        interruptedInstance,
+      ]);
+      mockLifecycleService.transition.mockResolvedValueOnce(false);
+
+      const report = await service.resumeInterruptedStrategies();
+
+      expect(rerunSpy).not.toHaveBeenCalled();
+      expect(report.resumed).toHaveLength(0);
+    });
+
+    it('should reconcile the order history of a registered plugin that asks for it', async () => {
+      service['strategyRegistry'].register({
+        type: 'momentum',
+        description: 'Test strategy',
+        parameters: Object,
+        fixedParameters: [],
+        start: jest.fn(),
+        getMarkets: (_strategyKey, parameters) => [
+          { exchangeName: parameters.exchangeName, pair: parameters.pair },
+        ],
+        reconcilesOrderHistory: true,
+      });
+      const exchange = new ccxt.Exchange();
+      exchange.fetchOpenOrders = jest.fn().mockResolvedValue([]);
+      jest
+        .spyOn(service['exchangeInitService'], 'getExchange')
+        .mockReturnValue(exchange);
+      jest.spyOn(service, 'rerunStrategy').mockResolvedValue(undefined);
+      service['orderRepository'].update = jest.fn();
+      mockOrderRepository.find.mockResolvedValueOnce([
+        { id: 7, orderId: 'order1', status: 'open' },
+      ]);
+      mockStrategyInstanceRepository.find.mockResolvedValueOnce([
+        {
+          ...interruptedInstance,
+          strategyKey: '1-client1-momentum',
+          strategyType: 'momentum',
+          parameters: { exchangeName: 'binance', pair: 'BTC/USDT' },
+        },
+      ]);
+      mockLifecycleService.transition.mockResolvedValueOnce(true);
+
+      const report = await service.resumeInterruptedStrategies();
+
+      expect(mockOrderRepository.find).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          exchange: 'binance',
+          pair: 'BTC/USDT',
+          strategy: 'momentum',
+          status: 'open',
+        }),
+      });
+      expect(service['orderRepository'].update).toHaveBeenCalledWith(
+        { id: 7 },
+        { status: 'closed' },
+      );
+      expect(report.resumed).toEqual([
+        expect.objectContaining({ openOrdersFound: 0, ordersReconciled: 1 }),
+      ]);
+    });
+  });
+
+  describe('hedgeMakerFill', () => {
+    const strategyParamsDto = {
+      userId: '1',
+      clientId: 'client1',
+      pair: 'BTC/USDT',
+      makerExchangeName: 'mexc',
+      hedgeExchangeName: 'binance',
+      orderAmount: 1,
+      minProfitability: 0.01,
+      orderRefreshTime: 1000,
+    };
+    const makerOrder = () => ({
+      orderId: 'maker1',
+      side: 'buy' as const,
+      price: 99,
+      amount: 1,
+      expectedHedgePrice: 100,
+      hedgedAmount: 0,
+    });
+    const state = () => ({
+      makerOrders: [],
+      unhedgedAmount: 0,
+      hedgeCount: 0,
+      totalSlippage: 0,
+    });
+
+    it('should hedge a maker fill and record its slippage', async () => {
+      mockTradeService({
+        executeMarketTrade: jest.fn().mockResolvedValue({
+          id: 'hedge1',
+          average: 99.5,
+          fee: { cost: 0.1 },
+        }),
+      });
+      const recordSpy = jest.spyOn(
+        service['performanceService'],
+        'recordPerformance',
+      );
+      const hedgeState = state();
+
+      await service['hedgeMakerFill'](
+        '1-client1-crossExchangeMarketMaking',
+        strategyParamsDto,
+        hedgeState,
+        makerOrder(),
+        1,
+      );
+
+      expect(service['tradeService'].executeMarketTrade).toHaveBeenCalledWith({
+        userId: '1',
+        clientId: 'client1',
+        exchange: 'binance',
+        symbol: 'BTC/USDT',
+        side: 'sell',
+        amount: 1,
+        clientOrderId: expect.any(String),
+      });
+      expect(recordSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          strategyType: 'crossExchangeMarketMaking',
+          profitLoss: expect.closeTo(0.4),
+          additionalMetrics: expect.objectContaining({
+            slippage: expect.closeTo(0.005),
+          }),
+        }),
+      );
+      expect(hedgeState.hedgeCount).toBe(1);
+    });
+
+    it('should track unhedged exposure when the hedge fails', async () => {
+      mockTradeService({
+        executeMarketTrade: jest.fn().mockRejectedValue(new Error('down')),
+      });
+      const hedgeState = state();
+
+      await service['hedgeMakerFill'](
+        '1-client1-crossExchangeMarketMaking',
+        strategyParamsDto,
+        hedgeState,
+        makerOrder(),
+        0.5,
+      );
+
+      expect(hedgeState.unhedgedAmount).toBe(0.5);
+    });
+  });
+
+  describe('executeTriangularCycle', () => {
+    const strategyParamsDto = {
+      userId: '1',
+      clientId: 'client1',
+      exchangeName: 'binance',
+      startCurrency: 'USDT',
+      amountToTrade: 1000,
+      minProfitability: 0.001,
+      checkIntervalSeconds: 10,
+    };
+    const cycle = {
+      currencies: ['USDT', 'BTC', 'ETH'],
+      legs: [
+        { symbol: 'BTC/USDT', side: 'buy', from: 'USDT', to: 'BTC' },
+        { symbol: 'ETH/BTC', side: 'buy', from: 'BTC', to: 'ETH' },
+        { symbol: 'ETH/USDT', side: 'sell', from: 'ETH', to: 'USDT' },
+      ],
+    } as TriangularCycle;
+    const evaluation: TriangularCycleEvaluation = {
+      cycle,
+      legs: [
+        {
+          leg: cycle.legs[0],
+          inputAmount: 1000,
+          outputAmount: 0.02,
+          baseAmount: 0.02,
+          vwap: 50000,
+        },
+        {
+          leg: cycle.legs[1],
+          inputAmount: 0.02,
+          outputAmount: 0.4,
+          baseAmount: 0.4,
+          vwap: 0.05,
+        },
+        {
+          leg: cycle.legs[2],
+          inputAmount: 0.4,
+          outputAmount: 1040,
+          baseAmount: 0.4,
+          vwap: 2600,
+        },
+      ],
+      startAmount: 1000,
+      endAmount: 1040,
+      profit: 40,
+      profitability: 0.04,
+    };
+
+    it('should execute every leg with the amount the previous one returned', async () => {
+      mockTradeService({
+        executeMarketTrade: jest
+          .fn()
+          .mockResolvedValueOnce({ id: 'o1', filled: 0.02, average: 50000 })
+          .mockResolvedValueOnce({ id: 'o2', filled: 0.4, average: 0.05 })
+          .mockResolvedValueOnce({ id: 'o3', filled: 0.4, average: 2610 }),
+      });
+
+      await service['executeTriangularCycle'](
+        '1-client1-triangularArbitrage',
+        strategyParamsDto,
+        evaluation,
+      );
+
+      expect(
+        service['tradeService'].executeMarketTrade,
+      ).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          symbol: 'ETH/USDT',
+          side: 'sell',
+          amount: 0.4,
+        }),
+      );
+      expect(
+        mockTriangularArbitrageHistoryRepository.save,
+      ).toHaveBeenCalledWith(expect.objectContaining({ status: 'closed' }));
+      const record =
+        mockTriangularArbitrageHistoryRepository.save.mock.calls.at(-1)[0];
+      expect(record.endAmount).toBeCloseTo(1044);
+      expect(record.profit).toBeCloseTo(44);
+    });
+
+    it('should unwind into the start currency when a middle leg fails', async () => {
+      mockTradeService({
+        executeMarketTrade: jest
+          .fn()
+          .mockResolvedValueOnce({ id: 'o1', filled: 0.02, average: 50000 })
+          .mockRejectedValueOnce(new Error('insufficient liquidity'))
+          .mockResolvedValueOnce({ id: 'u1', filled: 0.02, average: 49900 }),
+      });
+
+      await service['executeTriangularCycle'](
+        '1-client1-triangularArbitrage',
+        strategyParamsDto,
+        evaluation,
+      );
+
+      expect(
+        service['tradeService'].executeMarketTrade,
+      ).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          symbol: 'BTC/USDT',
+          side: 'sell',
+          amount: 0.02,
+        }),
+      );
+      const record =
+        mockTriangularArbitrageHistoryRepository.save.mock.calls.at(-1)[0];
+      expect(record.status).toBe('unwound');
+      expect(record.profit).toBeCloseTo(-2);
+      expect(record.legs.map((leg) => leg.status)).toEqual([
+        'filled',
+        'failed',
+        'skipped',
+        'unwind',
+      ]);
+    });
+  });
+
+  describe('manageGridOrders', () => {
+    const strategyKey = '1-client1-grid';
+    const strategyParamsDto = {
+      userId: '1',
+      clientId: 'client1',
+      pair: 'BTC/USDT',
+      exchangeName: 'binance',
+      lowerPrice: 100,
+      upperPrice: 200,
+      gridCount: 4,
+      spacing: 'arithmetic' as const,
+      amountPerGrid: 1,
+      checkIntervalSeconds: 10,
+      stopLossPrice: 90,
+    };
+    const gridState = (): GridState => ({
+      levels: [100, 125, 150, 175, 200],
+      openOrders: [],
+      gridProfits: [0, 1, 2, 3].map((i) => ({
+        lowerPrice: 100 + i * 25,
+        upperPrice: 125 + i * 25,
+        roundTrips: 0,
+        realizedProfit: 0,
+      })),
+      realizedProfit: 0,
+      baseInventory: 0,
+    });
+    let exchange: { fetchTicker: jest.Mock; fetchOrder: jest.Mock };
+
+    beforeEach(() => {
+      exchange = {
+        fetchTicker: jest.fn().mockResolvedValue({ last: 140 }),
+        fetchOrder: jest.fn(),
+      };
+      service['exchangeInitService'].getExchange = jest
+        .fn()
+        .mockReturnValue(exchange);
+      service['orderRepository'].update = jest.fn();
+      service['placeLayerOrders'] = jest
+        .fn()
+        .mockResolvedValue([{ orderId: 'counter1' }]);
+    });
+
+    it('should place the opposite order one grid step away from a fill', async () => {
+      const state = gridState();
+      state.openOrders = [
+        { orderId: 'buy1', level: 1, side: 'buy', price: 125, amount: 1 },
+      ];
+      service['gridStates'].set(strategyKey, state);
+      exchange.fetchOrder.mockResolvedValue({
+        id: 'buy1',
+        status: 'closed',
+        filled: 1,
+        average: 125,
+      });
+
+      await service['manageGridOrders'](strategyKey, strategyParamsDto);
+
+      expect(service['placeLayerOrders']).toHaveBeenCalledWith(
+        '1',
+        'client1',
+        exchange,
+        'binance',
+        'BTC/USDT',
+        [{ layer: 2, side: 'sell', price: 150, amount: 1 }],
+        'grid',
+      );
+      expect(state.openOrders).toEqual([
+        expect.objectContaining({
+          orderId: 'counter1',
+          level: 2,
+          side: 'sell',
+          entryLevel: 1,
+          entryPrice: 125,
+        }),
+      ]);
+      expect(state.baseInventory).toBe(1);
+      expect(mockStrategyInstanceRepository.update).toHaveBeenCalledWith(
+        { strategyKey },
+        expect.objectContaining({
+          parameters: expect.objectContaining({ gridState: state }),
+        }),
+      );
+    });
+
+    it('should credit the realized profit to the grid a counter order closes', async () => {
+      const state = gridState();
+      state.openOrders = [
+        {
+          orderId: 'sell1',
+          level: 2,
+          side: 'sell',
+          price: 150,
+          amount: 1,
+          entryLevel: 1,
+          entryPrice: 125,
+        },
+      ];
+      service['gridStates'].set(strategyKey, state);
+      exchange.fetchOrder.mockResolvedValue({
+        id: 'sell1',
+        status: 'closed',
+        filled: 1,
+        average: 150,
+      });
+
+      await service['manageGridOrders'](strategyKey, strategyParamsDto);
+
+      expect(state.gridProfits[1]).toEqual(
+        expect.objectContaining({ roundTrips: 1, realizedProfit: 25 }),
+      );
+      expect(state.realizedProfit).toBe(25);
+      expect(state.openOrders[0]).toEqual(
+        expect.objectContaining({ level: 1, side: 'buy', entryLevel: 2 }),
+      );
+    });
+  });
+
+  describe('volatility adaptive market making', () => {
+    let exchange: { id: string; fetchOHLCV: jest.Mock };
+
+    beforeEach(() => {
+      exchange = {
+        id: 'binance',
+        fetchOHLCV: jest
+          .fn()
+          .mockResolvedValue(
+            [100, 101, 100, 101].map((close, i) => [
+              i * 60000,
+              close,
+              close,
+              close,
+              close,
+              1,
+            ]),
+          ),
+      };
+      service['exchangeInitService'].getExchange = jest
+        .fn()
+        .mockReturnValue(exchange);
+      service['orderRepository'].update = jest.fn();
+      service['cancelAllOrders'] = jest.fn();
+      service['placeLayerOrders'] = jest.fn().mockResolvedValue([]);
+    });
+
+    it('should widen the spreads within their bounds and shrink the orders above the target volatility', async () => {
+      const volatility = calculateRealizedVolatility([100, 101, 100, 101]);
+      const logSpy = jest.spyOn(service['logger'], 'log');
+
+      await service['manageMarketMakingOrdersWithLayers'](
+        '1',
+        'client1',
+        'binance',
+        'BTC/USDT',
+        0.01,
+        0.02,
+        10,
+        1,
+        PriceSourceType.MID_PRICE,
+        0,
+        'fixed',
+        undefined,
+        undefined,
+        {},
+        {},
+        {
+          volatilityAdaptive: true,
+          volatilitySource: 'ohlcv',
+          volatilityWindow: 3,
+          volatilityTimeframe: '5m',
+          targetVolatility: volatility / 2,
+          maxSpread: 0.03,
+        },
+      );
+
+      expect(exchange.fetchOHLCV).toHaveBeenCalledWith(
+        'BTC/USDT',
+        '5m',
+        undefined,
+        4,
+      );
+      const [buy, sell] = (service['placeLayerOrders'] as jest.Mock).mock
+        .calls[0][5];
+      expect(buy.price).toBeCloseTo(98);
+      expect(buy.amount).toBeCloseTo(5);
+      expect(sell.price).toBeCloseTo(103);
+      expect(sell.amount).toBeCloseTo(5);
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '1-client1-pureMarketMaking: refreshing BTC/USDT around 100 with bid spread 0.02, ask spread 0.03 and order amount 5, volatility',
+        ),
+      );
+    });
+
+    it('should keep the configured quotes while the volatility is still being measured', async () => {
+      exchange.fetchOHLCV.mockResolvedValue([[0, 100, 100, 100, 100, 1]]);
+
+      await service['manageMarketMakingOrdersWithLayers'](
+        '1',
+        'client1',
+        'binance',
+        'BTC/USDT',
+        0.01,
+        0.02,
+        10,
+        1,
+        PriceSourceType.MID_PRICE,
+        0,
+        'fixed',
+        undefined,
+        undefined,
+        {},
+        {},
+        { volatilityAdaptive: true, volatilitySource: 'ohlcv' },
+      );
+
+      const [buy, sell] = (service['placeLayerOrders'] as jest.Mock).mock
+        .calls[0][5];
+      expect(buy.price).toBeCloseTo(99);
+      expect(sell.price).toBeCloseTo(102);
+      expect(sell.amount).toBe(10);
+    });
+  });
+
+  describe('avellaneda market making', () => {
+    it('should measure the inventory on the allocation and fills of the strategy', async () => {
+      const exchange = { id: 'binance', fetchBalance: jest.fn() };
+      service['exchangeInitService'].getExchange = jest
+        .fn()
+        .mockReturnValue(exchange);
+      service['orderRepository'].update = jest.fn();
+      service['cancelAllOrders'] = jest.fn();
+      service['placeLayerOrders'] = jest.fn().mockResolvedValue([]);
+      mockPnlService.getFills.mockResolvedValueOnce([
+        {
+          exchangeName: 'binance',
+          pair: 'BTC/USDT',
+          side: 'buy',
+          amount: 4,
+          price: 100,
+          fee: 0,
+        },
+        // Fills of the strategy on other markets don't move this inventory
+        {
+          exchangeName: 'binance',
+          pair: 'ETH/USDT',
+          side: 'sell',
+          amount: 2,
+          price: 50,
+          fee: 0,
+        },
+      ]);
+      const logSpy = jest.spyOn(service['logger'], 'log');
+
+      await service['manageAvellanedaMarketMakingOrders'](
+        '1-client1-avellanedaMarketMaking',
+        {
+          userId: '1',
+          clientId: 'client1',
+          pair: 'BTC/USDT',
+          exchangeName: 'binance',
+          orderAmount: 1,
+          orderRefreshTime: 15000,
+          numberOfLayers: 1,
+          targetInventoryRatio: 0.5,
+          baseInventory: 10,
+          quoteInventory: 1000,
+          riskAversion: 0.5,
+          orderBookDepth: 1.5,
+          volatilityWindow: 30,
+          amountChangePerLayer: 0,
+          amountChangeType: 'fixed',
+        },
+      );
+
+      expect(mockPnlService.getFills).toHaveBeenCalledWith(
+        '1-client1-avellanedaMarketMaking',
+      );
+      expect(exchange.fetchBalance).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith(
+        expect.stringContaining('inventory ratio 0.7 (target 0.5)'),
+      );
     });
   });
 
@@ -7,9 +7,16 @@
  *
  * Dependencies:
  * - TradeService: Service for executing trades.
+ * - RiskService: Service checking every strategy order against the risk limits.
+ * - FeeService: Service for the trading and withdrawal fees arbitrage opportunities are netted of.
+ * - PriceSourceService: Service for the reference prices market making quotes around.
+ * - StrategyLifecycleService: Service moving the strategies through their lifecycle and recording their timeline.
+ * - StrategyRegistryService: Registry of the strategy types, the built-in types are registered by this service.
+ * - OrderBookHubService: Shared order book streams the strategies subscribe to.
  * - PerformanceService: Service for recording trading performance.
+ * - PnlService: PnL ledger the inventory of the Avellaneda strategy is rebuilt from.
  * - CustomLogger: Custom logging service for logging errors and information.
- * - Repositories: Injected repositories for managing MarketMakingHistory and ArbitrageHistory entities.
+ * - Repositories: Injected repositories for managing MarketMakingHistory, ArbitrageHistory and TriangularArbitrageHistory entities.
  * - DTOs: ArbitrageStrategyDto and PureMarketMakingStrategyDto for handling strategy data transfer objects.
  * - Exceptions: InternalServerErrorException for handling errors.
  * - Helpers: StrategyKey, createStrategyKey for generating strategy keys.
@@ -31,39 +38,119 @@
  *
  * - stopStrategyForUser(): Stops a strategy for a user and cancels all active orders.
  *
- * - watchSymbols(): Watches order books for the specified pair on two exchanges.
+ * - startStrategyInstance(), markStrategyRunning(): Create or restart the instance of a strategy and mark it running once its loop is set up.
+ *   Starting refuses a strategy pointed at a read-only account.
  *
- * - watchOrderBook(): Watches the order book for the specified pair on an exchange.
+ * - getStrategyExchange(): Returns an exchange on the account the strategy trades on.
+ *
+ * - getStrategyTimeline(): Returns the transitions, parameter changes and errors of a strategy.
+ *
+ * - startStrategy(): Starts a strategy of any registered type with its parameters.
+ *
+ * - getStrategyTypes(): Returns the registered strategy types with the JSON schema of their parameters.
+ *
+ * - updateStrategyParameters(): Validates and saves a new version of the parameters of a strategy and applies them to its running loop.
+ *
+ * - getStrategyParameterVersions(): Returns the parameter versions of a strategy.
+ *
+ * - getStrategyRuntimeStates(): Returns the strategies with whether they actually run in this service.
+ *
+ * - watchOrderBook(): Subscribes a strategy to the order book of a pair on an exchange.
  *
  * - startMarketMakingIfNotStarted(): Starts a market making strategy if it is not already running.
  *
  * - executePureMarketMakingStrategy(): Executes a pure market making strategy.
  *
- * - manageMarketMakingOrdersWithLayers(): Manages market making orders with multiple layers.
+ * - manageMarketMakingOrdersWithLayers(): Manages market making orders with multiple layers, scaling the spreads and order
+ *   amount with the volatility when asked to and logging the effective ones.
+ *
+ * - measureRealizedVolatility(): Measures the realized volatility of a pair on the watched order book or on its candles.
+ *
+ * - refreshLayerOrdersWithDiff(): Keeps the orders within tolerance and only replaces the layers that drifted, tracking hanging orders.
+ *
+ * - executeAvellanedaMarketMakingStrategy(): Executes an inventory-aware (Avellaneda–Stoikov) market making strategy.
+ *
+ * - manageAvellanedaMarketMakingOrders(): Quotes layers around the reservation price derived from inventory and volatility.
+ *   The inventory is the allocation of the strategy moved by its own fills in the PnL ledger.
+ *
+ * - placeLayerOrders(): Places the layer orders of a market making refresh and records them.
+ *
+ * - placeStrategyLimitOrder(), placeStrategyMarketOrder(): Place a strategy order through the risk checks and track it for them,
+ *   tagged with the next client order id of the strategy. The volume strategy and the Alpaca strategies place their limit orders
+ *   through it too, on the account of the DTO.
+ *
+ * - nextClientOrderId(): Returns the next client order id of a strategy, its hashed key followed by a sequence.
+ *
+ * - filterStrategyOrders(): Keeps the orders a strategy placed, told apart by their client order id or else by the order ids
+ *   the strategy recorded.
+ *
+ * - getStrategyRiskStatus(): Returns the risk limits, positions and realized profit of a strategy.
+ *
+ * - pauseStrategyForRisk(): Pauses a strategy that breached a risk limit, cancels its orders and alerts.
+ *
+ * - executeCrossExchangeMarketMakingStrategy(): Executes a cross-exchange market making strategy that hedges maker fills on a deep exchange.
+ *
+ * - manageCrossExchangeMarketMakingOrders(): Settles and hedges the previous maker quotes, then re-quotes off the hedge venue's order book.
+ *
+ * - hedgeMakerFill(): Hedges a maker fill with a taker order and records its slippage and performance.
+ *
+ * - startTriangularArbitrageStrategyForUser(): Starts a triangular arbitrage strategy on the cycles discovered from an exchange's markets.
+ *
+ * - evaluateTriangularArbitrage(): Evaluates the cycles with VWAP over the order books and executes the most profitable one.
+ *
+ * - executeTriangularCycle(): Executes the legs of a cycle in sequence, unwinding on a failed leg, and records the cycle.
+ *
+ * - unwindTriangularCycle(): Trades the currency held after a failed leg back into the start currency.
+ *
+ * - executeGridStrategy(): Executes a grid strategy, placing a ladder of limit orders between a lower and upper price or resuming a saved grid.
+ *
+ * - manageGridOrders(): Places the opposite order one grid step away from every fill, and exits past the stop-loss or take-profit.
+ *
+ * - recordGridFill(): Updates the grid inventory with a fill and records the realized profit of the grid it completes a round trip on.
+ *
+ * - exitGrid(): Cancels the grid orders and sells the inventory the grid bought.
+ *
+ * - saveGridState(): Persists the grid state in the strategy instance parameters.
+ *
+ * - getGridProfits(): Returns the realized profit of every grid of a grid strategy.
  *
  * - adjustOrderParameters(): Adjusts order parameters to the exchange's precision.
  *
- * - cancelAllOrders(): Cancels all orders for the specified pair on an exchange.
+ * - cancelAllOrders(): Cancels the orders a strategy placed on the specified pair on an exchange, leaving the other orders of the account.
  *
  * - getCurrentMarketPrice(): Fetches the current market price for the specified pair on an exchange.
  *
- * - getPriceSource(): Fetches the price source for the specified pair on an exchange based on the price source type.
+ * - evaluateArbitrageOpportunityVWAP(): Routes an arbitrage between the pair of exchanges with the highest VWAP spread net of fees and transfer costs, logging the cost breakdown of every route.
+ *
+ * - getArbitrageVenue(), getArbitrageTransferCosts(): Look up the fee rate and balances of an exchange and, when amortized, the withdrawal fees of an arbitrage.
+ *
+ * - executeArbitrageTradeWithLimitOrders(): Executes arbitrage trades with limit orders, repairing the legs when one fails or times out.
  *
- * - evaluateArbitrageOpportunityVWAP(): Evaluates arbitrage opportunities using VWAP.
+ * - placeArbitrageLeg(), waitForArbitrageLegs(), refreshArbitrageLeg(): Place and track the fill status of the legs of an arbitrage trade.
+ *   untrackArbitrageLegs() stops tracking them once the trade is settled.
  *
- * - executeArbitrageTradeWithLimitOrders(): Executes arbitrage trades with limit orders.
+ * - repairArbitrageLegs(): Unwinds, reposts or alerts on the amount one leg filled over the other, following the leg policy.
  *
  * - getUserOrders(): Fetches regular orders for a specific user.
  *
  * - getUserArbitrageHistorys(): Fetches arbitrage orders for a specific user.
  *
- * - calculateVWAPForAmount(): Calculates the VWAP for a specified amount.
+ * - getUserTriangularArbitrageHistory(): Fetches triangular arbitrage cycles for a specific user.
  *
- * - checkAndCleanFilledOrders(): Checks and cleans filled orders for a strategy.
+ * - checkAndCleanFilledOrders(): Checks and cleans filled orders for a strategy, orders that were canceled, expired or rejected count as done.
  *
  * - isDataFresh(): Checks if the data is fresh based on a timestamp.
  *
- * - handleShutdown(): Handles the shutdown process for the service, including canceling all orders.
+ * - onApplicationBootstrap(): Resumes the strategies that were running when the service last shut down.
+ *
+ * - resumeInterruptedStrategies(): Reconciles open orders of interrupted strategies and reruns them, returning a summary report.
+ *
+ * - reconcileStrategyOrders(): Compares open orders on the exchanges with the last known state of a strategy, the way its
+ *   plugin reconciles them.
+ *
+ * - handleShutdown(): Handles the shutdown process for the service, recording running strategies and canceling all orders.
+ *
+ * - getStrategyMarkets(): Returns the exchanges and pairs a strategy trades on.
  *
  * - cancelAllStrategyOrders(): Cancels all orders for a strategy.
  *
@@ -71,39 +158,144 @@
  * - The service uses CCXT for interacting with exchanges and handles different types of trading strategies.
  * - Error handling is implemented to log and manage errors during strategy execution and order management.
  * - The service logs all operations and ensures that strategy data is correctly recorded in the database.
+ * - A paused strategy is not resumed on boot, it has to be started again once the breach is looked into.
+ * - Strategy statuses only change through the StrategyLifecycleService, which rejects transitions the lifecycle doesn't allow.
+ * - Strategies are started, stopped, reconciled and their markets looked up through the plugin of their type in the registry,
+ *   a new type only has to register a plugin.
+ * - Updated parameters apply on the next tick of a running strategy. Its markets, loop interval and setup are only read when
+ *   it starts, changing them needs a restart.
  */
 
 import * as ccxt from 'ccxt';
-import { Repository } from 'typeorm';
+import { In, Repository } from 'typeorm';
 import { InjectRepository } from '@nestjs/typeorm';
 import {
   ArbitrageStrategyDto,
+  AvellanedaMarketMakingStrategyDto,
+  CrossExchangeMarketMakingStrategyDto,
+  ExecuteVolumeStrategyDto,
+  GridStrategyDto,
   PureMarketMakingStrategyDto,
+  TriangularArbitrageStrategyDto,
 } from 'src/modules/strategy/strategy.dto';
 import { TradeService } from 'src/modules/trade/trade.service';
+import { LimitTradeDto, MarketTradeDto } from 'src/modules/trade/trade.dto';
+import { RiskService } from './risk.service';
+import { FeeService } from './fee.service';
+import { PriceSourceService } from './price-source.service';
+import { StrategyLifecycleService } from './lifecycle.service';
+import { StrategyRegistryService } from './registry.service';
+import { OrderBookHubService } from '../marketdata/orderbook-hub.service';
 import { CustomLogger } from 'src/modules/logger/logger.service';
 import { PriceSourceType } from 'src/common/enum/pricesourcetype';
 import { PerformanceService } from '../performance/performance.service';
-import { Injectable } from '@nestjs/common';
+import { PnlService } from '../performance/pnl.service';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
 import { MarketMakingHistory } from 'src/common/entities/mm-order.entity';
 import { ArbitrageHistory } from 'src/common/entities/arbitrage-order.entity';
-import { StrategyKey, createStrategyKey } from 'src/common/helpers/strategyKey';
-import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import {
+  TriangularArbitrageHistory,
+  TriangularArbitrageLegRecord,
+} from 'src/common/entities/triangular-arbitrage-order.entity';
+import {
+  StrategyKey,
+  createClientOrderId,
+  createStrategyKey,
+  isStrategyClientOrderId,
+} from 'src/common/helpers/strategyKey';
+import {
+  ExchangeInitService,
+  READ_ONLY_ACCOUNT_LABEL,
+} from 'src/modules/exchangeInit/exchangeInit.service';
 import { StrategyInstance } from 'src/common/entities/strategy-instances.entity';
+import {
+  calculateAdaptiveQuote,
+  calculateLayerOrders,
+  calculateRealizedVolatility,
+  diffLayerOrders,
+  ExistingLayerOrder,
+  isBuyAllowed,
+  isSellAllowed,
+  LayerOrder,
+} from 'src/common/helpers/strategy/marketMaking';
+import {
+  calculateInventoryQuote,
+  calculateStrategyInventory,
+  calculateVolatility,
+} from 'src/common/helpers/strategy/avellanedaStoikov';
+import {
+  calculateHedgeQuotes,
+  calculateHedgeSlippage,
+} from 'src/common/helpers/strategy/crossExchange';
+import {
+  calculateLegSlippage,
+  evaluateArbitrageRoutes,
+  formatArbitrageRoute,
+  getArbitrageExchangeNames,
+  selectArbitrageRoute,
+  summarizeArbitrageLegs,
+} from 'src/common/helpers/strategy/arbitrage';
+import { formatRiskBreach } from 'src/common/helpers/strategy/risk';
+import { canTransitionStrategy } from 'src/common/helpers/strategy/lifecycle';
+import { validateStrategyParameters } from 'src/common/helpers/strategy/parameters';
+import {
+  calculateCounterOrder,
+  calculateGridLevels,
+  calculateInitialGridOrders,
+  checkGridExit,
+} from 'src/common/helpers/strategy/grid';
+import {
+  evaluateTriangularCycle,
+  findTriangularCycles,
+  formatTriangularCycle,
+  TriangularCycle,
+  TriangularCycleEvaluation,
+} from 'src/common/helpers/strategy/triangularArbitrage';
+import {
+  ArbitrageLeg,
+  ArbitrageLegOutcome,
+  ArbitrageLegSettings,
+  ArbitrageTransferCosts,
+  ArbitrageVenue,
+  CrossExchangeHedgeState,
+  CrossExchangeMakerOrder,
+  GridOrder,
+  GridState,
+  MarketMakingRefreshSettings,
+  MarketMakingVolatilitySettings,
+  PriceSourceSettings,
+  ResumedStrategy,
+  RiskBreach,
+  RiskOrder,
+  StrategyEventContext,
+  StrategyMarket,
+  StrategyResumeReport,
+} from 'src/common/types/strategy/strategy';
 
 @Injectable()
-export class StrategyService {
+export class StrategyService implements OnApplicationBootstrap {
   private readonly logger = new CustomLogger(StrategyService.name);
+  private isShuttingDown = false;
 
-  private orderBookCache = new Map<
-    string,
-    { data: ccxt.OrderBook; timestamp: number }
-  >();
   private strategyInstances = new Map<
     string,
     { isRunning: boolean; intervalId: NodeJS.Timeout }
   >();
   private activeOrderBookWatches = new Map<string, Set<string>>(); // Tracks active watches for each strategy
+  private priceHistory = new Map<string, number[]>(); // Mid price samples per strategy, used to measure volatility
+  private hangingOrders = new Map<string, Map<string, number>>(); // Hanging order ids and their expiry per strategy
+  private crossExchangeStates = new Map<string, CrossExchangeHedgeState>(); // Maker quotes and hedge exposure per strategy
+  private triangularCycles = new Map<string, TriangularCycle[]>(); // Cycles discovered per triangular arbitrage strategy
+  private triangularExecutions = new Set<string>(); // Triangular arbitrage strategies with a check in flight
+  private gridStates = new Map<string, GridState>(); // Grid orders and profits per strategy, persisted in the instance parameters
+  private strategyParameters = new Map<string, Record<string, any>>(); // Parameters the loop of each running strategy reads
+  private clientOrderSequences = new Map<string, number>(); // Sequence of the last client order id of each strategy
+  private accountLabels = new Map<string, string>(); // Exchange account each strategy trades on
   public activeOrders: Map<
     string,
     { exchange: ccxt.Exchange; orderId: string; symbol: string }[]
@@ -112,17 +304,336 @@ export class StrategyService {
   constructor(
     private tradeService: TradeService,
     private performanceService: PerformanceService,
+    private pnlService: PnlService,
     private exchangeInitService: ExchangeInitService,
+    private riskService: RiskService,
+    private feeService: FeeService,
+    private priceSourceService: PriceSourceService,
+    private lifecycleService: StrategyLifecycleService,
+    private strategyRegistry: StrategyRegistryService,
+    private orderBookHub: OrderBookHubService,
     @InjectRepository(MarketMakingHistory)
     private orderRepository: Repository<MarketMakingHistory>,
     @InjectRepository(ArbitrageHistory)
     private arbitrageHistoryRepository: Repository<ArbitrageHistory>,
+    @InjectRepository(TriangularArbitrageHistory)
+    private triangularArbitrageHistoryRepository: Repository<TriangularArbitrageHistory>,
     @InjectRepository(StrategyInstance)
     private strategyInstanceRepository: Repository<StrategyInstance>,
   ) {
     process.on('SIGINT', () => this.handleShutdown());
     process.on('SIGTERM', () => this.handleShutdown());
     process.on('uncaughtException', () => this.handleShutdown());
+    this.registerStrategies();
+  }
+
+  private registerStrategies() {
+    const singleMarket = (_strategyKey: string, parameters) => [
+      { exchangeName: parameters.exchangeName, pair: parameters.pair },
+    ];
+
+    this.strategyRegistry.register({
+      type: 'arbitrage',
+      description:
+        'Arbitrage of a pair between the two exchanges of a list with the highest spread net of costs',
+      parameters: ArbitrageStrategyDto,
+      fixedParameters: [
+        'pair',
+        'exchangeAName',
+        'exchangeBName',
+        'exchangeNames',
+        'accountLabel',
+        'checkIntervalSeconds',
+      ],
+      start: (parameters: ArbitrageStrategyDto) =>
+        this.startArbitrageStrategyForUser(
+          parameters,
+          parameters.checkIntervalSeconds,
+          parameters.maxOpenOrders,
+        ),
+      tick: (strategyKey, parameters: ArbitrageStrategyDto) =>
+        this.tickArbitrageStrategy(
+          strategyKey,
+          parameters,
+          parameters.maxOpenOrders,
+        ),
+      // Arbitrage routes between all of its exchanges, so we add every one
+      getMarkets: (_strategyKey, parameters) =>
+        getArbitrageExchangeNames(parameters).map((exchangeName) => ({
+          exchangeName,
+          pair: parameters.pair,
+        })),
+      reconcilesActiveOrders: true,
+    });
+    this.strategyRegistry.register({
+      type: 'pureMarketMaking',
+      description: 'Layers of bid and ask orders around a reference price',
+      parameters: PureMarketMakingStrategyDto,
+      fixedParameters: [
+        'pair',
+        'exchangeName',
+        'accountLabel',
+        'orderRefreshTime',
+      ],
+      start: (parameters: PureMarketMakingStrategyDto) =>
+        this.executePureMarketMakingStrategy(parameters),
+      tick: (_strategyKey, parameters: PureMarketMakingStrategyDto) =>
+        this.tickPureMarketMakingStrategy(parameters),
+      getMarkets: singleMarket,
+      reconcilesOrderHistory: true,
+    });
+    this.strategyRegistry.register({
+      type: 'avellanedaMarketMaking',
+      description:
+        'Market making around a reservation price derived from the inventory and volatility',
+      parameters: AvellanedaMarketMakingStrategyDto,
+      fixedParameters: [
+        'pair',
+        'exchangeName',
+        'accountLabel',
+        'orderRefreshTime',
+      ],
+      start: (parameters: AvellanedaMarketMakingStrategyDto) =>
+        this.executeAvellanedaMarketMakingStrategy(parameters),
+      tick: (strategyKey, parameters: AvellanedaMarketMakingStrategyDto) =>
+        this.manageAvellanedaMarketMakingOrders(strategyKey, parameters),
+      getMarkets: singleMarket,
+      reconcilesOrderHistory: true,
+    });
+    this.strategyRegistry.register({
+      type: 'crossExchangeMarketMaking',
+      description:
+        'Market making on one exchange, hedging the fills on a deeper exchange',
+      parameters: CrossExchangeMarketMakingStrategyDto,
+      fixedParameters: [
+        'pair',
+        'makerExchangeName',
+        'hedgeExchangeName',
+        'accountLabel',
+        'orderRefreshTime',
+      ],
+      start: (parameters: CrossExchangeMarketMakingStrategyDto) =>
+        this.executeCrossExchangeMarketMakingStrategy(parameters),
+      tick: (strategyKey, parameters: CrossExchangeMarketMakingStrategyDto) =>
+        this.manageCrossExchangeMarketMakingOrders(strategyKey, parameters),
+      getMarkets: (_strategyKey, parameters) => [
+        { exchangeName: parameters.makerExchangeName, pair: parameters.pair },
+        { exchangeName: parameters.hedgeExchangeName, pair: parameters.pair },
+      ],
+      reconcilesOrderHistory: true,
+    });
+    this.strategyRegistry.register({
+      type: 'triangularArbitrage',
+      description: 'Arbitrage of the cycles of three markets on one exchange',
+      parameters: TriangularArbitrageStrategyDto,
+      fixedParameters: [
+        'exchangeName',
+        'accountLabel',
+        'startCurrency',
+        'currencies',
+        'maxCycles',
+        'checkIntervalSeconds',
+      ],
+      start: (parameters: TriangularArbitrageStrategyDto) =>
+        this.startTriangularArbitrageStrategyForUser(parameters),
+      tick: (strategyKey, parameters: TriangularArbitrageStrategyDto) =>
+        this.evaluateTriangularArbitrage(strategyKey, parameters),
+      // Only market orders are placed, the markets of the discovered cycles are all it trades on
+      getMarkets: (strategyKey, parameters) =>
+        Array.from(
+          new Set(
+            (this.triangularCycles.get(strategyKey) || [])
+              .flatMap((cycle) => cycle.legs)
+              .map((leg) => leg.symbol),
+          ),
+        ).map((pair) => ({ exchangeName: parameters.exchangeName, pair })),
+    });
+    this.strategyRegistry.register({
+      type: 'grid',
+      description:
+        'A ladder of limit orders between a lower and upper price, re-placed one step away from every fill',
+      parameters: GridStrategyDto,
+      fixedParameters: [
+        'pair',
+        'exchangeName',
+        'accountLabel',
+        'lowerPrice',
+        'upperPrice',
+        'gridCount',
+        'spacing',
+        'checkIntervalSeconds',
+      ],
+      start: (parameters: GridStrategyDto) =>
+        this.executeGridStrategy(parameters),
+      tick: (strategyKey, parameters: GridStrategyDto) =>
+        this.manageGridOrders(strategyKey, parameters),
+      getMarkets: singleMarket,
+      reconcilesOrderHistory: true,
+    });
+    this.strategyRegistry.register({
+      type: 'volume',
+      description:
+        'A number of trades between two accounts of an exchange, at randomized prices, amounts and intervals',
+      parameters: ExecuteVolumeStrategyDto,
+      // Its trades are scheduled with the parameters it started with
+      fixedParameters: [
+        'exchangeName',
+        'symbol',
+        'incrementPercentage',
+        'intervalTime',
+        'tradeAmount',
+        'numTrades',
+      ],
+      // Saved volume strategies name their parameters after the base values
+      start: (parameters) =>
+        this.executeVolumeStrategy(
+          parameters.exchangeName,
+          parameters.symbol,
+          parameters.incrementPercentage ?? parameters.baseIncrementPercentage,
+          parameters.intervalTime ?? parameters.baseIntervalTime,
+          parameters.tradeAmount ?? parameters.baseTradeAmount,
+          parameters.numTrades,
+          parameters.userId,
+          parameters.clientId,
+        ),
+      getMarkets: (_strategyKey, parameters) => [
+        { exchangeName: parameters.exchangeName, pair: parameters.symbol },
+      ],
+    });
+  }
+
+  onApplicationBootstrap() {
+    // Don't block the boot, exchanges are still being initialized at this point
+    this.resumeInterruptedStrategies().catch((error) =>
+      this.logger.error(
+        `Failed to resume interrupted strategies: ${error.message}`,
+      ),
+    );
+  }
+
+  async resumeInterruptedStrategies(): Promise<StrategyResumeReport> {
+    await this.exchangeInitService.waitForInitialization();
+
+    const report: StrategyResumeReport = {
+      startedAt: new Date(),
+      finishedAt: null,
+      resumed: [],
+      failed: [],
+    };
+    const interruptedInstances = await this.strategyInstanceRepository.find({
+      where: { status: 'interrupted' },
+    });
+
+    for (const strategyInstance of interruptedInstances) {
+      const { strategyKey, strategyType } = strategyInstance;
+
+      // Claim the instance, so only one service instance resumes it
+      const claimed = await this.lifecycleService.transition(
+        strategyKey,
+        'starting',
+        { actor: 'system', reason: 'Resumed after a restart' },
+        'interrupted',
+      );
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        const reconciliation = await this.reconcileStrategyOrders(
+          strategyInstance,
+        );
+        await this.rerunStrategy(strategyKey);
+        report.resumed.push({ strategyKey, strategyType, ...reconciliation });
+      } catch (error) {
+        this.logger.error(
+          `Failed to resume strategy ${strategyKey}: ${error.message}`,
+        );
+        await this.lifecycleService.transition(strategyKey, 'errored', {
+          actor: 'system',
+          reason: `Failed to resume: ${error.message}`,
+        });
+        report.failed.push({ strategyKey, error: error.message });
+      }
+    }
+
+    report.finishedAt = new Date();
+    if (report.resumed.length || report.failed.length) {
+      const summary = [
+        `Resumed ${report.resumed.length} strategies, ${report.failed.length} failed.`,
+        ...report.resumed.map(
+          (r) =>
+            `${r.strategyKey}: ${r.openOrdersFound} open orders found, ${r.ordersReconciled} orders reconciled`,
+        ),
+        ...report.failed.map((f) => `${f.strategyKey}: failed (${f.error})`),
+      ].join('\n');
+      this.logger.log(summary);
+      await this.logger.logToDiscord(summary);
+    }
+    return report;
+  }
+
+  // Brings the last known order state of a strategy in line with the exchanges before it is rerun
+  private async reconcileStrategyOrders(
+    strategyInstance: StrategyInstance,
+  ): Promise<Omit<ResumedStrategy, 'strategyKey' | 'strategyType'>> {
+    const { strategyKey, strategyType, userId, clientId } = strategyInstance;
+    const plugin = this.strategyRegistry.get(strategyType);
+    let openOrdersFound = 0;
+    let ordersReconciled = 0;
+
+    for (const { exchangeName, pair } of this.getStrategyMarkets(
+      strategyInstance,
+    )) {
+      const exchange = this.exchangeInitService.getExchange(
+        exchangeName,
+        strategyInstance.accountLabel,
+      );
+      const openOrders = await this.filterStrategyOrders(
+        strategyKey,
+        exchangeName,
+        pair,
+        await exchange.fetchOpenOrders(pair),
+      );
+      const openOrderIds = new Set(openOrders.map((order) => order.id));
+      openOrdersFound += openOrders.length;
+
+      if (plugin.reconcilesOrderHistory) {
+        // Orders recorded as open but gone from the exchange were filled or canceled while offline
+        const knownOpenOrders = await this.orderRepository.find({
+          where: {
+            userId,
+            clientId,
+            exchange: exchangeName,
+            pair,
+            strategy: strategyType,
+            status: 'open',
+          },
+        });
+        for (const knownOrder of knownOpenOrders) {
+          if (!openOrderIds.has(knownOrder.orderId)) {
+            await this.orderRepository.update(
+              { id: knownOrder.id },
+              { status: 'closed' },
+            );
+            ordersReconciled++;
+          }
+        }
+      } else if (plugin.reconcilesActiveOrders) {
+        // Track the surviving orders again, so no new opportunity is taken before they fill
+        const trackedOrders = this.activeOrders.get(strategyKey) || [];
+        for (const order of openOrders) {
+          if (!trackedOrders.some((tracked) => tracked.orderId === order.id)) {
+            trackedOrders.push({ exchange, orderId: order.id, symbol: pair });
+            ordersReconciled++;
+          }
+        }
+        if (trackedOrders.length) {
+          this.activeOrders.set(strategyKey, trackedOrders);
+        }
+      }
+    }
+
+    return { openOrdersFound, ordersReconciled };
   }
 
   async getSupportedExchanges(): Promise<string[]> {
@@ -138,6 +649,20 @@ export class StrategyService {
     return await this.strategyInstanceRepository.find();
   }
 
+  async getStrategyRuntimeStates() {
+    const strategyInstances = await this.strategyInstanceRepository.find({
+      order: { updatedAt: 'DESC' },
+    });
+    return strategyInstances.map((strategyInstance) => ({
+      ...strategyInstance,
+      isRunning: this.strategyInstances.has(strategyInstance.strategyKey),
+    }));
+  }
+
+  async getStrategyTimeline(strategyKey: string) {
+    return await this.lifecycleService.getTimeline(strategyKey);
+  }
+
   async getStrategyInstanceKey(strategyKey: string): Promise<StrategyInstance> {
     return await this.strategyInstanceRepository.findOne({
       where: { strategyKey },
@@ -160,36 +685,9 @@ export class StrategyService {
       return;
     }
 
-    // Extract the parameters and run the strategy based on its type
+    // Extract the parameters and run the strategy through the plugin of its type
     const { parameters, strategyType } = strategyInstance;
-    switch (strategyType) {
-      case 'arbitrage':
-        await this.startArbitrageStrategyForUser(
-          parameters as ArbitrageStrategyDto, // Use the saved parameters
-          parameters.checkIntervalSeconds,
-          parameters.maxOpenOrders,
-        );
-        break;
-      case 'pureMarketMaking':
-        await this.executePureMarketMakingStrategy(
-          parameters as PureMarketMakingStrategyDto,
-        );
-        break;
-      case 'volume':
-        await this.executeVolumeStrategy(
-          parameters.exchangeName,
-          parameters.symbol,
-          parameters.baseIncrementPercentage,
-          parameters.baseIntervalTime,
-          parameters.baseTradeAmount,
-          parameters.numTrades,
-          parameters.userId,
-          parameters.clientId,
-        );
-        break;
-      default:
-        throw new Error(`Unknown strategy type: ${strategyType}`);
-    }
+    await this.strategyRegistry.get(strategyType).start(parameters);
 
     this.logger.log(`Strategy ${strategyKey} rerun successfully.`);
   }
@@ -223,8 +721,8 @@ export class StrategyService {
     checkIntervalSeconds: number,
     maxOpenOrders: number,
   ) {
-    const { userId, clientId, pair, exchangeAName, exchangeBName } =
-      strategyParamsDto;
+    const { userId, clientId, pair } = strategyParamsDto;
+    const exchangeNames = getArbitrageExchangeNames(strategyParamsDto);
     const strategyKey = createStrategyKey({
       type: 'arbitrage',
       user_id: userId,
@@ -237,104 +735,110 @@ export class StrategyService {
       );
       return;
     }
-    // Check if a running instance already exists
-    let strategyInstance = await this.strategyInstanceRepository.findOne({
-      where: { strategyKey, status: 'running' },
-    });
-
-    // If not running, either find a stopped instance to reuse or create a new one
-    if (!strategyInstance) {
-      strategyInstance = await this.strategyInstanceRepository.findOne({
-        where: { strategyKey },
-      });
-
-      // If instance exists but was stopped, update its status
-      if (strategyInstance) {
-        await this.strategyInstanceRepository.update(
-          { strategyKey },
-          { status: 'running', updatedAt: new Date() },
-        );
-      } else {
-        // Otherwise, create a new instance
-        strategyInstance = this.strategyInstanceRepository.create({
-          strategyKey,
-          userId,
-          clientId,
-          strategyType: 'arbitrage',
-          parameters: strategyParamsDto,
-          status: 'running',
-        });
-        await this.strategyInstanceRepository.save(strategyInstance);
-      }
+    if (exchangeNames.length < 2) {
+      this.logger.error(
+        `Arbitrage strategy ${strategyKey} needs at least two exchanges, got ${exchangeNames.join(
+          ', ',
+        )}`,
+      );
+      return;
     }
-    const exchangeA = this.exchangeInitService.getExchange(exchangeAName);
-    const exchangeB = this.exchangeInitService.getExchange(exchangeBName);
+    await this.startStrategyInstance(strategyKey, {
+      userId,
+      clientId,
+      strategyType: 'arbitrage',
+      parameters: strategyParamsDto,
+    });
+    const exchanges = exchangeNames.map((exchangeName) =>
+      this.getStrategyExchange(strategyKey, exchangeName),
+    );
 
     this.logger.log(
-      `Starting arbitrage strategy for user ${userId}, client ${clientId}`,
+      `Starting arbitrage strategy for user ${userId}, client ${clientId} on ${exchangeNames.join(
+        ', ',
+      )}`,
     );
-    // Add the pair to active watches for this strategy
-    const watchSet = this.activeOrderBookWatches.get(strategyKey) || new Set();
-    watchSet.add(pair);
-    this.activeOrderBookWatches.set(strategyKey, watchSet);
-
-    this.watchSymbols(exchangeA, exchangeB, pair, strategyKey);
+    for (const exchange of exchanges) {
+      this.watchOrderBook(exchange, pair, strategyKey);
+    }
 
     const intervalId = setInterval(async () => {
-      const allOrdersFilled = await this.checkAndCleanFilledOrders(strategyKey);
-      const currentOpenOrders = this.activeOrders.get(strategyKey)?.length || 0;
-
-      if (allOrdersFilled && currentOpenOrders < maxOpenOrders) {
-        await this.evaluateArbitrageOpportunityVWAP(
-          exchangeA,
-          exchangeB,
-          strategyParamsDto,
-        );
-      } else {
-        this.logger.log(
-          `Waiting for open orders to fill for ${strategyKey} before evaluating new opportunities.`,
-        );
-      }
+      await this.tickArbitrageStrategy(
+        strategyKey,
+        strategyParamsDto,
+        maxOpenOrders,
+      );
     }, checkIntervalSeconds * 1000); // Run every specified number of seconds
 
-    this.strategyInstances.set(strategyKey, { isRunning: true, intervalId });
+    await this.markStrategyRunning(strategyKey, intervalId, strategyParamsDto);
+  }
+
+  private async tickArbitrageStrategy(
+    strategyKey: string,
+    strategyParamsDto: ArbitrageStrategyDto,
+    maxOpenOrders: number,
+  ) {
+    const allOrdersFilled = await this.checkAndCleanFilledOrders(strategyKey);
+    const currentOpenOrders = this.activeOrders.get(strategyKey)?.length || 0;
+
+    if (
+      allOrdersFilled &&
+      currentOpenOrders < (strategyParamsDto.maxOpenOrders ?? maxOpenOrders)
+    ) {
+      await this.evaluateArbitrageOpportunityVWAP(
+        getArbitrageExchangeNames(strategyParamsDto).map((exchangeName) =>
+          this.getStrategyExchange(strategyKey, exchangeName),
+        ),
+        strategyParamsDto,
+      );
+    } else {
+      this.logger.log(
+        `Waiting for open orders to fill for ${strategyKey} before evaluating new opportunities.`,
+      );
+    }
   }
 
   async stopStrategyForUser(
     userId: string,
     clientId: string,
     strategyType?: string,
+    context: StrategyEventContext = { actor: 'user' },
   ) {
     this.logger.log(
       `Stopping Strategy ${strategyType} for user ${userId} and client ${clientId}`,
     );
 
-    let strategyKey;
-    if (strategyType === 'arbitrage') {
-      strategyKey = createStrategyKey({
-        type: 'arbitrage',
-        user_id: userId,
-        client_id: clientId,
-      });
-    } else if (strategyType === 'pureMarketMaking') {
-      strategyKey = createStrategyKey({
-        type: 'pureMarketMaking',
-        user_id: userId,
-        client_id: clientId,
-      });
-    } else if (strategyType === 'volume') {
-      strategyKey = createStrategyKey({
-        type: 'volume',
-        user_id: userId,
-        client_id: clientId,
-      });
+    if (!this.strategyRegistry.has(strategyType)) {
+      this.logger.warn(`Unknown strategy type: ${strategyType}`);
+      return;
     }
+    const strategyKey = createStrategyKey({
+      type: strategyType,
+      user_id: userId,
+      client_id: clientId,
+    });
 
-    await this.strategyInstanceRepository.update(
-      { strategyKey },
-      { status: 'stopped', updatedAt: new Date() },
-    );
+    const status = await this.lifecycleService.getStatus(strategyKey);
+    const stopping = canTransitionStrategy(status, 'stopping');
+    if (stopping) {
+      await this.lifecycleService.transition(strategyKey, 'stopping', context);
+    } else if (status === 'created') {
+      await this.lifecycleService.transition(strategyKey, 'stopped', context);
+    }
 
+    if (await this.teardownStrategy(strategyKey)) {
+      this.logger.log(
+        `Stopped ${strategyType} strategy for user ${userId}, client ${clientId}`,
+      );
+    }
+    await this.strategyRegistry.get(strategyType).stop?.(strategyKey);
+    if (stopping) {
+      await this.lifecycleService.transition(strategyKey, 'stopped', context);
+    }
+  }
+
+  // Clears the loop, orders and state of a strategy, returns whether it was running
+  private async teardownStrategy(strategyKey: string): Promise<boolean> {
     const strategyInstance = this.strategyInstances.get(strategyKey);
     if (strategyInstance) {
       // Clear the interval
@@ -343,73 +847,192 @@ export class StrategyService {
       await this.cancelAllStrategyOrders(strategyKey);
 
       this.strategyInstances.delete(strategyKey);
-      this.logger.log(
-        `Stopped ${strategyType} strategy for user ${userId}, client ${clientId}`,
-      );
+      this.strategyParameters.delete(strategyKey);
 
-      // Remove the pairs from active watches
+      // Leave the order book streams, the last strategy on a pair closes its stream
       this.activeOrderBookWatches.delete(strategyKey);
+      this.orderBookHub.unsubscribeAll(strategyKey);
+      this.priceHistory.delete(strategyKey);
+      this.hangingOrders.delete(strategyKey);
+      this.crossExchangeStates.delete(strategyKey);
+      this.triangularCycles.delete(strategyKey);
+      this.gridStates.delete(strategyKey);
+      this.accountLabels.delete(strategyKey);
     }
+    // The parameters may change before the strategy runs again
+    this.riskService.reloadLimits(strategyKey);
+    return !!strategyInstance;
   }
 
-  async executeVolumeStrategy(
-    exchangeName: string,
-    symbol: string,
-    baseIncrementPercentage: number,
-    baseIntervalTime: number,
-    baseTradeAmount: number,
-    numTrades: number,
-    userId: string,
-    clientId: string,
+  // Creates the instance of a strategy or restarts the existing one with the given parameters
+  private async startStrategyInstance(
+    strategyKey: string,
+    instance: Pick<
+      StrategyInstance,
+      'userId' | 'clientId' | 'strategyType' | 'parameters'
+    >,
   ) {
-    const strategyKey = createStrategyKey({
-      type: 'volume',
-      user_id: userId,
-      client_id: clientId,
-    });
+    const accountLabel = instance.parameters.accountLabel || 'default';
+    if (accountLabel === READ_ONLY_ACCOUNT_LABEL) {
+      throw new BadRequestException(
+        `Strategy ${strategyKey} trades, it can't run on the ${accountLabel} account.`,
+      );
+    }
 
-    if (this.strategyInstances.has(strategyKey)) {
-      this.logger.log(`Strategy ${strategyKey} is already running.`);
-      return;
+    const status = await this.lifecycleService.getStatus(strategyKey);
+    if (status === null) {
+      await this.lifecycleService.createStrategyInstance(
+        { strategyKey, ...instance, accountLabel },
+        { actor: 'user' },
+      );
+    } else {
+      await this.lifecycleService.updateParameters(
+        strategyKey,
+        instance.parameters,
+        { actor: 'user' },
+      );
+      await this.strategyInstanceRepository.update(
+        { strategyKey },
+        { accountLabel },
+      );
     }
+    this.accountLabels.set(strategyKey, accountLabel);
 
-    // Check if a running instance already exists
-    let strategyInstance = await this.strategyInstanceRepository.findOne({
-      where: { strategyKey, status: 'running' },
+    // Resumed strategies were already claimed as starting
+    if (status === 'starting') {
+      return;
+    }
+    if (status !== null && !canTransitionStrategy(status, 'starting')) {
+      // Recorded as active, but not running in this service
+      await this.lifecycleService.transition(strategyKey, 'errored', {
+        actor: 'system',
+        reason: `Recorded as ${status} but not running`,
+      });
+    }
+    await this.lifecycleService.transition(strategyKey, 'starting', {
+      actor: 'user',
     });
+  }
 
-    if (!strategyInstance) {
-      strategyInstance = await this.strategyInstanceRepository.findOne({
-        where: { strategyKey },
-      });
+  private getStrategyExchange(
+    strategyKey: string,
+    exchangeName: string,
+  ): ccxt.Exchange {
+    return this.exchangeInitService.getExchange(
+      exchangeName,
+      this.accountLabels.get(strategyKey),
+    );
+  }
 
-      if (strategyInstance) {
-        await this.strategyInstanceRepository.update(
-          { strategyKey },
-          { status: 'running', updatedAt: new Date() },
-        );
-      } else {
-        // Create a new instance if none exists
-        strategyInstance = this.strategyInstanceRepository.create({
-          strategyKey,
-          userId,
-          clientId,
-          strategyType: 'volume',
-          parameters: {
-            exchangeName,
-            symbol,
-            baseIncrementPercentage,
-            baseIntervalTime,
-            baseTradeAmount,
-            numTrades,
-            userId,
-            clientId,
-          },
-          status: 'running',
-        });
-        await this.strategyInstanceRepository.save(strategyInstance);
-      }
+  // The loop of the strategy reads the parameters on every tick, updates are applied to them in place
+  private async markStrategyRunning(
+    strategyKey: string,
+    intervalId: NodeJS.Timeout,
+    parameters?: Record<string, any>,
+  ) {
+    this.strategyInstances.set(strategyKey, { isRunning: true, intervalId });
+    if (parameters) {
+      this.strategyParameters.set(strategyKey, parameters);
+    }
+    await this.lifecycleService.transition(strategyKey, 'running');
+  }
+
+  async startStrategy(strategyType: string, parameters: Record<string, any>) {
+    if (!this.strategyRegistry.has(strategyType)) {
+      throw new BadRequestException(`Unknown strategy type: ${strategyType}`);
+    }
+    const plugin = this.strategyRegistry.get(strategyType);
+    const errors = validateStrategyParameters(plugin.parameters, parameters);
+    if (errors.length) {
+      throw new BadRequestException(errors.join(', '));
+    }
+    await plugin.start(parameters);
+  }
+
+  getStrategyTypes() {
+    return this.strategyRegistry.getTypes();
+  }
+
+  async updateStrategyParameters(
+    strategyKey: string,
+    changes: Record<string, any>,
+    context: StrategyEventContext = { actor: 'user' },
+  ) {
+    const strategyInstance = await this.strategyInstanceRepository.findOne({
+      where: { strategyKey },
+    });
+    if (!strategyInstance) {
+      throw new NotFoundException(`Strategy ${strategyKey} not found.`);
+    }
+    const { strategyType } = strategyInstance;
+    if (!this.strategyRegistry.has(strategyType)) {
+      throw new BadRequestException(`Unknown strategy type: ${strategyType}`);
+    }
+    const plugin = this.strategyRegistry.get(strategyType);
+    const errors = validateStrategyParameters(plugin.parameters, changes, [
+      'userId',
+      'clientId',
+      ...plugin.fixedParameters,
+    ]);
+    if (errors.length) {
+      throw new BadRequestException(errors.join(', '));
+    }
+
+    const parameters = { ...strategyInstance.parameters, ...changes };
+    const version = await this.lifecycleService.updateParameters(
+      strategyKey,
+      parameters,
+      context,
+    );
+    const liveParameters = this.strategyParameters.get(strategyKey);
+    if (liveParameters) {
+      Object.assign(liveParameters, changes);
+    }
+    this.riskService.reloadLimits(strategyKey);
+
+    return { strategyKey, version, parameters, applied: !!liveParameters };
+  }
+
+  async getStrategyParameterVersions(strategyKey: string) {
+    return await this.lifecycleService.getParameterVersions(strategyKey);
+  }
+
+  async executeVolumeStrategy(
+    exchangeName: string,
+    symbol: string,
+    baseIncrementPercentage: number,
+    baseIntervalTime: number,
+    baseTradeAmount: number,
+    numTrades: number,
+    userId: string,
+    clientId: string,
+  ) {
+    const strategyKey = createStrategyKey({
+      type: 'volume',
+      user_id: userId,
+      client_id: clientId,
+    });
+
+    if (this.strategyInstances.has(strategyKey)) {
+      this.logger.log(`Strategy ${strategyKey} is already running.`);
+      return;
     }
+
+    await this.startStrategyInstance(strategyKey, {
+      userId,
+      clientId,
+      strategyType: 'volume',
+      parameters: {
+        exchangeName,
+        symbol,
+        baseIncrementPercentage,
+        baseIntervalTime,
+        baseTradeAmount,
+        numTrades,
+        userId,
+        clientId,
+      },
+    });
     try {
       const exchangeAccount1 = this.exchangeInitService.getExchange(
         exchangeName,
@@ -426,7 +1049,10 @@ export class StrategyService {
       const executeTrade = async () => {
         if (tradesExecuted >= numTrades) {
           this.logger.log(`Volume strategy ${strategyKey} completed.`);
-          this.strategyInstances.delete(strategyKey);
+          await this.stopStrategyForUser(userId, clientId, 'volume', {
+            actor: 'system',
+            reason: `Completed ${numTrades} trades`,
+          });
           return;
         }
 
@@ -453,6 +1079,8 @@ export class StrategyService {
           const sellExchange = useAccount1
             ? exchangeAccount2
             : exchangeAccount1;
+          const buyAccountLabel = useAccount1 ? 'default' : 'account2';
+          const sellAccountLabel = useAccount1 ? 'account2' : 'default';
 
           // Randomize the price adjustment percentage
           const variableIncrementPercentage =
@@ -470,24 +1098,34 @@ export class StrategyService {
           const variableTradeAmount =
             baseTradeAmount * (1 + (Math.random() - 0.5) / 10); // Varies by ±5%
 
-          // Place buy order on the selected exchange
-          const buyOrder = await buyExchange.createLimitBuyOrder(
+          // Place buy order on the selected account
+          const buyOrder = await this.placeStrategyLimitOrder(strategyKey, {
+            userId,
+            clientId,
+            exchange: exchangeName,
             symbol,
-            variableTradeAmount,
-            currentPrice,
-          );
+            side: 'buy',
+            amount: variableTradeAmount,
+            price: currentPrice,
+            accountLabel: buyAccountLabel,
+          });
           this.logger.log(
-            `Buy order placed on ${buyExchange.id}: ${buyOrder.id} at price ${currentPrice} with amount ${variableTradeAmount}`,
+            `Buy order placed on ${buyExchange.id} ${buyAccountLabel}: ${buyOrder.id} at price ${currentPrice} with amount ${variableTradeAmount}`,
           );
 
-          // Place sell order on the other exchange
-          const sellOrder = await sellExchange.createLimitSellOrder(
+          // Place sell order on the other account
+          const sellOrder = await this.placeStrategyLimitOrder(strategyKey, {
+            userId,
+            clientId,
+            exchange: exchangeName,
             symbol,
-            variableTradeAmount,
-            currentPrice,
-          );
+            side: 'sell',
+            amount: variableTradeAmount,
+            price: currentPrice,
+            accountLabel: sellAccountLabel,
+          });
           this.logger.log(
-            `Sell order placed on ${sellExchange.id}: ${sellOrder.id} at price ${currentPrice} with amount ${variableTradeAmount}`,
+            `Sell order placed on ${sellExchange.id} ${sellAccountLabel}: ${sellOrder.id} at price ${currentPrice} with amount ${variableTradeAmount}`,
           );
 
           // Optionally, wait for orders to be filled or perform additional checks here
@@ -511,6 +1149,7 @@ export class StrategyService {
           setTimeout(executeTrade, randomInterval * 1000); // Execute the next trade after a random interval
         } catch (error) {
           this.logger.error(`Error executing trade: ${error.message}`);
+          await this.lifecycleService.recordError(strategyKey, error.message);
           // Even if there's an error, wait before trying the next trade
           const randomInterval =
             baseIntervalTime + Math.floor(Math.random() * baseIntervalTime);
@@ -519,14 +1158,14 @@ export class StrategyService {
       };
 
       // Start the first trade execution
-      this.strategyInstances.set(strategyKey, {
-        isRunning: true,
-        intervalId: null,
-      });
+      await this.markStrategyRunning(strategyKey, null);
       this.logger.log(`Volume strategy ${strategyKey} started.`);
       executeTrade(); // Start the execution loop
     } catch (error) {
       this.logger.error(`Failed to execute volume strategy: ${error.message}`);
+      await this.lifecycleService.transition(strategyKey, 'errored', {
+        reason: error.message,
+      });
     }
   }
 
@@ -543,54 +1182,34 @@ export class StrategyService {
     }
   }
 
-  stopVolumeStrategy(userId: string, clientId: string) {
+  async stopVolumeStrategy(userId: string, clientId: string) {
     const strategyKey = createStrategyKey({
       type: 'volume',
       user_id: userId,
       client_id: clientId,
     });
-    const strategyInstance = this.strategyInstances.get(strategyKey);
-
-    if (strategyInstance) {
-      clearInterval(strategyInstance.intervalId);
-      this.cancelAllStrategyOrders(strategyKey);
-      this.strategyInstances.delete(strategyKey);
-      this.logger.log(`Volume strategy ${strategyKey} stopped.`);
-    } else {
+    if (!this.strategyInstances.has(strategyKey)) {
       this.logger.warn(`No active strategy found for ${strategyKey}.`);
+      return;
     }
+    await this.stopStrategyForUser(userId, clientId, 'volume');
   }
 
-  private async watchSymbols(
-    exchangeA: ccxt.Exchange,
-    exchangeB: ccxt.Exchange,
-    pair: string,
-    strategyKey: string,
-  ) {
-    this.watchOrderBook(exchangeA, pair, strategyKey);
-    this.watchOrderBook(exchangeB, pair, strategyKey);
-  }
-
-  private async watchOrderBook(
+  private watchOrderBook(
     exchange: ccxt.Exchange,
     symbol: string,
     strategyKey: string,
   ) {
-    while (this.activeOrderBookWatches.get(strategyKey)?.has(symbol)) {
-      try {
-        const newOrderbook = await exchange.watchOrderBook(symbol);
-        this.orderBookCache.set(symbol + '-' + exchange.id, {
-          data: newOrderbook,
-          timestamp: Date.now(),
-        });
-      } catch (error) {
-        this.logger.error(
-          `Error in watchOrderBook for ${symbol} on ${exchange.id}: ${error.message}`,
-        );
-        // Decide on a retry mechanism or skip to the next cycle
-        await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait for 2 seconds before retrying or moving on
-      }
-    }
+    const watchSet = this.activeOrderBookWatches.get(strategyKey) || new Set();
+    watchSet.add(symbol);
+    this.activeOrderBookWatches.set(strategyKey, watchSet);
+    this.orderBookHub.subscribe(
+      exchange.id,
+      symbol,
+      strategyKey,
+      undefined,
+      this.accountLabels.get(strategyKey),
+    );
   }
 
   async startMarketMakingIfNotStarted(
@@ -606,22 +1225,7 @@ export class StrategyService {
   async executePureMarketMakingStrategy(
     strategyParamsDto: PureMarketMakingStrategyDto,
   ) {
-    const {
-      userId,
-      clientId,
-      pair,
-      exchangeName,
-      bidSpread,
-      askSpread,
-      orderAmount,
-      orderRefreshTime,
-      numberOfLayers,
-      priceSourceType,
-      amountChangePerLayer,
-      amountChangeType,
-      ceilingPrice,
-      floorPrice,
-    } = strategyParamsDto;
+    const { userId, clientId, orderRefreshTime } = strategyParamsDto;
     const strategyKey = createStrategyKey({
       type: 'pureMarketMaking',
       user_id: userId,
@@ -634,63 +1238,110 @@ export class StrategyService {
       return;
     }
 
-    // Check if a running instance already exists
-    let strategyInstance = await this.strategyInstanceRepository.findOne({
-      where: { strategyKey, status: 'running' },
+    await this.startStrategyInstance(strategyKey, {
+      userId,
+      clientId,
+      strategyType: 'pureMarketMaking',
+      parameters: strategyParamsDto,
     });
-
-    if (!strategyInstance) {
-      strategyInstance = await this.strategyInstanceRepository.findOne({
-        where: { strategyKey },
-      });
-
-      if (strategyInstance) {
-        await this.strategyInstanceRepository.update(
-          { strategyKey },
-          { status: 'running', updatedAt: new Date() },
-        );
-      } else {
-        // Create a new instance if none exists
-        strategyInstance = this.strategyInstanceRepository.create({
-          strategyKey,
-          userId,
-          clientId,
-          strategyType: 'pureMarketMaking',
-          parameters: strategyParamsDto,
-          status: 'running',
-        });
-        await this.strategyInstanceRepository.save(strategyInstance);
-      }
-    }
     // Start the strategy
     this.logger.log(`Starting pure market making strategy for ${strategyKey}.`);
     const intervalId = setInterval(async () => {
       try {
-        await this.manageMarketMakingOrdersWithLayers(
-          userId,
-          clientId,
-          exchangeName,
-          pair,
-          bidSpread,
-          askSpread,
-          orderAmount,
-          numberOfLayers,
-          priceSourceType,
-          amountChangePerLayer,
-          amountChangeType,
-          ceilingPrice,
-          floorPrice,
-        );
+        await this.tickPureMarketMakingStrategy(strategyParamsDto);
       } catch (error) {
         this.logger.error(
           `Error executing pure market making strategy for ${strategyKey}: ${error.message}`,
         );
+        await this.lifecycleService.recordError(strategyKey, error.message);
         await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait for 5 seconds before retrying or moving on
       }
     }, orderRefreshTime);
 
     // Track the strategy instance
-    this.strategyInstances.set(strategyKey, { isRunning: true, intervalId });
+    await this.markStrategyRunning(strategyKey, intervalId, strategyParamsDto);
+  }
+
+  // Reads the parameters on every tick, so updated parameters apply without a restart
+  private async tickPureMarketMakingStrategy(
+    strategyParamsDto: PureMarketMakingStrategyDto,
+  ) {
+    const {
+      userId,
+      clientId,
+      exchangeName,
+      pair,
+      bidSpread,
+      askSpread,
+      orderAmount,
+      numberOfLayers,
+      priceSourceType,
+      amountChangePerLayer,
+      amountChangeType,
+      ceilingPrice,
+      floorPrice,
+      refreshMode,
+      priceTolerance,
+      amountTolerance,
+      hangingOrdersEnabled,
+      hangingOrderTimeout,
+      referenceExchangeName,
+      referencePair,
+      indexExchangeNames,
+      coingeckoId,
+      coingeckoCurrency,
+      maxPriceAge,
+      fallbackPriceSourceTypes,
+      volatilityAdaptive,
+      volatilitySource,
+      volatilityWindow,
+      volatilityTimeframe,
+      targetVolatility,
+      minSpread,
+      maxSpread,
+      minOrderSizeRatio,
+    } = strategyParamsDto;
+    await this.manageMarketMakingOrdersWithLayers(
+      userId,
+      clientId,
+      exchangeName,
+      pair,
+      bidSpread,
+      askSpread,
+      orderAmount,
+      numberOfLayers,
+      priceSourceType,
+      amountChangePerLayer,
+      amountChangeType,
+      ceilingPrice,
+      floorPrice,
+      {
+        refreshMode,
+        priceTolerance,
+        amountTolerance,
+        hangingOrdersEnabled,
+        hangingOrderTimeout,
+      },
+      {
+        referenceExchangeName,
+        referencePair,
+        indexExchangeNames,
+        coingeckoId,
+        coingeckoCurrency,
+        maxPriceAge,
+        fallbackPriceSourceTypes,
+      },
+      {
+        volatilityAdaptive,
+        volatilitySource,
+        volatilityWindow,
+        volatilityTimeframe,
+        targetVolatility,
+        minSpread,
+        maxSpread,
+        minOrderSizeRatio,
+      },
+    );
   }
 
   private async manageMarketMakingOrdersWithLayers(
@@ -707,25 +1358,95 @@ export class StrategyService {
     amountChangeType: 'fixed' | 'percentage',
     ceilingPrice?: number,
     floorPrice?: number,
+    refreshSettings: MarketMakingRefreshSettings = {},
+    priceSourceSettings: PriceSourceSettings = {},
+    volatilitySettings: MarketMakingVolatilitySettings = {},
   ) {
+    const strategyKey = createStrategyKey({
+      type: 'pureMarketMaking',
+      user_id: userId,
+      client_id: clientId,
+    });
     // Fetch the current market price based on the specified price source type
-    const priceSource = await this.getPriceSource(
+    const priceSource = await this.priceSourceService.getReferencePrice(
       exchangeName,
       pair,
       priceSourceType,
+      priceSourceSettings,
+      this.accountLabels.get(strategyKey),
+    );
+    const exchange = this.getStrategyExchange(strategyKey, exchangeName);
+
+    // The layers are spaced by the spreads, so scaling the spreads scales the spacing too
+    let volatilityDetails = '';
+    if (volatilitySettings.volatilityAdaptive) {
+      const volatility = await this.measureRealizedVolatility(
+        strategyKey,
+        exchange,
+        pair,
+        volatilitySettings,
+      );
+      if (volatility === undefined) {
+        volatilityDetails = ', volatility still being measured';
+      } else {
+        const adaptiveQuote = calculateAdaptiveQuote({
+          bidSpread,
+          askSpread,
+          orderAmount: baseOrderAmount,
+          volatility,
+          targetVolatility: volatilitySettings.targetVolatility ?? 0.001,
+          minSpread: volatilitySettings.minSpread,
+          maxSpread: volatilitySettings.maxSpread,
+          minOrderSizeRatio: volatilitySettings.minOrderSizeRatio,
+        });
+        bidSpread = adaptiveQuote.bidSpread;
+        askSpread = adaptiveQuote.askSpread;
+        baseOrderAmount = adaptiveQuote.orderAmount;
+        volatilityDetails = `, volatility ${volatility} (${adaptiveQuote.volatilityRatio}x target)`;
+      }
+    }
+    this.logger.log(
+      `${strategyKey}: refreshing ${pair} around ${priceSource} with bid spread ${bidSpread}, ask spread ${askSpread} and order amount ${baseOrderAmount}${volatilityDetails}`,
     );
-    const exchange = this.exchangeInitService.getExchange(exchangeName);
+
+    const layerOrders = calculateLayerOrders({
+      priceSource,
+      bidSpread,
+      askSpread,
+      baseOrderAmount,
+      numberOfLayers,
+      amountChangePerLayer,
+      amountChangeType,
+      ceilingPrice,
+      floorPrice,
+    });
+
+    if (!isBuyAllowed(priceSource, ceilingPrice)) {
+      this.logger.log(
+        `Skipping buy orders for ${pair} as price source ${priceSource} is above the ceiling price ${ceilingPrice}.`,
+      );
+    }
+    if (!isSellAllowed(priceSource, floorPrice)) {
+      this.logger.log(
+        `Skipping sell orders for ${pair} as price source ${priceSource} is below the floor price ${floorPrice}.`,
+      );
+    }
+
+    if (refreshSettings.refreshMode === 'diff') {
+      return await this.refreshLayerOrdersWithDiff(
+        strategyKey,
+        userId,
+        clientId,
+        exchange,
+        exchangeName,
+        pair,
+        layerOrders,
+        refreshSettings,
+      );
+    }
 
     // Cancel all existing orders for this strategy
-    await this.cancelAllOrders(
-      exchange,
-      pair,
-      createStrategyKey({
-        type: 'pureMarketMaking',
-        user_id: userId,
-        client_id: clientId,
-      }),
-    );
+    await this.cancelAllOrders(exchange, pair, strategyKey);
 
     // Mark all open orders not canceled as closed
     await this.orderRepository.update(
@@ -742,113 +1463,1536 @@ export class StrategyService {
       },
     );
 
-    let currentOrderAmount = baseOrderAmount;
-
-    for (let layer = 1; layer <= numberOfLayers; layer++) {
-      if (layer > 1) {
-        if (amountChangeType === 'fixed') {
-          currentOrderAmount += amountChangePerLayer;
-        } else if (amountChangeType === 'percentage') {
-          currentOrderAmount +=
-            currentOrderAmount * (amountChangePerLayer / 100);
-        }
-      }
-
-      const layerBidSpreadPercentage = bidSpread * layer;
-      const layerAskSpreadPercentage = askSpread * layer;
-
-      const buyPrice = priceSource * (1 - layerBidSpreadPercentage);
-      const sellPrice = priceSource * (1 + layerAskSpreadPercentage);
+    await this.placeLayerOrders(
+      userId,
+      clientId,
+      exchange,
+      exchangeName,
+      pair,
+      layerOrders,
+      'pureMarketMaking',
+    );
+  }
 
-      // Conditionally place buy and sell orders based on ceiling and floor price logic
-      if (ceilingPrice === undefined || priceSource <= ceilingPrice) {
-        // Place buy orders as market price is not above the ceiling
-        const {
-          adjustedAmount: adjustedBuyAmount,
-          adjustedPrice: adjustedBuyPrice,
-        } = await this.adjustOrderParameters(
-          exchange,
-          pair,
-          currentOrderAmount,
-          buyPrice,
-        );
+  // Realized volatility of the mid price samples of the watched order book or of the candle closes
+  private async measureRealizedVolatility(
+    strategyKey: string,
+    exchange: ccxt.Exchange,
+    pair: string,
+    volatilitySettings: MarketMakingVolatilitySettings,
+  ): Promise<number | undefined> {
+    const { volatilitySource = 'orderBook', volatilityTimeframe = '1m' } =
+      volatilitySettings;
+    const volatilityWindow = volatilitySettings.volatilityWindow ?? 30;
+
+    if (volatilitySource === 'ohlcv') {
+      const candles = await exchange.fetchOHLCV(
+        pair,
+        volatilityTimeframe,
+        undefined,
+        volatilityWindow + 1,
+      );
+      return calculateRealizedVolatility(candles.map((candle) => candle[4]));
+    }
 
-        const order = await this.tradeService.executeLimitTrade({
-          userId,
-          clientId,
-          exchange: exchangeName,
-          symbol: pair,
-          side: 'buy',
-          amount: parseFloat(adjustedBuyAmount),
-          price: parseFloat(adjustedBuyPrice),
-        });
+    this.watchOrderBook(exchange, pair, strategyKey);
+    const snapshot = this.orderBookHub.getSnapshot(
+      exchange.id,
+      pair,
+      this.accountLabels.get(strategyKey),
+    );
+    const orderBook =
+      snapshot && this.isDataFresh(snapshot.timestamp)
+        ? snapshot.orderBook
+        : await exchange.fetchOrderBook(pair);
+    if (!orderBook.bids.length || !orderBook.asks.length) {
+      return calculateRealizedVolatility(
+        this.priceHistory.get(strategyKey) || [],
+      );
+    }
+    const prices = [
+      ...(this.priceHistory.get(strategyKey) || []),
+      (orderBook.bids[0][0] + orderBook.asks[0][0]) / 2,
+    ].slice(-(volatilityWindow + 1));
+    this.priceHistory.set(strategyKey, prices);
+    return calculateRealizedVolatility(prices);
+  }
 
-        // Create and save the order entity
-        const orderEntity = this.orderRepository.create({
-          userId,
-          clientId,
-          exchange: exchangeName,
-          pair,
-          side: 'buy',
-          amount: parseFloat(adjustedBuyAmount),
-          price: parseFloat(adjustedBuyPrice),
-          orderId: order.id,
-          executedAt: new Date(), // Assuming immediate execution; adjust as necessary
-          status: 'open',
-          strategy: 'pureMarketMaking',
-        });
+  private async refreshLayerOrdersWithDiff(
+    strategyKey: string,
+    userId: string,
+    clientId: string,
+    exchange: ccxt.Exchange,
+    exchangeName: string,
+    pair: string,
+    layerOrders: LayerOrder[],
+    refreshSettings: MarketMakingRefreshSettings,
+  ) {
+    const {
+      priceTolerance,
+      amountTolerance,
+      hangingOrdersEnabled,
+      hangingOrderTimeout,
+    } = refreshSettings;
+    const openOrders = await exchange.fetchOpenOrders(pair);
+    const openOrdersById = new Map(
+      openOrders.map((order) => [order.id, order]),
+    );
+    const trackedOrders = await this.orderRepository.find({
+      where: {
+        userId,
+        clientId,
+        exchange: exchangeName,
+        pair,
+        strategy: 'pureMarketMaking',
+        status: 'open',
+      },
+    });
+    const hangingOrders = this.hangingOrders.get(strategyKey) || new Map();
+
+    // Tracked orders that left the book were filled (or canceled outside of the strategy)
+    const filledSides = new Set<string>();
+    const restingOrders: ExistingLayerOrder[] = [];
+    for (const trackedOrder of trackedOrders) {
+      const openOrder = openOrdersById.get(trackedOrder.orderId);
+      if (!openOrder) {
+        await this.orderRepository.update(
+          { id: trackedOrder.id },
+          { status: 'closed' },
+        );
+        filledSides.add(trackedOrder.side);
+        hangingOrders.delete(trackedOrder.orderId);
+        continue;
+      }
+      restingOrders.push({
+        id: openOrder.id,
+        side: trackedOrder.side as 'buy' | 'sell',
+        price: openOrder.price ?? Number(trackedOrder.price),
+        amount: openOrder.remaining ?? Number(trackedOrder.amount),
+      });
+    }
 
-        await this.orderRepository.save(orderEntity);
-      } else {
-        this.logger.log(
-          `Skipping buy order for ${pair} as price source ${priceSource} is above the ceiling price ${ceilingPrice}.`,
+    // Once one side fills, the resting orders on the other side are left hanging until they time out
+    const now = Date.now();
+    if (hangingOrdersEnabled) {
+      for (const order of restingOrders) {
+        const oppositeSide = order.side === 'buy' ? 'sell' : 'buy';
+        if (filledSides.has(oppositeSide) && !hangingOrders.has(order.id)) {
+          hangingOrders.set(order.id, now + (hangingOrderTimeout || 0));
+        }
+      }
+    }
+    const isHanging = (order: ExistingLayerOrder) =>
+      hangingOrders.get(order.id) > now;
+
+    const { keep, cancel, place } = diffLayerOrders(
+      layerOrders,
+      restingOrders.filter((order) => !isHanging(order)),
+      priceTolerance,
+      amountTolerance,
+    );
+
+    for (const order of cancel) {
+      try {
+        await exchange.cancelOrder(order.id, pair);
+        await this.orderRepository.update(
+          { orderId: order.id, exchange: exchangeName, pair },
+          { status: 'canceled' },
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to cancel order ${order.id} for ${pair} on ${exchangeName}: ${error.message}`,
+        );
+      }
+    }
+
+    // Expired hanging orders went through the diff above, forget them
+    for (const [orderId, expiresAt] of hangingOrders) {
+      if (expiresAt <= now) {
+        hangingOrders.delete(orderId);
+      }
+    }
+    this.hangingOrders.set(strategyKey, hangingOrders);
+
+    this.logger.log(
+      `${strategyKey}: kept ${keep.length} orders, replacing ${cancel.length} with ${place.length}, ${hangingOrders.size} hanging`,
+    );
+
+    await this.placeLayerOrders(
+      userId,
+      clientId,
+      exchange,
+      exchangeName,
+      pair,
+      place,
+      'pureMarketMaking',
+    );
+  }
+
+  async executeAvellanedaMarketMakingStrategy(
+    strategyParamsDto: AvellanedaMarketMakingStrategyDto,
+  ) {
+    const { userId, clientId, orderRefreshTime } = strategyParamsDto;
+    const strategyKey = createStrategyKey({
+      type: 'avellanedaMarketMaking',
+      user_id: userId,
+      client_id: clientId,
+    });
+
+    // Ensure the strategy is not already running
+    if (this.strategyInstances.has(strategyKey)) {
+      this.logger.error(`Strategy ${strategyKey} is already running.`);
+      return;
+    }
+
+    await this.startStrategyInstance(strategyKey, {
+      userId,
+      clientId,
+      strategyType: 'avellanedaMarketMaking',
+      parameters: strategyParamsDto,
+    });
+
+    this.logger.log(
+      `Starting avellaneda market making strategy for ${strategyKey}.`,
+    );
+    const intervalId = setInterval(async () => {
+      try {
+        await this.manageAvellanedaMarketMakingOrders(
+          strategyKey,
+          strategyParamsDto,
         );
+      } catch (error) {
+        this.logger.error(
+          `Error executing avellaneda market making strategy for ${strategyKey}: ${error.message}`,
+        );
+        await this.lifecycleService.recordError(strategyKey, error.message);
+        await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait for 5 seconds before retrying or moving on
       }
+    }, orderRefreshTime);
+
+    // Track the strategy instance
+    await this.markStrategyRunning(strategyKey, intervalId, strategyParamsDto);
+  }
+
+  private async manageAvellanedaMarketMakingOrders(
+    strategyKey: string,
+    strategyParamsDto: AvellanedaMarketMakingStrategyDto,
+  ) {
+    const {
+      userId,
+      clientId,
+      exchangeName,
+      pair,
+      orderAmount,
+      numberOfLayers,
+      targetInventoryRatio,
+      baseInventory,
+      quoteInventory,
+      riskAversion,
+      orderBookDepth,
+      volatilityWindow,
+      minSpread,
+      amountChangePerLayer,
+      amountChangeType,
+      ceilingPrice,
+      floorPrice,
+    } = strategyParamsDto;
+    const exchange = this.getStrategyExchange(strategyKey, exchangeName);
+
+    // Sample the mid price once per refresh to measure volatility
+    const midPrice = await this.priceSourceService.getReferencePrice(
+      exchangeName,
+      pair,
+      PriceSourceType.MID_PRICE,
+      {},
+      this.accountLabels.get(strategyKey),
+    );
+    const prices = [
+      ...(this.priceHistory.get(strategyKey) || []),
+      midPrice,
+    ].slice(-volatilityWindow);
+    this.priceHistory.set(strategyKey, prices);
+
+    // Inventory is the strategy's allocation moved by its own fills, other funds and orders on the account don't skew it
+    const fills = await this.pnlService.getFills(strategyKey);
+    const { baseBalance, quoteBalance } = calculateStrategyInventory(
+      { baseBalance: baseInventory || 0, quoteBalance: quoteInventory || 0 },
+      fills.filter(
+        (fill) => fill.exchangeName === exchangeName && fill.pair === pair,
+      ),
+    );
+    const { reservationPrice, optimalSpread, inventoryRatio } =
+      calculateInventoryQuote({
+        midPrice,
+        baseBalance,
+        quoteBalance,
+        targetInventoryRatio,
+        orderAmount,
+        riskAversion,
+        orderBookDepth,
+        volatility: calculateVolatility(prices),
+      });
+    const halfSpread = Math.max(optimalSpread / 2, midPrice * (minSpread || 0));
+    this.logger.log(
+      `${strategyKey}: mid ${midPrice}, inventory ratio ${inventoryRatio} (target ${targetInventoryRatio}), reservation price ${reservationPrice}, half spread ${halfSpread}`,
+    );
+
+    // Cancel all existing orders for this strategy
+    await this.cancelAllOrders(exchange, pair, strategyKey);
+
+    // Mark all open orders not canceled as closed
+    await this.orderRepository.update(
+      {
+        userId,
+        clientId,
+        exchange: exchangeName,
+        pair,
+        strategy: 'avellanedaMarketMaking',
+        status: 'open',
+      },
+      {
+        status: 'closed',
+      },
+    );
+
+    // Layers are spaced by the half spread around the reservation price, so they skew with inventory
+    const layerOrders = calculateLayerOrders({
+      priceSource: reservationPrice,
+      bidSpread: halfSpread / reservationPrice,
+      askSpread: halfSpread / reservationPrice,
+      baseOrderAmount: orderAmount,
+      numberOfLayers,
+      amountChangePerLayer,
+      amountChangeType,
+      ceilingPrice,
+      floorPrice,
+    });
+
+    await this.placeLayerOrders(
+      userId,
+      clientId,
+      exchange,
+      exchangeName,
+      pair,
+      layerOrders,
+      'avellanedaMarketMaking',
+    );
+  }
 
-      if (floorPrice === undefined || priceSource >= floorPrice) {
-        // Place sell orders as market price is not below the floor
-        const {
-          adjustedAmount: adjustedSellAmount,
-          adjustedPrice: adjustedSellPrice,
-        } = await this.adjustOrderParameters(
+  private async placeLayerOrders(
+    userId: string,
+    clientId: string,
+    exchange: ccxt.Exchange,
+    exchangeName: string,
+    pair: string,
+    layerOrders: LayerOrder[],
+    strategy: string,
+  ): Promise<MarketMakingHistory[]> {
+    const placedOrders: MarketMakingHistory[] = [];
+    for (const layerOrder of layerOrders) {
+      const { adjustedAmount, adjustedPrice } =
+        await this.adjustOrderParameters(
           exchange,
           pair,
-          currentOrderAmount,
-          sellPrice,
+          layerOrder.amount,
+          layerOrder.price,
         );
 
-        const order = await this.tradeService.executeLimitTrade({
+      const order = await this.placeStrategyLimitOrder(
+        createStrategyKey({
+          type: strategy as StrategyKey['type'],
+          user_id: userId,
+          client_id: clientId,
+        }),
+        {
           userId,
           clientId,
           exchange: exchangeName,
           symbol: pair,
-          side: 'sell',
-          amount: parseFloat(adjustedSellAmount),
-          price: parseFloat(adjustedSellPrice),
+          side: layerOrder.side,
+          amount: parseFloat(adjustedAmount),
+          price: parseFloat(adjustedPrice),
+        },
+      );
+
+      // Create and save the order entity
+      const orderEntity = this.orderRepository.create({
+        userId,
+        clientId,
+        exchange: exchangeName,
+        pair,
+        side: layerOrder.side,
+        amount: parseFloat(adjustedAmount),
+        price: parseFloat(adjustedPrice),
+        orderId: order.id,
+        clientOrderId: order.clientOrderId,
+        executedAt: new Date(), // Assuming immediate execution; adjust as necessary
+        status: 'open',
+        strategy,
+      });
+
+      await this.orderRepository.save(orderEntity);
+      placedOrders.push(orderEntity);
+    }
+    return placedOrders;
+  }
+
+  // Every strategy order goes through the risk manager, an order breaching a limit pauses the strategy instead
+  async placeStrategyLimitOrder(
+    strategyKey: string,
+    limitTradeDto: LimitTradeDto,
+  ): Promise<ccxt.Order> {
+    const accountLabel =
+      limitTradeDto.accountLabel ?? this.accountLabels.get(strategyKey);
+    const riskOrder: RiskOrder = {
+      type: 'limit',
+      exchangeName: limitTradeDto.exchange,
+      accountLabel,
+      symbol: limitTradeDto.symbol,
+      side: limitTradeDto.side as 'buy' | 'sell',
+      amount: limitTradeDto.amount,
+      price: limitTradeDto.price,
+    };
+    await this.checkStrategyRisk(strategyKey, riskOrder);
+    const clientOrderId = this.nextClientOrderId(strategyKey);
+    const order = await this.tradeService.executeLimitTrade({
+      ...limitTradeDto,
+      accountLabel,
+      clientOrderId,
+    });
+    order.clientOrderId = order.clientOrderId || clientOrderId;
+    await this.recordStrategyOrder(strategyKey, riskOrder, order);
+    return order;
+  }
+
+  private async placeStrategyMarketOrder(
+    strategyKey: string,
+    marketTradeDto: MarketTradeDto,
+    expectedPrice?: number,
+  ): Promise<ccxt.Order> {
+    const accountLabel = this.accountLabels.get(strategyKey);
+    const riskOrder: RiskOrder = {
+      type: 'market',
+      exchangeName: marketTradeDto.exchange,
+      accountLabel,
+      symbol: marketTradeDto.symbol,
+      side: marketTradeDto.side as 'buy' | 'sell',
+      amount: marketTradeDto.amount,
+      price: expectedPrice,
+    };
+    await this.checkStrategyRisk(strategyKey, riskOrder);
+    const clientOrderId = this.nextClientOrderId(strategyKey);
+    const order = await this.tradeService.executeMarketTrade({
+      ...marketTradeDto,
+      accountLabel,
+      clientOrderId,
+    });
+    order.clientOrderId = order.clientOrderId || clientOrderId;
+    await this.recordStrategyOrder(strategyKey, riskOrder, order);
+    return order;
+  }
+
+  // The prefix is derived from the strategy key, the sequence isn't persisted but starts from the current time, so the ids
+  // of a restarted strategy don't repeat earlier ones
+  private nextClientOrderId(strategyKey: string): string {
+    const sequence = Math.max(
+      (this.clientOrderSequences.get(strategyKey) ?? 0) + 1,
+      Date.now(),
+    );
+    this.clientOrderSequences.set(strategyKey, sequence);
+    return createClientOrderId(strategyKey, sequence);
+  }
+
+  // Exchanges that don't echo the client order id, and orders placed before the strategies tagged them, fall back to the
+  // order ids the strategy tracks or recorded in its history
+  private async filterStrategyOrders(
+    strategyKey: string,
+    exchangeName: string,
+    pair: string,
+    orders: ccxt.Order[],
+  ): Promise<ccxt.Order[]> {
+    const untaggedOrderIds = orders
+      .filter(
+        (order) => !isStrategyClientOrderId(strategyKey, order.clientOrderId),
+      )
+      .map((order) => order.id);
+    const recordedOrderIds = new Set(
+      (this.activeOrders.get(strategyKey) || []).map(({ orderId }) => orderId),
+    );
+    if (untaggedOrderIds.length) {
+      const strategyInstance = await this.strategyInstanceRepository.findOne({
+        where: { strategyKey },
+      });
+      if (strategyInstance) {
+        const recordedOrders = await this.orderRepository.find({
+          where: {
+            userId: strategyInstance.userId,
+            clientId: strategyInstance.clientId,
+            exchange: exchangeName,
+            pair,
+            strategy: strategyInstance.strategyType,
+            orderId: In(untaggedOrderIds),
+          },
         });
+        for (const { orderId } of recordedOrders) {
+          recordedOrderIds.add(orderId);
+        }
+      }
+    }
+    return orders.filter(
+      (order) =>
+        isStrategyClientOrderId(strategyKey, order.clientOrderId) ||
+        recordedOrderIds.has(order.id),
+    );
+  }
+
+  private async checkStrategyRisk(strategyKey: string, riskOrder: RiskOrder) {
+    const breach = await this.riskService.checkOrder(strategyKey, riskOrder);
+    if (breach) {
+      await this.pauseStrategyForRisk(strategyKey, breach);
+      throw new Error(
+        `${riskOrder.side} ${riskOrder.amount} ${
+          riskOrder.symbol
+        } blocked, ${formatRiskBreach(breach)}`,
+      );
+    }
+  }
+
+  private async recordStrategyOrder(
+    strategyKey: string,
+    riskOrder: RiskOrder,
+    order: ccxt.Order,
+  ) {
+    try {
+      await this.riskService.recordOrder(strategyKey, riskOrder, order);
+    } catch (error) {
+      // The order is placed, failing to track it must not fail the strategy
+      this.logger.error(
+        `${strategyKey}: failed to record order ${order.id} for risk checks: ${error.message}`,
+      );
+    }
+  }
+
+  async getStrategyRiskStatus(
+    userId: string,
+    clientId: string,
+    strategyType: StrategyKey['type'],
+  ) {
+    return await this.riskService.getRiskStatus(
+      createStrategyKey({
+        type: strategyType,
+        user_id: userId,
+        client_id: clientId,
+      }),
+    );
+  }
+
+  async pauseStrategyForRisk(strategyKey: string, breach: RiskBreach) {
+    const status = await this.lifecycleService.getStatus(strategyKey);
+    if (!canTransitionStrategy(status, 'pausing')) {
+      return;
+    }
+
+    const context = { actor: 'risk', reason: formatRiskBreach(breach) };
+    await this.lifecycleService.transition(strategyKey, 'pausing', context);
+    await this.teardownStrategy(strategyKey);
+    await this.lifecycleService.transition(strategyKey, 'paused', context);
+
+    const alert = `${strategyKey}: strategy paused and its orders canceled, ${formatRiskBreach(
+      breach,
+    )}`;
+    this.logger.log(alert);
+    await this.sendStrategyAlert(alert);
+  }
+
+  private async sendStrategyAlert(alert: string) {
+    await this.logger.logToDiscord(alert, 'WARNING');
+    await this.logger.logToMixinGroup(
+      `WARN [${StrategyService.name}]: ${alert}`,
+    );
+  }
+
+  async executeCrossExchangeMarketMakingStrategy(
+    strategyParamsDto: CrossExchangeMarketMakingStrategyDto,
+  ) {
+    const {
+      userId,
+      clientId,
+      pair,
+      makerExchangeName,
+      hedgeExchangeName,
+      orderRefreshTime,
+    } = strategyParamsDto;
+    const strategyKey = createStrategyKey({
+      type: 'crossExchangeMarketMaking',
+      user_id: userId,
+      client_id: clientId,
+    });
+
+    // Ensure the strategy is not already running
+    if (this.strategyInstances.has(strategyKey)) {
+      this.logger.error(`Strategy ${strategyKey} is already running.`);
+      return;
+    }
+
+    await this.startStrategyInstance(strategyKey, {
+      userId,
+      clientId,
+      strategyType: 'crossExchangeMarketMaking',
+      parameters: strategyParamsDto,
+    });
+
+    this.getStrategyExchange(strategyKey, makerExchangeName);
+    const hedgeExchange = this.getStrategyExchange(
+      strategyKey,
+      hedgeExchangeName,
+    );
+
+    this.logger.log(
+      `Starting cross exchange market making strategy for ${strategyKey}, quoting on ${makerExchangeName} and hedging on ${hedgeExchangeName}.`,
+    );
+    // Keep the hedge venue's order book streamed, quotes are priced off it
+    this.watchOrderBook(hedgeExchange, pair, strategyKey);
+
+    if (!this.crossExchangeStates.has(strategyKey)) {
+      this.crossExchangeStates.set(strategyKey, {
+        makerOrders: [],
+        unhedgedAmount: 0,
+        hedgeCount: 0,
+        totalSlippage: 0,
+      });
+    }
+
+    const intervalId = setInterval(async () => {
+      try {
+        await this.manageCrossExchangeMarketMakingOrders(
+          strategyKey,
+          strategyParamsDto,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Error executing cross exchange market making strategy for ${strategyKey}: ${error.message}`,
+        );
+        await this.lifecycleService.recordError(strategyKey, error.message);
+        await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait for 5 seconds before retrying or moving on
+      }
+    }, orderRefreshTime);
+
+    // Track the strategy instance
+    await this.markStrategyRunning(strategyKey, intervalId, strategyParamsDto);
+  }
+
+  private async manageCrossExchangeMarketMakingOrders(
+    strategyKey: string,
+    strategyParamsDto: CrossExchangeMarketMakingStrategyDto,
+  ) {
+    const {
+      userId,
+      clientId,
+      pair,
+      makerExchangeName,
+      hedgeExchangeName,
+      orderAmount,
+      minProfitability,
+    } = strategyParamsDto;
+    const state = this.crossExchangeStates.get(strategyKey);
+    const makerExchange = this.getStrategyExchange(
+      strategyKey,
+      makerExchangeName,
+    );
+    const hedgeExchange = this.getStrategyExchange(
+      strategyKey,
+      hedgeExchangeName,
+    );
+
+    // Settle the previous quotes: cancel what is left of them and hedge everything that filled
+    const unsettledOrders: CrossExchangeMakerOrder[] = [];
+    for (const makerOrder of state.makerOrders) {
+      try {
+        try {
+          await makerExchange.cancelOrder(makerOrder.orderId, pair);
+        } catch (error) {
+          // Already filled or canceled, the fetch below tells which
+        }
+        const order = await makerExchange.fetchOrder(makerOrder.orderId, pair);
+        await this.orderRepository.update(
+          { orderId: makerOrder.orderId, exchange: makerExchangeName, pair },
+          { status: order.status === 'closed' ? 'closed' : 'canceled' },
+        );
+        const newlyFilled = (order.filled || 0) - makerOrder.hedgedAmount;
+        if (newlyFilled > 0) {
+          await this.hedgeMakerFill(
+            strategyKey,
+            strategyParamsDto,
+            state,
+            makerOrder,
+            newlyFilled,
+          );
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to settle maker order ${makerOrder.orderId} on ${makerExchangeName}: ${error.message}`,
+        );
+        unsettledOrders.push(makerOrder);
+      }
+    }
+    state.makerOrders = unsettledOrders;
+
+    // Retry hedging the exposure left by failed hedges before quoting again
+    if (state.unhedgedAmount !== 0) {
+      const side = state.unhedgedAmount > 0 ? 'sell' : 'buy';
+      try {
+        await this.placeStrategyMarketOrder(strategyKey, {
+          userId,
+          clientId,
+          exchange: hedgeExchangeName,
+          symbol: pair,
+          side,
+          amount: Math.abs(state.unhedgedAmount),
+        });
+        this.logger.log(
+          `${strategyKey}: hedged the remaining exposure of ${state.unhedgedAmount} on ${hedgeExchangeName}`,
+        );
+        state.unhedgedAmount = 0;
+      } catch (error) {
+        this.logger.warn(
+          `${strategyKey}: unhedged exposure of ${state.unhedgedAmount} ${pair} remains, not quoting until it is hedged: ${error.message}`,
+        );
+        return;
+      }
+    }
+
+    const cachedOrderBook = this.orderBookHub.getSnapshot(
+      hedgeExchange.id,
+      pair,
+      this.accountLabels.get(strategyKey),
+    );
+    const hedgeOrderBook =
+      cachedOrderBook && this.isDataFresh(cachedOrderBook.timestamp)
+        ? cachedOrderBook.orderBook
+        : await hedgeExchange.fetchOrderBook(pair);
+    const quotes = calculateHedgeQuotes(
+      hedgeOrderBook,
+      orderAmount,
+      minProfitability,
+    );
+
+    const layerOrders: LayerOrder[] = [];
+    if (quotes.bidPrice) {
+      layerOrders.push({
+        layer: 1,
+        side: 'buy',
+        price: quotes.bidPrice,
+        amount: orderAmount,
+      });
+    }
+    if (quotes.askPrice) {
+      layerOrders.push({
+        layer: 1,
+        side: 'sell',
+        price: quotes.askPrice,
+        amount: orderAmount,
+      });
+    }
+
+    const placedOrders = await this.placeLayerOrders(
+      userId,
+      clientId,
+      makerExchange,
+      makerExchangeName,
+      pair,
+      layerOrders,
+      'crossExchangeMarketMaking',
+    );
+    for (const placedOrder of placedOrders) {
+      state.makerOrders.push({
+        orderId: placedOrder.orderId,
+        side: placedOrder.side as 'buy' | 'sell',
+        price: placedOrder.price,
+        amount: placedOrder.amount,
+        expectedHedgePrice:
+          placedOrder.side === 'buy'
+            ? quotes.hedgeSellPrice
+            : quotes.hedgeBuyPrice,
+        hedgedAmount: 0,
+      });
+    }
+  }
+
+  private async hedgeMakerFill(
+    strategyKey: string,
+    strategyParamsDto: CrossExchangeMarketMakingStrategyDto,
+    state: CrossExchangeHedgeState,
+    makerOrder: CrossExchangeMakerOrder,
+    amount: number,
+  ) {
+    const { userId, clientId, pair, makerExchangeName, hedgeExchangeName } =
+      strategyParamsDto;
+    const hedgeSide = makerOrder.side === 'buy' ? 'sell' : 'buy';
+    makerOrder.hedgedAmount += amount;
+
+    let hedgeOrder: ccxt.Order;
+    try {
+      hedgeOrder = await this.placeStrategyMarketOrder(
+        strategyKey,
+        {
+          userId,
+          clientId,
+          exchange: hedgeExchangeName,
+          symbol: pair,
+          side: hedgeSide,
+          amount,
+        },
+        makerOrder.expectedHedgePrice,
+      );
+    } catch (error) {
+      state.unhedgedAmount += makerOrder.side === 'buy' ? amount : -amount;
+      this.logger.warn(
+        `${strategyKey}: failed to hedge ${amount} ${pair} on ${hedgeExchangeName}, unhedged exposure is now ${state.unhedgedAmount}: ${error.message}`,
+      );
+      return;
+    }
+
+    const hedgePrice =
+      hedgeOrder.average || hedgeOrder.price || makerOrder.expectedHedgePrice;
+    const hedgeFee = hedgeOrder.fee ? hedgeOrder.fee.cost : 0;
+    const slippage = calculateHedgeSlippage(
+      hedgeSide,
+      makerOrder.expectedHedgePrice,
+      hedgePrice,
+    );
+    state.hedgeCount++;
+    state.totalSlippage += slippage;
+
+    const profitLoss =
+      (makerOrder.side === 'buy'
+        ? hedgePrice - makerOrder.price
+        : makerOrder.price - hedgePrice) *
+        amount -
+      hedgeFee;
+
+    this.logger.log(
+      `${strategyKey}: hedged maker ${makerOrder.side} of ${amount} at ${makerOrder.price} on ${makerExchangeName} with ${hedgeSide} at ${hedgePrice} on ${hedgeExchangeName}, slippage ${slippage}, Profit/Loss: ${profitLoss}`,
+    );
+
+    await this.performanceService.recordPerformance({
+      userId,
+      clientId,
+      strategyType: 'crossExchangeMarketMaking',
+      profitLoss,
+      additionalMetrics: {
+        makerExchange: makerExchangeName,
+        hedgeExchange: hedgeExchangeName,
+        makerSide: makerOrder.side,
+        makerPrice: makerOrder.price,
+        hedgePrice,
+        expectedHedgePrice: makerOrder.expectedHedgePrice,
+        executedAmount: amount,
+        makerOrderId: makerOrder.orderId,
+        hedgeOrderId: hedgeOrder.id,
+        hedgeFee,
+        slippage,
+        averageSlippage: state.totalSlippage / state.hedgeCount,
+        unhedgedAmount: state.unhedgedAmount,
+      },
+      executedAt: new Date(),
+    });
+  }
+
+  async startTriangularArbitrageStrategyForUser(
+    strategyParamsDto: TriangularArbitrageStrategyDto,
+  ) {
+    const {
+      userId,
+      clientId,
+      exchangeName,
+      startCurrency,
+      currencies,
+      maxCycles,
+      checkIntervalSeconds,
+    } = strategyParamsDto;
+    const strategyKey = createStrategyKey({
+      type: 'triangularArbitrage',
+      user_id: userId,
+      client_id: clientId,
+    });
+
+    if (this.strategyInstances.has(strategyKey)) {
+      this.logger.log(
+        `Strategy already running for user ${userId} and client ${clientId}`,
+      );
+      return;
+    }
+
+    const exchange = this.exchangeInitService.getExchange(
+      exchangeName,
+      strategyParamsDto.accountLabel,
+    );
+    const markets = await exchange.loadMarkets();
+    let cycles = findTriangularCycles(
+      Object.values(markets).map((market) => ({
+        symbol: market.symbol,
+        base: market.base,
+        quote: market.quote,
+        active: market.active,
+        spot: market.spot,
+      })),
+      startCurrency,
+      currencies,
+    );
+    if (maxCycles) {
+      cycles = cycles.slice(0, maxCycles);
+    }
+    if (!cycles.length) {
+      throw new Error(
+        `No triangular cycles starting from ${startCurrency} found on ${exchangeName}`,
+      );
+    }
+
+    await this.startStrategyInstance(strategyKey, {
+      userId,
+      clientId,
+      strategyType: 'triangularArbitrage',
+      parameters: strategyParamsDto,
+    });
+
+    this.logger.log(
+      `Starting triangular arbitrage strategy for ${strategyKey} on ${exchangeName} with ${cycles.length} cycles.`,
+    );
+    this.triangularCycles.set(strategyKey, cycles);
+
+    // Watch the order book of every market the cycles go through
+    for (const cycle of cycles) {
+      for (const leg of cycle.legs) {
+        this.watchOrderBook(exchange, leg.symbol, strategyKey);
+      }
+    }
+
+    const intervalId = setInterval(async () => {
+      // Skip the check while the previous one is still executing a cycle
+      if (this.triangularExecutions.has(strategyKey)) {
+        return;
+      }
+      this.triangularExecutions.add(strategyKey);
+      try {
+        await this.evaluateTriangularArbitrage(strategyKey, strategyParamsDto);
+      } catch (error) {
+        this.logger.error(
+          `Error executing triangular arbitrage strategy for ${strategyKey}: ${error.message}`,
+        );
+        await this.lifecycleService.recordError(strategyKey, error.message);
+      } finally {
+        this.triangularExecutions.delete(strategyKey);
+      }
+    }, checkIntervalSeconds * 1000);
+
+    await this.markStrategyRunning(strategyKey, intervalId, strategyParamsDto);
+  }
+
+  private async evaluateTriangularArbitrage(
+    strategyKey: string,
+    strategyParamsDto: TriangularArbitrageStrategyDto,
+  ) {
+    const { exchangeName, amountToTrade, minProfitability } = strategyParamsDto;
+    const exchange = this.getStrategyExchange(strategyKey, exchangeName);
+    const cycles = this.triangularCycles.get(strategyKey) || [];
+
+    const orderBooks: Record<string, ccxt.OrderBook> = {};
+    const feeRates: Record<string, number> = {};
+    for (const symbol of this.activeOrderBookWatches.get(strategyKey) || []) {
+      feeRates[symbol] = exchange.markets?.[symbol]?.taker || 0;
+      const cachedOrderBook = this.orderBookHub.getSnapshot(
+        exchange.id,
+        symbol,
+        this.accountLabels.get(strategyKey),
+      );
+      try {
+        orderBooks[symbol] =
+          cachedOrderBook && this.isDataFresh(cachedOrderBook.timestamp)
+            ? cachedOrderBook.orderBook
+            : await exchange.fetchOrderBook(symbol);
+      } catch (error) {
+        // Cycles through this market are skipped until its order book is available again
+        this.logger.error(
+          `Error fetching order book for ${symbol} on ${exchangeName}: ${error.message}`,
+        );
+      }
+    }
+
+    let bestEvaluation: TriangularCycleEvaluation = null;
+    for (const cycle of cycles) {
+      const evaluation = evaluateTriangularCycle(
+        cycle,
+        orderBooks,
+        amountToTrade,
+        feeRates,
+      );
+      if (
+        evaluation &&
+        (!bestEvaluation ||
+          evaluation.profitability > bestEvaluation.profitability)
+      ) {
+        bestEvaluation = evaluation;
+      }
+    }
+
+    if (!bestEvaluation || bestEvaluation.profitability < minProfitability) {
+      this.logger.log(
+        `No triangular arbitrage opportunity for ${strategyKey}${
+          bestEvaluation
+            ? `, best cycle ${formatTriangularCycle(bestEvaluation.cycle)} at ${
+                bestEvaluation.profitability
+              }`
+            : ''
+        }`,
+      );
+      return;
+    }
+
+    await this.executeTriangularCycle(
+      strategyKey,
+      strategyParamsDto,
+      bestEvaluation,
+    );
+  }
+
+  // Executes the legs in sequence, each one trading what the previous one returned. A failed leg
+  // unwinds what is held back into the start currency, and the cycle is recorded either way
+  private async executeTriangularCycle(
+    strategyKey: string,
+    strategyParamsDto: TriangularArbitrageStrategyDto,
+    evaluation: TriangularCycleEvaluation,
+  ): Promise<TriangularArbitrageHistory> {
+    const { userId, clientId, exchangeName } = strategyParamsDto;
+    const cycleName = formatTriangularCycle(evaluation.cycle);
+    const legRecords: TriangularArbitrageLegRecord[] = evaluation.legs.map(
+      ({ leg, baseAmount, vwap }) => ({
+        symbol: leg.symbol,
+        side: leg.side,
+        amount: baseAmount,
+        expectedPrice: vwap,
+        status: 'skipped',
+      }),
+    );
+
+    this.logger.log(
+      `${strategyKey}: executing cycle ${cycleName} with ${evaluation.startAmount}, expected profitability ${evaluation.profitability}`,
+    );
+
+    let heldAmount = evaluation.startAmount;
+    let status = 'closed';
+    let endAmount: number = null;
+    for (let i = 0; i < evaluation.legs.length; i++) {
+      const { leg, vwap } = evaluation.legs[i];
+      const record = legRecords[i];
+      record.amount = leg.side === 'buy' ? heldAmount / vwap : heldAmount;
+
+      try {
+        const order = await this.placeStrategyMarketOrder(
+          strategyKey,
+          {
+            userId,
+            clientId,
+            exchange: exchangeName,
+            symbol: leg.symbol,
+            side: leg.side,
+            amount: record.amount,
+          },
+          vwap,
+        );
+        const filled = order.filled || record.amount;
+        const price = order.average || order.price || vwap;
+        const fee =
+          order.fee && order.fee.currency === leg.to ? order.fee.cost : 0;
+        record.orderId = order.id;
+        record.price = price;
+        record.amount = filled;
+        record.status = 'filled';
+        heldAmount = (leg.side === 'buy' ? filled : filled * price) - fee;
+      } catch (error) {
+        record.status = 'failed';
+        record.error = error.message;
+        this.logger.warn(
+          `${strategyKey}: leg ${i + 1} (${leg.side} ${
+            leg.symbol
+          }) of cycle ${cycleName} failed: ${error.message}`,
+        );
+        if (i === 0) {
+          status = 'failed';
+        } else {
+          const unwind = await this.unwindTriangularCycle(
+            strategyParamsDto,
+            evaluation,
+            i,
+            heldAmount,
+          );
+          legRecords.push(unwind.record);
+          if (unwind.record.status === 'filled') {
+            unwind.record.status = 'unwind';
+            status = 'unwound';
+            endAmount = unwind.startCurrencyAmount;
+          } else {
+            status = 'stuck';
+            const alert = `${strategyKey}: cycle ${cycleName} is stuck holding ${heldAmount} ${leg.from} on ${exchangeName}, manual intervention needed`;
+            this.logger.warn(alert);
+            await this.logger.logToDiscord(alert);
+          }
+        }
+        break;
+      }
+    }
+    if (status === 'closed') {
+      endAmount = heldAmount;
+    }
+
+    const profit =
+      endAmount === null ? null : endAmount - evaluation.startAmount;
+    const history = await this.triangularArbitrageHistoryRepository.save(
+      this.triangularArbitrageHistoryRepository.create({
+        userId,
+        clientId,
+        exchange: exchangeName,
+        cycle: cycleName,
+        startAmount: evaluation.startAmount,
+        endAmount,
+        expectedProfit: evaluation.profit,
+        profit,
+        legs: legRecords,
+        executedAt: new Date(),
+        status,
+        strategy: 'triangularArbitrage',
+      }),
+    );
+
+    this.logger.log(
+      `${strategyKey}: cycle ${cycleName} ${status}, Profit/Loss: ${profit}`,
+    );
+    if (profit !== null) {
+      await this.performanceService.recordPerformance({
+        userId,
+        clientId,
+        strategyType: 'triangularArbitrage',
+        profitLoss: profit,
+        additionalMetrics: {
+          exchange: exchangeName,
+          cycle: cycleName,
+          status,
+          startAmount: evaluation.startAmount,
+          endAmount,
+          expectedProfit: evaluation.profit,
+          legs: legRecords,
+        },
+        executedAt: new Date(),
+      });
+    }
+    return history;
+  }
+
+  // Trades the currency held after a failed leg back into the start currency on the market linking them
+  private async unwindTriangularCycle(
+    strategyParamsDto: TriangularArbitrageStrategyDto,
+    evaluation: TriangularCycleEvaluation,
+    failedLegIndex: number,
+    heldAmount: number,
+  ): Promise<{
+    record: TriangularArbitrageLegRecord;
+    startCurrencyAmount: number;
+  }> {
+    const { userId, clientId, exchangeName, startCurrency } = strategyParamsDto;
+    // The first intermediate currency goes back through the first leg's market reversed,
+    // the second one retries the last leg
+    const viaLeg =
+      failedLegIndex === 1 ? evaluation.legs[0] : evaluation.legs[2];
+    const isReversed = viaLeg.leg.to !== startCurrency;
+    const side: 'buy' | 'sell' = isReversed
+      ? viaLeg.leg.side === 'buy'
+        ? 'sell'
+        : 'buy'
+      : viaLeg.leg.side;
+    const record: TriangularArbitrageLegRecord = {
+      symbol: viaLeg.leg.symbol,
+      side,
+      amount: side === 'buy' ? heldAmount / viaLeg.vwap : heldAmount,
+      expectedPrice: viaLeg.vwap,
+      status: 'failed',
+    };
+
+    try {
+      const order = await this.placeStrategyMarketOrder(
+        createStrategyKey({
+          type: 'triangularArbitrage',
+          user_id: userId,
+          client_id: clientId,
+        }),
+        {
+          userId,
+          clientId,
+          exchange: exchangeName,
+          symbol: record.symbol,
+          side,
+          amount: record.amount,
+        },
+        viaLeg.vwap,
+      );
+      const filled = order.filled || record.amount;
+      const price = order.average || order.price || viaLeg.vwap;
+      const fee =
+        order.fee && order.fee.currency === startCurrency ? order.fee.cost : 0;
+      record.orderId = order.id;
+      record.price = price;
+      record.amount = filled;
+      record.status = 'filled';
+      return {
+        record,
+        startCurrencyAmount: (side === 'buy' ? filled : filled * price) - fee,
+      };
+    } catch (error) {
+      record.error = error.message;
+      return { record, startCurrencyAmount: null };
+    }
+  }
+
+  async executeGridStrategy(strategyParamsDto: GridStrategyDto) {
+    const { userId, clientId, pair, exchangeName, checkIntervalSeconds } =
+      strategyParamsDto;
+    const strategyKey = createStrategyKey({
+      type: 'grid',
+      user_id: userId,
+      client_id: clientId,
+    });
+
+    // Ensure the strategy is not already running
+    if (this.strategyInstances.has(strategyKey)) {
+      this.logger.error(`Strategy ${strategyKey} is already running.`);
+      return;
+    }
+
+    await this.startStrategyInstance(strategyKey, {
+      userId,
+      clientId,
+      strategyType: 'grid',
+      parameters: strategyParamsDto,
+    });
+
+    const exchange = this.getStrategyExchange(strategyKey, exchangeName);
+    const { gridState } = strategyParamsDto;
+    if (gridState && !gridState.exitReason) {
+      // Rerun of a saved grid, orders canceled meanwhile are placed again on the next check
+      this.logger.log(
+        `Resuming grid strategy for ${strategyKey} with ${gridState.openOrders.length} orders.`,
+      );
+      this.gridStates.set(strategyKey, gridState);
+    } else {
+      const { lowerPrice, upperPrice, gridCount, spacing, amountPerGrid } =
+        strategyParamsDto;
+      const levels = calculateGridLevels(
+        lowerPrice,
+        upperPrice,
+        gridCount,
+        spacing,
+      );
+      const state: GridState = {
+        levels,
+        openOrders: [],
+        gridProfits: levels.slice(0, -1).map((price, i) => ({
+          lowerPrice: price,
+          upperPrice: levels[i + 1],
+          roundTrips: 0,
+          realizedProfit: 0,
+        })),
+        realizedProfit: 0,
+        baseInventory: 0,
+      };
+      this.gridStates.set(strategyKey, state);
+
+      const currentPrice = await this.getCurrentMarketPrice(
+        strategyKey,
+        exchangeName,
+        pair,
+      );
+      this.logger.log(
+        `Starting grid strategy for ${strategyKey} with ${gridCount} grids between ${lowerPrice} and ${upperPrice}, current price ${currentPrice}.`,
+      );
+      const initialOrders = calculateInitialGridOrders(
+        levels,
+        currentPrice,
+        amountPerGrid,
+      );
+      const placedOrders = await this.placeLayerOrders(
+        userId,
+        clientId,
+        exchange,
+        exchangeName,
+        pair,
+        initialOrders,
+        'grid',
+      );
+      placedOrders.forEach((placedOrder, i) =>
+        state.openOrders.push({
+          orderId: placedOrder.orderId,
+          level: initialOrders[i].layer,
+          side: initialOrders[i].side,
+          price: placedOrder.price,
+          amount: placedOrder.amount,
+        }),
+      );
+      await this.saveGridState(strategyKey, strategyParamsDto);
+    }
+
+    const intervalId = setInterval(async () => {
+      try {
+        await this.manageGridOrders(strategyKey, strategyParamsDto);
+      } catch (error) {
+        this.logger.error(
+          `Error executing grid strategy for ${strategyKey}: ${error.message}`,
+        );
+        await this.lifecycleService.recordError(strategyKey, error.message);
+        await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait for 5 seconds before retrying or moving on
+      }
+    }, checkIntervalSeconds * 1000);
+
+    // Track the strategy instance
+    await this.markStrategyRunning(strategyKey, intervalId, strategyParamsDto);
+  }
+
+  private async manageGridOrders(
+    strategyKey: string,
+    strategyParamsDto: GridStrategyDto,
+  ) {
+    const {
+      userId,
+      clientId,
+      pair,
+      exchangeName,
+      stopLossPrice,
+      takeProfitPrice,
+    } = strategyParamsDto;
+    const state = this.gridStates.get(strategyKey);
+    const exchange = this.getStrategyExchange(strategyKey, exchangeName);
+
+    const currentPrice = await this.getCurrentMarketPrice(
+      strategyKey,
+      exchangeName,
+      pair,
+    );
+    const exitReason = checkGridExit(
+      currentPrice,
+      stopLossPrice,
+      takeProfitPrice,
+    );
+    if (exitReason) {
+      await this.exitGrid(strategyKey, strategyParamsDto, exitReason);
+      return;
+    }
+
+    const openOrders: GridOrder[] = [];
+    const ordersToPlace: GridOrder[] = [];
+    for (const gridOrder of state.openOrders) {
+      if (!gridOrder.orderId) {
+        ordersToPlace.push(gridOrder);
+        continue;
+      }
+      let order: ccxt.Order;
+      try {
+        order = await exchange.fetchOrder(gridOrder.orderId, pair);
+      } catch (error) {
+        this.logger.error(
+          `Failed to fetch grid order ${gridOrder.orderId} on ${exchangeName}: ${error.message}`,
+        );
+        openOrders.push(gridOrder);
+        continue;
+      }
+
+      if (order.status === 'closed') {
+        await this.orderRepository.update(
+          { orderId: gridOrder.orderId, exchange: exchangeName, pair },
+          { status: 'closed' },
+        );
+        await this.recordGridFill(
+          strategyKey,
+          strategyParamsDto,
+          gridOrder,
+          order,
+        );
+        const counterOrder = calculateCounterOrder(
+          state.levels,
+          gridOrder.level,
+          gridOrder.side,
+          gridOrder.amount,
+        );
+        if (counterOrder) {
+          ordersToPlace.push({
+            orderId: null,
+            level: counterOrder.layer,
+            side: counterOrder.side,
+            price: counterOrder.price,
+            amount: counterOrder.amount,
+            entryLevel: gridOrder.level,
+            entryPrice: order.average || order.price || gridOrder.price,
+          });
+        }
+      } else if (order.status === 'open') {
+        openOrders.push(gridOrder);
+      } else {
+        // Canceled outside of the grid, e.g. on shutdown, so it is placed again
+        ordersToPlace.push(gridOrder);
+      }
+    }
+
+    for (const gridOrder of ordersToPlace) {
+      try {
+        const [placedOrder] = await this.placeLayerOrders(
+          userId,
+          clientId,
+          exchange,
+          exchangeName,
+          pair,
+          [
+            {
+              layer: gridOrder.level,
+              side: gridOrder.side,
+              price: gridOrder.price,
+              amount: gridOrder.amount,
+            },
+          ],
+          'grid',
+        );
+        openOrders.push({ ...gridOrder, orderId: placedOrder.orderId });
+      } catch (error) {
+        // Kept as it was, so the next check tries to place it again
+        this.logger.error(
+          `Failed to place grid ${gridOrder.side} order at ${gridOrder.price} for ${strategyKey}: ${error.message}`,
+        );
+        openOrders.push(gridOrder);
+      }
+    }
+
+    state.openOrders = openOrders;
+    if (ordersToPlace.length) {
+      await this.saveGridState(strategyKey, strategyParamsDto);
+    }
+  }
+
+  // Updates the grid inventory with a fill, and credits the grid it closes a round trip on
+  private async recordGridFill(
+    strategyKey: string,
+    strategyParamsDto: GridStrategyDto,
+    gridOrder: GridOrder,
+    order: ccxt.Order,
+  ) {
+    const { userId, clientId, exchangeName, pair } = strategyParamsDto;
+    const state = this.gridStates.get(strategyKey);
+    const filled = order.filled || gridOrder.amount;
+    const price = order.average || order.price || gridOrder.price;
+    state.baseInventory += gridOrder.side === 'buy' ? filled : -filled;
+
+    if (gridOrder.entryPrice === undefined) {
+      return;
+    }
+    const gridIndex = Math.min(gridOrder.level, gridOrder.entryLevel);
+    const gridProfit = state.gridProfits[gridIndex];
+    const fee = order.fee ? order.fee.cost : 0;
+    const profitLoss =
+      (gridOrder.side === 'sell'
+        ? price - gridOrder.entryPrice
+        : gridOrder.entryPrice - price) *
+        filled -
+      fee;
+    gridProfit.roundTrips++;
+    gridProfit.realizedProfit += profitLoss;
+    state.realizedProfit += profitLoss;
+
+    this.logger.log(
+      `${strategyKey}: grid ${gridProfit.lowerPrice}-${gridProfit.upperPrice} completed a round trip, Profit/Loss: ${profitLoss}`,
+    );
+    await this.performanceService.recordPerformance({
+      userId,
+      clientId,
+      strategyType: 'grid',
+      profitLoss,
+      additionalMetrics: {
+        exchange: exchangeName,
+        pair,
+        gridIndex,
+        lowerPrice: gridProfit.lowerPrice,
+        upperPrice: gridProfit.upperPrice,
+        gridRoundTrips: gridProfit.roundTrips,
+        gridRealizedProfit: gridProfit.realizedProfit,
+        totalRealizedProfit: state.realizedProfit,
+        orderId: order.id,
+      },
+      executedAt: new Date(),
+    });
+  }
+
+  // Cancels the grid and sells the inventory it bought once the price leaves the range past the stop-loss or take-profit
+  private async exitGrid(
+    strategyKey: string,
+    strategyParamsDto: GridStrategyDto,
+    exitReason: 'stopLoss' | 'takeProfit',
+  ) {
+    const { userId, clientId, pair, exchangeName } = strategyParamsDto;
+    const state = this.gridStates.get(strategyKey);
+    const exchange = this.getStrategyExchange(strategyKey, exchangeName);
+
+    await this.cancelAllOrders(exchange, pair, strategyKey);
+    state.openOrders = [];
+    if (state.baseInventory > 0) {
+      await this.placeStrategyMarketOrder(strategyKey, {
+        userId,
+        clientId,
+        exchange: exchangeName,
+        symbol: pair,
+        side: 'sell',
+        amount: state.baseInventory,
+      });
+      state.baseInventory = 0;
+    }
+    state.exitReason = exitReason;
+    await this.saveGridState(strategyKey, strategyParamsDto);
 
-        // Create and save the order entity
-        const orderEntity = this.orderRepository.create({
-          userId,
-          clientId,
-          exchange: exchangeName,
-          pair,
-          side: 'sell',
-          amount: parseFloat(adjustedSellAmount),
-          price: parseFloat(adjustedSellPrice),
-          orderId: order.id,
-          executedAt: new Date(),
-          status: 'open',
-          strategy: 'pureMarketMaking',
-        });
+    const summary = `${strategyKey}: grid exited on ${exitReason}, realized profit ${state.realizedProfit}`;
+    this.logger.log(summary);
+    await this.logger.logToDiscord(summary);
+    await this.stopStrategyForUser(userId, clientId, 'grid');
+  }
 
-        await this.orderRepository.save(orderEntity);
-      } else {
-        this.logger.log(
-          `Skipping sell order for ${pair} as price source ${priceSource} is below the floor price ${floorPrice}.`,
-        );
-      }
+  // Persists the grid state in the instance parameters, so rerunStrategy resumes the same grid
+  private async saveGridState(
+    strategyKey: string,
+    strategyParamsDto: GridStrategyDto,
+  ) {
+    strategyParamsDto.gridState = this.gridStates.get(strategyKey);
+    await this.strategyInstanceRepository.update(
+      { strategyKey },
+      {
+        parameters: strategyParamsDto as Record<string, any>,
+        updatedAt: new Date(),
+      },
+    );
+  }
+
+  async getGridProfits(userId: string, clientId: string) {
+    const strategyKey = createStrategyKey({
+      type: 'grid',
+      user_id: userId,
+      client_id: clientId,
+    });
+    const state =
+      this.gridStates.get(strategyKey) ||
+      (await this.getStrategyInstanceKey(strategyKey))?.parameters?.gridState;
+    if (!state) {
+      throw new Error(`Grid strategy ${strategyKey} not found.`);
     }
+    const { gridProfits, realizedProfit, baseInventory, exitReason } =
+      state as GridState;
+    return {
+      strategyKey,
+      gridProfits,
+      realizedProfit,
+      baseInventory,
+      exitReason,
+    };
   }
 
   private async adjustOrderParameters(
@@ -876,7 +3020,12 @@ export class StrategyService {
   ) {
     this.logger.log('Cancelling Orders for', strategyKey);
     try {
-      const orders = await exchange.fetchOpenOrders(pair);
+      const orders = await this.filterStrategyOrders(
+        strategyKey,
+        exchange.id,
+        pair,
+        await exchange.fetchOpenOrders(pair),
+      );
       for (const order of orders) {
         try {
           await exchange.cancelOrder(order.id, pair);
@@ -909,101 +3058,158 @@ export class StrategyService {
   }
 
   private async getCurrentMarketPrice(
+    strategyKey: string,
     exchangeName: string,
     pair: string,
   ): Promise<number> {
-    const exchange = this.exchangeInitService.getExchange(exchangeName);
+    const exchange = this.getStrategyExchange(strategyKey, exchangeName);
     const ticker = await exchange.fetchTicker(pair);
     return ticker.last; // Using the last trade price as the current price
   }
 
-  private async getPriceSource(
-    exchangeName: string,
-    pair: string,
-    priceSourceType: PriceSourceType,
-  ): Promise<number> {
-    const exchange = this.exchangeInitService.getExchange(exchangeName);
-    const orderBook = await exchange.fetchOrderBook(pair);
-    switch (priceSourceType) {
-      case PriceSourceType.MID_PRICE:
-        return (orderBook.bids[0][0] + orderBook.asks[0][0]) / 2;
-      case PriceSourceType.BEST_ASK:
-        return orderBook.asks[0][0];
-      case PriceSourceType.BEST_BID:
-        return orderBook.bids[0][0];
-      case PriceSourceType.LAST_PRICE:
-        const ticker = await exchange.fetchTicker(pair);
-        return ticker.last;
-      default:
-        throw new Error(`Invalid price source type: ${priceSourceType}`);
-    }
-  }
-
+  // The order books are read on the account of each exchange, the account of the strategy unless given
   public async evaluateArbitrageOpportunityVWAP(
-    exchangeA: ccxt.Exchange,
-    exchangeB: ccxt.Exchange,
+    exchanges: ccxt.Exchange[],
     strategyParamsDto: ArbitrageStrategyDto,
+    accountLabels: string[] = exchanges.map(
+      () => strategyParamsDto.accountLabel,
+    ),
   ) {
     const { userId, clientId, pair, amountToTrade, minProfitability } =
       strategyParamsDto;
-    const cacheKeyA = `${pair}-${exchangeA.id}`;
-    const cacheKeyB = `${pair}-${exchangeB.id}`;
-    const cachedOrderBookA = this.orderBookCache.get(cacheKeyA);
-    const cachedOrderBookB = this.orderBookCache.get(cacheKeyB);
-
-    if (
-      cachedOrderBookA &&
-      cachedOrderBookB &&
-      this.isDataFresh(cachedOrderBookA.timestamp) &&
-      this.isDataFresh(cachedOrderBookB.timestamp)
-    ) {
-      const vwapA = this.calculateVWAPForAmount(
-        cachedOrderBookA.data,
-        amountToTrade,
-        'buy',
+    const exchangeAccountLabels = new Map(
+      exchanges.map((exchange, i) => [exchange, accountLabels[i]]),
+    );
+    const freshExchanges = exchanges.filter((exchange) => {
+      const cachedOrderBook = this.orderBookHub.getSnapshot(
+        exchange.id,
+        pair,
+        exchangeAccountLabels.get(exchange),
       );
-      const vwapB = this.calculateVWAPForAmount(
-        cachedOrderBookB.data,
-        amountToTrade,
-        'sell',
+      return cachedOrderBook && this.isDataFresh(cachedOrderBook.timestamp);
+    });
+
+    if (freshExchanges.length < 2) {
+      this.logger.log(
+        'Order book data is not fresh enough for reliable arbitrage calculation.',
       );
+      return;
+    }
 
-      if ((vwapB - vwapA) / vwapA >= minProfitability) {
-        // Execute trades
-        this.logger.log(
-          `User ${userId}, Client ${clientId}: Arbitrage opportunity for ${pair} (VWAP): Buy on ${exchangeA.name} at ${vwapA}, sell on ${exchangeB.name} at ${vwapB}`,
-        );
-        await this.executeArbitrageTradeWithLimitOrders(
-          exchangeA,
-          exchangeB,
-          pair,
-          amountToTrade,
-          userId,
-          clientId,
-          vwapA,
-          vwapB,
-        );
-      } else if ((vwapA - vwapB) / vwapB >= minProfitability) {
-        // Execute trades in reverse direction
-        this.logger.log(
-          `User ${userId}, Client ${clientId}: Arbitrage opportunity for ${pair} (VWAP): Buy on ${exchangeB.name} at ${vwapB}, sell on ${exchangeA.name} at ${vwapA}`,
+    const venues: ArbitrageVenue[] = [];
+    for (const exchange of freshExchanges) {
+      try {
+        venues.push(
+          await this.getArbitrageVenue(
+            exchange,
+            strategyParamsDto,
+            exchangeAccountLabels.get(exchange),
+          ),
         );
-        await this.executeArbitrageTradeWithLimitOrders(
-          exchangeB,
-          exchangeA,
-          pair,
-          amountToTrade,
-          userId,
-          clientId,
-          vwapB,
-          vwapA,
+      } catch (error) {
+        this.logger.error(
+          `User ${userId}, Client ${clientId}: leaving ${exchange.id} out of the ${pair} arbitrage evaluation, failed to look up its fees or balances: ${error.message}`,
         );
       }
-    } else {
+    }
+
+    let transferCosts: ArbitrageTransferCosts;
+    try {
+      transferCosts = await this.getArbitrageTransferCosts(strategyParamsDto);
+    } catch (error) {
+      this.logger.error(
+        `User ${userId}, Client ${clientId}: skipping arbitrage evaluation for ${pair}, failed to look up its transfer costs: ${error.message}`,
+      );
+      return;
+    }
+
+    const routes = evaluateArbitrageRoutes(
+      venues,
+      amountToTrade,
+      transferCosts,
+    );
+    const route = selectArbitrageRoute(routes, minProfitability);
+    for (const candidate of routes) {
       this.logger.log(
-        'Order book data is not fresh enough for reliable arbitrage calculation.',
+        `User ${userId}, Client ${clientId}: ${pair} ${formatArbitrageRoute(
+          candidate,
+        )}, min ${minProfitability * 100}%, ${
+          candidate === route ? 'executing' : 'skipped'
+        }`,
       );
     }
+    if (!route) {
+      return;
+    }
+
+    const buyExchange = freshExchanges.find(
+      (exchange) => exchange.id === route.buyExchangeName,
+    );
+    const sellExchange = freshExchanges.find(
+      (exchange) => exchange.id === route.sellExchangeName,
+    );
+    const { amount, buyPrice, sellPrice } = route.breakdown;
+    this.logger.log(
+      `User ${userId}, Client ${clientId}: Arbitrage opportunity for ${pair} (VWAP): Buy on ${buyExchange.name} at ${buyPrice}, sell on ${sellExchange.name} at ${sellPrice}`,
+    );
+    await this.executeArbitrageTradeWithLimitOrders(
+      buyExchange,
+      sellExchange,
+      pair,
+      amount,
+      userId,
+      clientId,
+      buyPrice,
+      sellPrice,
+      strategyParamsDto,
+    );
+  }
+
+  private async getArbitrageVenue(
+    exchange: ccxt.Exchange,
+    strategyParamsDto: ArbitrageStrategyDto,
+    accountLabel?: string,
+  ): Promise<ArbitrageVenue> {
+    const { pair, exchangeAName, exchangeBName } = strategyParamsDto;
+    const feeOverrides =
+      strategyParamsDto.exchangeFees?.[exchange.id] ??
+      (exchange.id === exchangeAName
+        ? strategyParamsDto.exchangeAFees
+        : exchange.id === exchangeBName
+        ? strategyParamsDto.exchangeBFees
+        : undefined);
+    // The arbitrage orders cross the book at the VWAP, so they pay the taker fee unless told otherwise
+    const feeType = strategyParamsDto.feeType || 'taker';
+    const feeRates = await this.feeService.getTradingFeeRates(
+      exchange,
+      pair,
+      feeOverrides,
+    );
+    const [base, quote] = pair.split('/');
+    const balances = await exchange.fetchBalance();
+    return {
+      exchangeName: exchange.id,
+      orderBook: this.orderBookHub.getSnapshot(exchange.id, pair, accountLabel)
+        .orderBook,
+      feeRate: feeRates[feeType],
+      baseBalance: balances[base]?.free ?? 0,
+      quoteBalance: balances[quote]?.free ?? 0,
+    };
+  }
+
+  private async getArbitrageTransferCosts(
+    strategyParamsDto: ArbitrageStrategyDto,
+  ): Promise<ArbitrageTransferCosts> {
+    const { pair, transferCostTrades } = strategyParamsDto;
+    if (!(transferCostTrades > 0)) {
+      return {};
+    }
+    const [base, quote] = pair.split('/');
+    return {
+      baseWithdrawalFee: await this.feeService.getWithdrawalFee(base),
+      quoteWithdrawalFee: await this.feeService.getWithdrawalFee(quote),
+      transferCostTrades,
+    };
   }
 
   private async executeArbitrageTradeWithLimitOrders(
@@ -1015,63 +3221,97 @@ export class StrategyService {
     clientId: string,
     buyPrice: number,
     sellPrice: number,
+    legSettings: ArbitrageLegSettings = {},
   ) {
     const strategyKey = createStrategyKey({
       type: 'arbitrage',
       user_id: userId,
       client_id: clientId,
     });
+    const buyLeg = this.createArbitrageLeg(exchangeA, 'buy', amount, buyPrice);
+    const sellLeg = this.createArbitrageLeg(
+      exchangeB,
+      'sell',
+      amount,
+      sellPrice,
+    );
+    const legs = [
+      { exchange: exchangeA, leg: buyLeg },
+      { exchange: exchangeB, leg: sellLeg },
+    ];
+
     try {
-      // Place buy limit order on Exchange A
-      const buyOrder = await this.tradeService.executeLimitTrade({
+      // Place buy limit order on Exchange A, nothing is held yet if it fails
+      await this.placeArbitrageLeg(
+        strategyKey,
+        exchangeA,
+        symbol,
+        buyLeg,
         userId,
         clientId,
-        exchange: exchangeA.id,
-        symbol,
-        side: 'buy',
-        amount,
-        price: buyPrice,
-      });
-      // Track the order with the symbol
-      const orderADetails = {
-        exchange: exchangeA,
-        orderId: buyOrder.id,
-        symbol,
-      };
-      this.activeOrders.set(strategyKey, [
-        ...(this.activeOrders.get(strategyKey) || []),
-        orderADetails,
-      ]);
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to execute arbitrage trade with limit orders: ${error.message}`,
+      );
+      return;
+    }
 
+    try {
       // Proceed to place sell limit order on Exchange B
-      const sellOrder = await this.tradeService.executeLimitTrade({
+      await this.placeArbitrageLeg(
+        strategyKey,
+        exchangeB,
+        symbol,
+        sellLeg,
         userId,
         clientId,
-        exchange: exchangeB.id,
+      );
+    } catch (error) {
+      sellLeg.status = 'failed';
+      this.logger.warn(
+        `${strategyKey}: sell leg on ${exchangeB.id} failed after buying on ${exchangeA.id}: ${error.message}`,
+      );
+    }
+
+    try {
+      await this.waitForArbitrageLegs(
         symbol,
-        side: 'sell',
-        amount,
-        price: sellPrice,
-      });
-      // Track the order with the symbol
-      const orderBDetails = {
-        exchange: exchangeB,
-        orderId: sellOrder.id,
+        legs,
+        (legSettings.legTimeoutSeconds ?? 30) * 1000,
+      );
+      // Whatever is still open timed out, cancel it before settling the fills
+      for (const { exchange, leg } of legs) {
+        if (leg.status === 'open') {
+          await this.cancelArbitrageLeg(exchange, symbol, leg);
+        }
+      }
+
+      const { outcome, repairLegs } = await this.repairArbitrageLegs(
+        strategyKey,
         symbol,
-      };
-      this.activeOrders.set(strategyKey, [
-        ...(this.activeOrders.get(strategyKey) || []),
-        orderBDetails,
+        legs,
+        legSettings,
+        userId,
+        clientId,
+      );
+      // Every leg of the trade is settled now, the next opportunity doesn't wait on them
+      this.untrackArbitrageLegs(strategyKey, [
+        ...legs.map(({ leg }) => leg),
+        ...repairLegs,
       ]);
-
-      // Calculate fees for both orders
-      // This example assumes fees are returned with the order info and are in the quote currency
-      const buyFee = buyOrder.fee ? buyOrder.fee.cost : 0; // Adjust based on your fee structure
-      const sellFee = sellOrder.fee ? sellOrder.fee.cost : 0;
-
-      // Calculate profit/loss, adjusting for fees
-      const profitLoss =
-        sellPrice * amount - sellFee - (buyPrice * amount + buyFee);
+      const summary = summarizeArbitrageLegs([buyLeg, sellLeg, ...repairLegs]);
+      const profitLoss = summary.profit;
+      // Repair orders are measured against the price of the leg on their side
+      const slippage = repairLegs.reduce(
+        (total, leg) =>
+          total +
+          calculateLegSlippage(
+            leg,
+            leg.side === 'buy' ? buyLeg.price : sellLeg.price,
+          ),
+        0,
+      );
 
       // Save the arbitrage order details
       const arbitrageOrder = this.arbitrageHistoryRepository.create({
@@ -1081,18 +3321,31 @@ export class StrategyService {
         exchangeAName: exchangeA.name,
         exchangeBName: exchangeB.name,
         amount,
-        buyPrice,
-        sellPrice,
+        buyPrice: summary.buyPrice || buyPrice,
+        sellPrice: summary.sellPrice || sellPrice,
         profit: profitLoss,
         executedAt: new Date(),
+        status:
+          outcome === 'unhedged'
+            ? 'open'
+            : outcome === 'canceled'
+            ? 'canceled'
+            : 'closed',
+        strategy: 'arbitrage',
+        legOutcome: outcome,
+        slippage,
+        unhedgedAmount: summary.imbalance,
       });
 
       await this.arbitrageHistoryRepository.save(arbitrageOrder);
       // Log and record the trade execution and performance
       this.logger.log(
-        `Arbitrage trade executed with limit orders for user ${userId}, client ${clientId}: Buy on ${exchangeA.id} at ${buyPrice}, sell on ${exchangeB.id} at ${sellPrice}, Profit/Loss: ${profitLoss}`,
+        `Arbitrage trade executed with limit orders for user ${userId}, client ${clientId}: Buy on ${exchangeA.id} at ${buyPrice}, sell on ${exchangeB.id} at ${sellPrice}, outcome ${outcome}, slippage ${slippage}, Profit/Loss: ${profitLoss}`,
       );
 
+      if (summary.bought === 0 && summary.sold === 0) {
+        return;
+      }
       await this.performanceService.recordPerformance({
         userId,
         clientId,
@@ -1101,13 +3354,16 @@ export class StrategyService {
         additionalMetrics: {
           buyExchange: exchangeA.id,
           sellExchange: exchangeB.id,
-          buyPrice,
-          sellPrice,
-          executedAmount: amount,
-          buyOrderId: buyOrder.id,
-          sellOrderId: sellOrder.id,
-          buyFee,
-          sellFee,
+          buyPrice: summary.buyPrice,
+          sellPrice: summary.sellPrice,
+          executedAmount: Math.min(summary.bought, summary.sold),
+          buyOrderId: buyLeg.orderId,
+          sellOrderId: sellLeg.orderId,
+          buyFee: buyLeg.fee,
+          sellFee: sellLeg.fee,
+          legOutcome: outcome,
+          slippage,
+          unhedgedAmount: summary.imbalance,
         },
         executedAt: new Date(),
       });
@@ -1118,6 +3374,237 @@ export class StrategyService {
     }
   }
 
+  private createArbitrageLeg(
+    exchange: ccxt.Exchange,
+    side: 'buy' | 'sell',
+    amount: number,
+    price: number,
+  ): ArbitrageLeg {
+    return {
+      exchangeName: exchange.id,
+      side,
+      amount,
+      price,
+      filled: 0,
+      averagePrice: price,
+      fee: 0,
+      status: 'open',
+    };
+  }
+
+  private async placeArbitrageLeg(
+    strategyKey: string,
+    exchange: ccxt.Exchange,
+    symbol: string,
+    leg: ArbitrageLeg,
+    userId: string,
+    clientId: string,
+    type: 'limit' | 'market' = 'limit',
+  ) {
+    const tradeDto = {
+      userId,
+      clientId,
+      exchange: exchange.id,
+      symbol,
+      side: leg.side,
+      amount: leg.amount,
+    };
+    const order =
+      type === 'limit'
+        ? await this.placeStrategyLimitOrder(strategyKey, {
+            ...tradeDto,
+            price: leg.price,
+          })
+        : await this.placeStrategyMarketOrder(strategyKey, tradeDto, leg.price);
+    leg.orderId = order.id;
+    this.applyArbitrageLegOrder(leg, order, type === 'market');
+
+    // Track the order with the symbol
+    this.activeOrders.set(strategyKey, [
+      ...(this.activeOrders.get(strategyKey) || []),
+      { exchange, orderId: order.id, symbol },
+    ]);
+  }
+
+  private untrackArbitrageLegs(strategyKey: string, legs: ArbitrageLeg[]) {
+    const orderIds = new Set(legs.map(({ orderId }) => orderId));
+    const trackedOrders = (this.activeOrders.get(strategyKey) || []).filter(
+      ({ orderId }) => !orderIds.has(orderId),
+    );
+    if (trackedOrders.length) {
+      this.activeOrders.set(strategyKey, trackedOrders);
+    } else {
+      this.activeOrders.delete(strategyKey);
+    }
+  }
+
+  private async waitForArbitrageLegs(
+    symbol: string,
+    legs: { exchange: ccxt.Exchange; leg: ArbitrageLeg }[],
+    timeoutMs: number,
+  ) {
+    const deadline = Date.now() + timeoutMs;
+    while (legs.some(({ leg }) => leg.status === 'open')) {
+      if (Date.now() >= deadline) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1000)); // Wait for 1 second before checking again
+      for (const { exchange, leg } of legs) {
+        if (leg.status === 'open') {
+          await this.refreshArbitrageLeg(exchange, symbol, leg);
+        }
+      }
+    }
+  }
+
+  private async refreshArbitrageLeg(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    leg: ArbitrageLeg,
+  ) {
+    try {
+      const order = await exchange.fetchOrder(leg.orderId, symbol);
+      this.applyArbitrageLegOrder(leg, order);
+    } catch (error) {
+      this.logger.error(
+        `Failed to refresh arbitrage leg ${leg.orderId} on ${exchange.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async cancelArbitrageLeg(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    leg: ArbitrageLeg,
+  ) {
+    try {
+      await exchange.cancelOrder(leg.orderId, symbol);
+    } catch (error) {
+      this.logger.error(
+        `Failed to cancel arbitrage leg ${leg.orderId} on ${exchange.id}: ${error.message}`,
+      );
+    }
+    // Settle on what filled before the cancel
+    await this.refreshArbitrageLeg(exchange, symbol, leg);
+    if (leg.status === 'open') {
+      leg.status = 'canceled';
+    }
+  }
+
+  private applyArbitrageLegOrder(
+    leg: ArbitrageLeg,
+    order: ccxt.Order,
+    isMarketOrder = false,
+  ) {
+    // Market orders are not always reported filled right away, count them filled at the expected price
+    leg.filled = order.filled ?? (isMarketOrder ? leg.amount : leg.filled);
+    leg.averagePrice = order.average || order.price || leg.price;
+    leg.fee = order.fee ? order.fee.cost : leg.fee;
+    if (order.status === 'closed' || (isMarketOrder && !order.status)) {
+      leg.status = 'closed';
+    } else if (order.status === 'canceled' || order.status === 'expired') {
+      leg.status = 'canceled';
+    } else if (order.status === 'rejected') {
+      leg.status = 'failed';
+    }
+  }
+
+  private async repairArbitrageLegs(
+    strategyKey: string,
+    symbol: string,
+    legs: { exchange: ccxt.Exchange; leg: ArbitrageLeg }[],
+    legSettings: ArbitrageLegSettings,
+    userId: string,
+    clientId: string,
+  ): Promise<{ outcome: ArbitrageLegOutcome; repairLegs: ArbitrageLeg[] }> {
+    const repairLegs: ArbitrageLeg[] = [];
+    const { imbalance } = summarizeArbitrageLegs(legs.map(({ leg }) => leg));
+    if (imbalance === 0) {
+      return {
+        outcome: legs.every(({ leg }) => leg.status === 'closed')
+          ? 'completed'
+          : 'canceled',
+        repairLegs,
+      };
+    }
+
+    const policy = legSettings.legPolicy || 'marketClose';
+    // A positive imbalance means the buy leg filled more than the sell leg
+    const excess = legs.find(({ leg }) =>
+      imbalance > 0 ? leg.side === 'buy' : leg.side === 'sell',
+    );
+    const lagging = legs.find(({ leg }) => leg !== excess.leg);
+    const unbalanced = `arbitrage legs on ${symbol} are unbalanced by ${imbalance}, ${excess.leg.side} on ${excess.exchange.id} filled ${excess.leg.filled} and ${lagging.leg.side} on ${lagging.exchange.id} filled ${lagging.leg.filled}`;
+
+    if (policy === 'alert') {
+      await this.sendStrategyAlert(`${strategyKey}: ${unbalanced}`);
+      return { outcome: 'unhedged', repairLegs };
+    }
+
+    try {
+      if (policy === 'repost') {
+        // Complete the lagging leg at a worse price on its own exchange
+        const repostSlippage = legSettings.repostSlippage ?? 0.002;
+        const repostLeg = this.createArbitrageLeg(
+          lagging.exchange,
+          lagging.leg.side,
+          Math.abs(imbalance),
+          lagging.leg.side === 'buy'
+            ? lagging.leg.price * (1 + repostSlippage)
+            : lagging.leg.price * (1 - repostSlippage),
+        );
+        repairLegs.push(repostLeg);
+        await this.placeArbitrageLeg(
+          strategyKey,
+          lagging.exchange,
+          symbol,
+          repostLeg,
+          userId,
+          clientId,
+        );
+        await this.waitForArbitrageLegs(
+          symbol,
+          [{ exchange: lagging.exchange, leg: repostLeg }],
+          (legSettings.legTimeoutSeconds ?? 30) * 1000,
+        );
+        if (repostLeg.status === 'open') {
+          await this.cancelArbitrageLeg(lagging.exchange, symbol, repostLeg);
+        }
+      }
+
+      // Close what is still unbalanced at market on the exchange of the leg that filled more
+      const remaining = summarizeArbitrageLegs([
+        ...legs.map(({ leg }) => leg),
+        ...repairLegs,
+      ]).imbalance;
+      if (remaining === 0) {
+        return { outcome: 'reposted', repairLegs };
+      }
+      const closeLeg = this.createArbitrageLeg(
+        excess.exchange,
+        remaining > 0 ? 'sell' : 'buy',
+        Math.abs(remaining),
+        lagging.leg.price,
+      );
+      repairLegs.push(closeLeg);
+      await this.placeArbitrageLeg(
+        strategyKey,
+        excess.exchange,
+        symbol,
+        closeLeg,
+        userId,
+        clientId,
+        'market',
+      );
+      return { outcome: 'unwound', repairLegs };
+    } catch (error) {
+      await this.sendStrategyAlert(
+        `${strategyKey}: failed to repair the ${unbalanced}: ${error.message}`,
+      );
+      return { outcome: 'unhedged', repairLegs };
+    }
+  }
+
   // Fetch regular orders for a specific user
   async getUserOrders(userId: string): Promise<MarketMakingHistory[]> {
     return await this.orderRepository.find({
@@ -1132,34 +3619,14 @@ export class StrategyService {
     });
   }
 
-  private calculateVWAPForAmount(
-    orderBook: ccxt.OrderBook,
-    amountToTrade: number,
-    direction: 'buy' | 'sell',
-  ): number {
-    let volumeAccumulated = 0;
-    let volumePriceProductSum = 0;
-    let orderList = [];
-
-    // Determine whether to use asks or bids based on the trade direction
-    if (direction === 'buy') {
-      // When buying, we look at the asks as we want to know the price we'll buy at
-      orderList = orderBook.asks;
-    } else if (direction === 'sell') {
-      // When selling, we look at the bids as we want to know the price we'll sell at
-      orderList = orderBook.bids;
-    }
-
-    for (const [price, volume] of orderList) {
-      const volumeToUse = Math.min(volume, amountToTrade - volumeAccumulated);
-      volumePriceProductSum += volumeToUse * price;
-      volumeAccumulated += volumeToUse;
-      if (volumeAccumulated >= amountToTrade) break;
-    }
-
-    return volumeAccumulated > 0
-      ? volumePriceProductSum / volumeAccumulated
-      : 0;
+  // Fetch triangular arbitrage cycles for a specific user
+  async getUserTriangularArbitrageHistory(
+    userId: string,
+  ): Promise<TriangularArbitrageHistory[]> {
+    return await this.triangularArbitrageHistoryRepository.find({
+      where: { userId },
+      order: { executedAt: 'DESC' },
+    });
   }
 
   public async checkAndCleanFilledOrders(
@@ -1172,7 +3639,12 @@ export class StrategyService {
       const { exchange, orderId, symbol } = activeOrdersForStrategy[i];
       try {
         const order = await exchange.fetchOrder(orderId, symbol);
-        if (order.status !== 'closed' && order.status !== 'filled') {
+        // Canceled, expired and rejected orders won't fill anymore either
+        if (
+          !['closed', 'filled', 'canceled', 'expired', 'rejected'].includes(
+            order.status,
+          )
+        ) {
           allOrdersFilled = false; // Found an order that's not filled
           break; // No need to check further
         }
@@ -1199,31 +3671,40 @@ export class StrategyService {
   }
 
   private async handleShutdown() {
+    if (this.isShuttingDown) {
+      return;
+    }
+    this.isShuttingDown = true;
     this.logger.log('Shutting down strategy service...');
 
-    // Update all currently running strategies in the database to "stopped"
-    await this.strategyInstanceRepository.update(
-      { status: 'running' },
-      { status: 'stopped', updatedAt: new Date() },
-    );
-
-    // Cancel all orders and clear intervals for each strategy
-    this.strategyInstances.forEach((_, strategyKey) => {
-      this.cancelAllStrategyOrders(strategyKey)
-        .then(() => {
-          this.logger.log(`All orders canceled for ${strategyKey}`);
-        })
-        .catch((error) => {
-          this.logger.error(
-            `Failed to cancel orders for ${strategyKey}: ${error.message}`,
-          );
-        });
+    // Record the running strategies as interrupted, so they are resumed on the next boot
+    await this.lifecycleService.transitionAll('running', 'interrupted', {
+      actor: 'system',
+      reason: 'Service shutdown',
     });
 
     this.strategyInstances.forEach((instance) => {
       clearInterval(instance.intervalId);
     });
+
+    // Cancel all orders for each strategy, leftovers are reconciled on the next boot
+    await Promise.all(
+      Array.from(this.strategyInstances.keys()).map((strategyKey) =>
+        this.cancelAllStrategyOrders(strategyKey)
+          .then(() => {
+            this.logger.log(`All orders canceled for ${strategyKey}`);
+          })
+          .catch((error) => {
+            this.logger.error(
+              `Failed to cancel orders for ${strategyKey}: ${error.message}`,
+            );
+          }),
+      ),
+    );
     this.strategyInstances.clear();
+    for (const strategyKey of this.activeOrderBookWatches.keys()) {
+      this.orderBookHub.unsubscribeAll(strategyKey);
+    }
     this.activeOrderBookWatches.clear();
 
     process.exit(0);
@@ -1241,42 +3722,14 @@ export class StrategyService {
         return;
       }
 
-      // Extract relevant parameters based on strategy type
-      const { strategyType, parameters } = strategyInstance;
-
-      const exchanges: { exchangeName: string; pair: string }[] = [];
-
-      switch (strategyType) {
-        case 'arbitrage':
-          // Arbitrage has two exchanges, so we add both
-          exchanges.push({
-            exchangeName: parameters.exchangeAName,
-            pair: parameters.pair,
-          });
-          exchanges.push({
-            exchangeName: parameters.exchangeBName,
-            pair: parameters.pair,
-          });
-          break;
-        case 'pureMarketMaking':
-          exchanges.push({
-            exchangeName: parameters.exchangeName,
-            pair: parameters.pair,
-          });
-          break;
-        case 'volume':
-          exchanges.push({
-            exchangeName: parameters.exchangeName,
-            pair: parameters.symbol,
-          });
-          break;
-        default:
-          throw new Error(`Unknown strategy type: ${strategyType}`);
-      }
+      const exchanges = this.getStrategyMarkets(strategyInstance);
 
       // Loop through each exchange and call cancelAllOrders
       for (const { exchangeName, pair } of exchanges) {
-        const exchange = this.exchangeInitService.getExchange(exchangeName);
+        const exchange = this.exchangeInitService.getExchange(
+          exchangeName,
+          strategyInstance.accountLabel,
+        );
         if (exchange && pair) {
           await this.cancelAllOrders(exchange, pair, strategyKey);
           this.logger.log(
@@ -1294,4 +3747,13 @@ export class StrategyService {
       );
     }
   }
+
+  private getStrategyMarkets(
+    strategyInstance: StrategyInstance,
+  ): StrategyMarket[] {
+    const { strategyKey, strategyType, parameters } = strategyInstance;
+    return this.strategyRegistry
+      .get(strategyType)
+      .getMarkets(strategyKey, parameters);
+  }
 }
@@ -0,0 +1,217 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { AlgoOrderService } from './algo-order.service';
+import { TradeService } from './trade.service';
+import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.service';
+import {
+  AlgoChildOrder,
+  AlgoOrder,
+} from 'src/common/entities/algo-order.entity';
+
+describe('AlgoOrderService', () => {
+  let service: AlgoOrderService;
+  let exchange: any;
+  let tradeService: any;
+  let algoOrderRepository: any;
+  let algoChildOrderRepository: any;
+  let childOrders: any[];
+  let getExchange: jest.Mock;
+
+  const runningOrder = (overrides = {}): AlgoOrder =>
+    ({
+      id: 'algo1',
+      userId: 'user1',
+      clientId: 'client1',
+      exchange: 'binance',
+      symbol: 'BTC/USDT',
+      side: 'buy',
+      algorithm: 'twap',
+      totalAmount: 10,
+      filledAmount: 0,
+      startTime: new Date(Date.now() - 1000),
+      endTime: new Date(Date.now() + 99000),
+      sliceIntervalSeconds: 10,
+      status: 'running',
+      ...overrides,
+    } as AlgoOrder);
+
+  beforeEach(async () => {
+    childOrders = [];
+    getExchange = jest.fn(() => exchange);
+    exchange = {
+      id: 'binance',
+      fetchTicker: jest.fn().mockResolvedValue({ bid: 99, ask: 100 }),
+      fetchOrder: jest.fn(),
+      cancelOrder: jest.fn(),
+      fetchTrades: jest.fn(),
+    };
+    tradeService = {
+      executeMarketTrade: jest.fn().mockResolvedValue({
+        id: 'child1',
+        status: 'closed',
+        filled: 1,
+        average: 100,
+      }),
+      executeLimitTrade: jest.fn(),
+    };
+    algoOrderRepository = {
+      findOne: jest.fn(),
+      save: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn((order) => order),
+    };
+    algoChildOrderRepository = {
+      find: jest.fn().mockImplementation(async () => childOrders),
+      save: jest.fn().mockImplementation(async (childOrder) => {
+        if (!childOrders.includes(childOrder)) {
+          childOrders.push(childOrder);
+        }
+        return childOrder;
+      }),
+      create: jest.fn((childOrder) => childOrder),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlgoOrderService,
+        { provide: TradeService, useValue: tradeService },
+        {
+          provide: ExchangeInitService,
+          useValue: {
+            getExchange,
+            waitForInitialization: jest.fn(),
+          },
+        },
+        {
+          provide: getRepositoryToken(AlgoOrder),
+          useValue: algoOrderRepository,
+        },
+        {
+          provide: getRepositoryToken(AlgoChildOrder),
+          useValue: algoChildOrderRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AlgoOrderService>(AlgoOrderService);
+  });
+
+  it('should slice a TWAP order along its schedule', async () => {
+    algoOrderRepository.findOne.mockResolvedValue(runningOrder());
+
+    await service.processAlgoOrder('algo1');
+
+    // 11 of the 100 seconds elapse by the end of the slice, so 1.1 of 10 is due
+    const [{ amount }] = tradeService.executeMarketTrade.mock.calls[0];
+    expect(amount).toBeCloseTo(1.1, 1);
+    expect(childOrders).toHaveLength(1);
+    expect(algoOrderRepository.update).toHaveBeenCalledWith(
+      { id: 'algo1', status: 'running' },
+      expect.objectContaining({ filledAmount: 1, averagePrice: 100 }),
+    );
+  });
+
+  it('should skip the slice while the market is past the limit price', async () => {
+    algoOrderRepository.findOne.mockResolvedValue(
+      runningOrder({ limitPrice: 95 }),
+    );
+
+    await service.processAlgoOrder('algo1');
+
+    expect(tradeService.executeLimitTrade).not.toHaveBeenCalled();
+    expect(tradeService.executeMarketTrade).not.toHaveBeenCalled();
+  });
+
+  it('should participate in the market volume since the last slice', async () => {
+    algoOrderRepository.findOne.mockResolvedValue(
+      runningOrder({ algorithm: 'pov', participationRate: 0.1 }),
+    );
+    exchange.fetchTrades.mockResolvedValue([{ amount: 20 }, { amount: 5 }]);
+
+    await service.processAlgoOrder('algo1');
+
+    expect(tradeService.executeMarketTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: 2.5, side: 'buy' }),
+    );
+  });
+
+  it('should cancel the open child orders of a canceled parent order', async () => {
+    const algoOrder = runningOrder();
+    algoOrderRepository.findOne.mockResolvedValue(algoOrder);
+    childOrders.push({ orderId: 'child1', status: 'open', filled: 0 });
+    exchange.fetchOrder.mockResolvedValue({
+      status: 'canceled',
+      filled: 0.5,
+      average: 100,
+    });
+
+    await service.cancelAlgoOrder('algo1');
+
+    expect(exchange.cancelOrder).toHaveBeenCalledWith('child1', 'BTC/USDT');
+    expect(algoOrder.status).toBe('canceled');
+    expect(algoOrder.filledAmount).toBe(0.5);
+    await expect(service.cancelAlgoOrder('algo1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should wait for the slice in flight before canceling the child orders', async () => {
+    const algoOrder = runningOrder();
+    algoOrderRepository.findOne.mockResolvedValue(algoOrder);
+    let placeChildOrder: (order: object) => void;
+    tradeService.executeMarketTrade.mockReturnValue(
+      new Promise((resolve) => (placeChildOrder = resolve)),
+    );
+    exchange.fetchOrder
+      .mockResolvedValueOnce({ status: 'open', filled: 0 })
+      .mockResolvedValue({ status: 'canceled', filled: 0.2, average: 100 });
+
+    const slice = service.processAlgoOrder('algo1');
+    await new Promise((resolve) => setImmediate(resolve));
+    const cancel = service.cancelAlgoOrder('algo1');
+    await new Promise((resolve) => setImmediate(resolve));
+    placeChildOrder({ id: 'child2', status: 'open', filled: 0 });
+    await Promise.all([slice, cancel]);
+
+    expect(exchange.cancelOrder).toHaveBeenCalledWith('child2', 'BTC/USDT');
+    expect(childOrders).toEqual([
+      expect.objectContaining({ orderId: 'child2', status: 'canceled' }),
+    ]);
+    expect(algoOrder.status).toBe('canceled');
+    expect(algoOrder.filledAmount).toBe(0.2);
+  });
+
+  it('should place the child orders on the account of the parent order', async () => {
+    algoOrderRepository.findOne.mockResolvedValue(
+      runningOrder({ accountLabel: 'paper' }),
+    );
+
+    await service.processAlgoOrder('algo1');
+
+    expect(getExchange).toHaveBeenCalledWith('binance', 'paper');
+    expect(tradeService.executeMarketTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ exchange: 'binance', accountLabel: 'paper' }),
+    );
+  });
+
+  it('should refuse to start an algo order on the read-only account', async () => {
+    await expect(
+      service.startAlgoOrder({
+        userId: 'user1',
+        clientId: 'client1',
+        exchange: 'binance',
+        accountLabel: 'read-only',
+        symbol: 'BTC/USDT',
+        side: 'buy',
+        amount: 10,
+        algorithm: 'twap',
+        durationSeconds: 100,
+        sliceIntervalSeconds: 10,
+      }),
+    ).rejects.toThrow(
+      "Algo orders trade, they can't run on the read-only account.",
+    );
+    expect(algoOrderRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,536 @@
+/**
+ * AlgoOrderService
+ *
+ * This service executes large parent orders with execution algorithms, slicing them into child orders over a time window
+ * so they don't move the market. Parent and child orders are persisted, running parent orders are resumed on boot.
+ *
+ * Dependencies:
+ * - TradeService: Service for placing the child orders.
+ * - ExchangeInitService: Service for the exchange instances market data is read from.
+ * - Repositories: Injected repositories for managing AlgoOrder and AlgoChildOrder entities.
+ * - Helpers: executionAlgo for the TWAP, VWAP and percentage-of-volume schedules.
+ *
+ * Methods:
+ *
+ * - onApplicationBootstrap(): Resumes the parent orders that were running when the service last shut down.
+ *
+ * - startAlgoOrder(startAlgoOrderDto: StartAlgoOrderDto): Validates and persists a parent order, then starts slicing it.
+ *
+ * - getAlgoOrder(id: string): Returns a parent order with its child orders and fill progress.
+ *
+ * - getAlgoOrdersByUser(userId: string): Returns the parent orders of a user.
+ *
+ * - cancelAlgoOrder(id: string): Stops slicing a parent order and cancels its open child orders once the slice in flight is done.
+ *
+ * - processAlgoOrder(id: string): Refreshes the child orders of a parent order and places the next slice.
+ *
+ * Notes:
+ * - TWAP and VWAP catch up with their schedule on every slice, percentage-of-volume trades a share of the market volume since the last slice.
+ * - Child orders are limit orders at the limit price when one is set, market orders otherwise. No slice is placed while the market is past the limit.
+ * - Market data is read and child orders are placed on the account of the accountLabel of the parent order, which can't be the read-only one.
+ * - A parent order that is not filled one slice after its end time expires.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import * as ccxt from 'ccxt';
+import { Repository } from 'typeorm';
+import { InjectRepository } from '@nestjs/typeorm';
+import { TradeService } from './trade.service';
+import { StartAlgoOrderDto } from './trade.dto';
+import { CustomLogger } from '../logger/logger.service';
+import {
+  ExchangeInitService,
+  READ_ONLY_ACCOUNT_LABEL,
+} from 'src/modules/exchangeInit/exchangeInit.service';
+import {
+  AlgoChildOrder,
+  AlgoOrder,
+} from 'src/common/entities/algo-order.entity';
+import { AlgoOrderProgress } from 'src/common/types/trade/algo';
+import {
+  calculatePovSliceAmount,
+  calculateScheduledFraction,
+  calculateScheduledSliceAmount,
+  isPriceWithinLimit,
+} from 'src/common/helpers/trade/executionAlgo';
+
+@Injectable()
+export class AlgoOrderService implements OnApplicationBootstrap {
+  private readonly logger = new CustomLogger(AlgoOrderService.name);
+  private timers = new Map<string, NodeJS.Timeout>();
+  private processing = new Map<string, Promise<void>>(); // Slice in flight of each parent order
+
+  constructor(
+    private tradeService: TradeService,
+    private exchangeInitService: ExchangeInitService,
+    @InjectRepository(AlgoOrder)
+    private algoOrderRepository: Repository<AlgoOrder>,
+    @InjectRepository(AlgoChildOrder)
+    private algoChildOrderRepository: Repository<AlgoChildOrder>,
+  ) {}
+
+  onApplicationBootstrap() {
+    // Don't block the boot, exchanges are still being initialized at this point
+    this.resumeAlgoOrders().catch((error) =>
+      this.logger.error(`Failed to resume algo orders: ${error.message}`),
+    );
+  }
+
+  async resumeAlgoOrders() {
+    await this.exchangeInitService.waitForInitialization();
+    const runningOrders = await this.algoOrderRepository.find({
+      where: { status: 'running' },
+    });
+    for (const algoOrder of runningOrders) {
+      this.logger.log(
+        `Resuming ${algoOrder.algorithm} order ${algoOrder.id}, ${algoOrder.filledAmount} of ${algoOrder.totalAmount} filled`,
+      );
+      this.schedule(algoOrder);
+    }
+  }
+
+  async startAlgoOrder(
+    startAlgoOrderDto: StartAlgoOrderDto,
+  ): Promise<AlgoOrder> {
+    const {
+      userId,
+      clientId,
+      exchange: exchangeName,
+      accountLabel = 'default',
+      symbol,
+      side,
+      amount,
+      algorithm,
+      durationSeconds,
+      sliceIntervalSeconds,
+      limitPrice,
+      participationRate,
+      volumeProfile,
+      startTime,
+    } = startAlgoOrderDto;
+
+    if (
+      !symbol ||
+      !amount ||
+      amount <= 0 ||
+      (side !== 'buy' && side !== 'sell')
+    ) {
+      throw new BadRequestException(
+        'Missing required parameters for algo order.',
+      );
+    }
+    if (!['twap', 'vwap', 'pov'].includes(algorithm)) {
+      throw new BadRequestException(
+        `Unknown execution algorithm: ${algorithm}`,
+      );
+    }
+    if (
+      !durationSeconds ||
+      !sliceIntervalSeconds ||
+      sliceIntervalSeconds > durationSeconds
+    ) {
+      throw new BadRequestException(
+        'The slice interval must be positive and shorter than the duration.',
+      );
+    }
+    if (
+      algorithm === 'pov' &&
+      !(participationRate > 0 && participationRate <= 1)
+    ) {
+      throw new BadRequestException(
+        'Percentage of volume orders need a participation rate between 0 and 1.',
+      );
+    }
+    if (accountLabel === READ_ONLY_ACCOUNT_LABEL) {
+      throw new BadRequestException(
+        `Algo orders trade, they can't run on the ${accountLabel} account.`,
+      );
+    }
+    const exchange = this.exchangeInitService.getExchange(
+      exchangeName,
+      accountLabel,
+    );
+    if (!exchange) {
+      throw new BadRequestException(
+        `Exchange ${exchangeName} is not configured.`,
+      );
+    }
+
+    const start = startTime ? new Date(startTime) : new Date();
+    const durationMs = durationSeconds * 1000;
+    const algoOrder = this.algoOrderRepository.create({
+      userId,
+      clientId,
+      exchange: exchangeName,
+      accountLabel,
+      symbol,
+      side,
+      algorithm,
+      totalAmount: amount,
+      filledAmount: 0,
+      limitPrice,
+      startTime: start,
+      endTime: new Date(start.getTime() + durationMs),
+      sliceIntervalSeconds,
+      participationRate,
+      volumeProfile:
+        algorithm === 'vwap'
+          ? volumeProfile ||
+            (await this.fetchVolumeProfile(exchange, symbol, start, durationMs))
+          : null,
+      status: 'running',
+    });
+    await this.algoOrderRepository.save(algoOrder);
+
+    this.logger.log(
+      `Started ${algorithm} order ${
+        algoOrder.id
+      }: ${side} ${amount} ${symbol} on ${exchangeName} ${accountLabel} until ${algoOrder.endTime.toISOString()}`,
+    );
+    this.schedule(algoOrder);
+    return algoOrder;
+  }
+
+  async getAlgoOrder(id: string) {
+    const algoOrder = await this.algoOrderRepository.findOne({ where: { id } });
+    if (!algoOrder) {
+      throw new NotFoundException(`Algo order ${id} not found.`);
+    }
+    const childOrders = await this.algoChildOrderRepository.find({
+      where: { parentId: id },
+      order: { createdAt: 'ASC' },
+    });
+    return {
+      ...algoOrder,
+      progress: this.getProgress(algoOrder, childOrders.length),
+      childOrders,
+    };
+  }
+
+  async getAlgoOrdersByUser(userId: string): Promise<AlgoOrder[]> {
+    return await this.algoOrderRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async cancelAlgoOrder(id: string): Promise<AlgoOrder> {
+    let algoOrder = await this.algoOrderRepository.findOne({ where: { id } });
+    if (!algoOrder) {
+      throw new NotFoundException(`Algo order ${id} not found.`);
+    }
+    if (algoOrder.status === 'running' && this.processing.has(id)) {
+      // A slice in flight could place a child order after the child orders are settled
+      this.stopTimer(id);
+      await this.processing.get(id);
+      algoOrder = await this.algoOrderRepository.findOne({ where: { id } });
+    }
+    if (algoOrder.status !== 'running') {
+      throw new BadRequestException(
+        `Algo order ${id} is already ${algoOrder.status}.`,
+      );
+    }
+    this.stopTimer(id);
+    await this.finishAlgoOrder(algoOrder, 'canceled');
+    return algoOrder;
+  }
+
+  async processAlgoOrder(id: string) {
+    if (this.processing.has(id)) {
+      return;
+    }
+    const slice = this.processNextSlice(id).finally(() =>
+      this.processing.delete(id),
+    );
+    this.processing.set(id, slice);
+    await slice;
+  }
+
+  private async processNextSlice(id: string) {
+    try {
+      const algoOrder = await this.algoOrderRepository.findOne({
+        where: { id },
+      });
+      if (!algoOrder || algoOrder.status !== 'running') {
+        this.stopTimer(id);
+        return;
+      }
+      await this.processSlice(algoOrder);
+    } catch (error) {
+      this.logger.error(`Error processing algo order ${id}: ${error.message}`);
+    }
+  }
+
+  private async processSlice(algoOrder: AlgoOrder) {
+    const now = Date.now();
+    if (now < algoOrder.startTime.getTime()) {
+      return;
+    }
+    const exchange = this.exchangeInitService.getExchange(
+      algoOrder.exchange,
+      algoOrder.accountLabel,
+    );
+
+    // Child orders get one slice to fill, what is left of them is re-sliced
+    await this.settleChildOrders(algoOrder, exchange, true);
+    if (algoOrder.filledAmount >= algoOrder.totalAmount * (1 - 1e-9)) {
+      this.stopTimer(algoOrder.id);
+      await this.finishAlgoOrder(algoOrder, 'completed');
+      return;
+    }
+    const sliceIntervalMs = algoOrder.sliceIntervalSeconds * 1000;
+    if (now >= algoOrder.endTime.getTime() + sliceIntervalMs) {
+      this.stopTimer(algoOrder.id);
+      await this.finishAlgoOrder(algoOrder, 'expired');
+      return;
+    }
+
+    const remainingAmount = algoOrder.totalAmount - algoOrder.filledAmount;
+    let sliceAmount: number;
+    if (algoOrder.algorithm === 'pov') {
+      const since = (algoOrder.lastSliceAt || algoOrder.startTime).getTime();
+      const trades = await exchange.fetchTrades(algoOrder.symbol, since);
+      const marketVolume = trades.reduce(
+        (sum, trade) => sum + (trade.amount || 0),
+        0,
+      );
+      sliceAmount = calculatePovSliceAmount(
+        marketVolume,
+        algoOrder.participationRate,
+        remainingAmount,
+      );
+    } else {
+      sliceAmount = calculateScheduledSliceAmount(
+        algoOrder.totalAmount,
+        calculateScheduledFraction(
+          algoOrder.algorithm,
+          algoOrder.startTime.getTime(),
+          algoOrder.endTime.getTime(),
+          now,
+          sliceIntervalMs,
+          algoOrder.volumeProfile,
+        ),
+        algoOrder.filledAmount,
+      );
+    }
+    algoOrder.lastSliceAt = new Date(now);
+
+    // Slices under the exchange minimum wait until enough is behind schedule, unless they are all that is left
+    const minAmount = exchange.markets?.[algoOrder.symbol]?.limits?.amount?.min;
+    if (
+      sliceAmount <= 0 ||
+      (minAmount && sliceAmount < minAmount && sliceAmount < remainingAmount)
+    ) {
+      await this.saveProgress(algoOrder);
+      return;
+    }
+
+    const side = algoOrder.side as 'buy' | 'sell';
+    const ticker = await exchange.fetchTicker(algoOrder.symbol);
+    const marketPrice =
+      (side === 'buy' ? ticker.ask : ticker.bid) || ticker.last;
+    if (!isPriceWithinLimit(side, marketPrice, algoOrder.limitPrice)) {
+      this.logger.log(
+        `Algo order ${algoOrder.id}: market price ${marketPrice} is past the limit ${algoOrder.limitPrice}, skipping the slice`,
+      );
+      await this.saveProgress(algoOrder);
+      return;
+    }
+
+    try {
+      const tradeParams = {
+        userId: algoOrder.userId,
+        clientId: algoOrder.clientId,
+        exchange: algoOrder.exchange,
+        accountLabel: algoOrder.accountLabel,
+        symbol: algoOrder.symbol,
+        side,
+        amount: sliceAmount,
+      };
+      const order = algoOrder.limitPrice
+        ? await this.tradeService.executeLimitTrade({
+            ...tradeParams,
+            price: algoOrder.limitPrice,
+          })
+        : await this.tradeService.executeMarketTrade(tradeParams);
+      await this.algoChildOrderRepository.save(
+        this.algoChildOrderRepository.create({
+          parentId: algoOrder.id,
+          orderId: order.id,
+          type: algoOrder.limitPrice ? 'limit' : 'market',
+          amount: sliceAmount,
+          filled: order.filled || 0,
+          price: order.average || order.price || algoOrder.limitPrice,
+          status: order.status === 'closed' ? 'closed' : 'open',
+        }),
+      );
+      algoOrder.error = null;
+    } catch (error) {
+      // Kept running, the amount is picked up by the next slices
+      this.logger.error(
+        `Algo order ${algoOrder.id}: failed to place a child order of ${sliceAmount}: ${error.message}`,
+      );
+      algoOrder.error = error.message;
+    }
+
+    await this.settleChildOrders(algoOrder, exchange, false);
+    if (algoOrder.filledAmount >= algoOrder.totalAmount * (1 - 1e-9)) {
+      this.stopTimer(algoOrder.id);
+      await this.finishAlgoOrder(algoOrder, 'completed');
+      return;
+    }
+    await this.saveProgress(algoOrder);
+  }
+
+  // Only touches a parent order that is still running, so a slice in flight can't undo a cancel
+  private async saveProgress(algoOrder: AlgoOrder) {
+    const { id, filledAmount, averagePrice, lastSliceAt, error } = algoOrder;
+    await this.algoOrderRepository.update(
+      { id, status: 'running' },
+      { filledAmount, averagePrice, lastSliceAt, error },
+    );
+  }
+
+  // Refreshes the fills of the open child orders, optionally canceling them, and rolls them up into the parent order
+  private async settleChildOrders(
+    algoOrder: AlgoOrder,
+    exchange: ccxt.Exchange,
+    cancelOpenOrders: boolean,
+  ) {
+    const childOrders = await this.algoChildOrderRepository.find({
+      where: { parentId: algoOrder.id },
+    });
+    for (const childOrder of childOrders) {
+      if (childOrder.status !== 'open') {
+        continue;
+      }
+      try {
+        if (cancelOpenOrders) {
+          try {
+            await exchange.cancelOrder(childOrder.orderId, algoOrder.symbol);
+          } catch (error) {
+            // Already filled or canceled, the fetch below tells which
+          }
+        }
+        const order = await exchange.fetchOrder(
+          childOrder.orderId,
+          algoOrder.symbol,
+        );
+        childOrder.filled = order.filled || 0;
+        childOrder.price = order.average || order.price || childOrder.price;
+        if (order.status !== 'open') {
+          childOrder.status = order.status === 'closed' ? 'closed' : 'canceled';
+        }
+        await this.algoChildOrderRepository.save(childOrder);
+      } catch (error) {
+        this.logger.error(
+          `Failed to refresh child order ${childOrder.orderId} of algo order ${algoOrder.id}: ${error.message}`,
+        );
+      }
+    }
+
+    const filledAmount = childOrders.reduce(
+      (sum, childOrder) => sum + childOrder.filled,
+      0,
+    );
+    const filledValue = childOrders.reduce(
+      (sum, childOrder) => sum + childOrder.filled * (childOrder.price || 0),
+      0,
+    );
+    algoOrder.filledAmount = filledAmount;
+    algoOrder.averagePrice =
+      filledAmount > 0 ? filledValue / filledAmount : null;
+  }
+
+  private async finishAlgoOrder(
+    algoOrder: AlgoOrder,
+    status: 'completed' | 'canceled' | 'expired',
+  ) {
+    if (status !== 'completed') {
+      const exchange = this.exchangeInitService.getExchange(
+        algoOrder.exchange,
+        algoOrder.accountLabel,
+      );
+      await this.settleChildOrders(algoOrder, exchange, true);
+    }
+    algoOrder.status = status;
+    await this.algoOrderRepository.save(algoOrder);
+    this.logger.log(
+      `Algo order ${algoOrder.id} ${status}: ${algoOrder.filledAmount} of ${algoOrder.totalAmount} ${algoOrder.symbol} filled at ${algoOrder.averagePrice}`,
+    );
+  }
+
+  private getProgress(
+    algoOrder: AlgoOrder,
+    childOrders: number,
+  ): AlgoOrderProgress {
+    const { totalAmount, filledAmount } = algoOrder;
+    return {
+      filledAmount,
+      remainingAmount: Math.max(0, totalAmount - filledAmount),
+      averagePrice: algoOrder.averagePrice,
+      progress: filledAmount / totalAmount,
+      scheduledProgress:
+        algoOrder.algorithm === 'pov'
+          ? null
+          : calculateScheduledFraction(
+              algoOrder.algorithm,
+              algoOrder.startTime.getTime(),
+              algoOrder.endTime.getTime(),
+              Date.now(),
+              0,
+              algoOrder.volumeProfile,
+            ),
+      childOrders,
+    };
+  }
+
+  // Yesterday's volume over the same time of day, in 5 minute buckets. An empty profile falls back to the TWAP schedule
+  private async fetchVolumeProfile(
+    exchange: ccxt.Exchange,
+    symbol: string,
+    startTime: Date,
+    durationMs: number,
+  ): Promise<number[]> {
+    const bucketMs = 5 * 60 * 1000;
+    try {
+      const candles = await exchange.fetchOHLCV(
+        symbol,
+        '5m',
+        startTime.getTime() - 24 * 60 * 60 * 1000,
+        Math.max(1, Math.ceil(durationMs / bucketMs)),
+      );
+      return candles.map((candle) => candle[5]);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to fetch the volume profile of ${symbol} on ${exchange.id}, falling back to TWAP: ${error.message}`,
+      );
+      return [];
+    }
+  }
+
+  private schedule(algoOrder: AlgoOrder) {
+    if (this.timers.has(algoOrder.id)) {
+      return;
+    }
+    const intervalId = setInterval(
+      () => this.processAlgoOrder(algoOrder.id),
+      algoOrder.sliceIntervalSeconds * 1000,
+    );
+    this.timers.set(algoOrder.id, intervalId);
+    this.processAlgoOrder(algoOrder.id);
+  }
+
+  private stopTimer(id: string) {
+    const intervalId = this.timers.get(id);
+    if (intervalId) {
+      clearInterval(intervalId);
+      this.timers.delete(id);
+    }
+  }
+}
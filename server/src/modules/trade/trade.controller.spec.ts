@@ -1,11 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { TradeController } from './trade.controller';
 import { TradeService } from './trade.service';
-import { MarketTradeDto, LimitTradeDto } from './trade.dto';
+import { MarketTradeDto, LimitTradeDto, StartAlgoOrderDto } from './trade.dto';
+import { AlgoOrderService } from './algo-order.service';
 
 describe('TradeController', () => {
   let controller: TradeController;
   let mockTradeService: Partial<TradeService>;
+  let mockAlgoOrderService: Partial<AlgoOrderService>;
 
   beforeEach(async () => {
     mockTradeService = {
@@ -13,9 +15,17 @@ describe('TradeController', () => {
       executeLimitTrade: jest.fn(),
     };
 
+    mockAlgoOrderService = {
+      startAlgoOrder: jest.fn(),
+      cancelAlgoOrder: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       controllers: [TradeController],
-      providers: [{ provide: TradeService, useValue: mockTradeService }],
+      providers: [
+        { provide: TradeService, useValue: mockTradeService },
+        { provide: AlgoOrderService, useValue: mockAlgoOrderService },
+      ],
     }).compile();
 
     controller = module.get<TradeController>(TradeController);
@@ -51,4 +61,25 @@ describe('TradeController', () => {
     await controller.executeLimitTrade(dto);
     expect(mockTradeService.executeLimitTrade).toHaveBeenCalledWith(dto);
   });
+
+  it('should start an algo order', async () => {
+    const dto: StartAlgoOrderDto = {
+      userId: '123',
+      clientId: 'client1',
+      exchange: 'binance',
+      symbol: 'BTC/USD',
+      side: 'buy',
+      amount: 10,
+      algorithm: 'twap',
+      durationSeconds: 3600,
+      sliceIntervalSeconds: 60,
+    };
+    await controller.startAlgoOrder(dto);
+    expect(mockAlgoOrderService.startAlgoOrder).toHaveBeenCalledWith(dto);
+  });
+
+  it('should cancel an algo order', async () => {
+    await controller.cancelAlgoOrder('algo1');
+    expect(mockAlgoOrderService.cancelAlgoOrder).toHaveBeenCalledWith('algo1');
+  });
 });
@@ -1,28 +1,35 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
   BadRequestException,
   HttpCode,
   HttpStatus,
   Param,
+  Query,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBadRequestResponse,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { TradeService } from './trade.service';
-import { MarketTradeDto, LimitTradeDto } from './trade.dto';
+import { MarketTradeDto, LimitTradeDto, StartAlgoOrderDto } from './trade.dto';
 import { CustomLogger } from '../logger/logger.service';
+import { AlgoOrderService } from './algo-order.service';
 
 @ApiTags('trade')
 @Controller('trade')
 export class TradeController {
   private readonly logger = new CustomLogger(TradeController.name);
 
-  constructor(private readonly tradeService: TradeService) {}
+  constructor(
+    private readonly tradeService: TradeService,
+    private readonly algoOrderService: AlgoOrderService,
+  ) {}
 
   @Post('/market')
   @ApiOperation({ summary: 'Execute a market trade' })
@@ -75,6 +82,45 @@ export class TradeController {
     }
   }
 
+  @Post('/algo')
+  @ApiOperation({
+    summary: 'Start a TWAP, VWAP or percentage-of-volume parent order',
+  })
+  @ApiResponse({ status: 200, description: 'Parent order started.' })
+  @ApiBadRequestResponse({ description: 'Invalid algo order parameters.' })
+  async startAlgoOrder(@Body() startAlgoOrderDto: StartAlgoOrderDto) {
+    return this.algoOrderService.startAlgoOrder(startAlgoOrderDto);
+  }
+
+  @Get('/algo')
+  @ApiOperation({ summary: 'Get the parent orders of a user' })
+  @ApiQuery({ name: 'userId', type: String, description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Parent orders, latest first.' })
+  async getAlgoOrdersByUser(@Query('userId') userId: string) {
+    return this.algoOrderService.getAlgoOrdersByUser(userId);
+  }
+
+  @Get('/algo/:id')
+  @ApiOperation({
+    summary: 'Get a parent order with its child orders and fill progress',
+  })
+  @ApiResponse({ status: 200, description: 'Parent order and progress.' })
+  @ApiResponse({ status: 404, description: 'Parent order not found.' })
+  async getAlgoOrder(@Param('id') id: string) {
+    return this.algoOrderService.getAlgoOrder(id);
+  }
+
+  @Post('/algo/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Cancel a parent order and its open child orders',
+  })
+  @ApiResponse({ status: 200, description: 'Parent order canceled.' })
+  @ApiResponse({ status: 404, description: 'Parent order not found.' })
+  async cancelAlgoOrder(@Param('id') id: string) {
+    return this.algoOrderService.cancelAlgoOrder(id);
+  }
+
   @Post('/cancel/:orderId/:symbol')
   @HttpCode(HttpStatus.OK)
   async cancelOrder(
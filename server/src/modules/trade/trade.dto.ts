@@ -1,4 +1,5 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AlgoOrderType } from 'src/common/types/trade/algo';
 
 export class MarketTradeDto {
   @ApiProperty({ description: 'Identifier for the sub-user' })
@@ -10,6 +11,13 @@ export class MarketTradeDto {
   @ApiProperty({ description: 'Exchange' })
   exchange: string;
 
+  @ApiPropertyOptional({
+    description: 'Label of the exchange account to trade on',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
   @ApiProperty({ description: 'Symbol for the trade (e.g., BTC/USD)' })
   symbol: string;
 
@@ -21,6 +29,12 @@ export class MarketTradeDto {
 
   @ApiProperty({ description: 'Amount to trade' })
   amount: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Client order id to place the order with, lets strategies tell their orders apart',
+  })
+  clientOrderId?: string;
 }
 
 export class LimitTradeDto {
@@ -33,6 +47,13 @@ export class LimitTradeDto {
   @ApiProperty({ description: 'Exchange' })
   exchange: string;
 
+  @ApiPropertyOptional({
+    description: 'Label of the exchange account to trade on',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
   @ApiProperty({ description: 'Symbol for the trade (e.g., BTC/USD)' })
   symbol: string;
 
@@ -47,4 +68,84 @@ export class LimitTradeDto {
 
   @ApiProperty({ description: 'Price at which the trade should be executed' })
   price: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Client order id to place the order with, lets strategies tell their orders apart',
+  })
+  clientOrderId?: string;
+}
+
+export class StartAlgoOrderDto {
+  @ApiProperty({ description: 'Identifier for the sub-user' })
+  userId: string;
+
+  @ApiProperty({ description: 'Identifier for the client' })
+  clientId: string;
+
+  @ApiProperty({ description: 'Exchange' })
+  exchange: string;
+
+  @ApiPropertyOptional({
+    description: 'Label of the exchange account to place the child orders on',
+    example: 'account2',
+    default: 'default',
+  })
+  accountLabel?: string;
+
+  @ApiProperty({ description: 'Symbol for the trade (e.g., BTC/USD)' })
+  symbol: string;
+
+  @ApiProperty({
+    description: 'Side of the trade (buy or sell)',
+    enum: ['buy', 'sell'],
+  })
+  side: string;
+
+  @ApiProperty({ description: 'Total amount of the parent order' })
+  amount: number;
+
+  @ApiProperty({
+    description:
+      'Execution algorithm (twap, vwap by volume profile, pov for percentage of volume)',
+    enum: ['twap', 'vwap', 'pov'],
+  })
+  algorithm: AlgoOrderType;
+
+  @ApiProperty({
+    description: 'Time window of the order in seconds, the maximum for pov',
+    example: 3600,
+  })
+  durationSeconds: number;
+
+  @ApiProperty({
+    description: 'Time between child orders in seconds',
+    example: 60,
+  })
+  sliceIntervalSeconds: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Worst price child orders may execute at, they are placed as limit orders at this price',
+  })
+  limitPrice?: number;
+
+  @ApiPropertyOptional({
+    description: 'Share of the market volume to trade, 0 to 1 (pov)',
+    example: 0.1,
+  })
+  participationRate?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Relative volume of equal buckets of the window (vwap), yesterday's volume over the same time when omitted",
+    example: [3, 2, 1, 2],
+  })
+  volumeProfile?: number[];
+
+  @ApiPropertyOptional({
+    description: 'When slicing starts, now when omitted',
+    example: '2024-11-28T12:00:00Z',
+  })
+  startTime?: string;
 }
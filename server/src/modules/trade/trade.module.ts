@@ -4,12 +4,26 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { TradeController } from './trade.controller';
 import { TradeRepository } from './trade.repository';
 import { Trade } from 'src/common/entities/trade.entity';
+import {
+  AlgoChildOrder,
+  AlgoOrder,
+} from 'src/common/entities/algo-order.entity';
 import { ExchangeInitService } from '../exchangeInit/exchangeInit.service';
+import { ExchangeInitModule } from '../exchangeInit/exchangeInit.module';
+import { AlgoOrderService } from './algo-order.service';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Trade])],
+  imports: [
+    TypeOrmModule.forFeature([Trade, AlgoOrder, AlgoChildOrder]),
+    ExchangeInitModule,
+  ],
   controllers: [TradeController],
-  providers: [TradeService, TradeRepository, ExchangeInitService],
+  providers: [
+    TradeService,
+    TradeRepository,
+    ExchangeInitService,
+    AlgoOrderService,
+  ],
   exports: [TradeService, TradeRepository],
 })
 export class TradeModule {}
@@ -19,6 +19,10 @@ export class TradeRepository {
     return this.repository.find({ where: { clientId } });
   }
 
+  async findTradeByOrderId(orderId: string): Promise<Trade> {
+    return this.repository.findOne({ where: { orderId } });
+  }
+
   async createTrade(transactionData: Partial<Trade>): Promise<Trade> {
     const transaction = this.repository.create(transactionData);
     return this.repository.save(transaction);
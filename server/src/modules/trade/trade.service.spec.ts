@@ -7,6 +7,7 @@ import { MarketTradeDto, LimitTradeDto } from './trade.dto';
 import {
   BadRequestException,
   InternalServerErrorException,
+  NotFoundException,
 } from '@nestjs/common';
 import * as ccxt from 'ccxt';
 
@@ -27,6 +28,7 @@ describe('TradeService', () => {
           useValue: {
             createTrade: jest.fn(),
             updateTradeStatus: jest.fn(),
+            findTradeByOrderId: jest.fn(),
           },
         },
         {
@@ -67,12 +69,17 @@ describe('TradeService', () => {
 
       await service.executeMarketTrade(marketTradeDto);
 
-      expect(exchangeInitService.getExchange).toHaveBeenCalledWith('binance');
+      expect(exchangeInitService.getExchange).toHaveBeenCalledWith(
+        'binance',
+        undefined,
+      );
       expect(exchangeMock.createOrder).toHaveBeenCalledWith(
         'BTC/USDT',
         'market',
         'buy',
         1,
+        undefined,
+        {},
       );
       expect(tradeRepository.createTrade).toHaveBeenCalledWith({
         userId: 'user123',
@@ -84,6 +91,7 @@ describe('TradeService', () => {
         status: 'closed',
         price: 30000,
         orderId: 'order123',
+        exchange: 'binance',
       });
     });
 
@@ -146,13 +154,17 @@ describe('TradeService', () => {
 
       await service.executeLimitTrade(limitTradeDto);
 
-      expect(exchangeInitService.getExchange).toHaveBeenCalledWith('binance');
+      expect(exchangeInitService.getExchange).toHaveBeenCalledWith(
+        'binance',
+        undefined,
+      );
       expect(exchangeMock.createOrder).toHaveBeenCalledWith(
         'BTC/USDT',
         'limit',
         'buy',
         1,
         30000,
+        {},
       );
       expect(tradeRepository.createTrade).toHaveBeenCalledWith({
         userId: 'user123',
@@ -164,9 +176,52 @@ describe('TradeService', () => {
         price: 30000,
         status: 'open',
         orderId: 'order123',
+        exchange: 'binance',
       });
     });
 
+    it('should place and store a limit trade with its client order id on the account of its label', async () => {
+      const limitTradeDto: LimitTradeDto = {
+        userId: 'user123',
+        clientId: 'client123',
+        exchange: 'binance',
+        symbol: 'BTC/USDT',
+        side: 'sell',
+        amount: 1,
+        price: 30000,
+        accountLabel: 'account2',
+        clientOrderId: 'hm0123456789abcdlz8k3f1c',
+      };
+
+      exchangeInitService.getExchange = jest.fn().mockReturnValue(exchangeMock);
+      exchangeMock.createOrder = jest
+        .fn()
+        .mockResolvedValue({ id: 'order123', status: 'open', price: 30000 });
+
+      await service.executeLimitTrade(limitTradeDto);
+
+      expect(exchangeInitService.getExchange).toHaveBeenCalledWith(
+        'binance',
+        'account2',
+      );
+      expect(exchangeMock.createOrder).toHaveBeenCalledWith(
+        'BTC/USDT',
+        'limit',
+        'sell',
+        1,
+        30000,
+        { clientOrderId: 'hm0123456789abcdlz8k3f1c' },
+      );
+      expect(tradeRepository.createTrade).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderId: 'order123',
+          clientOrderId: 'hm0123456789abcdlz8k3f1c',
+          exchange: 'binance',
+          accountLabel: 'account2',
+        }),
+      );
+    });
+
     it('should throw BadRequestException if required parameters are missing', async () => {
       const limitTradeDto: LimitTradeDto = {
         userId: 'user123',
@@ -206,16 +261,24 @@ describe('TradeService', () => {
   });
 
   describe('cancelOrder', () => {
-    it('should cancel an order successfully', async () => {
+    it('should cancel an order on the account its trade was placed on', async () => {
       const orderId = 'order123';
       const symbol = 'BTC/USDT';
 
+      tradeRepository.findTradeByOrderId = jest.fn().mockResolvedValue({
+        orderId,
+        exchange: 'mexc',
+        accountLabel: 'account2',
+      });
+      exchangeInitService.getExchange = jest.fn().mockReturnValue(exchangeMock);
       exchangeMock.cancelOrder = jest.fn().mockResolvedValue({});
 
-      service['exchange'] = exchangeMock;
-
       await service.cancelOrder(orderId, symbol);
 
+      expect(exchangeInitService.getExchange).toHaveBeenCalledWith(
+        'mexc',
+        'account2',
+      );
       expect(exchangeMock.cancelOrder).toHaveBeenCalledWith(orderId, symbol);
       expect(tradeRepository.updateTradeStatus).toHaveBeenCalledWith(
         orderId,
@@ -223,16 +286,28 @@ describe('TradeService', () => {
       );
     });
 
+    it('should throw NotFoundException for an order without a trade', async () => {
+      tradeRepository.findTradeByOrderId = jest.fn().mockResolvedValue(null);
+
+      await expect(service.cancelOrder('order123', 'BTC/USDT')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
     it('should throw InternalServerErrorException if order cancellation fails', async () => {
       const orderId = 'order123';
       const symbol = 'BTC/USDT';
 
+      tradeRepository.findTradeByOrderId = jest.fn().mockResolvedValue({
+        orderId,
+        exchange: 'binance',
+        accountLabel: 'default',
+      });
+      exchangeInitService.getExchange = jest.fn().mockReturnValue(exchangeMock);
       exchangeMock.cancelOrder = jest
         .fn()
         .mockRejectedValue(new Error('Cancellation failed'));
 
-      service['exchange'] = exchangeMock;
-
       await expect(service.cancelOrder(orderId, symbol)).rejects.toThrow(
         InternalServerErrorException,
       );
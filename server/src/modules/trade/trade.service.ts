@@ -23,7 +23,12 @@
  * - executeLimitTrade(limitTradeDto: LimitTradeDto): Executes a limit trade on the specified exchange.
  *   Validates required parameters, logs the operation, and stores the trade in the repository.
  *
- * - cancelOrder(orderId: string, symbol: string): Cancels an order on the exchange and updates the trade status in the repository.
+ *   Both trades are placed with the clientOrderId of the DTO when it has one, passed through the ccxt params and stored on the trade,
+ *   on the account of the accountLabel of the DTO, the default account when it has none. The exchange and account are stored on the
+ *   trade too.
+ *
+ * - cancelOrder(orderId: string, symbol: string): Cancels an order on the exchange account its trade was placed on and updates the
+ *   trade status in the repository.
  *
  * Notes:
  * - The service uses CCXT for interacting with exchanges and handles different types of trades (market and limit).
@@ -35,6 +40,7 @@ import {
   Injectable,
   BadRequestException,
   InternalServerErrorException,
+  NotFoundException,
 } from '@nestjs/common';
 import * as ccxt from 'ccxt';
 import { TradeRepository } from './trade.repository';
@@ -44,7 +50,6 @@ import { ExchangeInitService } from 'src/modules/exchangeInit/exchangeInit.servi
 
 @Injectable()
 export class TradeService {
-  private exchange: ccxt.Exchange;
   private readonly logger = new CustomLogger(TradeService.name);
 
   constructor(
@@ -52,8 +57,14 @@ export class TradeService {
     private exchangeInitService: ExchangeInitService,
   ) {}
 
-  private getExchange(exchangeName: string): ccxt.Exchange {
-    const exchange = this.exchangeInitService.getExchange(exchangeName);
+  private getExchange(
+    exchangeName: string,
+    accountLabel?: string,
+  ): ccxt.Exchange {
+    const exchange = this.exchangeInitService.getExchange(
+      exchangeName,
+      accountLabel,
+    );
     if (!exchange) {
       this.logger.error(`Exchange: ${exchangeName} is not configured.`);
       throw new InternalServerErrorException('Exchange configuration error.');
@@ -61,8 +72,19 @@ export class TradeService {
     return exchange;
   }
 
-  async executeMarketTrade(marketTradeDto: MarketTradeDto) {
-    const { userId, clientId, exchange, symbol, side, amount } = marketTradeDto;
+  async executeMarketTrade(
+    marketTradeDto: MarketTradeDto,
+  ): Promise<ccxt.Order> {
+    const {
+      userId,
+      clientId,
+      exchange,
+      accountLabel,
+      symbol,
+      side,
+      amount,
+      clientOrderId,
+    } = marketTradeDto;
 
     if (!symbol || !side || !amount) {
       throw new BadRequestException(
@@ -70,14 +92,16 @@ export class TradeService {
       );
     }
 
-    this.exchange = this.getExchange(exchange);
+    const exchangeAccount = this.getExchange(exchange, accountLabel);
 
     try {
-      const order = await this.exchange.createOrder(
+      const order = await exchangeAccount.createOrder(
         symbol,
         'market',
         side,
         amount,
+        undefined,
+        clientOrderId ? { clientOrderId } : {},
       );
       this.logger.log(`Market trade executed`, order.toString());
       await this.tradeRepository.createTrade({
@@ -90,9 +114,12 @@ export class TradeService {
         status: order.status,
         price: order.price, // Assuming the order object has a price field
         orderId: order.id, // Assuming the order object has an id field
+        clientOrderId,
+        exchange,
+        accountLabel,
       });
 
-      // return order;
+      return order;
     } catch (error) {
       this.logger.error(`Failed to execute market trade: ${error.message}`);
       throw new InternalServerErrorException(
@@ -102,8 +129,17 @@ export class TradeService {
   }
 
   async executeLimitTrade(limitTradeDto: LimitTradeDto): Promise<ccxt.Order> {
-    const { userId, clientId, exchange, symbol, side, amount, price } =
-      limitTradeDto;
+    const {
+      userId,
+      clientId,
+      exchange,
+      accountLabel,
+      symbol,
+      side,
+      amount,
+      price,
+      clientOrderId,
+    } = limitTradeDto;
 
     if (!symbol || !side || !amount || !price) {
       throw new BadRequestException(
@@ -111,15 +147,16 @@ export class TradeService {
       );
     }
 
-    this.exchange = this.getExchange(exchange);
+    const exchangeAccount = this.getExchange(exchange, accountLabel);
 
     try {
-      const order = await this.exchange.createOrder(
+      const order = await exchangeAccount.createOrder(
         symbol,
         'limit',
         side,
         amount,
         price,
+        clientOrderId ? { clientOrderId } : {},
       );
       this.logger.log(`Limit trade executed: ${JSON.stringify(order)}`);
 
@@ -133,6 +170,9 @@ export class TradeService {
         price,
         status: order.status,
         orderId: order.id, // Assuming the order object has an id field
+        clientOrderId,
+        exchange,
+        accountLabel,
       });
 
       return order;
@@ -145,8 +185,15 @@ export class TradeService {
   }
 
   async cancelOrder(orderId: string, symbol: string): Promise<void> {
+    // Cancel on the account the order was placed on
+    const trade = await this.tradeRepository.findTradeByOrderId(orderId);
+    if (!trade?.exchange) {
+      throw new NotFoundException(`Trade of order ${orderId} not found.`);
+    }
+    const exchange = this.getExchange(trade.exchange, trade.accountLabel);
+
     try {
-      await this.exchange.cancelOrder(orderId, symbol);
+      await exchange.cancelOrder(orderId, symbol);
       // update the transaction status in database
       await this.tradeRepository.updateTradeStatus(orderId, 'cancelled');
     } catch (error) {